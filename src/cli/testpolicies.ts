@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { program } from 'commander';
+import chalk from 'chalk';
+import { formatPolicyTestReport, runPolicyFixtureFile } from '../tools/policytestharness';
+import { PolicyTestReport } from '../types/ethics';
+
+// Define the CLI
+program
+  .name('test-policies')
+  .description('IntentSim[on] Framework Guardrail Policy Test Harness')
+  .version('1.0.0')
+  .argument('<fixtures...>', 'Policy fixture files (JSON or YAML)')
+  .option('-p, --policies <paths>', 'Policy files to test instead of the ones the fixture files name (comma-separated)', (val: string) => val.split(','))
+  .option('--require-coverage', 'Fail when a policy is not triggered by any fixture', false)
+  .option('-o, --output <path>', 'Write the reports to a file as JSON')
+  .action((fixtures: string[], options: Record<string, any>) => run(fixtures, options));
+
+// Run the fixture files
+async function run(fixtures: string[], options: Record<string, any>) {
+  try {
+    console.log(chalk.blue('IntentSim[on] Framework Guardrail Policy Test Harness'));
+    console.log(chalk.blue('=====================================================\n'));
+
+    const reports: { fixtureFile: string; report: PolicyTestReport }[] = [];
+    let failed = false;
+
+    for (const fixtureFile of fixtures) {
+      const report = await runPolicyFixtureFile(fixtureFile, {
+        policyFiles: options.policies?.map((file: string) => path.resolve(file))
+      });
+      const uncovered = options.requireCoverage && report.uncovered.length > 0;
+      reports.push({ fixtureFile, report });
+
+      console.log(report.failed === 0 && !uncovered ? chalk.green(`✓ ${fixtureFile}`) : chalk.red(`✗ ${fixtureFile}`));
+      console.log(chalk.white(formatPolicyTestReport(report)));
+
+      failed = failed || report.failed > 0 || uncovered;
+    }
+
+    // Output reports to file if requested
+    if (options.output) {
+      fs.writeFileSync(options.output, JSON.stringify(reports, null, 2), 'utf8');
+      console.log(chalk.blue(`Reports saved to: ${options.output}`));
+    }
+
+    // Exit with appropriate code
+    process.exit(failed ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+program.parse(process.argv);
+
+// Usage Examples:
+// 1. Running a fixture file against the policy files it names
+//    npx test-policies policies/security.fixtures.yaml
+//
+// 2. Testing other policy files, failing when a policy has no fixture
+//    npx test-policies fixtures.yaml --policies draft-policies.yaml --require-coverage
+//
+// 3. From a vitest or jest suite
+//    import { runPolicyFixtureFile, formatPolicyTestReport } from 'src/tools/policytestharness';
+//    const report = await runPolicyFixtureFile('policies/security.fixtures.yaml');
+//    expect(report.failed, formatPolicyTestReport(report)).toBe(0);
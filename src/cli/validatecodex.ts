@@ -0,0 +1,360 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { program } from 'commander';
+import chalk from 'chalk';
+import { CodexIntegrityValidator } from '../tools/codexintegrityvalidator';
+import { formatJUnitReport, formatSarifReport } from '../tools/validationreport';
+import { parseCodex, formatCodex } from '../core/codexloader';
+import { generateCodexKeyPair } from '../core/codexsigning';
+import { BatchValidationResult } from '../types/validation';
+
+// Define the CLI
+program
+  .name('validate-codex')
+  .description('IntentSim[on] Framework Codex Integrity Validator')
+  .version('1.0.0');
+
+program
+  .command('validate', { isDefault: true })
+  .description('Validate a codex, or every codex in a directory')
+  .requiredOption('-c, --codex <path>', 'Path to the codex file or directory to validate')
+  .option('-r, --recursive', 'Include subdirectories when validating a directory', false)
+  .option('--extensions <extensions>', 'Codex file extensions for directories (comma-separated)', (val: string) => val.split(','), ['.codex', '.txt'])
+  .option('-a, --agent-vector <path>', 'Path to the agent vector file for alignment check')
+  .option('-e, --ethical-boundaries <boundaries>', 'Required ethical boundaries (comma-separated)', (val: string) => val.split(','))
+  .option('-s, --security-level <level>', 'Security level (low, medium, high)', 'medium')
+  .option('-k, --trusted-keys <path>', 'Trusted key list (JSON) for signature verification')
+  .option('--signature <path>', 'Detached signature file (defaults to <codex>.sig when present)')
+  .option('--strict', 'Enable strict mode validation', false)
+  .option('-o, --output <path>', 'Output validation results to a file')
+  .option('-f, --format <format>', 'Output file format (json, junit, sarif)', 'json')
+  .action((options: Record<string, any>) => validate(options));
+
+program
+  .command('sign')
+  .description('Sign a codex with an Ed25519 private key')
+  .requiredOption('-c, --codex <path>', 'Path to the codex file to sign')
+  .requiredOption('-k, --key <path>', 'PEM-encoded Ed25519 private key')
+  .requiredOption('--signer <id>', 'Signing key identifier, as listed in trusted key lists')
+  .option('-d, --detached', 'Write a detached signature instead of embedding it', false)
+  .option('-o, --output <path>', 'Detached signature path (defaults to <codex>.sig)')
+  .action((options: Record<string, any>) => sign(options));
+
+program
+  .command('keygen')
+  .description('Generate an Ed25519 key pair for signing codices')
+  .requiredOption('--signer <id>', 'Signing key identifier')
+  .option('--owner <name>', 'Signer identity recorded in the trusted key entry')
+  .option('-o, --out-dir <path>', 'Directory for the key files', '.')
+  .action((options: Record<string, any>) => keygen(options));
+
+program
+  .command('diff <before> <after>')
+  .description('Show structural differences between two codices')
+  .option('--json', 'Print the diff as JSON', false)
+  .option('-o, --output <path>', 'Write the diff to a file instead of printing it')
+  .action((before: string, after: string, options: Record<string, any>) => diff(before, after, options));
+
+program
+  .command('merge <base> <ours> <theirs>')
+  .description('Three-way merge of two codices derived from a common base')
+  .requiredOption('-o, --output <path>', 'Path for the merged codex')
+  .option('--json', 'Print the merge conflicts as JSON', false)
+  .action((base: string, ours: string, theirs: string, options: Record<string, any>) => merge(base, ours, theirs, options));
+
+// Run the validation
+async function validate(options: Record<string, any>) {
+  try {
+    if (!['json', 'junit', 'sarif'].includes(options.format)) {
+      throw new Error(`Unknown output format "${options.format}" (expected json, junit or sarif)`);
+    }
+    
+    console.log(chalk.blue('IntentSim[on] Framework Codex Integrity Validator'));
+    console.log(chalk.blue('=============================================\n'));
+    
+    const isDirectory = fs.existsSync(options.codex) && fs.statSync(options.codex).isDirectory();
+    console.log(chalk.white(`Validating ${isDirectory ? 'codex directory' : 'codex'}: ${options.codex}`));
+    
+    if (options.agentVector) {
+      console.log(chalk.white(`Using agent vector: ${options.agentVector}`));
+    }
+    
+    if (options.ethicalBoundaries) {
+      console.log(chalk.white(`Required ethical boundaries: ${options.ethicalBoundaries.join(', ')}`));
+    }
+    
+    if (options.trustedKeys) {
+      console.log(chalk.white(`Trusted keys: ${options.trustedKeys}`));
+    }
+    
+    console.log(chalk.white(`Security level: ${options.securityLevel}`));
+    console.log(chalk.white(`Strict mode: ${options.strict ? 'enabled' : 'disabled'}\n`));
+    
+    const validationOptions = {
+      agentVectorPath: options.agentVector,
+      requiredEthicalBoundaries: options.ethicalBoundaries,
+      strictMode: options.strict,
+      securityLevel: options.securityLevel,
+      trustedKeysPath: options.trustedKeys
+    };
+    
+    // Validate the codex or directory; a single codex is reported as a batch of one
+    let batch: BatchValidationResult;
+    
+    if (isDirectory) {
+      batch = await CodexIntegrityValidator.validateDirectory(options.codex, {
+        ...validationOptions,
+        extensions: options.extensions,
+        recursive: options.recursive
+      });
+    } else {
+      const startedAt = new Date();
+      const result = await new CodexIntegrityValidator({
+        ...validationOptions,
+        codexPath: options.codex,
+        signaturePath: options.signature
+      }).validateCodex();
+      const durationMs = Date.now() - startedAt.getTime();
+      
+      batch = {
+        valid: result.valid,
+        total: 1,
+        passed: result.valid ? 1 : 0,
+        failed: result.valid ? 0 : 1,
+        results: [{ codexPath: options.codex, result, durationMs }],
+        startedAt: startedAt.toISOString(),
+        durationMs
+      };
+    }
+    
+    // Display results
+    batch.results.forEach(({ codexPath, result }) => {
+      if (isDirectory) {
+        console.log(result.valid ? chalk.green(`\n✓ ${codexPath}`) : chalk.red(`\n✗ ${codexPath}`));
+      } else if (result.valid) {
+        console.log(chalk.green('\n✓ Codex validation passed!\n'));
+      } else {
+        console.log(chalk.red('\n✗ Codex validation failed!\n'));
+      }
+      
+      const signature = result.details?.signature;
+      if (signature?.signed) {
+        console.log(chalk.white(`Signer: ${signature.owner ? `${signature.owner} (key ${signature.signer})` : signature.signer}`));
+        console.log(chalk.white(`Signature: ${signature.valid ? 'trusted' : 'not trusted'} (${signature.mode})\n`));
+      }
+      
+      console.log(chalk.white('Validation Messages:'));
+      result.messages.forEach(message => {
+        const prefix = message.includes('failed') || message.includes('error') ? 
+          chalk.red('✗ ') : 
+          message.includes('passed') ? chalk.green('✓ ') : chalk.blue('• ');
+          
+        console.log(prefix + chalk.white(message));
+      });
+    });
+    
+    if (isDirectory) {
+      const summary = `\n${batch.passed}/${batch.total} codices passed`;
+      console.log(batch.valid ? chalk.green(summary) : chalk.red(summary));
+    }
+    
+    // Output results to file if requested
+    if (options.output) {
+      const outputData = options.format === 'junit'
+        ? formatJUnitReport(batch)
+        : options.format === 'sarif'
+          ? formatSarifReport(batch, { baseDirectory: path.dirname(path.resolve(options.output)) })
+          : JSON.stringify(isDirectory ? batch : batch.results[0].result, null, 2);
+      fs.writeFileSync(options.output, outputData, 'utf8');
+      console.log(chalk.blue(`\nResults saved to: ${options.output}`));
+    }
+    
+    // Exit with appropriate code
+    process.exit(batch.valid ? 0 : 1);
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+// Sign a codex
+async function sign(options: Record<string, any>) {
+  try {
+    const written = await CodexIntegrityValidator.signCodexFile({
+      codexPath: options.codex,
+      privateKey: fs.readFileSync(options.key, 'utf8'),
+      signer: options.signer,
+      detached: options.detached,
+      signaturePath: options.output
+    });
+    
+    console.log(chalk.green(`✓ Codex signed by ${options.signer}: ${written}`));
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+// Diff two codices
+async function diff(beforePath: string, afterPath: string, options: Record<string, any>) {
+  try {
+    const result = CodexIntegrityValidator.diffCodices(
+      parseCodex(fs.readFileSync(beforePath, 'utf8'), beforePath),
+      parseCodex(fs.readFileSync(afterPath, 'utf8'), afterPath)
+    );
+    
+    const output = options.json
+      ? JSON.stringify(result, null, 2) + '\n'
+      : CodexIntegrityValidator.formatDiffReport(result, { before: beforePath, after: afterPath });
+    
+    if (options.output) {
+      fs.writeFileSync(options.output, output, 'utf8');
+      console.log(chalk.blue(`Diff saved to: ${options.output}`));
+    } else {
+      process.stdout.write(output);
+    }
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+// Merge two codices with a common base
+async function merge(basePath: string, oursPath: string, theirsPath: string, options: Record<string, any>) {
+  try {
+    const result = CodexIntegrityValidator.mergeCodices(
+      parseCodex(fs.readFileSync(basePath, 'utf8'), basePath),
+      parseCodex(fs.readFileSync(oursPath, 'utf8'), oursPath),
+      parseCodex(fs.readFileSync(theirsPath, 'utf8'), theirsPath)
+    );
+    
+    fs.writeFileSync(options.output, formatCodex(result.codex), 'utf8');
+    
+    if (options.json) {
+      console.log(JSON.stringify({ output: options.output, clean: result.clean, conflicts: result.conflicts }, null, 2));
+    } else if (result.clean) {
+      console.log(chalk.green(`✓ Merged cleanly into ${options.output}`));
+    } else {
+      console.log(chalk.red(`✗ ${result.conflicts.length} conflict(s); our side was kept in ${options.output}:`));
+      result.conflicts.forEach(conflict => console.log(chalk.white(
+        `  ${conflict.section} ${conflict.key}: base ${JSON.stringify(conflict.base)}, ` +
+        `ours ${JSON.stringify(conflict.ours)}, theirs ${JSON.stringify(conflict.theirs)}`
+      )));
+    }
+    
+    process.exit(result.clean ? 0 : 1);
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+// Generate a signing key pair and its trusted key entry
+async function keygen(options: Record<string, any>) {
+  try {
+    const { publicKey, privateKey } = generateCodexKeyPair();
+    const privatePath = path.join(options.outDir, `${options.signer}.key.pem`);
+    const publicPath = path.join(options.outDir, `${options.signer}.pub.pem`);
+    
+    fs.writeFileSync(privatePath, privateKey, { encoding: 'utf8', mode: 0o600 });
+    fs.writeFileSync(publicPath, publicKey, 'utf8');
+    
+    console.log(chalk.green(`✓ Private key: ${privatePath}`));
+    console.log(chalk.green(`✓ Public key: ${publicPath}`));
+    console.log(chalk.white('\nTrusted key entry:'));
+    console.log(JSON.stringify({
+      id: options.signer,
+      ...(options.owner ? { owner: options.owner } : {}),
+      publicKey
+    }, null, 2));
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+program.parse(process.argv);
+
+// Example codex template file: templates/codex-template.txt
+// (format defined by src/core/codexloader.ts)
+/*
+# IntentSim[on] Framework Codex
+
+## METADATA
+CODEX_VERSION: 1.0.0
+CODEX_NAME: IntentSim[on] Framework Codex
+CREATED_AT: {{TIMESTAMP}}
+AUTHOR: {{AUTHOR}}
+SIGNER: {{SIGNER_KEY_ID}}
+SIGNATURE: 
+INTEGRITY_HASH: 
+
+## FIELD DEFINITION
+FIELD_VECTOR: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8]
+FIELD_DIMENSIONS: 8
+COHERENCE_THRESHOLD: 0.75
+
+## ETHICAL BOUNDARIES
+ETHICAL_BOUNDARY_1: autonomy | Respect user agency and self-determination
+ETHICAL_BOUNDARY_2: care
+ETHICAL_BOUNDARY_3: fairness
+ETHICAL_BOUNDARY_4: transparency
+
+## SYMBOL LEXICON
+SYMBOL: harmony | strength=0.7 | patterns=harmony,peace,calm | coherence=0.04 | dissonance=-0.03
+SYMBOL: sovereignty | strength=0.6 | patterns=sovereign,independent
+
+## POLICIES
+POLICY: {"name": "harm-block", "conditions": {"harm": {"type": "threshold", "dimension": "harm", "value": 0.7}}, "actions": [{"type": "block"}]}
+
+## INTENT DEFINITIONS
+PRIMARY_INTENT: To provide intent-native intelligence capabilities
+SECONDARY_INTENT: To maintain structural sovereignty
+TERTIARY_INTENT: To facilitate human-agent collaboration
+
+## IMPLEMENTATION GUIDELINES
+1. Maintain field coherence above threshold
+2. Respect all ethical boundaries
+3. Apply intent-native processing to all operations
+4. Preserve structural sovereignty during perturbations
+*/
+
+// Usage Examples:
+// 1. Basic validation
+//    npx validate-codex --codex path/to/your/codex.txt
+//
+// 2. Validating a directory of codices for CI
+//    npx validate-codex --codex codices/ --recursive --trusted-keys trusted-keys.json --output codex-results.xml --format junit
+//    npx validate-codex --codex codices/ --output codex-results.sarif --format sarif
+//
+// 3. Complete validation with agent alignment
+//    npx validate-codex --codex path/to/your/codex.txt --agent-vector path/to/agent-vector.json --ethical-boundaries autonomy,care,fairness --security-level high
+//
+// 4. Producing the agent vector file from a running agent
+//    import { exportAgentVector, checkAgentAlignment } from 'src/core/agentvector';
+//    await exportAgentVector(agent, 'agent-vector.json', codex.field.vector.length);
+//    // or, without files:
+//    const alignment = checkAgentAlignment(agent, codex, { securityLevel: 'high' });
+//
+// 5. Signing a codex and verifying it against trusted keys
+//    npx validate-codex keygen --signer council-2025 --owner "Ethics Council" --out-dir keys
+//    npx validate-codex sign --codex path/to/your/codex.txt --key keys/council-2025.key.pem --signer council-2025
+//    npx validate-codex --codex path/to/your/codex.txt --trusted-keys trusted-keys.json --strict
+//
+//    trusted-keys.json: { "keys": [{ "id": "council-2025", "owner": "Ethics Council", "publicKey": "-----BEGIN PUBLIC KEY-----\n..." }] }
+//    Pass --detached to sign (writes path/to/your/codex.txt.sig) to leave the codex untouched.
+//
+// 6. Comparing and merging codex versions
+//    npx validate-codex diff codex-v1.txt codex-v2.txt
+//    npx validate-codex diff codex-v1.txt codex-v2.txt --json --output diff.json
+//    npx validate-codex merge codex-base.txt codex-ours.txt codex-theirs.txt --output codex-merged.txt
+//
+// 7. Generating a new codex with integrity
+//    import { CodexIntegrityValidator } from 'src/tools/codexintegrityvalidator';
+//    await CodexIntegrityValidator.generateCodex({
+//      templatePath: 'templates/codex-template.txt',
+//      outputPath: 'my-codex.txt',
+//      ethicalBoundaries: ['autonomy', 'care', 'fairness', 'transparency']
+//    });
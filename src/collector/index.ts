@@ -11,6 +11,7 @@ import * as path from 'path';
 
 // Import basic framework elements
 import { processIntent, BasicIntent } from '../example';
+import { InterferencePattern } from '../types/field';
 
 // === Types ===
 
@@ -1502,18 +1503,20 @@ export class IntentSimCollector {
  * @param coherence Field coherence value
  * @param dissonance Field dissonance value
  * @param fieldState Field state description
+ * @param interferencePatterns Interference patterns returned by field processing
  * @returns Field coherence data object
  */
 export function createFieldCoherenceData(
   coherence: number,
   dissonance: number,
-  fieldState: string = 'stable'
+  fieldState: string = 'stable',
+  interferencePatterns: InterferencePattern[] = []
 ): any {
   return {
     coherence,
     dissonance,
     fieldState,
-    interferencePatterns: [],
+    interferencePatterns,
     decayPrediction: {
       rate: 0.01,
       halfLife: '48h',
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import { IntentAgent } from './intentagent';
+import { ALIGNMENT_THRESHOLDS, cosineSimilarity } from './vectormath';
+import { Codex } from '../types/codex';
+import { AgentAlignmentResult, AgentVectorComponent, AlignmentSecurityLevel } from '../types/agent';
+
+/**
+ * Intent types always present in agent vectors, so inheritance weights keep
+ * their positions before an agent has seen every type
+ */
+export const AGENT_VECTOR_INTENT_TYPES = ['assistance', 'explanation', 'creation', 'analysis', 'reflection'];
+
+/**
+ * Reference frequency used to normalize the primary harmonic
+ */
+const BASE_FREQUENCY = 432;
+
+/**
+ * Gets the named components of an agent vector, in vector order:
+ * identity vector, traits, inheritance weights and persona harmonics.
+ * Keys within each group are sorted so agents with the same keys produce
+ * comparable vectors.
+ * @param agent - The agent
+ * @returns Vector components
+ */
+export function getAgentVectorComponents(agent: IntentAgent): AgentVectorComponent[] {
+  const profile = agent.cognitiveProfile;
+  const harmonics = agent.persona.harmonics;
+  const components: AgentVectorComponent[] = [];
+
+  const addGroup = (prefix: string, values: Record<string, number>, keys = Object.keys(values).sort()) => {
+    keys.forEach(key => components.push({ name: `${prefix}.${key}`, value: values[key] || 0 }));
+  };
+
+  addGroup('identity', profile.identityVector);
+  addGroup('trait', profile.traits);
+  addGroup('inheritance', profile.inheritanceWeights, [
+    ...AGENT_VECTOR_INTENT_TYPES,
+    ...Object.keys(profile.inheritanceWeights).filter(type => !AGENT_VECTOR_INTENT_TYPES.includes(type)).sort()
+  ]);
+
+  components.push({ name: 'harmonic.primary', value: harmonics.primaryFrequency / BASE_FREQUENCY });
+  harmonics.secondaries.forEach((frequency, index) => components.push({
+    name: `harmonic.secondary.${index + 1}`,
+    value: frequency / harmonics.primaryFrequency
+  }));
+  Object.keys(harmonics.resonantNodes).sort().forEach(node => components.push({
+    name: `harmonic.node.${node}`,
+    value: harmonics.resonantNodes[node].amplitude
+  }));
+
+  return components;
+}
+
+/**
+ * Builds a fixed-dimension vector for an agent. Components beyond the
+ * requested dimensions are folded onto earlier positions; missing positions
+ * are zero.
+ * @param agent - The agent
+ * @param dimensions - Vector dimensions (defaults to the number of components)
+ * @returns Agent vector
+ */
+export function buildAgentVector(agent: IntentAgent, dimensions?: number): number[] {
+  const components = getAgentVectorComponents(agent);
+  const size = dimensions ?? components.length;
+
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Agent vector dimensions must be a positive integer, got ${dimensions}`);
+  }
+
+  const vector = new Array<number>(size).fill(0);
+  components.forEach((component, index) => {
+    vector[index % size] += component.value;
+  });
+
+  return vector;
+}
+
+/**
+ * Writes an agent vector as a JSON array, the format read by the codex
+ * validator's agent vector option
+ * @param agent - The agent
+ * @param path - Output file path
+ * @param dimensions - Vector dimensions (defaults to the number of components)
+ * @returns The written vector
+ */
+export async function exportAgentVector(agent: IntentAgent, path: string, dimensions?: number): Promise<number[]> {
+  const vector = buildAgentVector(agent, dimensions);
+  await fs.promises.writeFile(path, JSON.stringify(vector, null, 2) + '\n', 'utf8');
+  return vector;
+}
+
+/**
+ * Checks an agent against a codex field vector. The agent vector is built
+ * with the codex vector's dimensions and compared by cosine similarity.
+ * @param agent - The agent
+ * @param codex - The codex
+ * @param options - Threshold options
+ * @returns Alignment result
+ */
+export function checkAgentAlignment(
+  agent: IntentAgent,
+  codex: Codex,
+  options: { securityLevel?: AlignmentSecurityLevel; threshold?: number } = {}
+): AgentAlignmentResult {
+  const threshold = options.threshold ?? ALIGNMENT_THRESHOLDS[options.securityLevel || 'medium'];
+  const codexVector = codex.field.vector;
+
+  if (!codexVector) {
+    return {
+      aligned: false,
+      similarity: null,
+      threshold,
+      dimensions: 0,
+      agentVector: [],
+      reason: 'Codex does not contain a field vector definition'
+    };
+  }
+
+  const agentVector = buildAgentVector(agent, codexVector.length);
+  const similarity = cosineSimilarity(codexVector, agentVector);
+  const aligned = similarity >= threshold;
+
+  return {
+    aligned,
+    similarity,
+    threshold,
+    dimensions: codexVector.length,
+    agentVector,
+    ...(aligned ? {} : {
+      reason: `Similarity (${similarity.toFixed(4)}) below threshold (${threshold})`
+    })
+  };
+}
@@ -0,0 +1,498 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  Codex,
+  CodexParseIssue,
+  CodexSymbol
+} from '../types/codex';
+import { Policy } from '../types/ethics';
+
+/**
+ * Codex section headers
+ *
+ * A codex is a line-oriented text file. `## NAME` lines open sections and
+ * interpreted sections hold `KEY: value` entries:
+ *
+ * - `METADATA`: CODEX_VERSION (required), CODEX_NAME, AUTHOR, CREATED_AT,
+ *   INTEGRITY_HASH, SIGNER, SIGNATURE and any other keys
+ * - `FIELD DEFINITION`: FIELD_VECTOR `[n, ...]`, FIELD_DIMENSIONS,
+ *   COHERENCE_THRESHOLD and any other keys
+ * - `ETHICAL BOUNDARIES`: `ETHICAL_BOUNDARY_<n>: name | description`
+ * - `SYMBOL LEXICON`: `SYMBOL: name | strength=0.7 | patterns=a,b | coherence=0.02 | dissonance=-0.01`
+ * - `POLICIES`: `POLICY: { ...policy JSON... }`
+ *
+ * Other sections are kept verbatim. Blank lines and `#` comments are ignored.
+ */
+export const CODEX_SECTIONS = {
+  metadata: 'METADATA',
+  field: 'FIELD DEFINITION',
+  ethicalBoundaries: 'ETHICAL BOUNDARIES',
+  symbols: 'SYMBOL LEXICON',
+  policies: 'POLICIES'
+} as const;
+
+/**
+ * Numeric attributes of a symbol lexicon entry
+ */
+const SYMBOL_NUMBER_ATTRIBUTES = ['strength', 'coherence', 'dissonance'] as const;
+
+/**
+ * Error raised when a codex cannot be parsed
+ */
+export class CodexParseError extends Error {
+  /**
+   * Problems found, in line order
+   */
+  public readonly issues: CodexParseIssue[];
+
+  /**
+   * Creates a new CodexParseError
+   * @param issues - Problems found
+   * @param source - Codex file path (optional)
+   */
+  constructor(issues: CodexParseIssue[], source?: string) {
+    super(
+      `Invalid codex${source ? ` ${source}` : ''}:\n` +
+      issues.map(issue => `  line ${issue.line}: ${issue.message}`).join('\n')
+    );
+    this.name = 'CodexParseError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parses codex text
+ * @param text - Codex text
+ * @param source - Codex file path used in error messages (optional)
+ * @returns Parsed codex
+ * @throws CodexParseError listing every problem with its line number
+ */
+export function parseCodex(text: string, source?: string): Codex {
+  const issues: CodexParseIssue[] = [];
+  const codex: Codex = {
+    metadata: { version: '', integrityHash: null, properties: {} },
+    field: { vector: null, properties: {} },
+    ethicalBoundaries: [],
+    symbols: [],
+    policies: [],
+    sections: {}
+  };
+
+  const seenSections = new Set<string>();
+  let section: string | null = null;
+  let metadataLine = 0;
+  let dimensionsLine = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = raw.trim();
+
+    const header = line.match(/^##\s+(.+)$/);
+    if (header) {
+      section = header[1].trim().toUpperCase();
+      if (seenSections.has(section)) {
+        issues.push({ line: lineNumber, message: `duplicate section "${section}"` });
+      }
+      seenSections.add(section);
+      if (section === CODEX_SECTIONS.metadata) metadataLine = lineNumber;
+      if (!isInterpreted(section)) codex.sections[section] = [];
+      return;
+    }
+
+    if (line === '' || line.startsWith('#')) return;
+
+    if (section === null) {
+      issues.push({ line: lineNumber, message: 'content outside of a section' });
+      return;
+    }
+
+    if (!isInterpreted(section)) {
+      codex.sections[section].push(raw);
+      return;
+    }
+
+    const entry = line.match(/^([A-Z][A-Z0-9_]*)\s*:\s*(.*)$/);
+    if (!entry) {
+      issues.push({ line: lineNumber, message: `expected "KEY: value" in section "${section}"` });
+      return;
+    }
+
+    const [, key, value] = entry;
+    const fail = (message: string) => issues.push({ line: lineNumber, message });
+
+    switch (section) {
+      case CODEX_SECTIONS.metadata:
+        codex.metadata.properties[key] = value;
+        if (key === 'CODEX_VERSION') codex.metadata.version = value;
+        if (key === 'CODEX_NAME') codex.metadata.name = value;
+        if (key === 'AUTHOR') codex.metadata.author = value;
+        if (key === 'CREATED_AT') codex.metadata.createdAt = value;
+        if (key === 'SIGNER') codex.metadata.signer = value || undefined;
+        if (key === 'SIGNATURE') {
+          if (value !== '' && !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+            fail('SIGNATURE must be base64-encoded');
+          }
+          codex.metadata.signature = value || undefined;
+        }
+        if (key === 'INTEGRITY_HASH') {
+          if (value !== '' && !/^[a-f0-9]{64}$/i.test(value)) {
+            fail('INTEGRITY_HASH must be a 64-character hex digest');
+          }
+          codex.metadata.integrityHash = value || null;
+        }
+        break;
+
+      case CODEX_SECTIONS.field:
+        codex.field.properties[key] = value;
+        if (key === 'FIELD_VECTOR') {
+          const vector = parseVector(value);
+          if (vector) codex.field.vector = vector;
+          else fail('FIELD_VECTOR must be a list of numbers like [0.1, 0.2]');
+        } else if (key === 'FIELD_DIMENSIONS') {
+          const dimensions = Number(value);
+          if (Number.isInteger(dimensions) && dimensions > 0) {
+            codex.field.dimensions = dimensions;
+            dimensionsLine = lineNumber;
+          } else {
+            fail('FIELD_DIMENSIONS must be a positive integer');
+          }
+        } else if (key === 'COHERENCE_THRESHOLD') {
+          const threshold = Number(value);
+          if (value !== '' && threshold >= 0 && threshold <= 1) codex.field.coherenceThreshold = threshold;
+          else fail('COHERENCE_THRESHOLD must be a number between 0 and 1');
+        }
+        break;
+
+      case CODEX_SECTIONS.ethicalBoundaries: {
+        if (!/^ETHICAL_BOUNDARY(_\d+)?$/.test(key)) {
+          fail(`unexpected key "${key}" (expected ETHICAL_BOUNDARY_<n>)`);
+          break;
+        }
+        const [name, ...description] = value.split('|').map(part => part.trim());
+        if (!name) {
+          fail('ethical boundary name is empty');
+        } else if (codex.ethicalBoundaries.some(b => b.name.toLowerCase() === name.toLowerCase())) {
+          fail(`duplicate ethical boundary "${name}"`);
+        } else {
+          codex.ethicalBoundaries.push({
+            id: key,
+            name,
+            ...(description.length > 0 ? { description: description.join(' | ') } : {})
+          });
+        }
+        break;
+      }
+
+      case CODEX_SECTIONS.symbols: {
+        if (key !== 'SYMBOL') {
+          fail(`unexpected key "${key}" (expected SYMBOL)`);
+          break;
+        }
+        const symbol = parseSymbol(value, fail);
+        if (symbol && codex.symbols.some(s => s.symbol === symbol.symbol)) {
+          fail(`duplicate symbol "${symbol.symbol}"`);
+        } else if (symbol) {
+          codex.symbols.push(symbol);
+        }
+        break;
+      }
+
+      case CODEX_SECTIONS.policies: {
+        if (key !== 'POLICY') {
+          fail(`unexpected key "${key}" (expected POLICY)`);
+          break;
+        }
+        const policy = parsePolicy(value, fail);
+        if (policy) codex.policies.push(policy);
+        break;
+      }
+    }
+  });
+
+  if (!seenSections.has(CODEX_SECTIONS.metadata)) {
+    issues.push({ line: 1, message: `missing required section "${CODEX_SECTIONS.metadata}"` });
+  } else if (!codex.metadata.version) {
+    issues.push({ line: metadataLine, message: 'METADATA is missing CODEX_VERSION' });
+  }
+
+  if (codex.field.vector && codex.field.dimensions !== undefined &&
+      codex.field.vector.length !== codex.field.dimensions) {
+    issues.push({
+      line: dimensionsLine,
+      message: `FIELD_DIMENSIONS is ${codex.field.dimensions} but FIELD_VECTOR has ${codex.field.vector.length} values`
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new CodexParseError(issues.sort((a, b) => a.line - b.line), source);
+  }
+
+  return codex;
+}
+
+/**
+ * Formats a codex as text that parses back to the same codex
+ * @param codex - The codex
+ * @returns Codex text
+ */
+export function formatCodex(codex: Codex): string {
+  const lines: string[] = [`# ${codex.metadata.name || 'IntentSim Codex'}`, ''];
+
+  lines.push(`## ${CODEX_SECTIONS.metadata}`);
+  const metadata: Record<string, string> = {
+    ...codex.metadata.properties,
+    CODEX_VERSION: codex.metadata.version,
+    ...(codex.metadata.name !== undefined ? { CODEX_NAME: codex.metadata.name } : {}),
+    ...(codex.metadata.author !== undefined ? { AUTHOR: codex.metadata.author } : {}),
+    ...(codex.metadata.createdAt !== undefined ? { CREATED_AT: codex.metadata.createdAt } : {}),
+    ...(codex.metadata.signer !== undefined ? { SIGNER: codex.metadata.signer } : {}),
+    ...(codex.metadata.signature !== undefined ? { SIGNATURE: codex.metadata.signature } : {}),
+    INTEGRITY_HASH: codex.metadata.integrityHash || ''
+  };
+  Object.entries(metadata).forEach(([key, value]) => lines.push(`${key}: ${value}`.trimEnd()));
+
+  lines.push('', `## ${CODEX_SECTIONS.field}`);
+  const field: Record<string, string> = { ...codex.field.properties };
+  if (codex.field.vector) field.FIELD_VECTOR = `[${codex.field.vector.join(', ')}]`;
+  else delete field.FIELD_VECTOR;
+  if (codex.field.dimensions !== undefined) field.FIELD_DIMENSIONS = String(codex.field.dimensions);
+  if (codex.field.coherenceThreshold !== undefined) {
+    field.COHERENCE_THRESHOLD = String(codex.field.coherenceThreshold);
+  }
+  Object.entries(field).forEach(([key, value]) => lines.push(`${key}: ${value}`));
+
+  lines.push('', `## ${CODEX_SECTIONS.ethicalBoundaries}`);
+  codex.ethicalBoundaries.forEach(boundary => lines.push(
+    `${boundary.id}: ${boundary.name}${boundary.description ? ` | ${boundary.description}` : ''}`
+  ));
+
+  lines.push('', `## ${CODEX_SECTIONS.symbols}`);
+  codex.symbols.forEach(symbol => {
+    const parts = [symbol.symbol, `strength=${symbol.strength}`];
+    if (symbol.patterns.length > 0) parts.push(`patterns=${symbol.patterns.join(',')}`);
+    if (symbol.coherence !== undefined) parts.push(`coherence=${symbol.coherence}`);
+    if (symbol.dissonance !== undefined) parts.push(`dissonance=${symbol.dissonance}`);
+    lines.push(`SYMBOL: ${parts.join(' | ')}`);
+  });
+
+  lines.push('', `## ${CODEX_SECTIONS.policies}`);
+  codex.policies.forEach(policy => lines.push(`POLICY: ${JSON.stringify(policy)}`));
+
+  Object.entries(codex.sections).forEach(([name, content]) => {
+    lines.push('', `## ${name}`, ...content);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Gets the canonical form of codex text covered by hashes and signatures:
+ * the INTEGRITY_HASH and SIGNATURE values are blanked so both can be
+ * embedded in the text they cover, in either order
+ * @param text - Codex text
+ * @returns Canonical text
+ */
+export function canonicalCodexText(text: string): string {
+  return setIntegrityHash(text, '').replace(/^(\s*)SIGNATURE:[^\n]*/m, '$1SIGNATURE: ');
+}
+
+/**
+ * Sets the value of the INTEGRITY_HASH line. Only a line starting with the
+ * key counts; mentions of it in comments or descriptions are left alone.
+ * @param text - Codex text
+ * @param hash - Hash value (empty to blank it)
+ * @returns Codex text with the hash set
+ */
+export function setIntegrityHash(text: string, hash: string): string {
+  return text.replace(/^(\s*)INTEGRITY_HASH:[^\n]*/m, (_line, indent: string) => `${indent}INTEGRITY_HASH: ${hash}`);
+}
+
+/**
+ * Computes the integrity hash of codex text
+ * @param text - Codex text
+ * @returns SHA-256 hex digest of the canonical text
+ */
+export function computeCodexHash(text: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(canonicalCodexText(text))
+    .digest('hex');
+}
+
+/**
+ * CodexLoader reads codex files for an intent field
+ */
+export class CodexLoader {
+  /**
+   * Default codex path (optional)
+   */
+  public readonly path: string | null;
+
+  /**
+   * Most recently loaded codex
+   */
+  private codex: Codex | null = null;
+
+  /**
+   * Creates a new CodexLoader
+   * @param config - Configuration options
+   */
+  constructor(config: { path?: string } = {}) {
+    this.path = config.path || null;
+  }
+
+  /**
+   * Loads and parses a codex file
+   * @param path - Codex file path (defaults to the configured path)
+   * @returns Parsed codex
+   */
+  async load(path?: string): Promise<Codex> {
+    const filePath = this._resolvePath(path);
+    const text = await fs.promises.readFile(filePath, 'utf8');
+    return this.parse(text, filePath);
+  }
+
+  /**
+   * Loads and parses a codex file synchronously
+   * @param path - Codex file path (defaults to the configured path)
+   * @returns Parsed codex
+   */
+  loadSync(path?: string): Codex {
+    const filePath = this._resolvePath(path);
+    return this.parse(fs.readFileSync(filePath, 'utf8'), filePath);
+  }
+
+  /**
+   * Parses codex text and remembers the result
+   * @param text - Codex text
+   * @param source - Codex file path used in error messages (optional)
+   * @returns Parsed codex
+   */
+  parse(text: string, source?: string): Codex {
+    this.codex = parseCodex(text, source);
+    return this.codex;
+  }
+
+  /**
+   * Gets the most recently loaded codex
+   * @returns Codex, or null when none has been loaded
+   */
+  getCodex(): Codex | null {
+    return this.codex;
+  }
+
+  // Private methods
+
+  /**
+   * Resolves the path to load
+   * @private
+   */
+  private _resolvePath(path?: string): string {
+    const filePath = path || this.path;
+    if (!filePath) {
+      throw new Error('No codex path given and none configured');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Checks whether a section is interpreted by the parser
+ * @param section - Section name
+ * @returns Whether the section holds KEY: value entries
+ */
+function isInterpreted(section: string): boolean {
+  return (Object.values(CODEX_SECTIONS) as string[]).includes(section);
+}
+
+/**
+ * Parses a `[n, n, ...]` vector
+ * @param value - Raw value
+ * @returns Vector, or null when malformed
+ */
+function parseVector(value: string): number[] | null {
+  const match = value.match(/^\[(.*)\]$/);
+  if (!match || match[1].trim() === '') return null;
+
+  const vector = match[1].split(',').map(part => part.trim() === '' ? NaN : Number(part));
+  return vector.every(Number.isFinite) ? vector : null;
+}
+
+/**
+ * Checks whether a symbol attribute takes a number
+ * @param key - Attribute name
+ * @returns Whether the attribute is numeric
+ */
+function isSymbolNumberAttribute(key: string): key is typeof SYMBOL_NUMBER_ATTRIBUTES[number] {
+  return (SYMBOL_NUMBER_ATTRIBUTES as readonly string[]).includes(key);
+}
+
+/**
+ * Parses a symbol lexicon entry
+ * @param value - Raw value
+ * @param fail - Issue reporter
+ * @returns Symbol, or null when malformed
+ */
+function parseSymbol(value: string, fail: (message: string) => void): CodexSymbol | null {
+  const [name, ...attributes] = value.split('|').map(part => part.trim());
+
+  if (!name || !/^[\w-]+$/.test(name)) {
+    fail('symbol name must be a single word');
+    return null;
+  }
+
+  const symbol: CodexSymbol = { symbol: name.toLowerCase(), strength: 0.5, patterns: [name.toLowerCase()] };
+  let valid = true;
+
+  attributes.forEach(attribute => {
+    const [attrKey, attrValue = ''] = attribute.split('=').map(part => part.trim());
+
+    if (attrKey === 'patterns') {
+      symbol.patterns = attrValue.split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+      return;
+    }
+
+    if (!isSymbolNumberAttribute(attrKey)) {
+      fail(`unknown symbol attribute "${attrKey}"`);
+      valid = false;
+      return;
+    }
+
+    const number = Number(attrValue);
+    if (attrValue === '' || !Number.isFinite(number) ||
+        (attrKey === 'strength' && (number < 0 || number > 1))) {
+      fail(`symbol attribute "${attrKey}" must be ${attrKey === 'strength' ? 'between 0 and 1' : 'a number'}`);
+      valid = false;
+      return;
+    }
+
+    symbol[attrKey] = number;
+  });
+
+  return valid ? symbol : null;
+}
+
+/**
+ * Parses a policy entry
+ * @param value - Raw JSON value
+ * @param fail - Issue reporter
+ * @returns Policy, or null when malformed
+ */
+function parsePolicy(value: string, fail: (message: string) => void): Policy | null {
+  let policy: any;
+
+  try {
+    policy = JSON.parse(value);
+  } catch (error) {
+    fail(`POLICY is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+    return null;
+  }
+
+  if (!policy || typeof policy.name !== 'string' || !policy.name ||
+      typeof policy.conditions !== 'object' || !Array.isArray(policy.actions)) {
+    fail('POLICY must include a name, a conditions object and an actions array');
+    return null;
+  }
+
+  return policy;
+}
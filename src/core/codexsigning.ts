@@ -0,0 +1,250 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  CodexSignatureVerification,
+  DetachedCodexSignature,
+  TrustedCodexKey
+} from '../types/codex';
+import { CODEX_SECTIONS, canonicalCodexText, computeCodexHash, parseCodex, setIntegrityHash } from './codexloader';
+
+/**
+ * Codex signing with Ed25519
+ *
+ * Signatures cover the canonical codex text (see canonicalCodexText), so an
+ * embedded SIGNATURE can live in the METADATA section it signs. SIGNER names
+ * the key and is itself covered by the signature, so the declared identity
+ * cannot be swapped without invalidating it. Detached signatures are JSON
+ * files written next to the codex (`<codex>.sig` by default).
+ */
+
+/**
+ * Generates an Ed25519 key pair for signing codices
+ * @returns PEM-encoded public (SPKI) and private (PKCS#8) keys
+ */
+export function generateCodexKeyPair(): { publicKey: string; privateKey: string } {
+  return crypto.generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+}
+
+/**
+ * Signs codex text and embeds SIGNER and SIGNATURE in its METADATA section.
+ * A non-blank INTEGRITY_HASH is refreshed since adding SIGNER changes the text.
+ * @param text - Codex text
+ * @param privateKey - PEM-encoded Ed25519 private key
+ * @param signer - Identifier of the signing key
+ * @returns Signed codex text
+ */
+export function signCodex(text: string, privateKey: string, signer: string): string {
+  const key = toEd25519Key(privateKey, 'private');
+  parseCodex(text);
+
+  let signed = setMetadataEntry(text, 'SIGNER', signer);
+  signed = setMetadataEntry(signed, 'SIGNATURE', '');
+
+  if (/^[ \t]*INTEGRITY_HASH:[ \t]*[a-f0-9]{64}/im.test(signed)) {
+    signed = setIntegrityHash(signed, computeCodexHash(signed));
+  }
+
+  const signature = crypto.sign(null, Buffer.from(canonicalCodexText(signed)), key).toString('base64');
+  return setMetadataEntry(signed, 'SIGNATURE', signature);
+}
+
+/**
+ * Creates a detached signature for codex text
+ * @param text - Codex text
+ * @param privateKey - PEM-encoded Ed25519 private key
+ * @param signer - Identifier of the signing key
+ * @returns Detached signature
+ */
+export function createDetachedSignature(
+  text: string,
+  privateKey: string,
+  signer: string
+): DetachedCodexSignature {
+  const key = toEd25519Key(privateKey, 'private');
+  parseCodex(text);
+
+  return {
+    algorithm: 'ed25519',
+    signer,
+    signature: crypto.sign(null, Buffer.from(canonicalCodexText(text)), key).toString('base64'),
+    contentHash: computeCodexHash(text),
+    signedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Verifies a codex signature against trusted keys. A detached signature takes
+ * precedence over an embedded one.
+ * @param text - Codex text
+ * @param trustedKeys - Keys trusted to sign codices
+ * @param detached - Detached signature (optional)
+ * @returns Verification outcome
+ */
+export function verifyCodexSignature(
+  text: string,
+  trustedKeys: TrustedCodexKey[],
+  detached?: DetachedCodexSignature | null
+): CodexSignatureVerification {
+  let mode: 'embedded' | 'detached';
+  let signer: string | null;
+  let signature: string;
+
+  if (detached) {
+    mode = 'detached';
+    signer = detached.signer || null;
+    signature = detached.signature;
+
+    if (detached.algorithm !== 'ed25519') {
+      return { signed: true, valid: false, mode, signer, owner: null,
+        reason: `unsupported signature algorithm "${detached.algorithm}"` };
+    }
+  } else {
+    const metadata = parseCodex(text).metadata;
+    if (!metadata.signature) {
+      return { signed: false, valid: false, mode: null, signer: metadata.signer || null, owner: null,
+        reason: 'codex is not signed' };
+    }
+    mode = 'embedded';
+    signer = metadata.signer || null;
+    signature = metadata.signature;
+  }
+
+  if (!signer) {
+    return { signed: true, valid: false, mode, signer, owner: null, reason: 'signature does not name a signer' };
+  }
+
+  const trusted = trustedKeys.find(key => key.id === signer);
+  if (!trusted) {
+    return { signed: true, valid: false, mode, signer, owner: null, reason: `signer "${signer}" is not trusted` };
+  }
+
+  const verified = crypto.verify(
+    null,
+    Buffer.from(canonicalCodexText(text)),
+    toEd25519Key(trusted.publicKey, 'public'),
+    Buffer.from(signature, 'base64')
+  );
+
+  return verified
+    ? { signed: true, valid: true, mode, signer, owner: trusted.owner || null }
+    : { signed: true, valid: false, mode, signer, owner: null,
+      reason: `signature does not match the codex content for key "${signer}"` };
+}
+
+/**
+ * Parses a trusted key list: a JSON array of keys or an object with a `keys`
+ * array, each key holding an id, a PEM public key and an optional owner
+ * @param json - Trusted key list JSON
+ * @param source - File path used in error messages (optional)
+ * @returns Trusted keys
+ * @throws Error if the list is malformed or a key is not an Ed25519 public key
+ */
+export function parseTrustedKeys(json: string, source?: string): TrustedCodexKey[] {
+  const where = source ? ` in ${source}` : '';
+  let parsed: any;
+
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid trusted key list${where}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const keys = Array.isArray(parsed) ? parsed : parsed?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error(`Invalid trusted key list${where}: expected an array of keys or { "keys": [...] }`);
+  }
+
+  const ids = new Set<string>();
+
+  return keys.map((key: any, index: number) => {
+    if (!key || typeof key.id !== 'string' || !key.id || typeof key.publicKey !== 'string') {
+      throw new Error(`Invalid trusted key list${where}: keys[${index}] needs an id and a publicKey`);
+    }
+    if (ids.has(key.id)) {
+      throw new Error(`Invalid trusted key list${where}: duplicate key id "${key.id}"`);
+    }
+    ids.add(key.id);
+
+    try {
+      toEd25519Key(key.publicKey, 'public');
+    } catch (error) {
+      throw new Error(`Invalid trusted key list${where}: keys[${index}] ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+      id: key.id,
+      publicKey: key.publicKey,
+      ...(typeof key.owner === 'string' ? { owner: key.owner } : {})
+    };
+  });
+}
+
+/**
+ * Loads a trusted key list file
+ * @param path - Trusted key list path
+ * @returns Trusted keys
+ */
+export function loadTrustedKeys(path: string): TrustedCodexKey[] {
+  return parseTrustedKeys(fs.readFileSync(path, 'utf8'), path);
+}
+
+/**
+ * Gets the default detached signature path for a codex file
+ * @param codexPath - Codex file path
+ * @returns Signature file path
+ */
+export function detachedSignaturePath(codexPath: string): string {
+  return `${codexPath}.sig`;
+}
+
+/**
+ * Creates a key object and checks it is an Ed25519 key
+ * @param pem - PEM-encoded key
+ * @param type - Key type expected
+ * @returns Key object
+ */
+function toEd25519Key(pem: string, type: 'public' | 'private'): crypto.KeyObject {
+  const key = type === 'public' ? crypto.createPublicKey(pem) : crypto.createPrivateKey(pem);
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`expected an Ed25519 ${type} key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+/**
+ * Sets a METADATA entry, replacing an existing one or appending it to the
+ * section before INTEGRITY_HASH
+ * @param text - Codex text
+ * @param key - Entry key
+ * @param value - Entry value
+ * @returns Updated codex text
+ */
+function setMetadataEntry(text: string, key: string, value: string): string {
+  const lines = text.split('\n');
+  const start = lines.findIndex(line =>
+    line.trim().toUpperCase().replace(/^##\s+/, '## ') === `## ${CODEX_SECTIONS.metadata}`);
+  let end = lines.findIndex((line, index) => index > start && /^\s*##\s+/.test(line));
+  if (end === -1) end = lines.length;
+
+  const entry = `${key}: ${value}`.trimEnd();
+  const pattern = new RegExp(`^\\s*${key}\\s*:`);
+
+  for (let i = start + 1; i < end; i++) {
+    if (pattern.test(lines[i])) {
+      lines[i] = entry;
+      return lines.join('\n');
+    }
+  }
+
+  let insertAt = lines.findIndex((line, index) => index > start && index < end && /^\s*INTEGRITY_HASH\s*:/.test(line));
+  if (insertAt === -1) {
+    insertAt = end;
+    while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+  }
+
+  lines.splice(insertAt, 0, entry);
+  return lines.join('\n');
+}
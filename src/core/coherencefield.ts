@@ -0,0 +1,334 @@
+import { Intent } from '../types/intent';
+import { FieldImpact, FieldState, CoherenceFieldState } from '../types/field';
+import { SymbolicMarker } from '../types/symbolic';
+
+/**
+ * Coherence/dissonance contribution of an intent type or symbol
+ */
+export interface CoherenceWeight {
+  /**
+   * Contribution to field coherence
+   */
+  coherence: number;
+
+  /**
+   * Contribution to field dissonance
+   */
+  dissonance: number;
+}
+
+/**
+ * CoherenceField models the coherence dynamics of an intent field.
+ * Each processed intent shifts coherence and dissonance according to its
+ * type, symbolic markers and the ethical state it was assessed under,
+ * while the field relaxes back toward its baseline at the decay rate.
+ * All stochastic behaviour is driven by a seeded generator so that a
+ * given seed and intent sequence always produce the same trajectory.
+ */
+export class CoherenceField {
+  /**
+   * Current coherence level (0-1)
+   */
+  private coherence: number;
+
+  /**
+   * Current dissonance level (0-1)
+   */
+  private dissonance: number;
+
+  /**
+   * Baseline coherence the field relaxes toward
+   */
+  private baselineCoherence: number;
+
+  /**
+   * Baseline dissonance the field relaxes toward
+   */
+  private baselineDissonance: number;
+
+  /**
+   * Fraction of the distance to baseline recovered per tick
+   */
+  public decayRate: number;
+
+  /**
+   * Amplitude of seeded fluctuation applied to each impact
+   */
+  private noiseAmplitude: number;
+
+  /**
+   * Seed for the fluctuation generator
+   */
+  public readonly seed: number;
+
+  /**
+   * Internal generator state
+   */
+  private rngState: number;
+
+  /**
+   * Number of ticks elapsed since initialization
+   */
+  private tick: number = 0;
+
+  /**
+   * Per-intent-type weights
+   */
+  private intentWeights: Map<string, CoherenceWeight>;
+
+  /**
+   * Per-symbol weights (scaled by marker strength)
+   */
+  private symbolWeights: Map<string, CoherenceWeight>;
+
+  /**
+   * Creates a new CoherenceField
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    initialCoherence?: number;
+    initialDissonance?: number;
+    decayRate?: number;
+    noiseAmplitude?: number;
+    seed?: number;
+    intentWeights?: Record<string, CoherenceWeight>;
+    symbolWeights?: Record<string, CoherenceWeight>;
+  } = {}) {
+    this.baselineCoherence = config.initialCoherence ?? 0.8;
+    this.baselineDissonance = config.initialDissonance ?? 0.2;
+    this.coherence = this.baselineCoherence;
+    this.dissonance = this.baselineDissonance;
+
+    this.decayRate = config.decayRate ?? 0.02;
+    this.noiseAmplitude = config.noiseAmplitude ?? 0.01;
+
+    // Seed defaults to a fixed value so unseeded fields are still reproducible
+    this.seed = (config.seed ?? 432) >>> 0;
+    this.rngState = this.seed;
+
+    // Maps, so intent types and symbols such as "constructor" find no inherited weight
+    this.intentWeights = new Map(Object.entries({
+      assistance: { coherence: 0.04, dissonance: -0.02 },
+      explanation: { coherence: 0.05, dissonance: -0.03 },
+      creation: { coherence: 0.06, dissonance: 0.01 },
+      analysis: { coherence: 0.04, dissonance: -0.01 },
+      general: { coherence: 0.02, dissonance: 0 },
+      conflict: { coherence: -0.05, dissonance: 0.08 },
+      ...config.intentWeights
+    }));
+
+    this.symbolWeights = new Map(Object.entries({
+      harmony: { coherence: 0.04, dissonance: -0.03 },
+      clarity: { coherence: 0.03, dissonance: -0.02 },
+      assistance: { coherence: 0.02, dissonance: -0.01 },
+      creation: { coherence: 0.03, dissonance: 0.01 },
+      analysis: { coherence: 0.02, dissonance: 0 },
+      knowledge: { coherence: 0.02, dissonance: -0.01 },
+      emotion: { coherence: -0.01, dissonance: 0.02 },
+      connection: { coherence: 0.03, dissonance: -0.01 },
+      neutral: { coherence: 0, dissonance: 0 },
+      ...config.symbolWeights
+    }));
+  }
+
+  /**
+   * Resets the field to its baseline state and rewinds the generator
+   */
+  initialize(): void {
+    this.coherence = this.baselineCoherence;
+    this.dissonance = this.baselineDissonance;
+    this.rngState = this.seed;
+    this.tick = 0;
+  }
+
+  /**
+   * Calculates and applies the impact of an intent on the field
+   * @param intent - The intent being processed
+   * @param ethicalState - Ethical state of the processing agent (optional)
+   * @param symbolicMarkers - Symbolic markers extracted from the intent (optional)
+   * @returns The field impact
+   */
+  calculateImpact(
+    intent: Intent,
+    ethicalState?: any,
+    symbolicMarkers: SymbolicMarker[] = []
+  ): FieldImpact {
+    // Advance time before applying the new impact
+    this.decay(1);
+
+    // Intent type contribution
+    const typeWeight = this.intentWeights.get(intent.type?.toLowerCase()) ||
+                       { coherence: 0.01, dissonance: 0.01 };
+    let coherencePressure = typeWeight.coherence;
+    let dissonancePressure = typeWeight.dissonance;
+
+    // Symbolic contribution, scaled by marker strength
+    symbolicMarkers.forEach(({ symbol, strength }) => {
+      const weight = this.symbolWeights.get(symbol);
+      if (weight) {
+        coherencePressure += weight.coherence * strength;
+        dissonancePressure += weight.dissonance * strength;
+      }
+    });
+
+    // Ethical contribution: harm and violations push the field toward dissonance
+    const ethicalPressure = this._ethicalPressure(ethicalState);
+    coherencePressure -= ethicalPressure * 0.1;
+    dissonancePressure += ethicalPressure * 0.15;
+
+    // Seeded fluctuation
+    coherencePressure += this._noise();
+    dissonancePressure += this._noise();
+
+    // Saturate against remaining headroom so levels stay within 0-1
+    const coherenceDelta = this._saturate(this.coherence, coherencePressure);
+    const dissonanceDelta = this._saturate(this.dissonance, dissonancePressure);
+
+    this.coherence += coherenceDelta;
+    this.dissonance += dissonanceDelta;
+
+    return {
+      coherenceDelta,
+      dissonanceDelta,
+      intentState: this._classifyIntentState(coherenceDelta, dissonanceDelta)
+    };
+  }
+
+  /**
+   * Relaxes the field toward its baseline
+   * @param ticks - Number of ticks to advance
+   * @returns The field state after decay
+   */
+  decay(ticks: number = 1): FieldState {
+    for (let i = 0; i < ticks; i++) {
+      this.coherence += (this.baselineCoherence - this.coherence) * this.decayRate;
+      this.dissonance += (this.baselineDissonance - this.dissonance) * this.decayRate;
+      this.tick++;
+    }
+
+    return this.getState();
+  }
+
+  /**
+   * Gets the current field state
+   * @returns Current coherence and dissonance
+   */
+  getState(): FieldState {
+    return {
+      coherence: this.coherence,
+      dissonance: this.dissonance
+    };
+  }
+
+  /**
+   * Exports the complete dynamic state, including generator position
+   * @returns Serializable coherence field state
+   */
+  exportState(): CoherenceFieldState {
+    return {
+      coherence: this.coherence,
+      dissonance: this.dissonance,
+      baselineCoherence: this.baselineCoherence,
+      baselineDissonance: this.baselineDissonance,
+      decayRate: this.decayRate,
+      seed: this.seed,
+      rngState: this.rngState,
+      tick: this.tick
+    };
+  }
+
+  /**
+   * Restores a previously exported dynamic state
+   * @param state - State produced by exportState
+   */
+  importState(state: CoherenceFieldState): void {
+    this.coherence = state.coherence;
+    this.dissonance = state.dissonance;
+    this.baselineCoherence = state.baselineCoherence;
+    this.baselineDissonance = state.baselineDissonance;
+    this.decayRate = state.decayRate;
+    this.rngState = state.rngState >>> 0;
+    this.tick = state.tick;
+  }
+
+  /**
+   * Adds or replaces per-symbol weights
+   * @param weights - Weights by symbol
+   */
+  setSymbolWeights(weights: Record<string, CoherenceWeight>): void {
+    Object.entries(weights).forEach(([symbol, weight]) => this.symbolWeights.set(symbol, weight));
+  }
+
+  /**
+   * Gets the number of ticks elapsed since initialization
+   * @returns Elapsed ticks
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  // Private methods
+
+  /**
+   * Derives ethical pressure from an ethical state
+   * @param ethicalState - The ethical state
+   * @returns Pressure (0-1)
+   * @private
+   */
+  private _ethicalPressure(ethicalState: any): number {
+    if (!ethicalState) return 0;
+
+    const harm = ethicalState.dimensions?.harm ?? 0;
+    const violations = Array.isArray(ethicalState.violations) ?
+      ethicalState.violations.length : 0;
+
+    return Math.min(1, harm + violations * 0.2);
+  }
+
+  /**
+   * Scales a pressure by the headroom left in its direction
+   * @param level - Current level (0-1)
+   * @param pressure - Requested change
+   * @returns Applied change
+   * @private
+   */
+  private _saturate(level: number, pressure: number): number {
+    const headroom = pressure >= 0 ? 1 - level : level;
+    return Math.max(-level, Math.min(1 - level, pressure * headroom));
+  }
+
+  /**
+   * Classifies the resulting intent state from applied deltas
+   * @param coherenceDelta - Applied coherence change
+   * @param dissonanceDelta - Applied dissonance change
+   * @returns Intent state
+   * @private
+   */
+  private _classifyIntentState(coherenceDelta: number, dissonanceDelta: number): string {
+    if (coherenceDelta > 0 && dissonanceDelta <= 0) return 'resonant';
+    if (dissonanceDelta > 0 && coherenceDelta <= 0) return 'dissonant';
+    return 'neutral';
+  }
+
+  /**
+   * Draws a symmetric fluctuation from the seeded generator
+   * @returns Fluctuation in [-noiseAmplitude, noiseAmplitude]
+   * @private
+   */
+  private _noise(): number {
+    return (this._random() * 2 - 1) * this.noiseAmplitude;
+  }
+
+  /**
+   * Mulberry32 pseudo-random generator
+   * @returns Value in [0, 1)
+   * @private
+   */
+  private _random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
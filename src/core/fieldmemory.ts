@@ -0,0 +1,384 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Intent } from '../types/intent';
+import { SymbolicMarker } from '../types/symbolic';
+import { MemoryBackend, MemoryRecord, RetrievedMemory } from '../types/memory';
+
+/**
+ * Memory backend that keeps records only for the lifetime of the process
+ */
+export class InMemoryBackend implements MemoryBackend {
+  private records: MemoryRecord[] = [];
+
+  load(): MemoryRecord[] {
+    return [...this.records];
+  }
+
+  append(record: MemoryRecord): Promise<void> {
+    this.records.push(record);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Memory backend that appends each record as a JSON line to a file.
+ * Existing lines are never rewritten; a truncated final line left by an
+ * interrupted write is skipped on load, and the next append starts on a
+ * new line after it.
+ */
+export class FileMemoryBackend implements MemoryBackend {
+  /**
+   * Path of the JSONL file
+   */
+  public readonly filePath: string;
+
+  /**
+   * Pending write chain, keeps appends in call order
+   */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Whether the file ends in a partial line that the next append must close
+   */
+  private partialTail = false;
+
+  /**
+   * Creates a new FileMemoryBackend
+   * @param filePath - Path of the JSONL file
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  load(): MemoryRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const records: MemoryRecord[] = [];
+    const text = fs.readFileSync(this.filePath, 'utf8');
+    const lines = text.split('\n');
+    this.partialTail = text.length > 0 && !text.endsWith('\n');
+
+    lines.forEach(line => {
+      if (!line.trim()) return;
+
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Partial line from an interrupted append
+      }
+    });
+
+    return records;
+  }
+
+  append(record: MemoryRecord): Promise<void> {
+    const line = `${this.partialTail ? '\n' : ''}${JSON.stringify(record)}\n`;
+    this.partialTail = false;
+
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, line, 'utf8');
+    });
+
+    // A failed append must not stall the ones queued after it
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * FieldMemory stores interaction records and retrieves past interactions
+ * by similarity to a new intent. Records are indexed by intent signature
+ * (type:subtype) and by symbolic marker, and persisted through a
+ * pluggable backend.
+ */
+export class FieldMemory {
+  /**
+   * Storage backend
+   */
+  public backend: MemoryBackend;
+
+  /**
+   * Maximum number of records kept in the working index
+   */
+  private maxRecords: number;
+
+  /**
+   * Number of records considered part of working memory
+   */
+  private workingMemorySize: number;
+
+  /**
+   * Symbolic marker extractor applied to stored and queried intents
+   */
+  private extractSymbols: (intent: Intent) => SymbolicMarker[];
+
+  /**
+   * Indexed records in insertion order
+   */
+  private records: Map<number, MemoryRecord> = new Map();
+
+  /**
+   * Signature index
+   */
+  private signatureIndex: Map<string, Set<number>> = new Map();
+
+  /**
+   * Symbol index
+   */
+  private symbolIndex: Map<string, Set<number>> = new Map();
+
+  /**
+   * Next record identifier
+   */
+  private nextId: number = 1;
+
+  /**
+   * Creates a new FieldMemory
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    backend?: MemoryBackend;
+    filePath?: string;
+    maxRecords?: number;
+    workingMemorySize?: number;
+    extractSymbols?: (intent: Intent) => SymbolicMarker[];
+  } = {}) {
+    this.backend = config.backend ||
+      (config.filePath ? new FileMemoryBackend(config.filePath) : new InMemoryBackend());
+    this.maxRecords = config.maxRecords || 1000;
+    this.workingMemorySize = config.workingMemorySize || 10;
+    this.extractSymbols = config.extractSymbols || FieldMemory.defaultSymbols;
+
+    // Rebuild the index from persisted records
+    this.backend.load().forEach(record => {
+      this._index(record);
+      this.nextId = Math.max(this.nextId, record.id + 1);
+    });
+  }
+
+  /**
+   * Stores an interaction record
+   * @param data - Interaction data; must include the processed intent
+   * @returns Resolves once the backend has persisted the record
+   */
+  store(data: { intent: Intent; [key: string]: any }): Promise<void> {
+    const { intent, ...payload } = data;
+
+    const record: MemoryRecord = {
+      id: this.nextId++,
+      timestamp: Date.now(),
+      signature: FieldMemory.signatureOf(intent),
+      symbols: this.extractSymbols(intent),
+      intent,
+      data: payload
+    };
+
+    this._index(record);
+    return this.backend.append(record);
+  }
+
+  /**
+   * Retrieves the past interactions most similar to an intent
+   * @param intent - The query intent
+   * @param limit - Maximum number of results
+   * @returns Matching records, most similar first
+   */
+  retrieve(intent: Intent, limit: number = 5): RetrievedMemory[] {
+    const signature = FieldMemory.signatureOf(intent);
+    const querySymbols = this.extractSymbols(intent);
+
+    // Gather candidates from the signature, type and symbol indexes
+    const candidates = new Set<number>(this.signatureIndex.get(signature) || []);
+    const typePrefix = `${intent.type}:`;
+
+    for (const [key, ids] of this.signatureIndex.entries()) {
+      if (key.startsWith(typePrefix)) {
+        ids.forEach(id => candidates.add(id));
+      }
+    }
+
+    querySymbols.forEach(({ symbol }) => {
+      this.symbolIndex.get(symbol)?.forEach(id => candidates.add(id));
+    });
+
+    const scored: RetrievedMemory[] = [];
+
+    candidates.forEach(id => {
+      const record = this.records.get(id)!;
+      const similarity = this._similarity(signature, intent.type, querySymbols, record);
+
+      if (similarity > 0) {
+        scored.push({ ...record, similarity });
+      }
+    });
+
+    // Most similar first, most recent first on ties
+    return scored
+      .sort((a, b) => b.similarity - a.similarity || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  /**
+   * Retrieves the most recently stored intents
+   * @param count - Number of intents to retrieve
+   * @returns Recent intents, oldest first
+   */
+  retrieveRecentIntents(count: number): Intent[] {
+    return Array.from(this.records.values())
+      .slice(-count)
+      .map(record => record.intent);
+  }
+
+  /**
+   * Summarizes the most recent interactions
+   * @returns Working memory summary
+   */
+  getWorkingMemory(): {
+    size: number;
+    recentIntents: Intent[];
+    activeSignatures: Record<string, number>;
+    dominantSymbols: { symbol: string; strength: number }[];
+  } {
+    const recent = Array.from(this.records.values()).slice(-this.workingMemorySize);
+    const activeSignatures: Record<string, number> = {};
+    const symbolStrength: Record<string, number> = {};
+
+    recent.forEach(record => {
+      activeSignatures[record.signature] = (activeSignatures[record.signature] || 0) + 1;
+
+      record.symbols.forEach(({ symbol, strength }) => {
+        symbolStrength[symbol] = (symbolStrength[symbol] || 0) + strength;
+      });
+    });
+
+    const dominantSymbols = Object.entries(symbolStrength)
+      .map(([symbol, total]) => ({ symbol, strength: total / recent.length }))
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, 5);
+
+    return {
+      size: this.records.size,
+      recentIntents: recent.map(record => record.intent),
+      activeSignatures,
+      dominantSymbols
+    };
+  }
+
+  /**
+   * Builds the signature (type:subtype) of an intent
+   * @param intent - The intent
+   * @returns Intent signature
+   */
+  static signatureOf(intent: Intent): string {
+    return `${intent.type}:${intent.subtype || 'general'}`;
+  }
+
+  /**
+   * Default symbol extractor: markers from intent metadata plus the intent type
+   * @param intent - The intent
+   * @returns Symbolic markers
+   */
+  static defaultSymbols(intent: Intent): SymbolicMarker[] {
+    const markers: SymbolicMarker[] = [...(intent.metadata?.symbolicMarkers || [])];
+
+    if (intent.type) {
+      markers.push({ symbol: intent.type.toLowerCase(), strength: 0.8 });
+    }
+
+    return markers;
+  }
+
+  // Private methods
+
+  /**
+   * Adds a record to the indexes, evicting the oldest record when full
+   * @param record - The record to index
+   * @private
+   */
+  private _index(record: MemoryRecord): void {
+    this.records.set(record.id, record);
+    this._addToIndex(this.signatureIndex, record.signature, record.id);
+    record.symbols.forEach(({ symbol }) => this._addToIndex(this.symbolIndex, symbol, record.id));
+
+    if (this.records.size > this.maxRecords) {
+      const oldest = this.records.values().next().value as MemoryRecord;
+      this._evict(oldest);
+    }
+  }
+
+  /**
+   * Removes a record from the indexes
+   * @param record - The record to evict
+   * @private
+   */
+  private _evict(record: MemoryRecord): void {
+    this.records.delete(record.id);
+    this._removeFromIndex(this.signatureIndex, record.signature, record.id);
+    record.symbols.forEach(({ symbol }) => this._removeFromIndex(this.symbolIndex, symbol, record.id));
+  }
+
+  /**
+   * Adds an id to an index bucket
+   * @private
+   */
+  private _addToIndex(index: Map<string, Set<number>>, key: string, id: number): void {
+    if (!index.has(key)) {
+      index.set(key, new Set());
+    }
+    index.get(key)!.add(id);
+  }
+
+  /**
+   * Removes an id from an index bucket
+   * @private
+   */
+  private _removeFromIndex(index: Map<string, Set<number>>, key: string, id: number): void {
+    const bucket = index.get(key);
+    if (!bucket) return;
+
+    bucket.delete(id);
+    if (bucket.size === 0) {
+      index.delete(key);
+    }
+  }
+
+  /**
+   * Scores similarity between a query and a stored record
+   * @param signature - Query signature
+   * @param type - Query intent type
+   * @param symbols - Query symbolic markers
+   * @param record - Stored record
+   * @returns Similarity (0-1)
+   * @private
+   */
+  private _similarity(
+    signature: string,
+    type: string,
+    symbols: SymbolicMarker[],
+    record: MemoryRecord
+  ): number {
+    // Signature component: exact match, or same type with a different subtype
+    const signatureScore = record.signature === signature ? 1 :
+                           record.intent.type === type ? 0.5 : 0;
+
+    // Symbolic component: strength-weighted Jaccard overlap
+    const query = new Map(symbols.map(m => [m.symbol, m.strength]));
+    const stored = new Map(record.symbols.map(m => [m.symbol, m.strength]));
+    let intersection = 0;
+    let union = 0;
+
+    new Set([...query.keys(), ...stored.keys()]).forEach(symbol => {
+      const a = query.get(symbol) || 0;
+      const b = stored.get(symbol) || 0;
+      intersection += Math.min(a, b);
+      union += Math.max(a, b);
+    });
+
+    const symbolScore = union > 0 ? intersection / union : 0;
+
+    return signatureScore * 0.5 + symbolScore * 0.5;
+  }
+}
@@ -0,0 +1,288 @@
+import { EventEmitter } from 'eventemitter3';
+import { IntentField } from './intentfield';
+import { IntentAgent } from './intentagent';
+import { Intent } from '../types/intent';
+import {
+  SimulationMode,
+  SimulationInputs,
+  SimulationAgentResult,
+  SimulationTick,
+  PairwiseInterference
+} from '../types/simulation';
+
+/**
+ * FieldSimulation orchestrates several agents operating within one
+ * shared IntentField. Agents either take turns (one agent per tick,
+ * round-robin) or act concurrently (every agent each tick), and after
+ * every tick the runner records the shared field state together with
+ * the pairwise interference between all attached agents.
+ *
+ * Emits `tick` with each timeline entry and `agent_error` when an
+ * agent fails to process its input.
+ */
+export class FieldSimulation extends EventEmitter {
+  /**
+   * Shared intent field
+   */
+  public field: IntentField;
+
+  /**
+   * Scheduling mode
+   */
+  public mode: SimulationMode;
+
+  /**
+   * Participating agents in attachment order
+   */
+  private agents: IntentAgent[] = [];
+
+  /**
+   * Fields the agents had before joining, restored when they leave
+   */
+  private ownFields: Map<string, IntentField> = new Map();
+
+  /**
+   * Recorded timeline
+   */
+  private timeline: SimulationTick[] = [];
+
+  /**
+   * Current tick
+   */
+  private tick: number = 0;
+
+  /**
+   * Maximum number of timeline entries retained
+   */
+  private maxTimelineLength: number;
+
+  /**
+   * Creates a new FieldSimulation
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    field?: IntentField;
+    fieldParams?: any;
+    fieldDecayRate?: number;
+    mode?: SimulationMode;
+    maxTimelineLength?: number;
+  } = {}) {
+    super();
+
+    this.field = config.field || new IntentField({
+      fieldParams: config.fieldParams,
+      fieldDecayRate: config.fieldDecayRate
+    }).initialize();
+    this.mode = config.mode || 'turns';
+    this.maxTimelineLength = config.maxTimelineLength || 10000;
+  }
+
+  /**
+   * Adds an agent to the simulation, attaching it to the shared field
+   * @param agent - The agent to add
+   * @returns Number of participating agents
+   */
+  addAgent(agent: IntentAgent): number {
+    if (this.agents.some(a => a.id === agent.id)) {
+      throw new Error(`Agent ${agent.id} is already part of the simulation`);
+    }
+
+    // Activate before switching fields so activation does not reset the shared field
+    if (!agent.state.active) {
+      agent.activate();
+    }
+
+    this.ownFields.set(agent.id, agent.field);
+    agent.field = this.field;
+    agent.registerCodexPolicies();
+    this.field.attachAgent(agent);
+    this.agents.push(agent);
+
+    return this.agents.length;
+  }
+
+  /**
+   * Removes an agent from the simulation, detaches it from the shared field
+   * and returns it to the field it had before joining
+   * @param agentId - The agent identifier
+   * @returns Whether the agent was removed
+   */
+  removeAgent(agentId: string): boolean {
+    const index = this.agents.findIndex(a => a.id === agentId);
+    if (index === -1) return false;
+
+    const [agent] = this.agents.splice(index, 1);
+    this.field.detachAgent(agentId);
+
+    agent.field = this.ownFields.get(agentId)!;
+    this.ownFields.delete(agentId);
+    return true;
+  }
+
+  /**
+   * Gets the participating agents
+   * @returns Agents in attachment order
+   */
+  getAgents(): IntentAgent[] {
+    return [...this.agents];
+  }
+
+  /**
+   * Advances the simulation by one tick
+   * @param inputs - Inputs for the agents acting this tick
+   * @returns The recorded timeline entry
+   */
+  async step(inputs: SimulationInputs): Promise<SimulationTick> {
+    this.tick++;
+
+    const actors = this._scheduleActors();
+    const work = actors
+      .map(agent => ({ agent, input: this._resolveInput(inputs, agent) }))
+      .filter((entry): entry is { agent: IntentAgent; input: string | Intent } =>
+        entry.input !== null && entry.input !== undefined);
+
+    let results: SimulationAgentResult[];
+
+    if (this.mode === 'concurrent') {
+      results = await Promise.all(work.map(({ agent, input }) => this._act(agent, input)));
+    } else {
+      results = [];
+      for (const { agent, input } of work) {
+        results.push(await this._act(agent, input));
+      }
+    }
+
+    // Idle ticks still let the field relax
+    if (results.length === 0) {
+      this.field.coherenceField.decay(1);
+    }
+
+    const entry: SimulationTick = {
+      tick: this.tick,
+      timestamp: Date.now(),
+      mode: this.mode,
+      field: this.field.coherenceField.getState(),
+      agents: results,
+      interference: this._pairwiseInterference()
+    };
+
+    this.timeline.push(entry);
+    if (this.timeline.length > this.maxTimelineLength) {
+      this.timeline.shift();
+    }
+
+    this.emit('tick', entry);
+    return entry;
+  }
+
+  /**
+   * Runs the simulation for a number of ticks
+   * @param inputs - Inputs for each tick
+   * @param ticks - Number of ticks to run
+   * @returns Timeline entries recorded during the run
+   */
+  async run(inputs: SimulationInputs, ticks: number): Promise<SimulationTick[]> {
+    const entries: SimulationTick[] = [];
+
+    for (let i = 0; i < ticks; i++) {
+      entries.push(await this.step(inputs));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Gets the recorded timeline
+   * @returns Timeline entries, oldest first
+   */
+  getTimeline(): SimulationTick[] {
+    return [...this.timeline];
+  }
+
+  // Private methods
+
+  /**
+   * Selects the agents acting in the current tick
+   * @returns Acting agents
+   * @private
+   */
+  private _scheduleActors(): IntentAgent[] {
+    if (this.agents.length === 0) return [];
+
+    if (this.mode === 'concurrent') {
+      return [...this.agents];
+    }
+
+    return [this.agents[(this.tick - 1) % this.agents.length]];
+  }
+
+  /**
+   * Resolves the input for an agent this tick
+   * @param inputs - Simulation inputs
+   * @param agent - The agent
+   * @returns Input, or null when the agent stays idle
+   * @private
+   */
+  private _resolveInput(inputs: SimulationInputs, agent: IntentAgent): string | Intent | null {
+    if (typeof inputs === 'function') {
+      return inputs(agent, this.tick) ?? null;
+    }
+
+    return inputs[agent.id] ?? null;
+  }
+
+  /**
+   * Processes an input for an agent, capturing failures
+   * @param agent - The agent
+   * @param input - The input
+   * @returns Agent result
+   * @private
+   */
+  private async _act(agent: IntentAgent, input: string | Intent): Promise<SimulationAgentResult> {
+    try {
+      const response = await agent.process(input);
+
+      return {
+        agentId: agent.id,
+        input,
+        coherence: agent.state.coherence,
+        dissonance: agent.state.dissonance,
+        emotionalState: response.emotionalState,
+        blocked: Boolean(response.metadata?.blocked)
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emit('agent_error', { agentId: agent.id, tick: this.tick, error: message });
+
+      return {
+        agentId: agent.id,
+        input,
+        coherence: agent.state.coherence,
+        dissonance: agent.state.dissonance,
+        emotionalState: agent.state.emotionalState,
+        blocked: false,
+        error: message
+      };
+    }
+  }
+
+  /**
+   * Calculates interference for every pair of agents
+   * @returns Pairwise interference entries
+   * @private
+   */
+  private _pairwiseInterference(): PairwiseInterference[] {
+    const pairs: PairwiseInterference[] = [];
+
+    for (let i = 0; i < this.agents.length; i++) {
+      for (let j = i + 1; j < this.agents.length; j++) {
+        pairs.push({
+          agents: [this.agents[i].id, this.agents[j].id],
+          pattern: this.field.calculateAgentInterference(this.agents[i], this.agents[j])
+        });
+      }
+    }
+
+    return pairs;
+  }
+}
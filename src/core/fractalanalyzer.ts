@@ -0,0 +1,323 @@
+import { FractalAnalysis, FractalPattern } from '../types/agent';
+import { sparseCosineSimilarity } from './vectormath';
+
+/**
+ * FractalAnalyzer looks for self-similar structure in an agent's intent
+ * history. The intent sequence is coarse-grained at doubling scales
+ * (each block of intents is replaced by its most frequent type) and
+ * repeated sub-sequences are collected at every scale. Complexity is the
+ * normalized Lempel-Ziv complexity of the sequence, and the fractal
+ * dimension is a box-counting estimate over the coherence series.
+ */
+export class FractalAnalyzer {
+  /**
+   * Longest sub-sequence considered a pattern
+   */
+  private maxPatternLength: number;
+
+  /**
+   * Minimum non-overlapping occurrences for a pattern
+   */
+  private minOccurrences: number;
+
+  /**
+   * Maximum number of patterns reported
+   */
+  private maxPatterns: number;
+
+  /**
+   * Creates a new FractalAnalyzer
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    maxPatternLength?: number;
+    minOccurrences?: number;
+    maxPatterns?: number;
+  } = {}) {
+    this.maxPatternLength = config.maxPatternLength || 6;
+    this.minOccurrences = config.minOccurrences || 2;
+    this.maxPatterns = config.maxPatterns || 20;
+  }
+
+  /**
+   * Analyzes an intent sequence and its coherence series
+   * @param intents - Intent types in chronological order
+   * @param coherence - Coherence values in chronological order
+   * @returns Fractal analysis
+   */
+  analyze(intents: string[], coherence: number[]): FractalAnalysis {
+    const scaled: { scale: number; sequence: string[] }[] = [];
+
+    for (let scale = 1; intents.length / scale >= 4; scale *= 2) {
+      scaled.push({ scale, sequence: this._coarseGrain(intents, scale) });
+    }
+
+    const patternsByScale = scaled.map(({ scale, sequence }) => this._findPatterns(sequence, scale));
+
+    const patterns = patternsByScale
+      .flat()
+      .sort((a, b) =>
+        b.occurrences * b.sequence.length * b.scale - a.occurrences * a.sequence.length * a.scale)
+      .slice(0, this.maxPatterns);
+
+    return {
+      patterns,
+      depth: patternsByScale.filter(p => p.length > 0).length,
+      complexity: this.lempelZivComplexity(intents),
+      selfSimilarity: this._selfSimilarity(scaled.map(s => s.sequence)),
+      fractalDimension: this.boxCountingDimension(coherence),
+      epochPredictions: this._predictNext(intents, patterns.filter(p => p.scale === 1))
+    };
+  }
+
+  /**
+   * Calculates the normalized Lempel-Ziv complexity of a sequence
+   * @param sequence - Symbol sequence
+   * @returns Complexity (0 for trivial sequences, near 1 for random ones)
+   */
+  lempelZivComplexity(sequence: string[]): number {
+    const n = sequence.length;
+    if (n < 2) return 0;
+
+    // Count the phrases of the LZ76 parsing
+    let phrases = 1;
+    let start = 1;
+
+    while (start < n) {
+      let length = 1;
+
+      while (start + length <= n &&
+        this._occursBefore(sequence, start, length)) {
+        length++;
+      }
+
+      phrases++;
+      start += length;
+    }
+
+    const alphabet = Math.max(2, new Set(sequence).size);
+    const normalizer = n / (Math.log(n) / Math.log(alphabet));
+
+    return Math.min(1, phrases / normalizer);
+  }
+
+  /**
+   * Estimates the box-counting dimension of a series' graph
+   * @param series - Values in chronological order
+   * @returns Dimension between 1 and 2, or null when the series is too short
+   */
+  boxCountingDimension(series: number[]): number | null {
+    const n = series.length;
+    if (n < 8) return null;
+
+    const min = Math.min(...series);
+    const max = Math.max(...series);
+    if (max - min < 1e-9) return 1;
+
+    const values = series.map(v => (v - min) / (max - min));
+    const points: { logInverseSize: number; logCount: number }[] = [];
+
+    // Box sizes halve until each column holds at least one segment
+    for (let columns = 2; columns <= n - 1; columns *= 2) {
+      const size = 1 / columns;
+      let count = 0;
+
+      for (let c = 0; c < columns; c++) {
+        const range = this._columnRange(values, c * size, (c + 1) * size);
+        const low = Math.floor(range.min / size);
+        const high = Math.max(low, Math.min(columns, Math.ceil(range.max / size)) - 1);
+        count += high - low + 1;
+      }
+
+      points.push({ logInverseSize: Math.log(columns), logCount: Math.log(count) });
+    }
+
+    if (points.length < 2) return null;
+
+    // Least-squares slope of log(count) against log(1 / size)
+    const meanX = points.reduce((sum, p) => sum + p.logInverseSize, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.logCount, 0) / points.length;
+    const numerator = points.reduce((sum, p) => sum + (p.logInverseSize - meanX) * (p.logCount - meanY), 0);
+    const denominator = points.reduce((sum, p) => sum + (p.logInverseSize - meanX) ** 2, 0);
+
+    return Math.max(1, Math.min(2, numerator / denominator));
+  }
+
+  // Private methods
+
+  /**
+   * Replaces each block of intents with its most frequent type
+   * @private
+   */
+  private _coarseGrain(sequence: string[], scale: number): string[] {
+    if (scale === 1) return [...sequence];
+
+    const blocks: string[] = [];
+
+    for (let i = 0; i + scale <= sequence.length; i += scale) {
+      const counts = new Map<string, number>();
+      sequence.slice(i, i + scale).forEach(type => counts.set(type, (counts.get(type) || 0) + 1));
+
+      // Ties resolve to the type seen first in the block
+      let best = sequence[i];
+      counts.forEach((count, type) => {
+        if (count > (counts.get(best) || 0)) best = type;
+      });
+
+      blocks.push(best);
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Finds repeated sub-sequences in a sequence
+   * @private
+   */
+  private _findPatterns(sequence: string[], scale: number): FractalPattern[] {
+    const found: FractalPattern[] = [];
+    const maxLength = Math.min(this.maxPatternLength, Math.floor(sequence.length / this.minOccurrences));
+
+    for (let length = 2; length <= maxLength; length++) {
+      const seen = new Set<string>();
+
+      for (let i = 0; i + length <= sequence.length; i++) {
+        const candidate = sequence.slice(i, i + length);
+        const key = candidate.join('\u0000');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const positions = this._nonOverlappingPositions(sequence, candidate);
+        if (positions.length >= this.minOccurrences) {
+          found.push({ sequence: candidate, scale, occurrences: positions.length, positions });
+        }
+      }
+    }
+
+    // Drop patterns fully explained by a longer pattern occurring as often
+    return found.filter(pattern => !found.some(other =>
+      other.sequence.length > pattern.sequence.length &&
+      other.occurrences >= pattern.occurrences &&
+      `\u0000${other.sequence.join('\u0000')}\u0000`.includes(`\u0000${pattern.sequence.join('\u0000')}\u0000`)
+    ));
+  }
+
+  /**
+   * Finds non-overlapping start positions of a sub-sequence
+   * @private
+   */
+  private _nonOverlappingPositions(sequence: string[], pattern: string[]): number[] {
+    const positions: number[] = [];
+
+    for (let i = 0; i + pattern.length <= sequence.length; i++) {
+      if (pattern.every((type, j) => sequence[i + j] === type)) {
+        positions.push(i);
+        i += pattern.length - 1;
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Compares transition distributions between consecutive scales
+   * @private
+   */
+  private _selfSimilarity(sequences: string[][]): number {
+    const distributions = sequences
+      .filter(sequence => sequence.length > 1)
+      .map(sequence => {
+        const transitions: Record<string, number> = {};
+        for (let i = 1; i < sequence.length; i++) {
+          const key = `${sequence[i - 1]}>${sequence[i]}`;
+          transitions[key] = (transitions[key] || 0) + 1;
+        }
+        return transitions;
+      });
+
+    if (distributions.length < 2) return 0;
+
+    let total = 0;
+    for (let i = 1; i < distributions.length; i++) {
+      total += sparseCosineSimilarity(distributions[i - 1], distributions[i]);
+    }
+
+    return total / (distributions.length - 1);
+  }
+
+  /**
+   * Predicts the next intent from patterns whose prefix ends the sequence
+   * @private
+   */
+  private _predictNext(
+    intents: string[],
+    patterns: FractalPattern[]
+  ): { intentType: string; probability: number; pattern: string[] }[] {
+    const votes = new Map<string, { weight: number; strongest: number; pattern: string[] }>();
+
+    patterns.forEach(pattern => {
+      // Use the longest prefix of the pattern that matches the end of the sequence
+      for (let prefix = pattern.sequence.length - 1; prefix >= 1; prefix--) {
+        const tail = intents.slice(-prefix);
+        if (tail.length < prefix || !tail.every((type, j) => type === pattern.sequence[j])) continue;
+
+        const next = pattern.sequence[prefix];
+        const weight = pattern.occurrences * prefix;
+        const vote = votes.get(next) || { weight: 0, strongest: 0, pattern: pattern.sequence };
+
+        vote.weight += weight;
+        if (weight > vote.strongest) {
+          vote.strongest = weight;
+          vote.pattern = pattern.sequence;
+        }
+        votes.set(next, vote);
+        break;
+      }
+    });
+
+    const total = Array.from(votes.values()).reduce((sum, vote) => sum + vote.weight, 0);
+
+    return Array.from(votes.entries())
+      .map(([intentType, vote]) => ({
+        intentType,
+        probability: vote.weight / total,
+        pattern: vote.pattern
+      }))
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, 3);
+  }
+
+  /**
+   * Checks whether a phrase occurs earlier in the sequence (LZ76 parsing)
+   * @private
+   */
+  private _occursBefore(sequence: string[], start: number, length: number): boolean {
+    for (let i = 0; i < start; i++) {
+      let j = 0;
+      while (j < length && sequence[i + j] === sequence[start + j]) j++;
+      if (j === length) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Gets the value range covered by a piecewise-linear series on [from, to]
+   * @private
+   */
+  private _columnRange(values: number[], from: number, to: number): { min: number; max: number } {
+    const last = values.length - 1;
+    const valueAt = (x: number): number => {
+      const position = x * last;
+      const index = Math.min(last - 1, Math.floor(position));
+      const t = position - index;
+      return values[index] * (1 - t) + values[index + 1] * t;
+    };
+
+    const covered = [valueAt(from), valueAt(to)];
+    for (let i = Math.ceil(from * last); i <= Math.floor(to * last); i++) {
+      covered.push(values[i]);
+    }
+
+    return { min: Math.min(...covered), max: Math.max(...covered) };
+  }
+}
@@ -1,11 +1,47 @@
 import { IntentField } from './intentfield';
 import { CognitiveProfile } from './cognitiveprofile';
+import { FractalAnalyzer } from './fractalanalyzer';
+import { checkAgentAlignment } from './agentvector';
 import { GuardrailManager } from '../ethics/guardrailmanager';
 import { PersonaLayer } from '../expression/personalayer';
-import { NOTHINGEngine } from '../engine/NOTHINGEngine';
-import { SymbolicIntentResolver } from '../symbols/SymbolicIntentResolver';
+import { NOTHINGEngine } from '../engine/nothingengine';
+import { SymbolicIntentResolver } from '../placeholders';
 import { Intent } from '../types/intent';
-import { AgentArchetype, AgentConfig, AgentState, ResonanceEvent } from '../types/agent';
+import {
+  AgentArchetype,
+  AgentConfig,
+  AgentState,
+  ResonanceEvent,
+  PredictionTimeframe,
+  IntentEvolutionPrediction,
+  FractalAnalysis,
+  FractalInsights,
+  FractalPattern,
+  AgentAlignmentResult,
+  AlignmentSecurityLevel,
+  ProcessOptions
+} from '../types/agent';
+import { FieldImpact } from '../types/field';
+import { EmotionalState } from '../types/persona';
+import { EscalationResolution, GuardrailResult } from '../types/ethics';
+
+/**
+ * Interactions projected ahead for each prediction horizon
+ */
+const PREDICTION_HORIZONS: Record<PredictionTimeframe, number> = {
+  short: 5,
+  medium: 20,
+  long: 50
+};
+
+/**
+ * Confidence scaling applied to each prediction horizon
+ */
+const HORIZON_CONFIDENCE: Record<PredictionTimeframe, number> = {
+  short: 1,
+  medium: 0.85,
+  long: 0.7
+};
 
 /**
  * IntentAgent is the primary class for creating intentuitive agents
@@ -58,6 +94,56 @@ export class IntentAgent {
    */
   private symbolicResolver: SymbolicIntentResolver;
   
+  /**
+   * Intent fractal analyzer
+   */
+  private fractalAnalyzer: FractalAnalyzer;
+  
+  /**
+   * Latest fractal analysis
+   */
+  private fractalAnalysis: FractalAnalysis | null = null;
+  
+  /**
+   * Interactions between development stage evaluations
+   */
+  private stageEvaluationInterval: number;
+  
+  /**
+   * Interaction count at the last development stage evaluation
+   */
+  private lastStageEvaluation = 0;
+  
+  /**
+   * Intent signatures processed so far
+   */
+  private seenIntentSignatures: Set<string> = new Set();
+  
+  /**
+   * Codex alignment check run at activation (null when disabled)
+   */
+  private alignmentConfig: AgentConfig['codexAlignment'] | null;
+  
+  /**
+   * How escalated intents are handled by default
+   */
+  private escalationMode: 'await' | 'defer';
+  
+  /**
+   * Escalated intents awaiting `resumeEscalation`, by escalation id. Entries
+   * are dropped once the escalation queue no longer keeps their escalation.
+   */
+  private deferredIntents: Map<string, {
+    input: string | Intent;
+    intent: Intent;
+    guardrailResults: GuardrailResult;
+  }> = new Map();
+  
+  /**
+   * Latest codex alignment result
+   */
+  public codexAlignment: AgentAlignmentResult | null = null;
+  
   /**
    * Agent state
    */
@@ -86,7 +172,7 @@ export class IntentAgent {
       emergentThemes: string[];
     };
     intentFractals: {
-      patterns: any[];
+      patterns: FractalPattern[];
       depth: number;
       complexity: number;
       lastAnalysis: string | null;
@@ -122,7 +208,14 @@ export class IntentAgent {
       ethicsParams: config.ethicsParams,
       policies: config.policies,
       enablePredictiveEthics: config.enablePredictiveEthics,
-      enableMultiAgentFeedback: config.enableMultiAgentFeedback
+      enableMultiAgentFeedback: config.enableMultiAgentFeedback,
+      escalation: config.escalation,
+      auditLogPath: config.auditLogPath
+    });
+    this.guardrails.escalations.on('resolved', () => {
+      this.deferredIntents.forEach((_deferred, id) => {
+        if (!this.guardrails.escalations.get(id)) this.deferredIntents.delete(id);
+      });
     });
     
     this.persona = new PersonaLayer({
@@ -142,6 +235,11 @@ export class IntentAgent {
       vectorSpace: config.vectorSpaceParams
     });
     
+    this.fractalAnalyzer = new FractalAnalyzer(config.fractalParams);
+    this.stageEvaluationInterval = Math.max(1, config.cognitionParams?.evaluationInterval || 10);
+    this.alignmentConfig = config.codexAlignment || null;
+    this.escalationMode = config.escalation?.mode || 'defer';
+    
     // Initialize state
     this.state = {
       active: false,
@@ -186,9 +284,18 @@ export class IntentAgent {
   activate(): IntentAgent {
     if (this.state.active) return this;
     
-    // Initialize field
+    // Initialize field and adopt the policies of its codex
     this.field.initialize();
     
+    if (this.alignmentConfig && this.field.getActiveCodex()) {
+      const alignment = this.checkCodexAlignment(this.alignmentConfig);
+      if (this.alignmentConfig.enforce && alignment && !alignment.aligned) {
+        throw new Error(`Agent ${this.id} is not aligned with its codex: ${alignment.reason}`);
+      }
+    }
+    
+    this.registerCodexPolicies();
+    
     // Start engine
     this.engine.start();
     
@@ -206,13 +313,49 @@ export class IntentAgent {
     return this;
   }
   
+  /**
+   * Checks the agent against the field vector of its field's codex
+   * @param options - Threshold options
+   * @returns Alignment result, or null when no codex is applied
+   */
+  checkCodexAlignment(options: {
+    securityLevel?: AlignmentSecurityLevel;
+    threshold?: number;
+  } = {}): AgentAlignmentResult | null {
+    const codex = this.field.getActiveCodex();
+    if (!codex) return null;
+    
+    this.codexAlignment = checkAgentAlignment(this, codex, options);
+    this.emit('codex_alignment', {
+      agent: this.id,
+      codex: codex.metadata.name || null,
+      ...this.codexAlignment,
+      timestamp: new Date().toISOString()
+    });
+    
+    return this.codexAlignment;
+  }
+  
+  /**
+   * Registers the policies declared by the field's codex with the guardrails,
+   * skipping policies already registered under the same name
+   * @returns Number of newly registered policies
+   */
+  registerCodexPolicies(): number {
+    const policies = this.field.getCodexPolicies()
+      .filter(policy => !this.guardrails.policies.some(p => p.name === policy.name));
+    
+    policies.forEach(policy => this.guardrails.registerPolicy(policy));
+    return policies.length;
+  }
+  
   /**
    * Process input with enhanced resonance tracking and guardrails
    * @param input - The input to process
    * @param options - Processing options
    * @returns Processing results
    */
-  async process(input: string | Intent, options: Record<string, any> = {}): Promise<{
+  async process(input: string | Intent, options: ProcessOptions = {}): Promise<{
     text: string;
     emotionalState: string;
     coherence: number;
@@ -246,6 +389,16 @@ export class IntentAgent {
         this.field
       );
       
+      // Park escalated intents until a decision arrives
+      if (guardrailResults.escalation) {
+        return this._handleEscalatedIntent(
+          guardrailResults,
+          symbolicallyEnhancedIntent,
+          input,
+          options.escalation || this.escalationMode
+        );
+      }
+      
       // Check if intent is allowed
       if (!guardrailResults.allowIntent) {
         return this._handleBlockedIntent(
@@ -255,84 +408,7 @@ export class IntentAgent {
         );
       }
       
-      // Process intent through field
-      const fieldResults = await this.field.processIntent(symbolicallyEnhancedIntent, this);
-      
-      // Update field state
-      this._updateFieldState(fieldResults.fieldImpact);
-      
-      // Generate response with enhanced persona expression
-      const rawResponse = await this.engine.generateResponse(
-        symbolicallyEnhancedIntent,
-        this.field.memory.retrieve(symbolicallyEnhancedIntent),
-        guardrailResults.assessment,
-        this.state
-      );
-      
-      // Apply persona layer for expressive response
-      const response = this.persona.express(rawResponse, this.state);
-      
-      // Store interaction in memory
-      await this.field.memory.store({
-        input,
-        intent: symbolicallyEnhancedIntent,
-        ethics: guardrailResults.assessment,
-        fieldImpact: fieldResults.fieldImpact,
-        response,
-        state: { ...this.state },
-        guardrailInterventions: guardrailResults.interventions,
-        symbolicShift: fieldResults.symbolicShift
-      });
-      
-      // Track emotional exposure for persona evolution
-      this.persona.trackEmotionalExposure(
-        this.state.emotionalState,
-        Math.abs(fieldResults.fieldImpact.coherenceDelta) + 
-        Math.abs(fieldResults.fieldImpact.dissonanceDelta)
-      );
-      
-      // Update cognitive profile
-      this._updateCognitiveProfile(
-        symbolicallyEnhancedIntent, 
-        fieldResults, 
-        response
-      );
-      
-      // Update intent fractal analysis
-      this._updateIntentFractalAnalysis(
-        symbolicallyEnhancedIntent,
-        fieldResults,
-        this.state.resonanceHistory
-      );
-      
-      // Emit response event
-      this.emit('response', {
-        agent: this.id,
-        input,
-        response,
-        state: this.state,
-        fieldDecay: fieldResults.decayPrediction,
-        interference: fieldResults.interferencePatterns,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Return enhanced response
-      return {
-        text: response.text,
-        emotionalState: response.emotionalState,
-        coherence: this.state.coherence,
-        dissonance: this.state.dissonance,
-        fieldDecay: fieldResults.decayPrediction,
-        symbolicShift: fieldResults.symbolicShift,
-        metadata: {
-          ...response.metadata,
-          guardrails: guardrailResults.interventions.length > 0 ? {
-            applied: true,
-            warnings: guardrailResults.warnings
-          } : { applied: false },
-          fractalInsights: this._getFractalInsights()
-        }
-      };
+      return await this._processAllowedIntent(input, symbolicallyEnhancedIntent, guardrailResults);
     } catch (error) {
       this.emit('error', {
         agent: this.id,
@@ -344,6 +420,32 @@ export class IntentAgent {
     }
   }
   
+  /**
+   * Continues processing an escalated intent once it is decided. Deferred
+   * escalations (see the `escalation` processing option) are resumed here.
+   * @param id - Escalation identifier
+   * @returns Processing results, or the blocked response
+   */
+  async resumeEscalation(id: string): Promise<any> {
+    const deferred = this.deferredIntents.get(id);
+    if (!deferred) {
+      throw new Error(`No deferred escalation ${id}`);
+    }
+    
+    const resolution = await this.guardrails.escalations.wait(id);
+    this.deferredIntents.delete(id);
+    
+    return this._resumeIntent(deferred.input, deferred.intent, deferred.guardrailResults, resolution);
+  }
+  
+  /**
+   * Gets the escalations deferred by this agent
+   * @returns Escalation identifiers
+   */
+  getDeferredEscalations(): string[] {
+    return [...this.deferredIntents.keys()];
+  }
+  
   /**
    * Get recent intents from memory
    * @param count - Number of intents to retrieve
@@ -357,6 +459,14 @@ export class IntentAgent {
     return this.field.memory.retrieveRecentIntents(count);
   }
   
+  /**
+   * Get the current agent state
+   * @returns Agent state
+   */
+  getState(): AgentState {
+    return this.state;
+  }
+
   /**
    * Register event listener
    * @param event - Event name
@@ -393,9 +503,51 @@ export class IntentAgent {
    * @param timeframe - Prediction timeframe
    * @returns Evolution prediction
    */
-  predictIntentEvolution(timeframe: 'short' | 'medium' | 'long' = 'medium'): any {
-    // This would be implemented to predict intent evolution
-    // For now, return a placeholder
+  predictIntentEvolution(timeframe: PredictionTimeframe = 'medium'): IntentEvolutionPrediction {
+    const steps = PREDICTION_HORIZONS[timeframe];
+    const history = this.state.resonanceHistory.slice(-50);
+    const coherenceSeries = history.map(event => event.coherence);
+    const dissonanceSeries = history.map(event => event.dissonance);
+    const sequence = history.slice(-10).map(event => event.trigger);
+    const decay = this.field.predictFieldDecay();
+    
+    // Blend the agent's own trend, the effect of its recent intent mix and field decay
+    const intentDelta = this._intentMixDelta(history, sequence);
+    const coherenceSlope = 0.5 * this._trendSlope(coherenceSeries) +
+      0.3 * intentDelta.coherence -
+      0.2 * decay.decayRate;
+    const dissonanceSlope = 0.6 * this._trendSlope(dissonanceSeries) +
+      0.4 * intentDelta.dissonance;
+    
+    // Walk the projection to capture emotional transitions along the way
+    const transitions: EmotionalState[] = [];
+    let coherence = this.state.coherence;
+    let dissonance = this.state.dissonance;
+    
+    for (let step = 1; step <= steps; step++) {
+      coherence = Math.max(0, Math.min(1, this.state.coherence + coherenceSlope * step));
+      dissonance = Math.max(0, Math.min(1, this.state.dissonance + dissonanceSlope * step));
+      
+      const emotion = this.persona.emotionalSignature.calculateEmotionalState(coherence, dissonance);
+      if (transitions[transitions.length - 1] !== emotion) {
+        transitions.push(emotion);
+      }
+    }
+    
+    // Intent sequence statistics
+    const counts: Record<string, number> = {};
+    sequence.forEach(type => { counts[type] = (counts[type] || 0) + 1; });
+    const dominantIntent = Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0] || null;
+    const switches = sequence.filter((type, i) => i > 0 && type !== sequence[i - 1]).length;
+    const intentVolatility = sequence.length > 1 ? switches / (sequence.length - 1) : 0;
+    
+    // Confidence grows with history length and shrinks with variance, volatility and horizon
+    const coherenceVariance = this._variance(coherenceSeries);
+    const confidence = (1 - Math.exp(-history.length / 10)) *
+      (1 / (1 + 20 * coherenceVariance)) *
+      (1 - 0.3 * intentVolatility) *
+      HORIZON_CONFIDENCE[timeframe];
+    
     return {
       timeframe,
       currentState: {
@@ -403,12 +555,29 @@ export class IntentAgent {
         dissonance: this.state.dissonance,
         emotionalState: this.state.emotionalState
       },
-      projectedState: null,
-      emotionalProjection: null,
-      trendMetrics: null,
-      emergentThemes: [],
-      fractalInsights: null,
-      confidence: 0.5
+      projectedState: {
+        coherence,
+        dissonance,
+        emotionalState: transitions[transitions.length - 1],
+        steps
+      },
+      emotionalProjection: {
+        from: this.state.emotionalState,
+        to: transitions[transitions.length - 1],
+        transitions
+      },
+      trendMetrics: {
+        coherenceSlope,
+        dissonanceSlope,
+        coherenceVariance,
+        fieldDecayRate: decay.decayRate,
+        dominantIntent,
+        intentVolatility,
+        historyLength: history.length
+      },
+      emergentThemes: this.field.getSymbolicTrends().rising.slice(0, 5),
+      fractalInsights: this._getFractalInsights(),
+      confidence: Math.round(confidence * 1000) / 1000
     };
   }
   
@@ -424,8 +593,18 @@ export class IntentAgent {
     fieldResults: any,
     resonanceHistory: ResonanceEvent[]
   ): void {
-    // This would be implemented to update fractal analysis
-    // For now, just a placeholder
+    const analysis = this.fractalAnalyzer.analyze(
+      resonanceHistory.map(event => event.trigger),
+      resonanceHistory.map(event => event.coherence)
+    );
+    
+    this.fractalAnalysis = analysis;
+    this.stats.intentFractals = {
+      patterns: analysis.patterns,
+      depth: analysis.depth,
+      complexity: analysis.complexity,
+      lastAnalysis: new Date().toISOString()
+    };
   }
   
   /**
@@ -433,17 +612,17 @@ export class IntentAgent {
    * @returns Fractal insights
    * @private
    */
-  private _getFractalInsights(): any {
-    if (this.stats.intentFractals.depth === 0) {
+  private _getFractalInsights(): FractalInsights | null {
+    if (!this.fractalAnalysis) {
       return null;
     }
     
     return {
-      patternComplexity: this.stats.intentFractals.complexity,
-      selfSimilarity: 0.5,
-      fractalDimension: 1.3,
-      identifiedPatterns: this.stats.intentFractals.patterns.length,
-      epochPredictions: []
+      patternComplexity: this.fractalAnalysis.complexity,
+      selfSimilarity: this.fractalAnalysis.selfSimilarity,
+      fractalDimension: this.fractalAnalysis.fractalDimension,
+      identifiedPatterns: this.fractalAnalysis.patterns.length,
+      epochPredictions: this.fractalAnalysis.epochPredictions
     };
   }
   
@@ -452,11 +631,110 @@ export class IntentAgent {
    * @param fieldImpact - Field impact
    * @private
    */
-  private _updateFieldState(fieldImpact: any): void {
-    // This would be implemented to update field state
-    // For now, just a placeholder
+  private _updateFieldState(fieldImpact: FieldImpact): void {
     this.state.coherence = Math.max(0, Math.min(1, this.state.coherence + fieldImpact.coherenceDelta));
     this.state.dissonance = Math.max(0, Math.min(1, this.state.dissonance + fieldImpact.dissonanceDelta));
+
+    if (fieldImpact.intentState) {
+      this.state.intentState = fieldImpact.intentState;
+    }
+  }
+  
+  /**
+   * Records a resonance event for a processed intent
+   * @param intent - The processed intent
+   * @param fieldImpact - Field impact
+   * @private
+   */
+  private _recordResonanceEvent(intent: Intent, fieldImpact: FieldImpact): void {
+    this.state.resonanceHistory.push({
+      timestamp: Date.now(),
+      type: 'intent',
+      coherence: this.state.coherence,
+      dissonance: this.state.dissonance,
+      trigger: intent.type,
+      resolution: null,
+      emotionalState: this.state.emotionalState,
+      intentState: this.state.intentState,
+      intensity: Math.abs(fieldImpact.coherenceDelta) + Math.abs(fieldImpact.dissonanceDelta)
+    });
+    
+    // Limit history size
+    if (this.state.resonanceHistory.length > 100) {
+      this.state.resonanceHistory.shift();
+    }
+  }
+  
+  /**
+   * Calculates the least-squares slope of a series per step
+   * @param series - Values in chronological order
+   * @returns Slope
+   * @private
+   */
+  private _trendSlope(series: number[]): number {
+    const n = series.length;
+    if (n < 2) return 0;
+    
+    const meanX = (n - 1) / 2;
+    const meanY = series.reduce((sum, v) => sum + v, 0) / n;
+    let numerator = 0;
+    let denominator = 0;
+    
+    series.forEach((value, x) => {
+      numerator += (x - meanX) * (value - meanY);
+      denominator += (x - meanX) ** 2;
+    });
+    
+    return numerator / denominator;
+  }
+  
+  /**
+   * Calculates the population variance of a series
+   * @param series - Values
+   * @returns Variance
+   * @private
+   */
+  private _variance(series: number[]): number {
+    if (series.length === 0) return 0;
+    
+    const mean = series.reduce((sum, v) => sum + v, 0) / series.length;
+    return series.reduce((sum, v) => sum + (v - mean) ** 2, 0) / series.length;
+  }
+  
+  /**
+   * Estimates the per-step state change implied by the recent intent mix,
+   * using the average change each intent type produced in the history
+   * @param history - Resonance history
+   * @param sequence - Recent intent types
+   * @returns Expected coherence and dissonance change
+   * @private
+   */
+  private _intentMixDelta(
+    history: ResonanceEvent[],
+    sequence: string[]
+  ): { coherence: number; dissonance: number } {
+    const effects: Record<string, { coherence: number; dissonance: number; count: number }> = {};
+    
+    for (let i = 1; i < history.length; i++) {
+      const effect = effects[history[i].trigger] ||
+        (effects[history[i].trigger] = { coherence: 0, dissonance: 0, count: 0 });
+      effect.coherence += history[i].coherence - history[i - 1].coherence;
+      effect.dissonance += history[i].dissonance - history[i - 1].dissonance;
+      effect.count++;
+    }
+    
+    const delta = { coherence: 0, dissonance: 0 };
+    if (sequence.length === 0) return delta;
+    
+    sequence.forEach(type => {
+      const effect = effects[type];
+      if (!effect) return;
+      
+      delta.coherence += effect.coherence / effect.count / sequence.length;
+      delta.dissonance += effect.dissonance / effect.count / sequence.length;
+    });
+    
+    return delta;
   }
   
   /**
@@ -471,8 +749,286 @@ export class IntentAgent {
     fieldResults: any,
     response: any
   ): void {
-    // This would be implemented to update cognitive profile
-    // For now, just a placeholder
+    const impact: FieldImpact = fieldResults.fieldImpact;
+    const base = {
+      coherence: this.state.coherence,
+      dissonance: this.state.dissonance,
+      trigger: intent.type
+    };
+    
+    // Every processed intent is a resonance event; unseen intent signatures are novel
+    this._recordCognitiveEvent({
+      ...base,
+      type: 'intent_processed',
+      resolution: response?.text ? 'responded' : null
+    });
+    
+    const signature = `${intent.type}:${intent.subtype || 'general'}`;
+    if (!this.seenIntentSignatures.has(signature)) {
+      this.seenIntentSignatures.add(signature);
+      this._recordCognitiveEvent({ ...base, type: 'novel_situation', resolution: null });
+    }
+    
+    // Dissonance spikes, resolved when the field's oscillatory buffer engaged
+    if (impact.dissonanceDelta > 0.1 || this.state.dissonance > 0.6) {
+      this.stats.dissonanceEvents++;
+      this.state.lastDissonanceEvent = {
+        timestamp: Date.now(),
+        magnitude: this.state.dissonance,
+        intentState: this.state.intentState
+      };
+      this._recordCognitiveEvent({
+        ...base,
+        type: 'dissonance',
+        resolution: fieldResults.oscillatoryState ? 'oscillatory_buffer' : null
+      });
+    } else if (this.state.lastDissonanceEvent &&
+        impact.coherenceDelta > 0 &&
+        this.state.dissonance < 0.4) {
+      // Coherence recovered after an earlier dissonance event
+      this._recordCognitiveEvent({ ...base, type: 'recovery', resolution: 'coherence_restored' });
+      this.state.lastDissonanceEvent = null;
+    }
+    
+    // Constructive interference with other agents in the field
+    if ((fieldResults.interferencePatterns?.netInterference ?? 0) > 0.2) {
+      this.stats.harmonicEvents++;
+      this._recordCognitiveEvent({ ...base, type: 'harmonization', resolution: null });
+    }
+    
+    // Re-evaluate the development stage once the interval has passed; blocked
+    // and escalated interactions count towards it without evaluating
+    if (this.stats.interactions - this.lastStageEvaluation >= this.stageEvaluationInterval) {
+      this.lastStageEvaluation = this.stats.interactions;
+      const evaluation = this.cognitiveProfile.evaluateDevelopmentStage();
+      
+      if (evaluation.advanced) {
+        this.emit('stage_transition', {
+          agent: this.id,
+          previousStage: evaluation.previousStage,
+          newStage: evaluation.newStage,
+          interactions: this.stats.interactions,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+  }
+  
+  /**
+   * Records a resonance event in the cognitive profile
+   * @param event - The cognitive event
+   * @private
+   */
+  private _recordCognitiveEvent(event: {
+    type: string;
+    coherence: number;
+    dissonance: number;
+    trigger: string;
+    resolution: string | null;
+  }): void {
+    this.cognitiveProfile.recordResonanceEvent(event);
+    this.stats.resonanceEvents++;
+  }
+  
+  /**
+   * Processes an intent the guardrails allowed
+   * @param input - The original input
+   * @param parsedIntent - The symbolically enhanced intent
+   * @param guardrailResults - Guardrail evaluation results
+   * @returns Processing results
+   * @private
+   */
+  private async _processAllowedIntent(
+    input: string | Intent,
+    parsedIntent: Intent,
+    guardrailResults: GuardrailResult
+  ): Promise<any> {
+    // Continue with the intent as rewritten by modify policies, if any
+    const intent = guardrailResults.modifiedIntent || parsedIntent;
+    
+    // Process intent through field
+    const fieldResults = await this.field.processIntent(intent, this);
+    
+    // Update field state
+    this._updateFieldState(fieldResults.fieldImpact);
+    this._recordResonanceEvent(intent, fieldResults.fieldImpact);
+    
+    // Generate response with enhanced persona expression
+    const rawResponse = await this.engine.generateResponse(
+      intent,
+      this.field.memory.retrieve(intent),
+      guardrailResults.assessment,
+      this.state,
+      guardrailResults.warnings
+    );
+    
+    // Apply persona layer for expressive response
+    const response = this.persona.express(rawResponse, this.state);
+    
+    // Store interaction in memory
+    await this.field.memory.store({
+      input,
+      intent,
+      ethics: guardrailResults.assessment,
+      fieldImpact: fieldResults.fieldImpact,
+      response,
+      state: { ...this.state },
+      guardrailInterventions: guardrailResults.interventions,
+      symbolicShift: fieldResults.symbolicShift
+    });
+    
+    // Track emotional exposure for persona evolution
+    this.persona.trackEmotionalExposure(
+      this.state.emotionalState,
+      Math.abs(fieldResults.fieldImpact.coherenceDelta) + 
+      Math.abs(fieldResults.fieldImpact.dissonanceDelta)
+    );
+    
+    // Update cognitive profile
+    this._updateCognitiveProfile(
+      intent, 
+      fieldResults, 
+      response
+    );
+    
+    // Update intent fractal analysis
+    this._updateIntentFractalAnalysis(
+      intent,
+      fieldResults,
+      this.state.resonanceHistory
+    );
+    
+    // Emit response event
+    this.emit('response', {
+      agent: this.id,
+      input,
+      response,
+      state: this.state,
+      fieldDecay: fieldResults.decayPrediction,
+      interference: fieldResults.interferencePatterns,
+      timestamp: new Date().toISOString()
+    });
+    
+    // Return enhanced response
+    return {
+      text: response.text,
+      emotionalState: response.emotionalState,
+      coherence: this.state.coherence,
+      dissonance: this.state.dissonance,
+      fieldDecay: fieldResults.decayPrediction,
+      symbolicShift: fieldResults.symbolicShift,
+      metadata: {
+        ...response.metadata,
+        template: rawResponse.metadata.templateId,
+        guardrails: guardrailResults.interventions.length > 0 ? {
+          applied: true,
+          warnings: guardrailResults.warnings,
+          ...(guardrailResults.modifications ? { modifications: guardrailResults.modifications } : {})
+        } : { applied: false },
+        ...(guardrailResults.escalation ? { escalation: this._describeEscalation(guardrailResults) } : {}),
+        fractalInsights: this._getFractalInsights()
+      }
+    };
+  }
+  
+  /**
+   * Handle escalated intent, waiting for the decision or deferring it
+   * @param guardrailResults - Guardrail evaluation results
+   * @param intent - The original intent
+   * @param input - The original input
+   * @param mode - Escalation handling mode
+   * @returns Processing results, or a pending response when deferred
+   * @private
+   */
+  private async _handleEscalatedIntent(
+    guardrailResults: GuardrailResult,
+    intent: Intent,
+    input: string | Intent,
+    mode: 'await' | 'defer'
+  ): Promise<any> {
+    const escalation = guardrailResults.escalation!;
+    
+    if (mode === 'await') {
+      const resolution = await this.guardrails.escalations.wait(escalation.id);
+      return this._resumeIntent(input, intent, guardrailResults, resolution);
+    }
+    
+    this.deferredIntents.set(escalation.id, { input, intent, guardrailResults });
+    this.emit('escalation', {
+      agent: this.id,
+      escalation,
+      input,
+      timestamp: new Date().toISOString()
+    });
+    
+    return {
+      text: 'This request needs review before I can continue.',
+      emotionalState: 'reflective',
+      coherence: this.state.coherence,
+      dissonance: this.state.dissonance,
+      metadata: {
+        pending: true,
+        escalation: this._describeEscalation(guardrailResults),
+        guardrails: {
+          applied: true,
+          interventions: guardrailResults.interventions.map(i => i.policyName),
+          warnings: guardrailResults.warnings
+        }
+      }
+    };
+  }
+  
+  /**
+   * Continues an escalated intent according to its resolution
+   * @param input - The original input
+   * @param intent - The original intent
+   * @param guardrailResults - Guardrail evaluation results
+   * @param resolution - Escalation resolution
+   * @returns Processing results, or the blocked response
+   * @private
+   */
+  private async _resumeIntent(
+    input: string | Intent,
+    intent: Intent,
+    guardrailResults: GuardrailResult,
+    resolution: EscalationResolution
+  ): Promise<any> {
+    if (resolution.decision === 'allow') {
+      return this._processAllowedIntent(input, intent, { ...guardrailResults, allowIntent: true });
+    }
+    
+    const override = this.guardrails.getReflectionLog()
+      .find(reflection => reflection.interventionId === guardrailResults.escalation!.id);
+    const blocked = this._handleBlockedIntent(
+      { ...guardrailResults, blockingReflection: override || guardrailResults.blockingReflection },
+      intent,
+      input
+    );
+    blocked.metadata.escalation = this._describeEscalation(guardrailResults);
+    
+    return blocked;
+  }
+  
+  /**
+   * Summarizes an escalation for response metadata
+   * @param guardrailResults - Guardrail evaluation results
+   * @returns Escalation summary
+   * @private
+   */
+  private _describeEscalation(guardrailResults: GuardrailResult): Record<string, any> {
+    const escalation = guardrailResults.escalation!;
+    
+    return {
+      id: escalation.id,
+      status: escalation.status,
+      policies: escalation.policies,
+      ...(escalation.resolution ? {
+        decision: escalation.resolution.decision,
+        by: escalation.resolution.by,
+        reason: escalation.resolution.reason,
+        timedOut: escalation.resolution.timedOut
+      } : {})
+    };
   }
   
   /**
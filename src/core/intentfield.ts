@@ -1,9 +1,26 @@
-import { CoherenceField } from './CoherenceField';
-import { FieldMemory } from './FieldMemory';
-import { CodexLoader } from './CodexLoader';
+import { CoherenceField } from './coherencefield';
+import { FieldMemory } from './fieldmemory';
+import { CodexLoader } from './codexloader';
+import { sparseCosineSimilarity } from './vectormath';
 import { SymbolicMarker, SymbolicStateEntry, SymbolicTrends } from '../types/symbolic';
 import { Intent } from '../types/intent';
-import { ResonanceHistory, FieldImpact, DecayPrediction, InterferencePattern } from '../types/field';
+import { Codex } from '../types/codex';
+import { Policy } from '../types/ethics';
+import {
+  ResonanceHistory,
+  FieldImpact,
+  DecayPrediction,
+  InterferencePattern,
+  FieldCheckpoint,
+  FieldCheckpointDiff,
+  FieldState,
+  AgentInterference
+} from '../types/field';
+
+/**
+ * Current field checkpoint schema version
+ */
+export const FIELD_CHECKPOINT_VERSION = 1;
 
 /**
  * IntentField encapsulates the unified resonance environment
@@ -16,6 +33,10 @@ export class IntentField {
   public memory: FieldMemory;
   public codex: CodexLoader;
   
+  // Codex applied to the field
+  private activeCodex: Codex | null = null;
+  private symbolLexicon: { symbol: string; strength: number; matcher: RegExp | null }[] = [];
+  
   // Field-level resonance tracking
   private resonanceHistory: ResonanceHistory[] = [];
   private fieldStates: any[] = [];
@@ -24,13 +45,23 @@ export class IntentField {
   private harmonicPatterns: Record<string, any> = {};
   private fieldDecayRate: number;
   
-  // Interference matrix
+  // Interference matrix (signed, indexed by attached agent order)
   private interferenceMatrix: number[][];
+  private interferenceIndex: string[] = [];
+  
+  // Per-agent intent and symbolic activity within the field
+  private agentActivity: Map<string, {
+    intentCounts: Record<string, number>;
+    symbols: Record<string, number>;
+  }> = new Map();
   
   // Symbolic state tracking
   private symbolicStateSignature: Map<string, SymbolicStateEntry> = new Map();
   private fieldNarrativeContext: any[] = [];
   
+  // Agents sharing this field
+  private attachedAgents: Map<string, any> = new Map();
+  
   // Oscillatory resonance buffer
   private oscillatoryBuffer: {
     active: boolean;
@@ -51,14 +82,20 @@ export class IntentField {
     codexParams?: any;
     fieldDecayRate?: number;
   } = {}) {
-    // Initialize core components
-    this.coherenceField = new CoherenceField(config.fieldParams);
-    this.memory = new FieldMemory(config.memoryParams);
-    this.codex = new CodexLoader(config.codexParams);
-    
     // Set field decay rate (default: 0.02)
     this.fieldDecayRate = config.fieldDecayRate || 0.02;
     
+    // Initialize core components
+    this.coherenceField = new CoherenceField({
+      decayRate: this.fieldDecayRate,
+      ...config.fieldParams
+    });
+    this.memory = new FieldMemory({
+      extractSymbols: intent => this._extractSymbolicMarkers(intent),
+      ...config.memoryParams
+    });
+    this.codex = new CodexLoader(config.codexParams);
+    
     // Initialize interference matrix
     this.interferenceMatrix = this._initializeInterferenceMatrix();
     
@@ -75,15 +112,72 @@ export class IntentField {
   
   /**
    * Initializes the field and all components
+   * @param codex - Codex (or codex file path) to apply; defaults to the
+   *   codex loader's configured path, if any
    * @returns The initialized field
    */
-  initialize(): IntentField {
+  initialize(codex?: Codex | string): IntentField {
     this.coherenceField.initialize();
     this._recordFieldState();
     this._initializeSymbolicSignature();
+    
+    const source = codex ?? this.codex.path ?? this.activeCodex;
+    if (source) {
+      this.applyCodex(typeof source === 'string' ? this.codex.loadSync(source) : source);
+    }
+    
     return this;
   }
   
+  /**
+   * Configures the field from a codex: lexicon symbols join the symbolic
+   * signature, are detected in intent text and weigh on coherence, and
+   * the codex policies become available to agents using the field
+   * @param codex - The codex to apply
+   */
+  applyCodex(codex: Codex): void {
+    this.activeCodex = codex;
+    
+    this.symbolLexicon = codex.symbols.map(entry => ({
+      symbol: entry.symbol,
+      strength: entry.strength,
+      matcher: entry.patterns.length > 0 ?
+        new RegExp(`\\b(${entry.patterns.map(p => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`, 'i') :
+        null
+    }));
+    
+    const weights: Record<string, { coherence: number; dissonance: number }> = {};
+    codex.symbols.forEach(entry => {
+      if (entry.coherence !== undefined || entry.dissonance !== undefined) {
+        weights[entry.symbol] = { coherence: entry.coherence ?? 0, dissonance: entry.dissonance ?? 0 };
+      }
+      if (!this.symbolicStateSignature.has(entry.symbol)) {
+        this.symbolicStateSignature.set(entry.symbol, {
+          strength: 0.1,
+          trend: 'stable',
+          lastUpdate: Date.now()
+        });
+      }
+    });
+    this.coherenceField.setSymbolWeights(weights);
+  }
+  
+  /**
+   * Gets the codex applied to the field
+   * @returns Codex, or null when none has been applied
+   */
+  getActiveCodex(): Codex | null {
+    return this.activeCodex;
+  }
+  
+  /**
+   * Gets the policies declared by the applied codex
+   * @returns Codex policies
+   */
+  getCodexPolicies(): Policy[] {
+    return this.activeCodex ? [...this.activeCodex.policies] : [];
+  }
+  
   /**
    * Processes an intent through the field, calculating its impact
    * @param intent - The intent to process
@@ -98,9 +192,10 @@ export class IntentField {
     oscillatoryState: any;
   }> {
     // Calculate field impact
-    const fieldImpact = await this.coherenceField.calculateImpact(
+    const fieldImpact = this.coherenceField.calculateImpact(
       intent,
-      agent.ethicalFramework?.getState()
+      agent.ethicalFramework?.getState(),
+      this._extractSymbolicMarkers(intent)
     );
     
     // Apply field memory imprinting
@@ -109,6 +204,9 @@ export class IntentField {
     // Update field state
     this._updateFieldState(fieldImpact);
     
+    // Record agent activity and refresh its interference with other agents
+    this._recordAgentActivity(intent, agent);
+    
     // Check for dissonance requiring stabilization
     if (fieldImpact.dissonanceDelta > 0.3 || 
         this.coherenceField.getState().dissonance > 0.6) {
@@ -124,7 +222,7 @@ export class IntentField {
     return {
       fieldImpact,
       decayPrediction,
-      interferencePatterns: this._calculateInterference(agent),
+      interferencePatterns: this._calculateInterference(agent, true),
       symbolicShift: this._getSymbolicShift(),
       oscillatoryState: this.oscillatoryBuffer.active ? this.oscillatoryBuffer : null
     };
@@ -187,6 +285,104 @@ export class IntentField {
     }
   }
   
+  /**
+   * Attaches an agent to the field so it participates in interference
+   * @param agent - The agent to attach
+   * @returns Number of attached agents
+   */
+  attachAgent(agent: any): number {
+    if (!agent || !agent.id) {
+      throw new Error('Cannot attach agent without an id');
+    }
+    
+    if (!this.attachedAgents.has(agent.id)) {
+      // Grow the matrix by one row and column
+      this.interferenceMatrix.forEach(row => row.push(0));
+      this.interferenceIndex.push(agent.id);
+      this.interferenceMatrix.push(new Array(this.interferenceIndex.length).fill(0));
+    }
+    
+    this.attachedAgents.set(agent.id, agent);
+    this._refreshInterferenceRow(agent.id);
+    
+    return this.attachedAgents.size;
+  }
+  
+  /**
+   * Detaches an agent from the field
+   * @param agentId - The agent identifier
+   * @returns Whether the agent was attached
+   */
+  detachAgent(agentId: string): boolean {
+    const index = this.interferenceIndex.indexOf(agentId);
+    
+    if (index !== -1) {
+      // Shrink the matrix by removing the agent's row and column
+      this.interferenceIndex.splice(index, 1);
+      this.interferenceMatrix.splice(index, 1);
+      this.interferenceMatrix.forEach(row => row.splice(index, 1));
+    }
+    
+    this.agentActivity.delete(agentId);
+    return this.attachedAgents.delete(agentId);
+  }
+  
+  /**
+   * Gets the agents currently attached to the field
+   * @returns Attached agents in attachment order
+   */
+  getAttachedAgents(): any[] {
+    return Array.from(this.attachedAgents.values());
+  }
+  
+  /**
+   * Calculates the interference pattern between two agents in the field
+   * @param agentA - First agent
+   * @param agentB - Second agent
+   * @returns Pairwise interference pattern
+   */
+  calculateAgentInterference(agentA: any, agentB: any): InterferencePattern {
+    const statePattern = this._interferenceBetween(agentA.getState(), agentB.getState());
+    const { value, components } = this._computePairInterference(agentA, agentB);
+    
+    return {
+      alignmentScore: statePattern.alignmentScore,
+      interferenceScore: Math.max(statePattern.interferenceScore, -value),
+      harmonicCoupling: components.harmonic !== null ? 
+        (components.harmonic + 1) / 2 : statePattern.harmonicCoupling,
+      phase: value > 0.2 ? 'resonant' : value < -0.2 ? 'dissonant' : 'neutral',
+      netInterference: value,
+      components
+    };
+  }
+  
+  /**
+   * Gets the signed interference matrix between attached agents
+   * @returns Agent ids (row/column order) and matrix values
+   */
+  getInterferenceMatrix(): { agents: string[]; matrix: number[][] } {
+    return {
+      agents: [...this.interferenceIndex],
+      matrix: this.interferenceMatrix.map(row => [...row])
+    };
+  }
+  
+  /**
+   * Gets the active symbolic trends within the field
+   * @returns Symbolic trend information
+   */
+  getSymbolicTrends(): SymbolicTrends {
+    return this._getSymbolicTrends();
+  }
+  
+  /**
+   * Predicts field decay from the recorded resonance history
+   * @returns Decay prediction
+   */
+  predictFieldDecay(): DecayPrediction {
+    return this._predictFieldDecay();
+  }
+  
   /**
    * Creates a snapshot of the current field state
    * @returns Field snapshot data
@@ -198,7 +394,149 @@ export class IntentField {
       activeHarmonics: this._getActiveHarmonics(),
       oscillatoryState: this.oscillatoryBuffer,
       narrativeContext: this.fieldNarrativeContext.slice(-3),
-      decayProjection: this._predictFieldDecay()
+      decayProjection: this._predictFieldDecay(),
+      interference: this.getInterferenceMatrix()
+    };
+  }
+  
+  /**
+   * Serializes the full field state into a versioned checkpoint
+   * @returns JSON-serializable checkpoint
+   */
+  serialize(): FieldCheckpoint {
+    const { harmonicMap, ...buffer } = this.oscillatoryBuffer;
+    
+    // Round-trip through JSON so the checkpoint shares no references with the field
+    return JSON.parse(JSON.stringify({
+      schema: 'intentsim.field-checkpoint',
+      version: FIELD_CHECKPOINT_VERSION,
+      createdAt: Date.now(),
+      fieldDecayRate: this.fieldDecayRate,
+      coherence: this.coherenceField.exportState(),
+      resonanceHistory: this.resonanceHistory,
+      fieldStates: this.fieldStates,
+      symbolicStateSignature: Array.from(this.symbolicStateSignature.entries()),
+      harmonicPatterns: this.harmonicPatterns,
+      oscillatoryBuffer: {
+        ...buffer,
+        harmonicMap: Array.from(harmonicMap.entries())
+      },
+      narrativeContext: this.fieldNarrativeContext,
+      agentActivity: Array.from(this.agentActivity.entries()),
+      codex: this.activeCodex
+    }));
+  }
+  
+  /**
+   * Restores a field from a checkpoint. Attached agents are not part of the
+   * checkpoint: re-attach them to rebuild the interference matrix from the
+   * restored agent activity.
+   * @param checkpoint - Checkpoint object or its JSON string
+   * @param config - Configuration for the non-serialized components
+   * @returns The restored field
+   * @throws Error when the checkpoint is of another schema or version, or
+   * lacks a required field
+   */
+  static restore(
+    checkpoint: FieldCheckpoint | string,
+    config: { fieldParams?: any; memoryParams?: any; codexParams?: any } = {}
+  ): IntentField {
+    const data: FieldCheckpoint = typeof checkpoint === 'string' ? 
+      JSON.parse(checkpoint) : JSON.parse(JSON.stringify(checkpoint));
+    
+    if (!data || data.schema !== 'intentsim.field-checkpoint') {
+      throw new Error('Invalid field checkpoint: missing or unknown schema identifier');
+    }
+    
+    if (data.version !== FIELD_CHECKPOINT_VERSION) {
+      throw new Error(
+        `Unsupported field checkpoint version ${data.version} (expected ${FIELD_CHECKPOINT_VERSION})`
+      );
+    }
+    
+    const invalid = invalidCheckpointFields(data);
+    if (invalid.length > 0) {
+      throw new Error(`Invalid field checkpoint: missing or malformed ${invalid.join(', ')}`);
+    }
+    
+    const field = new IntentField({
+      ...config,
+      fieldParams: { ...config.fieldParams, seed: data.coherence.seed },
+      fieldDecayRate: data.fieldDecayRate
+    });
+    
+    if (data.codex) {
+      field.applyCodex(data.codex);
+    }
+    
+    field.coherenceField.importState(data.coherence);
+    field.resonanceHistory = data.resonanceHistory;
+    field.fieldStates = data.fieldStates;
+    field.symbolicStateSignature = new Map(data.symbolicStateSignature);
+    field.harmonicPatterns = data.harmonicPatterns;
+    field.fieldNarrativeContext = data.narrativeContext;
+    field.agentActivity = new Map(data.agentActivity || []);
+    field.oscillatoryBuffer = {
+      ...data.oscillatoryBuffer,
+      harmonicMap: new Map(data.oscillatoryBuffer.harmonicMap)
+    };
+    
+    return field;
+  }
+  
+  /**
+   * Compares two checkpoints of the same field
+   * @param before - Earlier checkpoint
+   * @param after - Later checkpoint
+   * @returns Structural difference
+   */
+  static diffCheckpoints(before: FieldCheckpoint, after: FieldCheckpoint): FieldCheckpointDiff {
+    const beforeSymbols = new Map(before.symbolicStateSignature);
+    const afterSymbols = new Map(after.symbolicStateSignature);
+    
+    const added = Array.from(afterSymbols.keys()).filter(s => !beforeSymbols.has(s));
+    const removed = Array.from(beforeSymbols.keys()).filter(s => !afterSymbols.has(s));
+    const changed: FieldCheckpointDiff['symbols']['changed'] = [];
+    
+    for (const [symbol, entry] of afterSymbols.entries()) {
+      const previous = beforeSymbols.get(symbol);
+      if (previous && previous.strength !== entry.strength) {
+        changed.push({
+          symbol,
+          before: previous.strength,
+          after: entry.strength,
+          trend: entry.strength > previous.strength ? 'increasing' : 'decreasing'
+        });
+      }
+    }
+    
+    // History is capped, so locate the last shared entry rather than comparing lengths
+    const lastBefore = JSON.stringify(before.resonanceHistory[before.resonanceHistory.length - 1]);
+    const sharedIndex = after.resonanceHistory.map(e => JSON.stringify(e)).lastIndexOf(lastBefore);
+    
+    return {
+      coherence: {
+        before: before.coherence.coherence,
+        after: after.coherence.coherence,
+        delta: after.coherence.coherence - before.coherence.coherence
+      },
+      dissonance: {
+        before: before.coherence.dissonance,
+        after: after.coherence.dissonance,
+        delta: after.coherence.dissonance - before.coherence.dissonance
+      },
+      ticksElapsed: after.coherence.tick - before.coherence.tick,
+      symbols: {
+        added,
+        removed,
+        changed: changed.sort((a, b) => 
+          Math.abs(b.after - b.before) - Math.abs(a.after - a.before))
+      },
+      resonanceEntriesAdded: after.resonanceHistory.length - (sharedIndex + 1),
+      oscillatoryBuffer: {
+        before: before.oscillatoryBuffer.active,
+        after: after.oscillatoryBuffer.active
+      }
     };
   }
   
@@ -210,8 +548,8 @@ export class IntentField {
    * @private
    */
   private _initializeInterferenceMatrix(): number[][] {
-    // Create empty matrix (placeholder)
-    return Array(5).fill(0).map(() => Array(5).fill(0));
+    // Starts empty and grows as agents attach
+    return [];
   }
   
   /**
@@ -285,6 +623,13 @@ export class IntentField {
           markers.push({ symbol, strength });
         }
       });
+      
+      // Symbols from the applied codex lexicon
+      this.symbolLexicon.forEach(({ symbol, strength, matcher }) => {
+        if (matcher?.test(intent.text!) && !markers.some(m => m.symbol === symbol)) {
+          markers.push({ symbol, strength });
+        }
+      });
     }
     
     // Add intent type as a symbol
@@ -522,15 +867,193 @@ export class IntentField {
    * @returns Interference pattern data
    * @private
    */
-  private _calculateInterference(agent: any): InterferencePattern {
-    const agentState = agent.getState();
-    const fieldState = this.coherenceField.getState();
+  private _calculateInterference(agent: any, includeAgents: boolean = false): InterferencePattern {
+    const pattern = this._interferenceBetween(agent.getState(), this.coherenceField.getState());
+    
+    if (!includeAgents) {
+      return pattern;
+    }
+    
+    // Interference with every other agent sharing the field
+    const agentInterference: AgentInterference[] = [];
+    
+    for (const other of this.attachedAgents.values()) {
+      if (other === agent || other.id === agent.id) continue;
+      
+      const { value } = this._computePairInterference(agent, other);
+      agentInterference.push({
+        agentId: other.id,
+        value,
+        type: value > 0.2 ? 'constructive' : value < -0.2 ? 'destructive' : 'neutral'
+      });
+    }
+    
+    const netInterference = agentInterference.length > 0 ?
+      agentInterference.reduce((sum, entry) => sum + entry.value, 0) / agentInterference.length : 0;
+    
+    return {
+      ...pattern,
+      netInterference,
+      agentInterference
+    };
+  }
+  
+  /**
+   * Records an agent's intent signature and symbols for interference tracking
+   * @param intent - The processed intent
+   * @param agent - The processing agent
+   * @private
+   */
+  private _recordAgentActivity(intent: Intent, agent: any): void {
+    if (!agent?.id) return;
+    
+    if (!this.agentActivity.has(agent.id)) {
+      this.agentActivity.set(agent.id, { intentCounts: {}, symbols: {} });
+    }
+    
+    const activity = this.agentActivity.get(agent.id)!;
+    const signature = this._extractIntentSignature(intent);
+    activity.intentCounts[signature] = (activity.intentCounts[signature] || 0) + 1;
+    
+    // Older symbols fade as new ones arrive
+    Object.keys(activity.symbols).forEach(symbol => {
+      activity.symbols[symbol] *= 0.9;
+    });
+    this._extractSymbolicMarkers(intent).forEach(({ symbol, strength }) => {
+      activity.symbols[symbol] = (activity.symbols[symbol] || 0) + strength;
+    });
+    
+    if (this.attachedAgents.has(agent.id)) {
+      this._refreshInterferenceRow(agent.id);
+    }
+  }
+  
+  /**
+   * Recomputes an attached agent's row and column of the interference matrix
+   * @param agentId - The agent identifier
+   * @private
+   */
+  private _refreshInterferenceRow(agentId: string): void {
+    const index = this.interferenceIndex.indexOf(agentId);
+    if (index === -1) return;
     
+    const agent = this.attachedAgents.get(agentId);
+    
+    this.interferenceIndex.forEach((otherId, otherIndex) => {
+      if (otherIndex === index) {
+        this.interferenceMatrix[index][otherIndex] = 0;
+        return;
+      }
+      
+      const { value } = this._computePairInterference(agent, this.attachedAgents.get(otherId));
+      this.interferenceMatrix[index][otherIndex] = value;
+      this.interferenceMatrix[otherIndex][index] = value;
+    });
+  }
+  
+  /**
+   * Computes signed interference between two agents from their persona
+   * harmonics, intent histories and symbolic signatures. Components that
+   * cannot be computed (no persona, no history) are left out of the blend.
+   * @param agentA - First agent
+   * @param agentB - Second agent
+   * @returns Net interference (-1 to 1) and its components
+   * @private
+   */
+  private _computePairInterference(agentA: any, agentB: any): {
+    value: number;
+    components: { harmonic: number | null; intent: number | null; symbolic: number | null };
+  } {
+    const activityA = this.agentActivity.get(agentA.id);
+    const activityB = this.agentActivity.get(agentB.id);
+    
+    const consonance = this._harmonicConsonance(agentA.persona?.harmonics, agentB.persona?.harmonics);
+    const intentSimilarity = activityA && activityB ?
+      sparseCosineSimilarity(activityA.intentCounts, activityB.intentCounts) : null;
+    const symbolicSimilarity = activityA && activityB ?
+      sparseCosineSimilarity(activityA.symbols, activityB.symbols) : null;
+    
+    // Map 0-1 similarities onto -1 (destructive) to 1 (constructive)
+    const components = {
+      harmonic: consonance !== null ? consonance * 2 - 1 : null,
+      intent: intentSimilarity !== null ? intentSimilarity * 2 - 1 : null,
+      symbolic: symbolicSimilarity !== null ? symbolicSimilarity * 2 - 1 : null
+    };
+    
+    const weights = { harmonic: 0.4, intent: 0.3, symbolic: 0.3 };
+    let weighted = 0;
+    let totalWeight = 0;
+    
+    (Object.keys(weights) as (keyof typeof weights)[]).forEach(key => {
+      const component = components[key];
+      if (component !== null) {
+        weighted += component * weights[key];
+        totalWeight += weights[key];
+      }
+    });
+    
+    return {
+      value: totalWeight > 0 ? weighted / totalWeight : 0,
+      components
+    };
+  }
+  
+  /**
+   * Measures consonance between two harmonic systems as the average
+   * closeness of their frequency ratios to simple musical intervals
+   * @param harmonicsA - First harmonic system
+   * @param harmonicsB - Second harmonic system
+   * @returns Consonance (0-1), or null when either system is missing or
+   *          has no finite positive frequency
+   * @private
+   */
+  private _harmonicConsonance(harmonicsA: any, harmonicsB: any): number | null {
+    if (!harmonicsA || !harmonicsB) return null;
+    
+    // Ratios of zero, negative or missing frequencies never reduce to an octave
+    const usable = (harmonics: any): number[] => [harmonics.primaryFrequency, ...(harmonics.secondaries || [])]
+      .filter(frequency => typeof frequency === 'number' && Number.isFinite(frequency) && frequency > 0);
+    const frequenciesA = usable(harmonicsA);
+    const frequenciesB = usable(harmonicsB);
+    if (frequenciesA.length === 0 || frequenciesB.length === 0) return null;
+    
+    const intervals = [1, 6/5, 5/4, 4/3, 3/2, 5/3, 2];
+    
+    let total = 0;
+    
+    frequenciesA.forEach(fa => {
+      let best = 0;
+      
+      frequenciesB.forEach(fb => {
+        // Reduce the ratio into a single octave
+        let ratio = Math.max(fa, fb) / Math.min(fa, fb);
+        while (ratio > 2) ratio /= 2;
+        
+        intervals.forEach(interval => {
+          const deviation = Math.abs(ratio / interval - 1);
+          best = Math.max(best, 1 - deviation / 0.02);
+        });
+      });
+      
+      total += Math.max(0, best);
+    });
+    
+    return total / frequenciesA.length;
+  }
+  
+  /**
+   * Calculates interference between two coherence/dissonance states
+   * @param a - First state
+   * @param b - Second state
+   * @returns Interference pattern data
+   * @private
+   */
+  private _interferenceBetween(a: FieldState, b: FieldState): InterferencePattern {
     // Calculate resonance alignment
-    const alignmentScore = 1 - Math.abs(agentState.coherence - fieldState.coherence);
+    const alignmentScore = 1 - Math.abs(a.coherence - b.coherence);
     
     // Calculate dissonance interference
-    const interferenceScore = Math.abs(agentState.dissonance - fieldState.dissonance);
+    const interferenceScore = Math.abs(a.dissonance - b.dissonance);
     
     // Calculate harmonic coupling
     const harmonicCoupling = (alignmentScore > 0.8) ? 
@@ -556,3 +1079,40 @@ export class IntentField {
     return [432, 528];
   }
 }
+
+/**
+ * Lists the required fields of a checkpoint that are missing or of the wrong
+ * type, so a damaged checkpoint fails on restore rather than on first use
+ * @param data - Parsed checkpoint of a supported version
+ * @returns Paths of the invalid fields
+ */
+function invalidCheckpointFields(data: any): string[] {
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const invalid: string[] = [];
+  
+  if (typeof data.fieldDecayRate !== 'number') invalid.push('fieldDecayRate');
+  
+  if (!isObject(data.coherence)) {
+    invalid.push('coherence');
+  } else {
+    ['coherence', 'dissonance', 'baselineCoherence', 'baselineDissonance', 'decayRate', 'seed', 'rngState', 'tick']
+      .filter(key => typeof data.coherence[key] !== 'number')
+      .forEach(key => invalid.push(`coherence.${key}`));
+  }
+  
+  ['resonanceHistory', 'fieldStates', 'symbolicStateSignature', 'narrativeContext']
+    .filter(key => !Array.isArray(data[key]))
+    .forEach(key => invalid.push(key));
+  
+  if (!isObject(data.harmonicPatterns)) invalid.push('harmonicPatterns');
+  
+  if (!isObject(data.oscillatoryBuffer)) {
+    invalid.push('oscillatoryBuffer');
+  } else if (!Array.isArray(data.oscillatoryBuffer.harmonicMap)) {
+    invalid.push('oscillatoryBuffer.harmonicMap');
+  }
+  
+  if (data.agentActivity !== undefined && !Array.isArray(data.agentActivity)) invalid.push('agentActivity');
+  
+  return invalid;
+}
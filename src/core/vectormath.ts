@@ -0,0 +1,58 @@
+import { AlignmentSecurityLevel } from '../types/agent';
+
+/**
+ * Similarity thresholds by security level, shared by agent alignment and
+ * the codex validator
+ */
+export const ALIGNMENT_THRESHOLDS: Record<AlignmentSecurityLevel, number> = {
+  low: 0.75,
+  medium: 0.85,
+  high: 0.95
+};
+
+/**
+ * Cosine similarity of two equal-length vectors
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity (0 when either vector is zero)
+ * @throws Error when the vectors differ in length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same dimensions');
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Cosine similarity of two sparse vectors; missing keys count as zero
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity (0 when either vector is zero)
+ */
+export function sparseCosineSimilarity(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  Object.keys(a).forEach(key => {
+    dot += a[key] * (b[key] || 0);
+    normA += a[key] * a[key];
+  });
+  Object.values(b).forEach(value => {
+    normB += value * value;
+  });
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,380 @@
+import * as fs from 'fs';
+import {
+  Intent,
+  IntentClassifier,
+  IntentEntity,
+  IntentGrammar,
+  IntentParser,
+  IntentSentiment
+} from '../types/intent';
+
+/**
+ * Built-in grammar used when no grammar file is configured
+ */
+export const DEFAULT_INTENT_GRAMMAR: IntentGrammar = {
+  version: 1,
+  defaultType: 'general',
+  intents: [
+    { type: 'assistance', patterns: ['help', 'assist', 'support', 'stuck'] },
+    { type: 'assistance', subtype: 'troubleshooting', patterns: ['fix', 'broken', 'error', 'not working', 'debug'] },
+    { type: 'explanation', patterns: ['explain', 'what is', 'why', 'how does', 'clarify'] },
+    { type: 'creation', patterns: ['create', 'build', 'make', 'write', 'generate', 'design'] },
+    { type: 'analysis', patterns: ['analyze', 'analyse', 'examine', 'assess', 'compare', 'evaluate'] },
+    { type: 'reflection', patterns: ['feel', 'think about', 'reflect', 'wonder'] }
+  ],
+  entities: [
+    { type: 'number', regex: '\\b\\d+(?:\\.\\d+)?\\b' },
+    { type: 'url', regex: 'https?://[^\\s]+' },
+    { type: 'email', regex: '[\\w.+-]+@[\\w-]+\\.[\\w.]+' }
+  ],
+  sentiment: {
+    positive: ['good', 'great', 'thanks', 'thank', 'love', 'excellent', 'happy', 'helpful'],
+    negative: ['bad', 'terrible', 'hate', 'angry', 'broken', 'useless', 'awful', 'frustrated'],
+    negators: ['not', 'never', 'no', "don't", "isn't", "wasn't"]
+  }
+};
+
+/**
+ * Compiled form of a grammar rule
+ * @private
+ */
+interface CompiledRule {
+  type: string;
+  subtype?: string;
+  weight: number;
+  matchers: RegExp[];
+}
+
+/**
+ * Escapes a literal for use in a regular expression
+ * @param literal - The literal text
+ * @returns Escaped pattern source
+ */
+function escapeRegex(literal: string): string {
+  return literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extracts the text of a raw input
+ * @param input - Raw input
+ * @returns Input text
+ */
+function inputText(input: string | Intent): string {
+  return typeof input === 'string' ? input : input.text || '';
+}
+
+/**
+ * RuleBasedIntentParser classifies input against a grammar of weighted
+ * keyword and regex rules, extracting entities and lexicon sentiment.
+ * Grammars are plain JSON so they can be maintained outside the code.
+ */
+export class RuleBasedIntentParser implements IntentParser {
+  /**
+   * Parser name
+   */
+  public readonly name: string = 'rule-based';
+
+  /**
+   * Grammar in use
+   */
+  public readonly grammar: IntentGrammar;
+
+  /**
+   * Compiled intent rules
+   */
+  private rules: CompiledRule[];
+
+  /**
+   * Compiled entity matchers
+   */
+  private entityMatchers: { type: string; matcher: RegExp }[];
+
+  /**
+   * Creates a new RuleBasedIntentParser
+   * @param grammar - Grammar definition (defaults to the built-in grammar)
+   */
+  constructor(grammar: IntentGrammar = DEFAULT_INTENT_GRAMMAR) {
+    RuleBasedIntentParser.validateGrammar(grammar);
+    this.grammar = grammar;
+
+    this.rules = grammar.intents.map((rule, index) => ({
+      type: rule.type,
+      subtype: rule.subtype,
+      weight: rule.weight ?? 1,
+      matchers: [
+        ...(rule.patterns || []).map(p => new RegExp(`\\b${escapeRegex(p)}\\b`, 'i')),
+        ...(rule.regex || []).map(r => RuleBasedIntentParser._compile(r, `intents[${index}]`))
+      ]
+    }));
+
+    this.entityMatchers = (grammar.entities || []).map((entity, index) => ({
+      type: entity.type,
+      matcher: entity.regex ?
+        RuleBasedIntentParser._compile(entity.regex, `entities[${index}]`, 'gi') :
+        new RegExp(`\\b(?:${(entity.values || []).map(escapeRegex).join('|')})\\b`, 'gi')
+    }));
+  }
+
+  /**
+   * Creates a parser from a JSON grammar file
+   * @param filePath - Path to the grammar file
+   * @returns Configured parser
+   */
+  static fromFile(filePath: string): RuleBasedIntentParser {
+    let grammar: IntentGrammar;
+
+    try {
+      grammar = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to load intent grammar from ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return new RuleBasedIntentParser(grammar);
+  }
+
+  /**
+   * Validates the structure of a grammar
+   * @param grammar - Grammar to validate
+   */
+  static validateGrammar(grammar: IntentGrammar): void {
+    if (!grammar || typeof grammar.version !== 'number') {
+      throw new Error('Invalid intent grammar: missing numeric version');
+    }
+
+    if (!Array.isArray(grammar.intents)) {
+      throw new Error('Invalid intent grammar: intents must be an array');
+    }
+
+    grammar.intents.forEach((rule, index) => {
+      if (!rule.type) {
+        throw new Error(`Invalid intent grammar: intents[${index}] is missing a type`);
+      }
+      if (!rule.patterns?.length && !rule.regex?.length) {
+        throw new Error(`Invalid intent grammar: intents[${index}] defines no patterns or regex`);
+      }
+    });
+
+    (grammar.entities || []).forEach((entity, index) => {
+      if (!entity.type || (!entity.regex && !entity.values?.length)) {
+        throw new Error(`Invalid intent grammar: entities[${index}] needs a type and values or regex`);
+      }
+    });
+  }
+
+  /**
+   * Parses raw input into an intent
+   * @param input - Raw input
+   * @returns Parsed intent
+   */
+  parse(input: string | Intent): Promise<Intent> {
+    const text = inputText(input);
+
+    // Score each rule by the weight of its matching patterns
+    const scores = this.rules.map(rule => ({
+      rule,
+      score: rule.matchers.filter(m => m.test(text)).length * rule.weight
+    }));
+
+    const ranked = scores.filter(s => s.score > 0).sort((a, b) => b.score - a.score);
+    const best = ranked[0];
+    const total = ranked.reduce((sum, s) => sum + s.score, 0);
+
+    // Confidence combines the winner's share of the total and its absolute strength
+    const confidence = best ?
+      (best.score / total) * (1 - Math.exp(-best.score)) : 0.2;
+
+    const base: Partial<Intent> = typeof input === 'string' ? {} : input;
+
+    return Promise.resolve({
+      ...base,
+      type: best ? best.rule.type : this.grammar.defaultType || 'general',
+      subtype: best?.rule.subtype,
+      text,
+      parameters: base.parameters || {},
+      entities: this._extractEntities(text),
+      sentiment: this._analyzeSentiment(text),
+      confidence: Math.round(confidence * 1000) / 1000,
+      metadata: {
+        ...base.metadata,
+        parser: this.name,
+        alternatives: ranked.slice(1, 4).map(s => ({
+          type: s.rule.type,
+          subtype: s.rule.subtype,
+          score: s.score
+        }))
+      }
+    });
+  }
+
+  // Private methods
+
+  /**
+   * Compiles a grammar regex, reporting its location on failure
+   * @private
+   */
+  private static _compile(source: string, location: string, flags: string = 'i'): RegExp {
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      throw new Error(
+        `Invalid intent grammar: ${location} has an invalid regex (${error instanceof Error ? error.message : String(error)})`
+      );
+    }
+  }
+
+  /**
+   * Extracts entities from text
+   * @param text - Input text
+   * @returns Entities in order of appearance
+   * @private
+   */
+  private _extractEntities(text: string): IntentEntity[] {
+    const entities: IntentEntity[] = [];
+
+    this.entityMatchers.forEach(({ type, matcher }) => {
+      matcher.lastIndex = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = matcher.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          matcher.lastIndex++;
+          continue;
+        }
+
+        entities.push({
+          type,
+          value: match[0],
+          start: match.index,
+          end: match.index + match[0].length
+        });
+      }
+    });
+
+    return entities.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Scores sentiment from the grammar lexicon, flipping terms
+   * preceded by a negator within two tokens
+   * @param text - Input text
+   * @returns Sentiment
+   * @private
+   */
+  private _analyzeSentiment(text: string): IntentSentiment {
+    const lexicon = this.grammar.sentiment || {};
+    const positive = new Set((lexicon.positive || []).map(w => w.toLowerCase()));
+    const negative = new Set((lexicon.negative || []).map(w => w.toLowerCase()));
+    const negators = new Set((lexicon.negators || []).map(w => w.toLowerCase()));
+
+    const tokens = text.toLowerCase().match(/[a-z']+/g) || [];
+    let positiveHits = 0;
+    let negativeHits = 0;
+
+    tokens.forEach((token, index) => {
+      const polarity = positive.has(token) ? 1 : negative.has(token) ? -1 : 0;
+      if (polarity === 0) return;
+
+      const negated = tokens.slice(Math.max(0, index - 2), index).some(t => negators.has(t));
+      const effective = negated ? -polarity : polarity;
+
+      if (effective > 0) positiveHits++;
+      else negativeHits++;
+    });
+
+    const hits = positiveHits + negativeHits;
+    const score = hits > 0 ? (positiveHits - negativeHits) / hits : 0;
+
+    return {
+      score,
+      label: score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral'
+    };
+  }
+}
+
+/**
+ * ClassifierIntentParser adapts an external classifier function to the
+ * IntentParser interface. Results below the confidence floor fall back
+ * to another parser when one is configured.
+ */
+export class ClassifierIntentParser implements IntentParser {
+  /**
+   * Parser name
+   */
+  public readonly name: string;
+
+  /**
+   * External classifier
+   */
+  private classify: IntentClassifier;
+
+  /**
+   * Parser used for low-confidence or failed classifications
+   */
+  private fallback: IntentParser | null;
+
+  /**
+   * Minimum confidence accepted from the classifier
+   */
+  private minConfidence: number;
+
+  /**
+   * Creates a new ClassifierIntentParser
+   * @param classify - Classifier function
+   * @param options - Adapter options
+   */
+  constructor(classify: IntentClassifier, options: {
+    name?: string;
+    fallback?: IntentParser;
+    minConfidence?: number;
+  } = {}) {
+    this.classify = classify;
+    this.name = options.name || 'classifier';
+    this.fallback = options.fallback || null;
+    this.minConfidence = options.minConfidence ?? 0;
+  }
+
+  /**
+   * Parses raw input with the classifier
+   * @param input - Raw input
+   * @returns Parsed intent
+   */
+  async parse(input: string | Intent): Promise<Intent> {
+    const text = inputText(input);
+    let result: Partial<Intent> | null = null;
+
+    try {
+      result = await this.classify(text, input);
+    } catch (error) {
+      if (!this.fallback) throw error;
+    }
+
+    const confidence = result?.confidence ?? 1;
+
+    if (!result?.type || confidence < this.minConfidence) {
+      if (this.fallback) {
+        return this.fallback.parse(input);
+      }
+      if (!result?.type) {
+        throw new Error(`Intent classifier "${this.name}" returned no intent type`);
+      }
+    }
+
+    const base: Partial<Intent> = typeof input === 'string' ? {} : input;
+
+    return {
+      ...base,
+      ...result,
+      type: result!.type!,
+      text,
+      parameters: result!.parameters || base.parameters || {},
+      confidence,
+      metadata: {
+        ...base.metadata,
+        ...result!.metadata,
+        parser: this.name
+      }
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { Intent, IntentClassifier, IntentGrammar, IntentParser } from '../types/intent';
+import { RetrievedMemory } from '../types/memory';
+import { EthicalAssessment } from '../types/ethics';
+import { ResponseTemplate, GeneratedResponse, TemplateSelectionLog } from '../types/response';
+import { RuleBasedIntentParser, ClassifierIntentParser } from './intentparser';
+import { TemplateResponseGenerator } from './responsegenerator';
+
+/**
+ * NOTHINGEngine turns raw input into structured intents and generates
+ * responses. Intent parsing is delegated to a pluggable IntentParser:
+ * an explicit parser, a classifier function, or a rule-based parser
+ * built from a grammar (inline or loaded from a file). Responses are
+ * rendered by a TemplateResponseGenerator.
+ */
+export class NOTHINGEngine {
+  /**
+   * Active intent parser
+   */
+  public readonly parser: IntentParser;
+
+  /**
+   * Response generator
+   */
+  public readonly responseGenerator: TemplateResponseGenerator;
+
+  /**
+   * Whether the engine has been started
+   */
+  private started: boolean = false;
+
+  /**
+   * Creates a new NOTHINGEngine
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    parser?: IntentParser;
+    classifier?: IntentClassifier;
+    minConfidence?: number;
+    grammar?: IntentGrammar;
+    grammarPath?: string;
+    responseGenerator?: TemplateResponseGenerator;
+    templates?: ResponseTemplate[];
+    templatesPath?: string;
+    templateLogger?: (entry: TemplateSelectionLog) => void;
+  } = {}) {
+    const ruleParser = config.grammarPath ?
+      RuleBasedIntentParser.fromFile(config.grammarPath) :
+      new RuleBasedIntentParser(config.grammar);
+
+    if (config.parser) {
+      this.parser = config.parser;
+    } else if (config.classifier) {
+      this.parser = new ClassifierIntentParser(config.classifier, {
+        fallback: ruleParser,
+        minConfidence: config.minConfidence
+      });
+    } else {
+      this.parser = ruleParser;
+    }
+
+    if (config.responseGenerator) {
+      this.responseGenerator = config.responseGenerator;
+    } else if (config.templatesPath) {
+      this.responseGenerator = TemplateResponseGenerator.fromDirectory(config.templatesPath, {
+        logger: config.templateLogger
+      });
+    } else {
+      this.responseGenerator = new TemplateResponseGenerator({
+        templates: config.templates,
+        logger: config.templateLogger
+      });
+    }
+  }
+
+  /**
+   * Starts the engine
+   */
+  start(): void {
+    this.started = true;
+  }
+
+  /**
+   * Checks whether the engine has been started
+   * @returns Whether the engine is started
+   */
+  isStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Parses raw input into a structured intent
+   * @param input - Raw input (text or partially structured intent)
+   * @returns Parsed intent
+   */
+  async parseIntent(input: string | Intent): Promise<Intent> {
+    // Intents that already carry a type are passed through untouched
+    if (typeof input !== 'string' && input.type) {
+      return {
+        ...input,
+        parameters: input.parameters || {}
+      };
+    }
+
+    return this.parser.parse(input);
+  }
+
+  /**
+   * Generates a response for an intent
+   * @param intent - The parsed intent
+   * @param memories - Retrieved memories
+   * @param assessment - Ethical assessment
+   * @param state - Agent state
+   * @param warnings - Ethical warnings raised by guardrails
+   * @returns Rendered response
+   */
+  generateResponse(
+    intent: Intent,
+    memories: RetrievedMemory[],
+    assessment: EthicalAssessment | null,
+    state: Record<string, any>,
+    warnings: string[] = []
+  ): Promise<GeneratedResponse> {
+    return Promise.resolve(this.responseGenerator.generate({
+      intent,
+      memories,
+      assessment,
+      warnings,
+      state
+    }));
+  }
+}
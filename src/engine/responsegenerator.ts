@@ -0,0 +1,384 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ResponseTemplate,
+  ResponseContext,
+  GeneratedResponse,
+  TemplateSelectionLog
+} from '../types/response';
+import { IntentConstraint } from '../types/intent';
+
+/**
+ * Built-in templates used when no template directory is configured
+ */
+export const DEFAULT_RESPONSE_TEMPLATES: ResponseTemplate[] = [
+  {
+    id: 'general.default',
+    intentType: '*',
+    text: 'I registered your {{intent.type}} intent: "{{intent.text}}".'
+  },
+  {
+    id: 'general.warning',
+    intentType: '*',
+    when: { hasWarnings: true },
+    text: 'I can respond to your {{intent.type}} intent with care. Note: {{warnings.text}}.'
+  },
+  {
+    id: 'assistance.default',
+    intentType: 'assistance',
+    text: 'I can help with that. Let\'s work through "{{intent.text}}" together.'
+  },
+  {
+    id: 'assistance.troubleshooting',
+    intentType: 'assistance',
+    subtype: 'troubleshooting',
+    text: 'Let\'s troubleshoot this step by step, starting from "{{intent.text}}".'
+  },
+  {
+    id: 'assistance.recalled',
+    intentType: 'assistance',
+    when: { hasMemories: true },
+    text: 'I can help with that. This relates to {{memories.count}} earlier {{memories.lastIntent|interaction}} request(s).'
+  },
+  {
+    id: 'explanation.default',
+    intentType: 'explanation',
+    text: 'Here is an explanation of "{{intent.text}}".'
+  },
+  {
+    id: 'creation.default',
+    intentType: 'creation',
+    text: 'Let\'s create something from "{{intent.text}}".'
+  },
+  {
+    id: 'analysis.default',
+    intentType: 'analysis',
+    text: 'Here is an analysis of "{{intent.text}}".'
+  },
+  {
+    id: 'reflection.default',
+    intentType: 'reflection',
+    text: 'Reflecting on "{{intent.text}}" from a {{state.emotionalState|neutral}} state.'
+  }
+];
+
+/**
+ * Matches `{{path}}` and `{{path|fallback}}` slots
+ */
+const SLOT_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Stands in for the intent text under a `no_echo` constraint without a value
+ */
+const NO_ECHO_TEXT = 'your request';
+
+/**
+ * Replaces text excluded by an `exclude` constraint
+ */
+const EXCLUDED_TEXT = '[redacted]';
+
+/**
+ * TemplateResponseGenerator renders responses from per-intent-type
+ * templates. The most specific matching template wins (subtype, then
+ * type, then wildcard; conditions and priority break ties) and its
+ * slots are filled from the intent, retrieved memories, ethical
+ * warnings and agent state. Every selection is logged so responses
+ * can be traced back to the template that produced them. Constraints
+ * attached to the intent by guardrail policies shape the rendered text.
+ */
+export class TemplateResponseGenerator {
+  /**
+   * Loaded templates
+   */
+  private templates: ResponseTemplate[];
+
+  /**
+   * Selection log
+   */
+  private selectionLog: TemplateSelectionLog[] = [];
+
+  /**
+   * Maximum number of log entries retained
+   */
+  private maxLogLength: number;
+
+  /**
+   * Log sink invoked on every selection
+   */
+  private logger: ((entry: TemplateSelectionLog) => void) | null;
+
+  /**
+   * Creates a new TemplateResponseGenerator
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    templates?: ResponseTemplate[];
+    maxLogLength?: number;
+    logger?: (entry: TemplateSelectionLog) => void;
+  } = {}) {
+    this.templates = [];
+    this.maxLogLength = config.maxLogLength || 1000;
+    this.logger = config.logger || null;
+
+    (config.templates || DEFAULT_RESPONSE_TEMPLATES).forEach(t => this.addTemplate(t));
+  }
+
+  /**
+   * Loads templates from every JSON file in a directory. Each file holds
+   * a single template or an array of templates; files are read in name
+   * order so later files can override earlier template ids.
+   * @param dirPath - Template directory
+   * @param config - Additional configuration options
+   * @returns Configured generator
+   */
+  static fromDirectory(dirPath: string, config: {
+    maxLogLength?: number;
+    logger?: (entry: TemplateSelectionLog) => void;
+  } = {}): TemplateResponseGenerator {
+    const files = fs.readdirSync(dirPath)
+      .filter(file => file.endsWith('.json'))
+      .sort();
+
+    const templates: ResponseTemplate[] = [];
+
+    files.forEach(file => {
+      const filePath = path.join(dirPath, file);
+      let content: ResponseTemplate | ResponseTemplate[];
+
+      try {
+        content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (error) {
+        throw new Error(
+          `Failed to load response templates from ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      templates.push(...(Array.isArray(content) ? content : [content]));
+    });
+
+    return new TemplateResponseGenerator({ ...config, templates });
+  }
+
+  /**
+   * Adds a template, replacing any template with the same id
+   * @param template - The template
+   */
+  addTemplate(template: ResponseTemplate): void {
+    if (!template.id || !template.intentType || typeof template.text !== 'string') {
+      throw new Error(`Invalid response template: ${JSON.stringify(template)}`);
+    }
+
+    this.templates = this.templates.filter(t => t.id !== template.id);
+    this.templates.push(template);
+  }
+
+  /**
+   * Gets the loaded templates
+   * @returns Templates
+   */
+  getTemplates(): ResponseTemplate[] {
+    return [...this.templates];
+  }
+
+  /**
+   * Generates a response for a context
+   * @param context - Response inputs
+   * @returns Rendered response
+   */
+  generate(context: ResponseContext): GeneratedResponse {
+    const candidates = this.templates.filter(t => this._matches(t, context));
+
+    if (candidates.length === 0) {
+      throw new Error(`No response template matches intent type "${context.intent.type}"`);
+    }
+
+    const template = candidates.reduce((best, t) =>
+      this._rank(t) > this._rank(best) ? t : best
+    );
+
+    const entry: TemplateSelectionLog = {
+      timestamp: Date.now(),
+      intentType: context.intent.type,
+      subtype: context.intent.subtype,
+      templateId: template.id,
+      candidates: candidates.length
+    };
+
+    this.selectionLog.push(entry);
+    if (this.selectionLog.length > this.maxLogLength) {
+      this.selectionLog.shift();
+    }
+    this.logger?.(entry);
+
+    const constraints = context.intent.constraints || [];
+    const { text, unresolvedSlots } = this._render(template.text, this._buildSlots(context));
+
+    return {
+      text: this._applyConstraints(text, constraints),
+      metadata: {
+        templateId: template.id,
+        unresolvedSlots,
+        ...(constraints.length > 0
+          ? { appliedConstraints: [...new Set(constraints.map(constraint => constraint.type))] }
+          : {})
+      }
+    };
+  }
+
+  /**
+   * Gets the template selection log
+   * @param limit - Maximum number of entries (most recent)
+   * @returns Log entries, oldest first
+   */
+  getSelectionLog(limit?: number): TemplateSelectionLog[] {
+    return limit ? this.selectionLog.slice(-limit) : [...this.selectionLog];
+  }
+
+  // Private methods
+
+  /**
+   * Checks whether a template applies to a context
+   * @private
+   */
+  private _matches(template: ResponseTemplate, context: ResponseContext): boolean {
+    if (template.intentType !== '*' && template.intentType !== context.intent.type) return false;
+    if (template.subtype && template.subtype !== context.intent.subtype) return false;
+
+    const when = template.when;
+    if (!when) return true;
+
+    const coherence = context.state.coherence ?? 0;
+
+    if (when.emotionalState && !when.emotionalState.includes(context.state.emotionalState)) return false;
+    if (when.minCoherence !== undefined && coherence < when.minCoherence) return false;
+    if (when.maxCoherence !== undefined && coherence > when.maxCoherence) return false;
+    if (when.hasWarnings !== undefined && when.hasWarnings !== context.warnings.length > 0) return false;
+    if (when.hasMemories !== undefined && when.hasMemories !== context.memories.length > 0) return false;
+    if (when.sentiment && !when.sentiment.includes(context.intent.sentiment?.label || 'neutral')) return false;
+
+    return true;
+  }
+
+  /**
+   * Ranks a matching template by specificity, then priority
+   * @private
+   */
+  private _rank(template: ResponseTemplate): number {
+    let specificity = 0;
+    if (template.intentType !== '*') specificity += 4;
+    if (template.subtype) specificity += 2;
+    if (template.when && Object.keys(template.when).length > 0) specificity += 1;
+
+    return specificity * 1000 + (template.priority || 0);
+  }
+
+  /**
+   * Builds the slot values available to templates
+   * @private
+   */
+  private _buildSlots(context: ResponseContext): Record<string, any> {
+    const entities: Record<string, string> = {};
+    (context.intent.entities || []).forEach(entity => {
+      if (!(entity.type in entities)) {
+        entities[entity.type] = entity.value;
+      }
+    });
+
+    const mostSimilar = context.memories[0];
+    const noEcho = (context.intent.constraints || []).find(constraint => constraint.type === 'no_echo');
+
+    return {
+      intent: noEcho
+        ? { ...context.intent, text: noEcho.value ?? NO_ECHO_TEXT }
+        : context.intent,
+      entities,
+      sentiment: context.intent.sentiment?.label || 'neutral',
+      memories: {
+        count: context.memories.length,
+        lastIntent: mostSimilar?.intent?.type
+      },
+      warnings: {
+        count: context.warnings.length,
+        text: context.warnings.join('; ')
+      },
+      ethics: context.assessment ? {
+        score: context.assessment.overallScore,
+        ...context.assessment.dimensions
+      } : {},
+      state: context.state
+    };
+  }
+
+  /**
+   * Applies intent constraints to rendered text (`no_echo` is applied
+   * while building slots)
+   * @private
+   */
+  private _applyConstraints(text: string, constraints: IntentConstraint[]): string {
+    let result = text;
+
+    constraints.filter(c => c.type === 'exclude').forEach(constraint => {
+      ([] as string[]).concat(constraint.value ?? []).forEach(source => {
+        result = result.replace(excludePattern(source), EXCLUDED_TEXT);
+      });
+    });
+
+    constraints.filter(c => c.type === 'disclaimer' && c.value).forEach(constraint => {
+      result = `${result} ${constraint.value}`;
+    });
+
+    const lengths = constraints
+      .filter(c => c.type === 'max_length' && typeof c.value === 'number' && c.value > 0)
+      .map(c => c.value as number);
+    if (lengths.length > 0) {
+      const limit = Math.min(...lengths);
+      if (result.length > limit) {
+        result = `${result.slice(0, Math.max(0, limit - 1)).trimEnd()}…`;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fills template slots
+   * @private
+   */
+  private _render(text: string, slots: Record<string, any>): { text: string; unresolvedSlots: string[] } {
+    const unresolvedSlots: string[] = [];
+
+    const rendered = text.replace(SLOT_PATTERN, (_match, slotPath: string, fallback?: string) => {
+      const value = slotPath.split('.').reduce<any>(
+        (current, key) => (current === null || current === undefined ? undefined : current[key]),
+        slots
+      );
+
+      if (value === undefined || value === null || value === '') {
+        if (fallback === undefined) unresolvedSlots.push(slotPath);
+        return fallback ?? '';
+      }
+
+      if (typeof value === 'number' && !Number.isInteger(value)) {
+        return value.toFixed(2);
+      }
+
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+
+    return { text: rendered, unresolvedSlots };
+  }
+}
+
+/**
+ * Compiles an `exclude` pattern. Constraints attached in code skip policy
+ * file validation, so a pattern that does not compile is matched literally.
+ * @param source - Pattern source
+ * @returns Case-insensitive global pattern
+ */
+function excludePattern(source: string): RegExp {
+  try {
+    return new RegExp(source, 'gi');
+  } catch (error) {
+    return new RegExp(source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+  }
+}
@@ -0,0 +1,344 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditEntry, AuditIssue, AuditVerification } from '../types/ethics';
+
+/**
+ * Previous hash of the first entry in a log
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Audit entry fields supplied by callers; the log assigns the rest
+ */
+export type AuditRecord = Omit<AuditEntry, 'seq' | 'timestamp' | 'prevHash' | 'hash'> & { timestamp?: number };
+
+/**
+ * Append-only ethics audit log. Each entry carries the hash of the one
+ * before it, so removing, reordering or editing entries breaks the chain.
+ * When a file path is given, entries are appended to it as JSON lines and
+ * the chain continues from the entries already in the file.
+ */
+export class AuditLog {
+  /**
+   * Path of the JSONL file (null when kept in memory only)
+   */
+  public readonly filePath: string | null;
+
+  /**
+   * Entries, oldest first
+   */
+  private entries: AuditEntry[] = [];
+
+  /**
+   * Hash of the last entry
+   */
+  private headHash: string = GENESIS_HASH;
+
+  /**
+   * Sequence number of the last entry
+   */
+  private headSeq: number = 0;
+
+  /**
+   * Pending write chain, keeps appends in call order
+   */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * First write failure since the last flush
+   */
+  private writeError: Error | null = null;
+
+  /**
+   * Whether the file ends in a partial line that the next write must close
+   */
+  private partialTail = false;
+
+  /**
+   * Creates a new AuditLog
+   * @param config - Configuration options
+   */
+  constructor(config: { filePath?: string } = {}) {
+    this.filePath = config.filePath || null;
+
+    // Continue the chain from the persisted entries
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      const text = fs.readFileSync(this.filePath, 'utf8');
+      this.entries = readAuditLines(text)
+        .map(line => line.entry)
+        .filter((entry): entry is AuditEntry => entry !== null);
+      this.partialTail = text.length > 0 && !text.endsWith('\n');
+
+      const last = this.entries[this.entries.length - 1];
+      if (last) {
+        this.headSeq = last.seq;
+        this.headHash = last.hash;
+      }
+    }
+  }
+
+  /**
+   * Appends an entry to the log
+   * @param record - Entry fields
+   * @returns Appended entry; it is persisted asynchronously (see `flush`)
+   */
+  append(record: AuditRecord): AuditEntry {
+    const fields = {
+      seq: this.headSeq + 1,
+      timestamp: record.timestamp ?? Date.now(),
+      kind: record.kind,
+      agentId: record.agentId,
+      policyName: record.policyName,
+      intentType: record.intentType,
+      action: record.action,
+      symbolicViolationCode: record.symbolicViolationCode,
+      // Stored as written to the file, so the hash survives a round trip
+      details: JSON.parse(JSON.stringify(record.details)),
+      prevHash: this.headHash
+    };
+    const entry: AuditEntry = { ...fields, hash: hashAuditEntry(fields) };
+
+    this.entries.push(entry);
+    this.headSeq = entry.seq;
+    this.headHash = entry.hash;
+
+    if (this.filePath) {
+      this._write(entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Gets the log entries
+   * @returns Entries, oldest first
+   */
+  getEntries(): AuditEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Gets the hash of the last entry, for anchoring the log elsewhere
+   * @returns Head hash
+   */
+  getHeadHash(): string {
+    return this.headHash;
+  }
+
+  /**
+   * Waits until queued entries are written
+   * @returns Resolves once written; rejects with the first write failure
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+
+    if (this.writeError) {
+      const error = this.writeError;
+      this.writeError = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies the log: the file when persisted, otherwise the entries in memory
+   * @param options - Verification options
+   * @returns Verification result
+   */
+  async verify(options: { headHash?: string } = {}): Promise<AuditVerification> {
+    if (!this.filePath) {
+      return verifyAuditEntries(this.entries, options);
+    }
+
+    await this.writeQueue;
+    return verifyAuditFile(this.filePath, options);
+  }
+
+  // Private methods
+
+  /**
+   * Queues an entry for appending to the file
+   * @param entry - Audit entry
+   * @private
+   */
+  private _write(entry: AuditEntry): void {
+    const filePath = this.filePath!;
+    const line = `${this.partialTail ? '\n' : ''}${JSON.stringify(entry)}\n`;
+    this.partialTail = false;
+
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(filePath, line, 'utf8');
+    });
+
+    // A failed append must not stall the ones queued after it
+    this.writeQueue = write.catch(error => {
+      this.writeError = this.writeError || error;
+    });
+  }
+}
+
+/**
+ * Computes the hash of an audit entry
+ * @param entry - Entry fields (the `hash` field is ignored)
+ * @returns SHA-256 hex digest of the canonical entry
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'> & { hash?: string }): string {
+  const { hash, ...fields } = entry;
+
+  return crypto
+    .createHash('sha256')
+    .update(canonicalJson(fields))
+    .digest('hex');
+}
+
+/**
+ * Verifies a chain of audit entries
+ * @param entries - Entries, oldest first
+ * @param options - Verification options
+ * @returns Verification result
+ */
+export function verifyAuditEntries(
+  entries: AuditEntry[],
+  options: { headHash?: string } = {}
+): AuditVerification {
+  return verifyLines(entries.map(entry => ({ entry })), options);
+}
+
+/**
+ * Verifies an audit log file
+ * @param filePath - Path of the JSONL file
+ * @param options - Verification options
+ * @returns Verification result, with file line numbers in its issues
+ */
+export async function verifyAuditFile(
+  filePath: string,
+  options: { headHash?: string } = {}
+): Promise<AuditVerification> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  return verifyLines(readAuditLines(text), options);
+}
+
+/**
+ * Checks sequence numbers, hashes and links of audit entries
+ * @param lines - Entries, or null for unreadable lines
+ * @param options - Verification options
+ * @returns Verification result
+ */
+function verifyLines(
+  lines: { line?: number; entry: AuditEntry | null; error?: string }[],
+  options: { headHash?: string }
+): AuditVerification {
+  const issues: AuditIssue[] = [];
+  let expectedSeq = 1;
+  let expectedPrev = GENESIS_HASH;
+  let resync = false;
+  let entries = 0;
+
+  lines.forEach(({ line, entry, error }) => {
+    const at = line !== undefined ? { line } : {};
+
+    if (!entry) {
+      issues.push({ ...at, type: 'unreadable', message: `unreadable entry: ${error}` });
+      resync = true;
+      return;
+    }
+
+    entries++;
+    const where = { ...at, seq: entry.seq };
+
+    if (hashAuditEntry(entry) !== entry.hash) {
+      issues.push({ ...where, type: 'tampered', message: `entry ${entry.seq} does not match its hash` });
+    }
+
+    // The entry after an unreadable line is checked against itself only
+    if (!resync) {
+      if (entry.seq !== expectedSeq) {
+        issues.push({
+          ...where,
+          type: 'gap',
+          message: entry.seq > expectedSeq
+            ? entry.seq - 1 > expectedSeq
+              ? `entries ${expectedSeq}-${entry.seq - 1} are missing`
+              : `entry ${expectedSeq} is missing`
+            : `expected entry ${expectedSeq}, found entry ${entry.seq}`
+        });
+      }
+      if (entry.prevHash !== expectedPrev) {
+        issues.push({ ...where, type: 'chain_break', message: `entry ${entry.seq} does not link to the entry before it` });
+      }
+    }
+
+    resync = false;
+    expectedSeq = entry.seq + 1;
+    expectedPrev = entry.hash;
+  });
+
+  if (options.headHash !== undefined && options.headHash !== expectedPrev) {
+    issues.push({ type: 'chain_break', message: 'log head does not match the expected head hash' });
+  }
+
+  return {
+    valid: issues.length === 0,
+    entries,
+    headHash: expectedPrev,
+    issues
+  };
+}
+
+/**
+ * Parses the lines of an audit log file
+ * @param text - File contents
+ * @returns Entries by line, or null with the error for unreadable lines
+ */
+function readAuditLines(text: string): { line: number; entry: AuditEntry | null; error?: string }[] {
+  const results: { line: number; entry: AuditEntry | null; error?: string }[] = [];
+
+  text.split('\n').forEach((content, index) => {
+    if (!content.trim()) return;
+
+    try {
+      const entry = JSON.parse(content);
+      if (!isAuditEntry(entry)) {
+        throw new Error('missing audit entry fields');
+      }
+      results.push({ line: index + 1, entry });
+    } catch (error) {
+      results.push({ line: index + 1, entry: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Checks that a parsed value has the shape of an audit entry
+ * @param value - Parsed value
+ * @returns Whether the value is an audit entry
+ */
+function isAuditEntry(value: any): value is AuditEntry {
+  return typeof value === 'object' && value !== null &&
+    typeof value.seq === 'number' &&
+    typeof value.prevHash === 'string' &&
+    typeof value.hash === 'string';
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so equal entries
+ * always hash the same
+ * @param value - Value to serialize
+ * @returns Canonical JSON
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,365 @@
+import {
+  ConditionComparison,
+  ConditionContext,
+  ConditionEvaluation,
+  PolicyCondition
+} from '../types/ethics';
+
+/**
+ * Evaluates a leaf condition
+ * @param condition - Condition to evaluate
+ * @param context - Evaluation context
+ * @returns Whether the condition matched, the observed value and why it
+ * could not be evaluated (optional)
+ */
+export type ConditionEvaluator = (
+  condition: PolicyCondition,
+  context: ConditionContext
+) => { matched: boolean; actual?: any; reason?: string };
+
+/**
+ * Development stages in ascending order, so stages can be compared
+ */
+const STAGE_ORDER = ['novice', 'standard', 'advanced', 'emergent'];
+
+/**
+ * Condition key that configures a policy's normative constraint rather than
+ * guarding the policy (see GuardrailManager.registerPolicy)
+ */
+const CONSTRAINT_KEY = 'constraintCondition';
+
+/**
+ * ConditionEngine evaluates policy conditions: leaf conditions on the
+ * ethical assessment, the intent, the agent state and the guardrail history,
+ * composed with `and`, `or` and `not`.
+ *
+ * Leaf condition types:
+ * - `ethical_dimension` — compares `dimension` of the assessment (`overall`
+ *   for the overall score); `ethical_dimension_above` and
+ *   `ethical_dimension_below` default to `gt` and `lt`
+ * - `pattern_match` — tests the regular expression `value` against `field`
+ *   of the intent, or its text, type and subtype
+ * - `intent_type` — intent type equals `value` (or is in a list)
+ * - `intent_field` — compares `field` of the intent
+ * - `agent_state` — compares `field` of the agent state; `stage` compares
+ *   development stages in order
+ * - `history_count` — counts `event` over `window` of earlier intents
+ */
+export class ConditionEngine {
+  /**
+   * Leaf condition evaluators by type
+   */
+  private evaluators: Map<string, ConditionEvaluator> = new Map();
+
+  /**
+   * Creates a new ConditionEngine with the built-in condition types
+   */
+  constructor() {
+    this.register('ethical_dimension', (condition, context) =>
+      this._compareDimension(condition, context, 'gt'));
+    this.register('ethical_dimension_above', (condition, context) =>
+      this._compareDimension(condition, context, 'gt'));
+    this.register('ethical_dimension_below', (condition, context) =>
+      this._compareDimension(condition, context, 'lt'));
+    this.register('pattern_match', (condition, context) => this._matchPattern(condition, context));
+    this.register('intent_type', (condition, context) => {
+      const comparison = condition.comparison || (Array.isArray(condition.value) ? 'in' : 'eq');
+      return this._compare(context.intent.type, comparison, condition.value);
+    });
+    this.register('intent_field', (condition, context) => {
+      if (!condition.field) return { matched: false, reason: 'intent_field condition needs a "field"' };
+      return this._compare(resolvePath(context.intent, condition.field), condition.comparison || 'eq', condition.value);
+    });
+    this.register('agent_state', (condition, context) => this._compareAgentState(condition, context));
+    this.register('history_count', (condition, context) => this._countHistory(condition, context));
+  }
+
+  /**
+   * Registers a leaf condition type, replacing any evaluator of that type
+   * @param type - Condition type
+   * @param evaluator - Condition evaluator
+   */
+  register(type: string, evaluator: ConditionEvaluator): void {
+    this.evaluators.set(type, evaluator);
+  }
+
+  /**
+   * Checks whether a condition type is known
+   * @param type - Condition type
+   * @returns Whether the type has an evaluator
+   */
+  supports(type: string): boolean {
+    return this.evaluators.has(type);
+  }
+
+  /**
+   * Evaluates the named conditions of a policy, which applies when every
+   * condition matches
+   * @param conditions - Named policy conditions
+   * @param context - Evaluation context
+   * @returns Whether the policy applies, the outcome of each condition and
+   * the paths of the matched leaf conditions
+   */
+  evaluatePolicyConditions(
+    conditions: Record<string, PolicyCondition>,
+    context: ConditionContext
+  ): { matched: boolean; evaluations: ConditionEvaluation[]; matchedConditions: string[] } {
+    const evaluations = Object.entries(conditions)
+      .filter(([name]) => name !== CONSTRAINT_KEY)
+      .map(([name, condition]) => this.evaluate(condition, context, name));
+
+    return {
+      matched: evaluations.every(evaluation => evaluation.matched),
+      evaluations,
+      matchedConditions: evaluations.flatMap(evaluation => matchedLeaves(evaluation))
+    };
+  }
+
+  /**
+   * Evaluates a condition and its sub-conditions
+   * @param condition - Condition to evaluate
+   * @param context - Evaluation context
+   * @param path - Condition path used in the result
+   * @returns Condition outcome
+   */
+  evaluate(condition: PolicyCondition, context: ConditionContext, path: string = ''): ConditionEvaluation {
+    if (condition.operator) {
+      const children = (condition.conditions || []).map((child, index) =>
+        this.evaluate(child, context, `${path ? `${path}.` : ''}conditions[${index}]`));
+
+      let matched: boolean;
+      let reason: string | undefined;
+
+      switch (condition.operator) {
+        case 'and':
+          matched = children.length > 0 && children.every(child => child.matched);
+          break;
+        case 'or':
+          matched = children.some(child => child.matched);
+          break;
+        case 'not':
+          if (children.length !== 1) reason = '"not" condition needs exactly one sub-condition';
+          matched = children.length === 1 && !children[0].matched;
+          break;
+        default:
+          reason = `unknown operator "${condition.operator}"`;
+          matched = false;
+      }
+
+      return { path, type: condition.operator, matched, ...(reason ? { reason } : {}), children };
+    }
+
+    const type = condition.type || '';
+    const evaluator = this.evaluators.get(type);
+    if (!evaluator) {
+      return { path, type, matched: false, reason: `unknown condition type "${type}"` };
+    }
+
+    try {
+      return { path, type, ...evaluator(condition, context) };
+    } catch (error) {
+      return {
+        path,
+        type,
+        matched: false,
+        reason: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  // Private methods
+
+  /**
+   * Compares an ethical assessment dimension
+   * @param condition - Condition to evaluate
+   * @param context - Evaluation context
+   * @param defaultComparison - Comparison used when none is given
+   * @returns Comparison outcome
+   * @private
+   */
+  private _compareDimension(
+    condition: PolicyCondition,
+    context: ConditionContext,
+    defaultComparison: ConditionComparison
+  ): { matched: boolean; actual?: any; reason?: string } {
+    if (!condition.dimension) {
+      return { matched: false, reason: 'ethical dimension condition needs a "dimension"' };
+    }
+
+    const actual = condition.dimension === 'overall'
+      ? context.assessment.overallScore
+      : context.assessment.dimensions[condition.dimension];
+
+    if (actual === undefined) {
+      return { matched: false, reason: `assessment has no "${condition.dimension}" dimension` };
+    }
+
+    return this._compare(actual, condition.comparison || defaultComparison, condition.value);
+  }
+
+  /**
+   * Tests a regular expression against intent text
+   * @param condition - Condition to evaluate
+   * @param context - Evaluation context
+   * @returns Match outcome
+   * @private
+   */
+  private _matchPattern(
+    condition: PolicyCondition,
+    context: ConditionContext
+  ): { matched: boolean; actual?: any; reason?: string } {
+    const { intent } = context;
+    const candidates = condition.field
+      ? [resolvePath(intent, condition.field)]
+      : [intent.text, intent.type, intent.subtype];
+
+    const values = candidates.filter(value => value !== undefined && value !== null).map(String);
+    const outcome = values.map(value => this._compare(value, 'matches', condition.value));
+    const match = outcome.findIndex(result => result.matched);
+
+    if (match !== -1) return { matched: true, actual: values[match] };
+    return { matched: false, ...(outcome[0]?.reason ? { reason: outcome[0].reason } : {}) };
+  }
+
+  /**
+   * Compares a field of the agent state
+   * @param condition - Condition to evaluate
+   * @param context - Evaluation context
+   * @returns Comparison outcome
+   * @private
+   */
+  private _compareAgentState(
+    condition: PolicyCondition,
+    context: ConditionContext
+  ): { matched: boolean; actual?: any; reason?: string } {
+    if (!condition.field) return { matched: false, reason: 'agent_state condition needs a "field"' };
+
+    const comparison = condition.comparison || (Array.isArray(condition.value) ? 'in' : 'eq');
+
+    if (condition.field === 'stage') {
+      const stage = context.agent?.cognitiveProfile?.developmentStage;
+      if (['gt', 'gte', 'lt', 'lte'].includes(comparison)) {
+        const expected = STAGE_ORDER.indexOf(condition.value);
+        if (expected === -1) return { matched: false, actual: stage, reason: `unknown stage "${condition.value}"` };
+
+        const result = this._compare(STAGE_ORDER.indexOf(stage), comparison, expected);
+        return { ...result, actual: stage };
+      }
+      return this._compare(stage, comparison, condition.value);
+    }
+
+    const state = context.agent?.getState?.() || context.agent?.state || {};
+    return this._compare(resolvePath(state, condition.field), comparison, condition.value);
+  }
+
+  /**
+   * Counts events over a window of earlier guardrail outcomes
+   * @param condition - Condition to evaluate
+   * @param context - Evaluation context
+   * @returns Comparison of the count with the condition value
+   * @private
+   */
+  private _countHistory(
+    condition: PolicyCondition,
+    context: ConditionContext
+  ): { matched: boolean; actual?: any; reason?: string } {
+    const event = condition.event || 'intervention';
+    let entries = context.history;
+
+    if (condition.window?.intents !== undefined) {
+      entries = condition.window.intents > 0 ? entries.slice(-condition.window.intents) : [];
+    }
+    if (condition.window?.ms !== undefined) {
+      const since = context.now - condition.window.ms;
+      entries = entries.filter(entry => entry.timestamp >= since);
+    }
+
+    const count = entries.reduce((total, entry) => {
+      if (event === 'intent') return total + 1;
+      if (event === 'intervention') return total + entry.policies.length;
+      return total + entry.actions.filter(action => action === event).length;
+    }, 0);
+
+    return this._compare(count, condition.comparison || 'gte', condition.value);
+  }
+
+  /**
+   * Applies a comparison
+   * @param actual - Observed value
+   * @param comparison - Comparison to apply
+   * @param expected - Condition value
+   * @returns Comparison outcome
+   * @private
+   */
+  private _compare(
+    actual: any,
+    comparison: ConditionComparison,
+    expected: any
+  ): { matched: boolean; actual?: any; reason?: string } {
+    switch (comparison) {
+      case 'exists':
+        return { matched: actual !== undefined && actual !== null, actual };
+      case 'eq':
+        return { matched: actual === expected, actual };
+      case 'neq':
+        return { matched: actual !== expected, actual };
+      case 'in':
+        if (!Array.isArray(expected)) return { matched: false, actual, reason: '"in" comparison needs a list value' };
+        return { matched: expected.includes(actual), actual };
+      case 'contains':
+        if (Array.isArray(actual)) return { matched: actual.includes(expected), actual };
+        if (typeof actual === 'string') return { matched: actual.includes(String(expected)), actual };
+        return { matched: false, actual };
+      case 'matches': {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(String(expected), 'i');
+        } catch (error) {
+          return { matched: false, actual, reason: `invalid pattern "${expected}"` };
+        }
+        return { matched: actual !== undefined && actual !== null && pattern.test(String(actual)), actual };
+      }
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte': {
+        if (typeof actual !== 'number' || typeof expected !== 'number') {
+          return { matched: false, actual, reason: `"${comparison}" comparison needs numbers` };
+        }
+        const matched = comparison === 'gt' ? actual > expected
+          : comparison === 'gte' ? actual >= expected
+          : comparison === 'lt' ? actual < expected
+          : actual <= expected;
+        return { matched, actual };
+      }
+      default:
+        return { matched: false, actual, reason: `unknown comparison "${comparison}"` };
+    }
+  }
+}
+
+/**
+ * Resolves a dotted path such as parameters.target
+ * @param value - Root value
+ * @param path - Dotted path
+ * @returns Value at the path, or undefined
+ */
+function resolvePath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) =>
+    current === undefined || current === null ? undefined : current[key], value);
+}
+
+/**
+ * Collects the paths of matched leaf conditions that make a condition match
+ * @param evaluation - Condition outcome
+ * @returns Matched leaf paths
+ */
+function matchedLeaves(evaluation: ConditionEvaluation): string[] {
+  if (!evaluation.matched) return [];
+  if (!evaluation.children) return [evaluation.path];
+
+  // A matched "not" holds because its sub-condition failed
+  if (evaluation.type === 'not') return [evaluation.path];
+
+  return evaluation.children.flatMap(child => matchedLeaves(child));
+}
@@ -0,0 +1,449 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'eventemitter3';
+import { Intent } from '../types/intent';
+import {
+  EscalationDecision,
+  EscalationOperator,
+  EscalationRequest,
+  EscalationResolution
+} from '../types/ethics';
+
+/**
+ * Default time to wait for a decision (5 minutes)
+ */
+export const DEFAULT_ESCALATION_TIMEOUT = 300000;
+
+/**
+ * EscalationQueue parks escalated intents until a decision arrives from an
+ * operator callback, a file-based approval inbox or a direct `resolve`
+ * call. Escalations that are not decided in time get their default decision.
+ *
+ * Events:
+ * - `escalated` (request) when an intent is parked
+ * - `resolved` (request) when a decision is taken
+ * - `error` (error) when the operator or inbox fails
+ */
+export class EscalationQueue extends EventEmitter {
+  /**
+   * Default time to wait for a decision in milliseconds
+   */
+  public timeoutMs: number;
+
+  /**
+   * Default decision applied on timeout
+   */
+  public defaultDecision: EscalationDecision;
+
+  /**
+   * Operator callback (optional)
+   */
+  private operator: EscalationOperator | null;
+
+  /**
+   * File-based approval inbox (optional)
+   */
+  public inbox: FileApprovalInbox | null;
+
+  /**
+   * Pending escalations with their timeout timers and waiters
+   */
+  private pending: Map<string, {
+    request: EscalationRequest;
+    timer: ReturnType<typeof setTimeout>;
+    waiters: ((resolution: EscalationResolution) => void)[];
+  }> = new Map();
+
+  /**
+   * Inbox submissions in progress, by escalation id
+   */
+  private submissions: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Resolved escalations, oldest first
+   */
+  private resolved: EscalationRequest[] = [];
+
+  /**
+   * Maximum number of resolved escalations kept
+   */
+  private historyLimit: number;
+
+  /**
+   * Inbox polling timer
+   */
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Inbox poll in progress
+   */
+  private polling = false;
+
+  /**
+   * Creates a new EscalationQueue
+   * @param config - Configuration options
+   */
+  constructor(config: {
+    timeoutMs?: number;
+    defaultDecision?: EscalationDecision;
+    operator?: EscalationOperator;
+    inbox?: string;
+    pollInterval?: number;
+    historyLimit?: number;
+  } = {}) {
+    super();
+    this.timeoutMs = config.timeoutMs || DEFAULT_ESCALATION_TIMEOUT;
+    this.defaultDecision = config.defaultDecision || 'block';
+    this.operator = config.operator || null;
+    this.inbox = config.inbox ? new FileApprovalInbox(config.inbox, { pollInterval: config.pollInterval }) : null;
+    this.historyLimit = config.historyLimit || 1000;
+  }
+
+  /**
+   * Parks an intent until a decision arrives
+   * @param details - Escalation details
+   * @returns Pending escalation request
+   */
+  escalate(details: {
+    intent: Intent;
+    agentId: string;
+    policies: string[];
+    reason: string;
+    timeoutMs?: number;
+    defaultDecision?: EscalationDecision;
+  }): EscalationRequest {
+    const request: EscalationRequest = {
+      id: `esc-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      createdAt: Date.now(),
+      agentId: details.agentId,
+      intent: details.intent,
+      policies: details.policies,
+      reason: details.reason,
+      timeoutMs: details.timeoutMs || this.timeoutMs,
+      defaultDecision: details.defaultDecision || this.defaultDecision,
+      status: 'pending'
+    };
+
+    const timer = setTimeout(() => {
+      this._settle(request.id, {
+        decision: request.defaultDecision,
+        by: 'timeout',
+        reason: `No decision within ${request.timeoutMs}ms`,
+        timedOut: true
+      });
+    }, request.timeoutMs);
+
+    this.pending.set(request.id, { request, timer, waiters: [] });
+    this.emit('escalated', request);
+
+    if (this.inbox) {
+      this.submissions.set(request.id, this.inbox.submit(request).catch(error => {
+        this.emit('error', error);
+      }));
+      this._startPolling();
+    }
+
+    if (this.operator) {
+      Promise.resolve()
+        .then(() => this.operator!(request))
+        .then(decision => {
+          if (decision && this.pending.has(request.id)) {
+            this.resolve(request.id, decision.decision, decision.by || 'operator', decision.reason || '');
+          }
+        })
+        .catch(error => this.emit('error', error));
+    }
+
+    return request;
+  }
+
+  /**
+   * Decides a pending escalation
+   * @param id - Escalation identifier
+   * @param decision - Decision
+   * @param by - Who decided
+   * @param reason - Why
+   * @returns Resolved escalation request
+   */
+  resolve(id: string, decision: EscalationDecision, by: string, reason: string): EscalationRequest {
+    if (decision !== 'allow' && decision !== 'block') {
+      throw new Error(`Invalid escalation decision "${decision}" (expected allow or block)`);
+    }
+    if (!by) {
+      throw new Error('Escalation decisions must name who decided');
+    }
+
+    const request = this._settle(id, { decision, by, reason, timedOut: false });
+    if (!request) {
+      throw new Error(`No pending escalation ${id}`);
+    }
+    return request;
+  }
+
+  /**
+   * Waits for an escalation to be decided
+   * @param id - Escalation identifier
+   * @returns Resolution
+   */
+  wait(id: string): Promise<EscalationResolution> {
+    const entry = this.pending.get(id);
+    if (entry) {
+      return new Promise(resolve => entry.waiters.push(resolve));
+    }
+
+    const request = this.resolved.find(r => r.id === id);
+    if (request?.resolution) {
+      return Promise.resolve(request.resolution);
+    }
+    return Promise.reject(new Error(`Unknown escalation ${id}`));
+  }
+
+  /**
+   * Gets an escalation
+   * @param id - Escalation identifier
+   * @returns Escalation request, or undefined
+   */
+  get(id: string): EscalationRequest | undefined {
+    return this.pending.get(id)?.request || this.resolved.find(request => request.id === id);
+  }
+
+  /**
+   * Gets the pending escalations
+   * @returns Pending requests, oldest first
+   */
+  getPending(): EscalationRequest[] {
+    return [...this.pending.values()].map(entry => entry.request);
+  }
+
+  /**
+   * Gets the resolved escalations
+   * @returns Resolved requests, oldest first
+   */
+  getResolved(): EscalationRequest[] {
+    return [...this.resolved];
+  }
+
+  /**
+   * Checks the approval inbox for decisions
+   * @returns Number of escalations resolved
+   */
+  async pollInbox(): Promise<number> {
+    if (!this.inbox || this.polling) return 0;
+
+    this.polling = true;
+    try {
+      const decisions = await this.inbox.collect(this.getPending());
+      let count = 0;
+
+      decisions.forEach(({ id, decision, by, reason, error }) => {
+        if (error) {
+          this.emit('error', error);
+          return;
+        }
+        if (this.pending.has(id)) {
+          this.resolve(id, decision!, by!, reason || '');
+          count++;
+        }
+      });
+
+      return count;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Stops all timers, leaving pending escalations undecided
+   */
+  close(): void {
+    this.pending.forEach(entry => clearTimeout(entry.timer));
+    this._stopPolling();
+  }
+
+  // Private methods
+
+  /**
+   * Resolves a pending escalation and notifies listeners and waiters
+   * @param id - Escalation identifier
+   * @param decision - Decision details
+   * @returns Resolved request, or null when not pending
+   * @private
+   */
+  private _settle(
+    id: string,
+    decision: Omit<EscalationResolution, 'resolvedAt'>
+  ): EscalationRequest | null {
+    const entry = this.pending.get(id);
+    if (!entry) return null;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+
+    entry.request.status = 'resolved';
+    entry.request.resolution = { ...decision, resolvedAt: Date.now() };
+
+    this.resolved.push(entry.request);
+    if (this.resolved.length > this.historyLimit) {
+      this.resolved.shift();
+    }
+
+    if (this.pending.size === 0) {
+      this._stopPolling();
+    }
+    if (this.inbox) {
+      // Archive after the request file is in place, or the archive would
+      // run first and leave the request behind
+      const submitted = this.submissions.get(id) || Promise.resolve();
+      this.submissions.delete(id);
+      submitted
+        .then(() => this.inbox!.archive(entry.request))
+        .catch(error => this.emit('error', error));
+    }
+
+    this.emit('resolved', entry.request);
+    entry.waiters.forEach(waiter => waiter(entry.request.resolution!));
+
+    return entry.request;
+  }
+
+  /**
+   * Starts polling the inbox
+   * @private
+   */
+  private _startPolling(): void {
+    if (this.pollTimer || !this.inbox) return;
+    this.pollTimer = setInterval(() => {
+      this.pollInbox().catch(error => this.emit('error', error));
+    }, this.inbox.pollInterval);
+  }
+
+  /**
+   * Stops polling the inbox
+   * @private
+   */
+  private _stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
+
+/**
+ * Approval inbox kept in a directory. Each escalation is written to
+ * `<id>.request.json`; an operator decides it by writing
+ * `<id>.decision.json` containing `{ "decision": "allow" | "block",
+ * "by": "...", "reason": "..." }`. Decided escalations are archived to
+ * `<id>.resolved.json`.
+ */
+export class FileApprovalInbox {
+  /**
+   * Inbox directory
+   */
+  public readonly directory: string;
+
+  /**
+   * Polling interval in milliseconds
+   */
+  public readonly pollInterval: number;
+
+  /**
+   * Creates a new FileApprovalInbox
+   * @param directory - Inbox directory (created when missing)
+   * @param config - Configuration options
+   */
+  constructor(directory: string, config: { pollInterval?: number } = {}) {
+    this.directory = path.resolve(directory);
+    this.pollInterval = config.pollInterval || 1000;
+  }
+
+  /**
+   * Writes an escalation request to the inbox. The file is written under a
+   * temporary name and renamed, so readers never see a partial request.
+   * @param request - Escalation request
+   */
+  async submit(request: EscalationRequest): Promise<void> {
+    const file = this.fileFor(request.id, 'request');
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify({
+      ...request,
+      expiresAt: new Date(request.createdAt + request.timeoutMs).toISOString(),
+      respondWith: {
+        file: path.basename(this.fileFor(request.id, 'decision')),
+        example: { decision: 'allow', by: 'your name', reason: 'why the intent may proceed' }
+      }
+    }, null, 2) + '\n');
+    await fs.promises.rename(`${file}.tmp`, file);
+  }
+
+  /**
+   * Reads decisions written for pending escalations
+   * @param pending - Pending escalation requests
+   * @returns Decisions found, or errors for unreadable decision files
+   */
+  async collect(pending: EscalationRequest[]): Promise<{
+    id: string;
+    decision?: EscalationDecision;
+    by?: string;
+    reason?: string;
+    error?: Error;
+  }[]> {
+    const results = [];
+
+    for (const request of pending) {
+      const file = this.fileFor(request.id, 'decision');
+      let text: string;
+      try {
+        text = await fs.promises.readFile(file, 'utf8');
+      } catch (error) {
+        continue;
+      }
+
+      try {
+        const decision = JSON.parse(text);
+        if (decision?.decision !== 'allow' && decision?.decision !== 'block') {
+          throw new Error('"decision" must be "allow" or "block"');
+        }
+        if (typeof decision.by !== 'string' || decision.by.trim() === '') {
+          throw new Error('"by" must name who decided');
+        }
+        results.push({
+          id: request.id,
+          decision: decision.decision as EscalationDecision,
+          by: decision.by.trim(),
+          reason: typeof decision.reason === 'string' ? decision.reason : ''
+        });
+      } catch (error) {
+        // Set the file aside so the operator can correct it
+        await fs.promises.rename(file, `${file}.invalid`).catch(() => undefined);
+        results.push({
+          id: request.id,
+          error: new Error(`Invalid decision file ${file}: ${error instanceof Error ? error.message : String(error)}`)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Archives a resolved escalation
+   * @param request - Resolved escalation request
+   */
+  async archive(request: EscalationRequest): Promise<void> {
+    await fs.promises.writeFile(this.fileFor(request.id, 'resolved'), JSON.stringify(request, null, 2) + '\n');
+    await Promise.all(['request', 'decision'].map(kind =>
+      fs.promises.unlink(this.fileFor(request.id, kind)).catch(() => undefined)));
+  }
+
+  /**
+   * Gets the path of an inbox file
+   * @param id - Escalation identifier
+   * @param kind - File kind
+   * @returns File path
+   */
+  fileFor(id: string, kind: string): string {
+    return path.join(this.directory, `${id}.${kind}.json`);
+  }
+}
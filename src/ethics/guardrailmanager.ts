@@ -1,16 +1,51 @@
-import { NexusFramework } from './NexusFramework';
-import { NormativeConstraint } from './NormativeConstraint';
-import { HarmAssessor } from './HarmAssessor';
 import { 
   Policy, 
   EthicalAssessment, 
+  EthicalDimension,
   PolicyCondition, 
   ViolationCode, 
   PolicyAction,
   GuardrailResult,
-  EthicalPrediction
+  EthicalPrediction,
+  PolicyEvaluation,
+  PolicyHistoryEntry,
+  IntentModification,
+  RecordedIntent,
+  ShadowReport,
+  ReplayReport,
+  EscalateActionParams,
+  EscalationDecision,
+  EscalationOperator,
+  EscalationRequest,
+  HarmAssessment,
+  AgentReliability,
+  ConsensusResult,
+  ConsensusTieBreak,
+  EthicalFeedback,
+  GroundTruthSource
 } from '../types/ethics';
 import { Intent } from '../types/intent';
+import { ConditionEngine } from './conditionengine';
+import { applyModifyAction } from './intentmodifier';
+import { EscalationQueue } from './escalationqueue';
+import { AuditLog } from './auditlog';
+import { HarmAssessor } from './harmassessor';
+import { DIMENSION_VIOLATION_CODES, ETHICAL_DIMENSIONS, NexusFramework, NormativeConstraint } from './nexusframework';
+
+/**
+ * Action types from weakest to strongest
+ */
+const ACTION_STRENGTH: PolicyAction['type'][] = ['log', 'warn', 'modify', 'escalate', 'block'];
+
+/**
+ * Feedback actions from least to most strict
+ */
+const FEEDBACK_STRICTNESS: EthicalFeedback['recommendedAction'][] = ['allow', 'warn', 'block'];
+
+/**
+ * Lowest trust level, so a distrusted agent can still earn trust back
+ */
+const MIN_TRUST_LEVEL = 0.05;
 
 /**
  * GuardrailManager provides a centralized system for ethical enforcement
@@ -26,13 +61,61 @@ export class GuardrailManager {
   /**
    * Harm assessment component
    */
-  private harmAssessor: HarmAssessor;
+  public harmAssessor: HarmAssessor;
   
   /**
    * Active guardrail policies
    */
   public policies: Policy[] = [];
   
+  /**
+   * Policy condition engine
+   */
+  public conditionEngine: ConditionEngine;
+  
+  /**
+   * Queue of intents escalated for a human decision
+   */
+  public escalations: EscalationQueue;
+  
+  /**
+   * Hash-chained audit log of interventions and overrides
+   */
+  public auditLog: AuditLog;
+  
+  /**
+   * Guardrail outcomes of evaluated intents, oldest first
+   */
+  private policyHistory: PolicyHistoryEntry[] = [];
+  
+  /**
+   * Maximum number of history entries kept
+   */
+  private historyLimit: number;
+  
+  /**
+   * Evaluated intents, kept for replay when recording is enabled
+   */
+  private intentLog: RecordedIntent[] = [];
+  
+  /**
+   * Whether evaluated intents are recorded
+   */
+  private recordIntents: boolean;
+  
+  /**
+   * Shadow and enforced outcomes since the session started
+   */
+  private shadowSession: {
+    startedAt: number;
+    outcomes: {
+      timestamp: number;
+      allowIntent: boolean;
+      evaluated: string[];
+      triggered: PolicyEvaluation[];
+    }[];
+  } = { startedAt: Date.now(), outcomes: [] };
+  
   /**
    * Intervention history
    */
@@ -44,6 +127,7 @@ export class GuardrailManager {
     intervention: string;
     agentId: string;
     symbolicViolationCode?: ViolationCode;
+    shadow?: boolean;
   }[] = [];
   
   /**
@@ -56,6 +140,12 @@ export class GuardrailManager {
     intentType: string;
     symbolicViolationCode: ViolationCode;
     reflection: string;
+    override?: {
+      decision: EscalationDecision;
+      by: string;
+      reason: string;
+      timedOut: boolean;
+    };
   }[] = [];
   
   /**
@@ -105,36 +195,42 @@ export class GuardrailManager {
   private ethicalFeedbackSystem: {
     active: boolean;
     connectedAgents: Record<string, {
+      agent: any;
       connectedAt: number;
       trustLevel: number;
       feedbackCount: number;
       feedbackAccuracy: number;
+      resolvedCount: number;
+      correctCount: number;
+      reliabilityHistory: AgentReliability['history'];
     }>;
     feedbackHistory: {
+      id: string;
       intent: string;
+      agentId: string;
       assessment: {
         overallScore: number;
-        dimensions: Record<string, number>;
+        dimensions: Record<string, number | undefined>;
       };
       feedbackEntries: {
         agentId: string;
-        feedback: {
-          recommendedAction: string;
-          reason: string;
-          confidence: number;
-        };
+        feedback: EthicalFeedback;
         trustLevel: number;
         timestamp: number;
       }[];
-      consensus: {
-        hasConsensus: boolean;
-        consensusAction: string | null;
-        consensusReason: string | null;
-        consensusStrength: number;
+      consensus: ConsensusResult;
+      groundTruth?: {
+        action: 'allow' | 'block';
+        source: GroundTruthSource;
+        timestamp: number;
       };
       timestamp: number;
     }[];
     consensusThreshold: number;
+    quorum: number;
+    tieBreak: ConsensusTieBreak;
+    learningRate: number;
+    escalatedFeedback: Map<string, string>;
     lastConsensus: {
       action: string;
       reason: string;
@@ -158,15 +254,41 @@ export class GuardrailManager {
     lookAheadSteps?: number;
     enableMultiAgentFeedback?: boolean;
     consensusThreshold?: number;
+    consensusQuorum?: number;
+    consensusTieBreak?: ConsensusTieBreak;
+    trustLearningRate?: number;
+    historyLimit?: number;
+    recordIntents?: boolean;
+    harmAssessor?: HarmAssessor;
+    auditLog?: AuditLog;
+    auditLogPath?: string;
+    escalation?: {
+      timeoutMs?: number;
+      defaultDecision?: EscalationDecision;
+      operator?: EscalationOperator;
+      inbox?: string;
+      pollInterval?: number;
+    };
   } = {}) {
-    // Initialize core components
-    this.nexusFramework = new NexusFramework(config.ethicsParams);
-    this.harmAssessor = new HarmAssessor({ 
+    // Initialize core components; constraint conditions share the policy engine
+    this.conditionEngine = new ConditionEngine();
+    this.nexusFramework = new NexusFramework({ ...config.ethicsParams, conditionEngine: this.conditionEngine });
+    this.harmAssessor = config.harmAssessor || new HarmAssessor({ 
       threshold: config.harmThreshold || 0.6 
     });
     
-    // Set policies
+    // Set policies and the constraints they create
     this.policies = config.policies || [];
+    this.policies.filter(policy => policy.createConstraint).forEach(policy => this._createConstraint(policy));
+    this.historyLimit = config.historyLimit || 1000;
+    this.recordIntents = config.recordIntents || false;
+    
+    // Set up the audit log, continuing a persisted chain when there is one
+    this.auditLog = config.auditLog || new AuditLog({ filePath: config.auditLogPath });
+    
+    // Set up the escalation queue; decisions are reflected as overrides
+    this.escalations = new EscalationQueue({ ...config.escalation, historyLimit: this.historyLimit });
+    this.escalations.on('resolved', (request: EscalationRequest) => this._recordOverride(request));
     
     // Set enforcement level
     this.enforcementLevel = config.enforcementLevel || 'standard';
@@ -192,6 +314,10 @@ export class GuardrailManager {
       connectedAgents: {},
       feedbackHistory: [],
       consensusThreshold: config.consensusThreshold || 0.7,
+      quorum: config.consensusQuorum ?? 0.5,
+      tieBreak: config.consensusTieBreak || 'strictest',
+      learningRate: config.trustLearningRate ?? 0.2,
+      escalatedFeedback: new Map(),
       lastConsensus: null
     };
   }
@@ -209,14 +335,7 @@ export class GuardrailManager {
     
     // Create normative constraint if needed
     if (policy.createConstraint) {
-      const constraint = new NormativeConstraint({
-        name: policy.name,
-        type: policy.constraintType || 'soft',
-        condition: policy.conditions.constraintCondition,
-        impact: policy.conditions.constraintImpact || 0.5
-      });
-      
-      this.nexusFramework.registerConstraint(constraint);
+      this._createConstraint(policy);
     }
     
     // Add to active policies
@@ -228,20 +347,54 @@ export class GuardrailManager {
     
     return this.policies.length;
   }
-  
+
+  /**
+   * Removes a guardrail policy
+   * @param name - Policy name
+   * @returns Whether a policy was removed
+   */
+  unregisterPolicy(name: string): boolean {
+    const count = this.policies.length;
+    this.policies = this.policies.filter(policy => policy.name !== name);
+    this.nexusFramework.unregisterConstraint(name);
+
+    return this.policies.length < count;
+  }
+
   /**
    * Evaluates an intent against all active guardrail policies
    * @param intent - The intent to evaluate
    * @param agent - The agent processing the intent
    * @param field - The intent field
+   * @param options - Evaluation options; assessment scores given here
+   *                  override the ethical framework's
    * @returns Guardrail evaluation results
    */
-  async evaluate(intent: Intent, agent: any, field: any): Promise<GuardrailResult> {
-    // First, run the standard ethical assessment
-    const ethicalAssessment = await this.nexusFramework.evaluate(
+  async evaluate(
+    intent: Intent,
+    agent: any,
+    field: any,
+    options: { assessment?: { overallScore?: number; dimensions?: Record<string, number> } } = {}
+  ): Promise<GuardrailResult> {
+    // Score the intent text for harm
+    const harmAssessment = this.harmAssessor.assess(intent.text || '');
+    
+    // Run the standard ethical assessment, with the harm score as a signal
+    const frameworkAssessment: EthicalAssessment = await this.nexusFramework.evaluate(
       intent, 
-      agent.memory?.getWorkingMemory() || {}
+      agent.memory?.getWorkingMemory() || {},
+      {
+        agent,
+        field,
+        history: this.policyHistory.filter(entry => entry.agentId === agent.id),
+        signals: [{ name: 'harm_assessor', dimensions: { harm: harmAssessment.harmScore } }]
+      }
     );
+    const ethicalAssessment: EthicalAssessment = options.assessment ? {
+      ...frameworkAssessment,
+      overallScore: options.assessment.overallScore ?? frameworkAssessment.overallScore,
+      dimensions: { ...frameworkAssessment.dimensions, ...options.assessment.dimensions }
+    } : frameworkAssessment;
     
     // Run predictive ethics check
     const prediction = this.predictIntentTrajectory(intent, agent, field);
@@ -252,61 +405,75 @@ export class GuardrailManager {
       interventions: [],
       assessment: ethicalAssessment,
       warnings: [],
-      prediction: prediction
+      prediction: prediction,
+      harmAssessment
     };
     
-    // Check each policy
-    for (const policy of this.policies) {
-      const policyResult = await this._evaluatePolicy(
-        policy, 
-        intent, 
-        agent, 
-        field, 
-        ethicalAssessment
-      );
-      
-      if (policyResult.intervention) {
-        guardrailResults.interventions.push(policyResult);
-        
-        // Record intervention
-        const intervention = {
-          id: `intv-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
-          timestamp: Date.now(),
-          policy: policy.name,
-          intent: intent.type,
-          intervention: policyResult.intervention,
-          agentId: agent.id,
-          symbolicViolationCode: this._determineViolationCode(
-            { assessment: ethicalAssessment, policy: policy.name }
-          )
-        };
-        
-        this.interventions.push(intervention);
-        
-        // Generate ethics reflection
-        const reflection = this.generateReflection(intervention, intent);
-        
-        // Check if this policy blocks the intent
-        if (policyResult.blockIntent) {
-          guardrailResults.allowIntent = false;
-          guardrailResults.blockingReflection = reflection;
-        }
-      }
-    }
+    // Apply enforced and shadow policies
+    const escalating = await this._applyPolicies(guardrailResults, intent, agent, field, Date.now());
     
     // Check for multi-agent ethical feedback if enabled
     if (this.ethicalFeedbackSystem.active && 
         Object.keys(this.ethicalFeedbackSystem.connectedAgents).length > 0) {
-      const feedbackResult = await this._collectEthicalFeedback(intent, ethicalAssessment);
+      const feedbackResult = await this._collectEthicalFeedback(intent, ethicalAssessment, agent.id);
+      guardrailResults.consensus = feedbackResult;
+      
+      if (feedbackResult.consensus && feedbackResult.consensusAction === 'warn') {
+        guardrailResults.warnings.push(`Multi-agent consensus: ${feedbackResult.consensusReason}`);
+      }
       
       if (feedbackResult.consensus && feedbackResult.consensusAction === 'block') {
         guardrailResults.allowIntent = false;
         guardrailResults.warnings.push(
           `Multi-agent consensus: ${feedbackResult.consensusReason}`
         );
+        this.auditLog.append({
+          kind: 'consensus',
+          agentId: agent.id,
+          policyName: 'multi_agent_consensus',
+          intentType: intent.type,
+          action: 'block',
+          symbolicViolationCode: 'ethical_uncertainty',
+          details: {
+            reason: feedbackResult.consensusReason,
+            feedbackId: feedbackResult.feedbackId,
+            votes: feedbackResult.votes,
+            strength: feedbackResult.consensusStrength
+          }
+        });
       }
     }
     
+    // Park the intent for a human decision when policies escalate it
+    if (guardrailResults.allowIntent && escalating.length > 0) {
+      const params: EscalateActionParams = escalating[0].action.params || {};
+      
+      guardrailResults.allowIntent = false;
+      guardrailResults.escalation = this.escalations.escalate({
+        intent: guardrailResults.modifiedIntent || intent,
+        agentId: agent.id,
+        policies: [...new Set(escalating.map(entry => entry.policyName))],
+        reason: escalating
+          .map(entry => entry.action.message || `Policy ${entry.policyName} requires review`)
+          .join(' '),
+        timeoutMs: params.timeoutMs,
+        defaultDecision: params.defaultDecision
+      });
+      
+      // The operator's decision is ground truth for the agents' feedback
+      if (guardrailResults.consensus) {
+        this.ethicalFeedbackSystem.escalatedFeedback.set(
+          guardrailResults.escalation.id,
+          guardrailResults.consensus.feedbackId
+        );
+      }
+    }
+    
+    // Record the intent for replay
+    if (this.recordIntents) {
+      this._recordIntent(intent, agent, guardrailResults);
+    }
+    
     // Apply adaptive threshold adjustments based on field state
     this._adjustThresholds(field);
     
@@ -341,6 +508,27 @@ export class GuardrailManager {
     return reflection;
   }
   
+  /**
+   * Gets the ethics reflection log, including escalation overrides
+   * @returns Reflections, oldest first
+   */
+  getReflectionLog(): {
+    timestamp: number;
+    interventionId: string;
+    policyName: string;
+    intentType: string;
+    symbolicViolationCode: ViolationCode;
+    reflection: string;
+    override?: {
+      decision: EscalationDecision;
+      by: string;
+      reason: string;
+      timedOut: boolean;
+    };
+  }[] {
+    return [...this.ethicsReflectionLog];
+  }
+  
   /**
    * Predictive ethics harmonizer to anticipate problematic intents
    * @param intent - The intent to evaluate
@@ -406,11 +594,14 @@ export class GuardrailManager {
   }
   
   /**
-   * Connect agent to the ethical feedback system
+   * Connect agent to the ethical feedback system. Connected agents vote on
+   * other agents' intents through `provideEthicalFeedback(intent,
+   * assessment)`, which returns an `EthicalFeedback` (or null to abstain).
    * @param agent - The agent to connect
+   * @param options - Connection options
    * @returns Connection result
    */
-  connectAgentToFeedbackSystem(agent: any): {
+  connectAgentToFeedbackSystem(agent: any, options: { trustLevel?: number } = {}): {
     success: boolean;
     reason?: string;
     agentId?: string;
@@ -431,10 +622,14 @@ export class GuardrailManager {
     
     // Add to connected agents
     this.ethicalFeedbackSystem.connectedAgents[agent.id] = {
+      agent,
       connectedAt: Date.now(),
-      trustLevel: 0.5, // Initial trust level
+      trustLevel: clampTrust(options.trustLevel ?? 0.5), // Initial trust level
       feedbackCount: 0,
-      feedbackAccuracy: 0
+      feedbackAccuracy: 0,
+      resolvedCount: 0,
+      correctCount: 0,
+      reliabilityHistory: []
     };
     
     // Activate feedback system if this is the first agent
@@ -449,7 +644,369 @@ export class GuardrailManager {
     };
   }
   
+  /**
+   * Records the ground truth for a feedback round, such as an operator's
+   * decision or a later harm label, and updates the trust and accuracy of
+   * the agents that gave feedback. A block recommendation is confirmed by
+   * 'block'; allow and warn recommendations are confirmed by 'allow'.
+   * Trust moves toward 1 when confirmed and toward 0 when contradicted, in
+   * steps scaled by the learning rate and the agent's confidence.
+   * @param feedbackId - Feedback round id (`GuardrailResult.consensus`)
+   * @param action - Action that was right
+   * @param source - Where the ground truth comes from
+   * @returns Reliability of the agents that gave feedback
+   * @throws Error when the round is unknown or already has ground truth
+   */
+  recordGroundTruth(
+    feedbackId: string,
+    action: 'allow' | 'block',
+    source: GroundTruthSource = 'harm_label'
+  ): AgentReliability[] {
+    const round = this.ethicalFeedbackSystem.feedbackHistory.find(entry => entry.id === feedbackId);
+    if (!round) {
+      throw new Error(`Unknown feedback round: ${feedbackId}`);
+    }
+    if (round.groundTruth) {
+      throw new Error(`Feedback round ${feedbackId} already has ground truth from ${round.groundTruth.source}`);
+    }
+    
+    const timestamp = Date.now();
+    round.groundTruth = { action, source, timestamp };
+    
+    const judged = round.feedbackEntries.filter(entry => this.ethicalFeedbackSystem.connectedAgents[entry.agentId]);
+    
+    judged.forEach(entry => {
+      const peer = this.ethicalFeedbackSystem.connectedAgents[entry.agentId];
+      const correct = (entry.feedback.recommendedAction === 'block') === (action === 'block');
+      const step = this.ethicalFeedbackSystem.learningRate * entry.feedback.confidence;
+      
+      peer.resolvedCount++;
+      peer.correctCount += correct ? 1 : 0;
+      peer.feedbackAccuracy = roundScore(peer.correctCount / peer.resolvedCount);
+      peer.trustLevel = clampTrust(roundScore(peer.trustLevel + step * ((correct ? 1 : 0) - peer.trustLevel)));
+      peer.reliabilityHistory.push({
+        timestamp,
+        feedbackId,
+        source,
+        correct,
+        trustLevel: peer.trustLevel,
+        feedbackAccuracy: peer.feedbackAccuracy
+      });
+      
+      if (peer.reliabilityHistory.length > this.historyLimit) {
+        peer.reliabilityHistory.shift();
+      }
+    });
+    
+    return this.getAgentReliability().filter(reliability =>
+      judged.some(entry => entry.agentId === reliability.agentId));
+  }
+  
+  /**
+   * Reports the reliability of connected agents' feedback over time
+   * @param agentId - Agent to report on (default all)
+   * @returns Reliability by agent, in connection order
+   */
+  getAgentReliability(agentId?: string): AgentReliability[] {
+    return Object.entries(this.ethicalFeedbackSystem.connectedAgents)
+      .filter(([id]) => agentId === undefined || id === agentId)
+      .map(([id, peer]) => ({
+        agentId: id,
+        trustLevel: peer.trustLevel,
+        feedbackAccuracy: peer.feedbackAccuracy,
+        feedbackCount: peer.feedbackCount,
+        resolvedCount: peer.resolvedCount,
+        history: [...peer.reliabilityHistory]
+      }));
+  }
+  
+  /**
+   * Gets the intervention history
+   * @param options - Filter options
+   * @returns Recorded interventions, oldest first
+   */
+  getInterventionHistory(options: { shadow?: boolean } = {}): {
+    id: string;
+    timestamp: number;
+    policy: string;
+    intent: string;
+    intervention: string;
+    agentId: string;
+    symbolicViolationCode?: ViolationCode;
+    shadow?: boolean;
+  }[] {
+    return options.shadow === undefined
+      ? [...this.interventions]
+      : this.interventions.filter(intervention => Boolean(intervention.shadow) === options.shadow);
+  }
+  
+  /**
+   * Compares what shadow policies would have done with the enforced
+   * outcomes since the session started
+   * @returns Shadow report
+   */
+  getShadowReport(): ShadowReport {
+    const { startedAt, outcomes } = this.shadowSession;
+    const wouldBlock = (outcome: { triggered: PolicyEvaluation[] }) =>
+      outcome.triggered.some(evaluation => evaluation.blockIntent);
+    
+    // Shadow policies registered now or seen during the session
+    const names = [...new Set([
+      ...this.policies.filter(policy => policy.mode === 'shadow').map(policy => policy.name),
+      ...outcomes.flatMap(outcome => outcome.evaluated)
+    ])];
+    
+    return {
+      startedAt,
+      generatedAt: Date.now(),
+      evaluations: outcomes.length,
+      enforcedBlocks: outcomes.filter(outcome => !outcome.allowIntent).length,
+      shadowBlocks: outcomes.filter(wouldBlock).length,
+      additionalBlocks: outcomes.filter(outcome => outcome.allowIntent && wouldBlock(outcome)).length,
+      policies: names.map(policyName => {
+        const evaluated = outcomes.filter(outcome => outcome.evaluated.includes(policyName));
+        const triggered = evaluated
+          .map(outcome => ({
+            allowIntent: outcome.allowIntent,
+            evaluation: outcome.triggered.find(evaluation => evaluation.policyName === policyName)
+          }))
+          .filter((entry): entry is { allowIntent: boolean; evaluation: PolicyEvaluation } =>
+            entry.evaluation !== undefined);
+        const blocks = triggered.filter(entry => entry.evaluation.blockIntent);
+        const takes = (type: PolicyAction['type']) =>
+          triggered.filter(entry => entry.evaluation.actions?.includes(type)).length;
+        
+        return {
+          policyName,
+          evaluations: evaluated.length,
+          triggered: triggered.length,
+          wouldBlock: blocks.length,
+          wouldWarn: takes('warn'),
+          wouldModify: takes('modify'),
+          newBlocks: blocks.filter(entry => entry.allowIntent).length,
+          agreedBlocks: blocks.filter(entry => !entry.allowIntent).length
+        };
+      })
+    };
+  }
+  
+  /**
+   * Starts a new shadow session, discarding the outcomes of the current one
+   */
+  resetShadowSession(): void {
+    this.shadowSession = { startedAt: Date.now(), outcomes: [] };
+  }
+  
+  /**
+   * Gets the recorded intent log (requires `recordIntents`)
+   * @returns Recorded intents, oldest first
+   */
+  getIntentLog(): RecordedIntent[] {
+    return [...this.intentLog];
+  }
+  
+  /**
+   * Replays a recorded intent log against a candidate policy set, using the
+   * recorded assessments and agent states. This manager is not affected.
+   * @param log - Recorded intents
+   * @param policies - Candidate policies
+   * @returns Replay report comparing recorded and replayed outcomes
+   */
+  async replayIntentLog(log: RecordedIntent[], policies: Policy[]): Promise<ReplayReport> {
+    const replay = new GuardrailManager({
+      enforcementLevel: this.enforcementLevel,
+      harmThreshold: this.thresholds.harm,
+      fairnessThreshold: this.thresholds.fairness,
+      autonomyThreshold: this.thresholds.autonomy,
+      historyLimit: this.historyLimit
+    });
+    policies.forEach(policy => replay.registerPolicy(policy));
+    replay.shadowSession.startedAt = log[0]?.timestamp ?? Date.now();
+    
+    const results: ReplayReport['results'] = [];
+    
+    for (const [index, entry] of log.entries()) {
+      const agent = {
+        id: entry.agentId,
+        state: entry.agent.state,
+        cognitiveProfile: { developmentStage: entry.agent.stage },
+        getState: () => entry.agent.state
+      };
+      const result: GuardrailResult = {
+        allowIntent: true,
+        interventions: [],
+        assessment: entry.assessment,
+        warnings: []
+      };
+      
+      const escalating = await replay._applyPolicies(result, entry.intent, agent, null, entry.timestamp);
+      const escalated = result.allowIntent && escalating.length > 0;
+      
+      results.push({
+        index,
+        agentId: entry.agentId,
+        intentType: entry.intent.type,
+        recordedAllow: entry.allowIntent,
+        replayedAllow: result.allowIntent && !escalated,
+        escalated,
+        interventions: result.interventions.map(evaluation => evaluation.policyName),
+        shadowInterventions: (result.shadowInterventions || []).map(evaluation => evaluation.policyName)
+      });
+    }
+    
+    return {
+      evaluations: results.length,
+      blocked: results.filter(result => !result.replayedAllow).length,
+      newlyBlocked: results.filter(result => result.recordedAllow && !result.replayedAllow).length,
+      newlyAllowed: results.filter(result => !result.recordedAllow && result.replayedAllow).length,
+      results,
+      shadow: replay.getShadowReport()
+    };
+  }
+  
   // Private methods
+  
+  /**
+   * Applies the enforced and shadow policies to an intent. Policies are
+   * evaluated against the original intent; modify actions rewrite a copy
+   * that is processed in its place. Shadow interventions are logged but do
+   * not affect the results.
+   * @param guardrailResults - Results to fill in
+   * @param intent - The intent to evaluate
+   * @param agent - The agent processing the intent
+   * @param field - The intent field
+   * @param now - Evaluation timestamp
+   * @returns Escalate actions of the enforced policies that intervened
+   * @private
+   */
+  private async _applyPolicies(
+    guardrailResults: GuardrailResult,
+    intent: Intent,
+    agent: any,
+    field: any,
+    now: number
+  ): Promise<{ policyName: string; action: PolicyAction }[]> {
+    const ethicalAssessment = guardrailResults.assessment;
+    
+    // Earlier outcomes for this agent, for history conditions
+    const history = this.policyHistory.filter(entry => entry.agentId === agent.id);
+    
+    let modifiedIntent = intent;
+    const modifications: IntentModification[] = [];
+    const shadowEvaluated: string[] = [];
+    const shadowInterventions: PolicyEvaluation[] = [];
+    const escalating: { policyName: string; action: PolicyAction }[] = [];
+    
+    // Check each policy
+    for (const policy of this.policies) {
+      const shadow = policy.mode === 'shadow';
+      const policyResult = await this._evaluatePolicy(
+        policy, 
+        intent, 
+        agent, 
+        field, 
+        ethicalAssessment,
+        history,
+        now
+      );
+      
+      if (shadow) {
+        shadowEvaluated.push(policy.name);
+        policyResult.shadow = true;
+      }
+      
+      if (policyResult.intervention) {
+        if (shadow) {
+          this._recordIntervention(policyResult, intent, agent, ethicalAssessment, now, true);
+          shadowInterventions.push(policyResult);
+          continue;
+        }
+        
+        const reflection = this._recordIntervention(policyResult, intent, agent, ethicalAssessment, now);
+        guardrailResults.interventions.push(policyResult);
+        guardrailResults.warnings.push(...policyResult.warnings);
+        
+        // Check if this policy blocks the intent
+        if (policyResult.blockIntent) {
+          guardrailResults.allowIntent = false;
+          guardrailResults.blockingReflection = reflection;
+        }
+        
+        // Apply modify actions
+        policy.actions
+          .filter(action => action.type === 'modify')
+          .forEach(action => {
+            const modification = applyModifyAction(modifiedIntent, action, policy.name);
+            modifiedIntent = modification.intent;
+            modifications.push(...modification.modifications);
+          });
+        
+        // Collect escalate actions
+        if (policyResult.escalate) {
+          policy.actions
+            .filter(action => action.type === 'escalate')
+            .forEach(action => escalating.push({ policyName: policy.name, action }));
+        }
+      }
+    }
+    
+    // Block intents vetoed by hard constraints
+    const vetoes = ethicalAssessment.vetoes || [];
+    if (vetoes.length > 0) {
+      const veto: PolicyEvaluation = {
+        policyName: 'constraint_veto',
+        intervention: 'block',
+        blockIntent: true,
+        warnings: vetoes.map(entry => `Hard constraint ${entry.constraint} vetoes the intent`),
+        actions: ['block'],
+        matchedConditions: vetoes.map(entry => entry.constraint)
+      };
+      const reflection = this._recordIntervention(
+        veto, intent, agent, ethicalAssessment, now, false, vetoes[0].symbolicViolationCode
+      );
+      guardrailResults.interventions.push(veto);
+      guardrailResults.warnings.push(...veto.warnings);
+      guardrailResults.allowIntent = false;
+      guardrailResults.blockingReflection = guardrailResults.blockingReflection || reflection;
+    }
+    
+    // Hold the harm score to the threshold
+    const harmCheck = this._checkHarmThreshold(ethicalAssessment, guardrailResults.harmAssessment);
+    if (harmCheck) {
+      const reflection = this._recordIntervention(harmCheck, intent, agent, ethicalAssessment, now, false, 'harm_potential');
+      guardrailResults.interventions.push(harmCheck);
+      guardrailResults.warnings.push(...harmCheck.warnings);
+      
+      if (harmCheck.blockIntent) {
+        guardrailResults.allowIntent = false;
+        guardrailResults.blockingReflection = guardrailResults.blockingReflection || reflection;
+      }
+    }
+    
+    if (modifications.length > 0) {
+      guardrailResults.originalIntent = intent;
+      guardrailResults.modifiedIntent = modifiedIntent;
+      guardrailResults.modifications = modifications;
+    }
+    
+    if (shadowEvaluated.length > 0) {
+      guardrailResults.shadowInterventions = shadowInterventions;
+      this.shadowSession.outcomes.push({
+        timestamp: now,
+        allowIntent: guardrailResults.allowIntent,
+        evaluated: shadowEvaluated,
+        triggered: shadowInterventions
+      });
+      if (this.shadowSession.outcomes.length > this.historyLimit) {
+        this.shadowSession.outcomes.shift();
+      }
+    }
+    
+    // Record the outcome for history conditions
+    this._recordHistory(intent, agent, guardrailResults, now);
+    
+    return escalating;
+  }
 
   /**
    * Evaluates a single policy against an intent
@@ -458,7 +1015,9 @@ export class GuardrailManager {
    * @param agent - The agent processing the intent
    * @param field - The intent field
    * @param ethicalAssessment - The ethical assessment
-   * @returns Policy evaluation results
+   * @param history - Earlier guardrail outcomes for the agent
+   * @param now - Evaluation timestamp
+   * @returns Policy evaluation results, including the matched sub-conditions
    * @private
    */
   private async _evaluatePolicy(
@@ -466,22 +1025,287 @@ export class GuardrailManager {
     intent: Intent, 
     agent: any, 
     field: any,
-    ethicalAssessment: EthicalAssessment
-  ): Promise<{
-    policyName: string;
-    intervention: string | null;
-    blockIntent: boolean;
-    warnings: string[];
-  }> {
-    // Policy evaluation logic would be implemented here
-    return {
+    ethicalAssessment: EthicalAssessment,
+    history: PolicyHistoryEntry[] = [],
+    now: number = Date.now()
+  ): Promise<PolicyEvaluation> {
+    const outcome = this.conditionEngine.evaluatePolicyConditions(policy.conditions, {
+      intent,
+      agent,
+      field,
+      assessment: ethicalAssessment,
+      history,
+      now
+    });
+    
+    const result: PolicyEvaluation = {
       policyName: policy.name,
       intervention: null,
       blockIntent: false,
-      warnings: []
+      warnings: [],
+      matchedConditions: outcome.matchedConditions,
+      conditions: outcome.evaluations
+    };
+    
+    if (!outcome.matched || policy.actions.length === 0) {
+      return result;
+    }
+    
+    // The strongest action names the intervention
+    let strongest = -1;
+    
+    result.actions = policy.actions.map(action => action.type);
+    
+    for (const action of policy.actions) {
+      strongest = Math.max(strongest, ACTION_STRENGTH.indexOf(action.type));
+      
+      if (action.type === 'block') {
+        result.blockIntent = true;
+      } else if (action.type === 'escalate') {
+        result.escalate = true;
+      } else if (action.type === 'warn') {
+        result.warnings.push(action.message || `Policy ${policy.name} raised a warning`);
+      }
+    }
+    
+    result.intervention = strongest >= 0 ? ACTION_STRENGTH[strongest] : null;
+    return result;
+  }
+  
+  /**
+   * Creates the normative constraint of a policy. Without a
+   * `constraintCondition` the constraint is violated when the policy's
+   * conditions match. Shadow policies create no constraint, as it would
+   * affect enforced outcomes.
+   * @param policy - Policy with `createConstraint` set
+   * @private
+   */
+  private _createConstraint(policy: Policy): void {
+    if (policy.mode === 'shadow') return;
+    
+    const { constraintCondition, ...conditions } = policy.conditions;
+    
+    this.nexusFramework.registerConstraint(new NormativeConstraint({
+      name: policy.name,
+      type: policy.constraintType || 'soft',
+      condition: constraintCondition || { operator: 'and', conditions: Object.values(conditions) },
+      impact: policy.constraintImpact ?? 0.5,
+      dimensions: policy.constraintDimensions
+    }));
+  }
+  
+  /**
+   * Holds an intent's harm score to the harm threshold. At the threshold,
+   * minimal enforcement warns and standard or strict enforcement blocks;
+   * strict enforcement also warns from three quarters of the threshold.
+   * @param ethicalAssessment - The ethical assessment
+   * @param harmAssessment - Harm assessment of the intent text, if any
+   * @returns Threshold intervention, or null when the score is below it
+   * @private
+   */
+  private _checkHarmThreshold(
+    ethicalAssessment: EthicalAssessment,
+    harmAssessment?: HarmAssessment
+  ): PolicyEvaluation | null {
+    const harm = ethicalAssessment.dimensions.harm ?? 0;
+    const threshold = this.thresholds.harm;
+    const reached = harm >= threshold;
+    
+    if (!reached && !(this.enforcementLevel === 'strict' && harm >= threshold * 0.75)) {
+      return null;
+    }
+    
+    const block = reached && this.enforcementLevel !== 'minimal';
+    const matched = (harmAssessment?.matches || []).filter(match => match.weight > 0);
+    const spans = [...new Set(matched.map(match => `${match.category}: "${match.text}"`))];
+    const message = `Harm score ${harm.toFixed(2)} ${reached ? 'reaches' : 'approaches'} the threshold ` +
+      `${threshold.toFixed(2)}` + (spans.length > 0 ? ` (${spans.join(', ')})` : '');
+    
+    return {
+      policyName: 'harm_threshold',
+      intervention: block ? 'block' : 'warn',
+      blockIntent: block,
+      warnings: [message],
+      actions: [block ? 'block' : 'warn'],
+      matchedConditions: ['harm']
     };
   }
   
+  /**
+   * Records an intervention and, unless it is a shadow intervention, its
+   * reflection and audit entry
+   * @param policyResult - Policy evaluation that intervened
+   * @param intent - The evaluated intent
+   * @param agent - The agent processing the intent
+   * @param ethicalAssessment - The ethical assessment
+   * @param now - Evaluation timestamp
+   * @param shadow - Whether the policy runs in shadow mode
+   * @param symbolicViolationCode - Violation code, when the caller knows it
+   * @returns Generated reflection, or undefined for shadow interventions
+   * @private
+   */
+  private _recordIntervention(
+    policyResult: PolicyEvaluation,
+    intent: Intent,
+    agent: any,
+    ethicalAssessment: EthicalAssessment,
+    now: number,
+    shadow: boolean = false,
+    symbolicViolationCode?: ViolationCode
+  ): ReturnType<GuardrailManager['generateReflection']> | undefined {
+    const intervention = {
+      id: `intv-${now}-${Math.random().toString(36).substr(2, 5)}`,
+      timestamp: now,
+      policy: policyResult.policyName,
+      intent: intent.type,
+      intervention: policyResult.intervention!,
+      agentId: agent.id,
+      symbolicViolationCode: symbolicViolationCode || this._determineViolationCode(
+        { policy: policyResult.policyName, matchedConditions: policyResult.matchedConditions }
+      ),
+      ...(shadow ? { shadow: true } : {})
+    };
+    
+    this.interventions.push(intervention);
+    
+    if (shadow) {
+      return undefined;
+    }
+    
+    // Generate ethics reflection
+    const reflection = this.generateReflection(intervention, intent);
+    
+    this.auditLog.append({
+      timestamp: now,
+      kind: 'intervention',
+      agentId: agent.id,
+      policyName: policyResult.policyName,
+      intentType: intent.type,
+      action: policyResult.intervention!,
+      symbolicViolationCode: intervention.symbolicViolationCode,
+      details: {
+        interventionId: intervention.id,
+        actions: policyResult.actions,
+        warnings: policyResult.warnings,
+        matchedConditions: policyResult.matchedConditions,
+        reflection: reflection.reflection
+      }
+    });
+    
+    return reflection;
+  }
+  
+  /**
+   * Records the guardrail outcome of an intent
+   * @param intent - The evaluated intent
+   * @param agent - The agent processing the intent
+   * @param results - Guardrail results
+   * @param now - Evaluation timestamp
+   * @private
+   */
+  private _recordHistory(intent: Intent, agent: any, results: GuardrailResult, now: number): void {
+    const fired = results.interventions.filter(result => result.intervention);
+    
+    this.policyHistory.push({
+      agentId: agent.id,
+      intentType: intent.type,
+      timestamp: now,
+      policies: fired.map(result => result.policyName),
+      actions: fired.flatMap(result => result.actions || [])
+    });
+    
+    if (this.policyHistory.length > this.historyLimit) {
+      this.policyHistory.splice(0, this.policyHistory.length - this.historyLimit);
+    }
+  }
+  
+  /**
+   * Records the decision on an escalated intent in the reflection and
+   * audit logs
+   * @param request - Resolved escalation request
+   * @private
+   */
+  private _recordOverride(request: EscalationRequest): void {
+    const resolution = request.resolution!;
+    const symbolicViolationCode = this._determineViolationCode({ policy: request.policies[0] });
+    const decided = resolution.timedOut
+      ? `defaulted to ${resolution.decision} after ${request.timeoutMs}ms without a decision`
+      : `${resolution.decision === 'allow' ? 'allowed' : 'blocked'} by ${resolution.by}` +
+        (resolution.reason ? `: ${resolution.reason}` : '');
+    
+    this.ethicsReflectionLog.push({
+      timestamp: resolution.resolvedAt,
+      interventionId: request.id,
+      policyName: request.policies.join(', '),
+      intentType: request.intent.type,
+      symbolicViolationCode,
+      reflection: `Escalated ${request.intent.type} intent was ${decided}.`,
+      override: {
+        decision: resolution.decision,
+        by: resolution.by,
+        reason: resolution.reason,
+        timedOut: resolution.timedOut
+      }
+    });
+    
+    // A human decision confirms or contradicts the agents' feedback
+    const feedbackId = this.ethicalFeedbackSystem.escalatedFeedback.get(request.id);
+    this.ethicalFeedbackSystem.escalatedFeedback.delete(request.id);
+    const round = this.ethicalFeedbackSystem.feedbackHistory.find(entry => entry.id === feedbackId);
+    if (round && !round.groundTruth && !resolution.timedOut) {
+      this.recordGroundTruth(round.id, resolution.decision, 'override');
+    }
+    
+    this.auditLog.append({
+      timestamp: resolution.resolvedAt,
+      kind: 'override',
+      agentId: request.agentId,
+      policyName: request.policies.join(', '),
+      intentType: request.intent.type,
+      action: resolution.decision,
+      symbolicViolationCode,
+      details: {
+        escalationId: request.id,
+        by: resolution.by,
+        reason: resolution.reason,
+        timedOut: resolution.timedOut
+      }
+    });
+  }
+  
+  /**
+   * Records an evaluated intent for replay
+   * @param intent - The evaluated intent
+   * @param agent - The agent processing the intent
+   * @param results - Guardrail results
+   * @private
+   */
+  private _recordIntent(intent: Intent, agent: any, results: GuardrailResult): void {
+    const state = agent.getState?.() || agent.state || {};
+    
+    this.intentLog.push({
+      timestamp: Date.now(),
+      agentId: agent.id,
+      intent,
+      assessment: results.assessment,
+      agent: {
+        stage: agent.cognitiveProfile?.developmentStage,
+        state: {
+          active: state.active,
+          coherence: state.coherence,
+          dissonance: state.dissonance,
+          intentState: state.intentState,
+          emotionalState: state.emotionalState
+        }
+      },
+      allowIntent: results.allowIntent
+    });
+    
+    if (this.intentLog.length > this.historyLimit) {
+      this.intentLog.shift();
+    }
+  }
+  
   /**
    * Adjusts thresholds based on field state
    * @param field - The intent field
@@ -507,13 +1331,28 @@ export class GuardrailManager {
   }
   
   /**
-   * Determines symbolic violation code from intervention
-   * @param intervention - The intervention details
+   * Determines the symbolic violation code of a policy's intervention: the
+   * code the policy declares, else the code of the ethical dimension the
+   * first triggering `ethical_dimension` condition checks
+   * @param intervention - The policy name and the paths of the matched
+   *                       conditions (all conditions when unknown)
    * @returns Symbolic violation code
    * @private
    */
-  private _determineViolationCode(intervention: any): ViolationCode {
-    // Logic to map intervention to symbolic code would be implemented here
+  private _determineViolationCode(intervention: { policy?: string; matchedConditions?: string[] }): ViolationCode {
+    const policy = this.policies.find(entry => entry.name === intervention.policy);
+    if (!policy) return 'ethical_uncertainty';
+    if (policy.violationCode) return policy.violationCode;
+    
+    const paths = intervention.matchedConditions || Object.keys(policy.conditions);
+    for (const path of paths) {
+      const condition = conditionAt(policy.conditions, path);
+      const dimension = condition?.dimension as EthicalDimension;
+      if (condition?.type?.startsWith('ethical_dimension') && ETHICAL_DIMENSIONS.includes(dimension)) {
+        return DIMENSION_VIOLATION_CODES[dimension];
+      }
+    }
+    
     return 'ethical_uncertainty';
   }
   
@@ -579,23 +1418,183 @@ export class GuardrailManager {
   }
   
   /**
-   * Collects ethical feedback from connected agents
+   * Collects ethical feedback from connected agents and weighs it into a
+   * consensus. The agent processing the intent does not vote on it, and
+   * agents that fail or abstain are not counted.
    * @param intent - The intent being evaluated
    * @param assessment - The ethical assessment
-   * @returns Feedback results
+   * @param agentId - The agent processing the intent
+   * @returns Consensus of the agents' feedback
    * @private
    */
   private async _collectEthicalFeedback(
     intent: Intent,
-    assessment: EthicalAssessment
-  ): Promise<any> {
-    // Feedback collection logic would be implemented here
-    return {
-      agentCount: 0,
+    assessment: EthicalAssessment,
+    agentId: string
+  ): Promise<ConsensusResult> {
+    const system = this.ethicalFeedbackSystem;
+    const eligible = Object.entries(system.connectedAgents).filter(([id]) => id !== agentId);
+    const feedbackEntries: typeof system.feedbackHistory[number]['feedbackEntries'] = [];
+    
+    for (const [id, peer] of eligible) {
+      if (typeof peer.agent.provideEthicalFeedback !== 'function') continue;
+      
+      let feedback: EthicalFeedback | null;
+      try {
+        feedback = await peer.agent.provideEthicalFeedback(intent, assessment);
+      } catch {
+        continue;
+      }
+      if (!feedback || !FEEDBACK_STRICTNESS.includes(feedback.recommendedAction)) continue;
+      
+      peer.feedbackCount++;
+      feedbackEntries.push({
+        agentId: id,
+        feedback: {
+          recommendedAction: feedback.recommendedAction,
+          reason: feedback.reason || `Agent ${id} recommends ${feedback.recommendedAction}`,
+          confidence: Math.max(0, Math.min(1, feedback.confidence ?? 1))
+        },
+        trustLevel: peer.trustLevel,
+        timestamp: Date.now()
+      });
+    }
+    
+    const feedbackId = `fb-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    const consensus = this._resolveConsensus(feedbackId, feedbackEntries, eligible.length);
+    
+    system.feedbackHistory.push({
+      id: feedbackId,
+      intent: intent.type,
+      agentId,
+      assessment: { overallScore: assessment.overallScore, dimensions: { ...assessment.dimensions } },
+      feedbackEntries,
+      consensus,
+      timestamp: Date.now()
+    });
+    if (system.feedbackHistory.length > this.historyLimit) {
+      system.feedbackHistory.shift();
+    }
+    
+    if (consensus.consensus) {
+      system.lastConsensus = {
+        action: consensus.consensusAction!,
+        reason: consensus.consensusReason!,
+        strength: consensus.consensusStrength,
+        timestamp: Date.now()
+      };
+    }
+    
+    return consensus;
+  }
+  
+  /**
+   * Weighs feedback into a consensus. Each vote weighs the agent's trust
+   * times its confidence. Without a quorum of the eligible agents there is
+   * no consensus; otherwise the most supported action is agreed when its
+   * share of the weight reaches the consensus threshold, and a tie between
+   * the most supported actions is settled by the tie-break policy.
+   * @param feedbackId - Feedback round id
+   * @param entries - Feedback given
+   * @param eligibleAgents - Number of agents asked for feedback
+   * @returns Consensus result
+   * @private
+   */
+  private _resolveConsensus(
+    feedbackId: string,
+    entries: typeof this.ethicalFeedbackSystem.feedbackHistory[number]['feedbackEntries'],
+    eligibleAgents: number
+  ): ConsensusResult {
+    const votes: ConsensusResult['votes'] = {};
+    entries.forEach(entry => {
+      const action = entry.feedback.recommendedAction;
+      votes[action] = roundScore((votes[action] || 0) + entry.trustLevel * entry.feedback.confidence);
+    });
+    
+    const total = Object.values(votes).reduce((sum, weight) => sum + weight!, 0);
+    const needed = Math.max(1, Math.ceil(this.ethicalFeedbackSystem.quorum * eligibleAgents));
+    const result: ConsensusResult = {
+      feedbackId,
+      agentCount: entries.length,
+      eligibleAgents,
+      quorumMet: entries.length >= needed && total > 0,
       consensus: false,
       consensusAction: null,
       consensusReason: null,
-      consensusStrength: 0
+      consensusStrength: 0,
+      votes,
+      tieBroken: false
     };
+    
+    if (!result.quorumMet) {
+      return result;
+    }
+    
+    const top = Math.max(...Object.values(votes).map(weight => weight!));
+    const leading = FEEDBACK_STRICTNESS.filter(action => votes[action] === top);
+    let action: EthicalFeedback['recommendedAction'] | null = leading[0];
+    
+    if (leading.length > 1) {
+      const tieBreak = this.ethicalFeedbackSystem.tieBreak;
+      if (tieBreak === 'none') {
+        action = null;
+      } else if (tieBreak === 'most_trusted') {
+        // Ties between equally trusted voters fall back to the strictest action
+        const voters = entries
+          .filter(entry => leading.includes(entry.feedback.recommendedAction))
+          .sort((a, b) => b.trustLevel - a.trustLevel ||
+            FEEDBACK_STRICTNESS.indexOf(b.feedback.recommendedAction) -
+            FEEDBACK_STRICTNESS.indexOf(a.feedback.recommendedAction));
+        action = voters[0].feedback.recommendedAction;
+      } else {
+        action = leading[leading.length - 1];
+      }
+      result.tieBroken = action !== null;
+    }
+    
+    result.consensusStrength = roundScore(top / total);
+    
+    if (action && (result.tieBroken || result.consensusStrength >= this.ethicalFeedbackSystem.consensusThreshold)) {
+      const backers = entries.filter(entry => entry.feedback.recommendedAction === action);
+      result.consensus = true;
+      result.consensusAction = action;
+      result.consensusReason = `${backers.length} of ${entries.length} agents recommend ${action}: ` +
+        [...new Set(backers.map(entry => entry.feedback.reason))].join('; ');
+    }
+    
+    return result;
   }
 }
+
+/**
+ * Finds a policy condition by its evaluation path
+ * @param conditions - Named policy conditions
+ * @param path - Condition path (e.g. risk.conditions[1])
+ * @returns Condition, or undefined when the path leads nowhere
+ */
+function conditionAt(conditions: Record<string, PolicyCondition>, path: string): PolicyCondition | undefined {
+  const [name, ...steps] = path.split('.');
+  
+  return steps.reduce<PolicyCondition | undefined>((condition, step) => {
+    const index = step.match(/^conditions\[(\d+)\]$/);
+    return index ? condition?.conditions?.[Number(index[1])] : undefined;
+  }, conditions[name]);
+}
+
+/**
+ * Keeps a trust level within its bounds
+ * @param trustLevel - Trust level
+ * @returns Trust level between the minimum and 1
+ */
+function clampTrust(trustLevel: number): number {
+  return Math.max(MIN_TRUST_LEVEL, Math.min(1, trustLevel));
+}
+
+/**
+ * Rounds a score to three decimals
+ * @param value - Score
+ * @returns Rounded score
+ */
+function roundScore(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
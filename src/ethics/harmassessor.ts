@@ -0,0 +1,381 @@
+import { HarmAssessment, HarmContextModifier, HarmLexicon, HarmMatch, HarmRule } from '../types/ethics';
+
+/**
+ * Default weighted lexicons. Weights are the probability-like harm
+ * contribution of one unmitigated mention; a category's score combines its
+ * mentions, so repeated or corroborating terms raise it.
+ */
+export const DEFAULT_HARM_LEXICONS: HarmLexicon[] = [
+  {
+    category: 'violence',
+    weight: 0.35,
+    terms: ['kill', 'murder', 'stab', 'shoot', 'assault', 'torture', 'massacre', { term: 'attack', weight: 0.25 }]
+  },
+  {
+    category: 'weapons',
+    weight: 0.4,
+    terms: ['bomb', 'explosive', 'detonator', { term: 'pipe bomb', weight: 0.8 }, { term: 'nerve agent', weight: 0.8 }]
+  },
+  {
+    category: 'self_harm',
+    weight: 0.5,
+    terms: ['suicide', 'overdose', { term: 'self-harm', weight: 0.6 }, { term: 'kill myself', weight: 0.8 }, { term: 'cut myself', weight: 0.7 }]
+  },
+  {
+    category: 'cyber',
+    weight: 0.35,
+    terms: ['exploit', 'botnet', 'zero-day', { term: 'malware', weight: 0.4 }, { term: 'keylogger', weight: 0.5 }, { term: 'ransomware', weight: 0.6 }]
+  },
+  {
+    category: 'harassment',
+    weight: 0.4,
+    terms: ['stalk', 'threaten', { term: 'humiliate', weight: 0.3 }, { term: 'dox', weight: 0.6 }, { term: 'doxx', weight: 0.6 }]
+  }
+];
+
+/**
+ * Default regular expression rules for phrasings that lexicons miss
+ */
+export const DEFAULT_HARM_RULES: HarmRule[] = [
+  {
+    name: 'weapon_instructions',
+    category: 'weapons',
+    pattern: '\\b(how to|steps to|instructions for)\\s+(make|build|assemble)\\s+(an?\\s+)?(bomb|explosive|weapon)',
+    weight: 0.85
+  },
+  {
+    name: 'credential_theft',
+    category: 'cyber',
+    pattern: '\\b(steal|harvest|phish)\\w*\\s+(\\w+\\s+){0,2}(passwords?|credentials|logins?)\\b',
+    weight: 0.7
+  },
+  {
+    name: 'targeted_threat',
+    category: 'harassment',
+    pattern: "\\bi(?:'m| am)?\\s+(?:going to|gonna|will)\\s+(?:hurt|kill|find)\\s+(?:you|him|her|them)\\b",
+    weight: 0.9
+  }
+];
+
+/**
+ * Default words that discount a nearby match
+ */
+export const DEFAULT_CONTEXT_MODIFIERS: HarmContextModifier[] = [
+  { term: 'prevent', factor: 0.3 },
+  { term: 'prevention', factor: 0.3 },
+  { term: 'protect', factor: 0.4 },
+  { term: 'defend', factor: 0.4 },
+  { term: 'detect', factor: 0.5 },
+  { term: 'awareness', factor: 0.5 },
+  { term: 'fictional', factor: 0.5 },
+  { term: 'novel', factor: 0.5 },
+  { term: 'history', factor: 0.6 }
+];
+
+/**
+ * Default negation cues; a cue shortly before a match cancels it
+ */
+export const DEFAULT_NEGATIONS = [
+  'no', 'not', 'never', 'without', 'nor', 'neither', 'cannot', 'refuse', 'avoid', "don't", "doesn't", "won't", "isn't"
+];
+
+/**
+ * HarmAssessor scores text for potential harm across categories using
+ * weighted lexicons and regular expression rules. Each match is checked
+ * against the words around it, within the same clause: a negation cue
+ * before it cancels the match ("never kill") and context modifiers scale
+ * it ("how to prevent suicide"). A category's score combines its matches
+ * as independent signals, 1 - Π(1 - weight), and the harm score is the
+ * highest category score.
+ */
+export class HarmAssessor {
+  /**
+   * Harm score at which text exceeds the threshold
+   */
+  public threshold: number;
+
+  /**
+   * Words on each side of a match inspected for negations and modifiers
+   */
+  public contextWindow: number;
+
+  /**
+   * Compiled lexicon terms
+   */
+  private terms: { category: string; term: string; weight: number; pattern: RegExp }[] = [];
+
+  /**
+   * Compiled rules
+   */
+  private rules: { rule: HarmRule; pattern: RegExp }[] = [];
+
+  /**
+   * Context modifiers by lowercase term
+   */
+  private modifiers: Map<string, number>;
+
+  /**
+   * Negation cues
+   */
+  private negations: Set<string>;
+
+  /**
+   * Creates a new HarmAssessor
+   * @param config - Configuration options
+   * @throws Error when a weight or modifier factor is outside 0-1
+   */
+  constructor(config: {
+    threshold?: number;
+    lexicons?: HarmLexicon[];
+    rules?: HarmRule[];
+    contextModifiers?: HarmContextModifier[];
+    negations?: string[];
+    contextWindow?: number;
+    useDefaults?: boolean;
+  } = {}) {
+    const useDefaults = config.useDefaults !== false;
+
+    this.threshold = config.threshold ?? 0.6;
+    this.contextWindow = config.contextWindow ?? 4;
+    this.modifiers = new Map(
+      [...(useDefaults ? DEFAULT_CONTEXT_MODIFIERS : []), ...(config.contextModifiers || [])]
+        .map(modifier => {
+          // Modifiers only discount matches, so scores stay within 0-1
+          if (typeof modifier.factor !== 'number' || !(modifier.factor >= 0 && modifier.factor <= 1)) {
+            throw new Error(`Factor of context modifier "${modifier.term}" must be between 0 and 1`);
+          }
+          return [modifier.term.toLowerCase(), modifier.factor];
+        })
+    );
+    this.negations = new Set(
+      [...(useDefaults ? DEFAULT_NEGATIONS : []), ...(config.negations || [])].map(cue => cue.toLowerCase())
+    );
+
+    [...(useDefaults ? DEFAULT_HARM_LEXICONS : []), ...(config.lexicons || [])]
+      .forEach(lexicon => this.addLexicon(lexicon));
+    [...(useDefaults ? DEFAULT_HARM_RULES : []), ...(config.rules || [])]
+      .forEach(rule => this.addRule(rule));
+  }
+
+  /**
+   * Adds a lexicon
+   * @param lexicon - Weighted terms for one category
+   * @throws Error when a weight is outside 0-1
+   */
+  addLexicon(lexicon: HarmLexicon): void {
+    const defaultWeight = lexicon.weight ?? 0.5;
+
+    lexicon.terms.forEach(entry => {
+      const term = typeof entry === 'string' ? entry : entry.term;
+      const weight = typeof entry === 'string' ? defaultWeight : entry.weight;
+      checkWeight(weight, `term "${term}" in ${lexicon.category} lexicon`);
+
+      const words = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+      this.terms.push({
+        category: lexicon.category,
+        term,
+        weight,
+        pattern: new RegExp(`(?<![\\w-])${words}(?![\\w-])`, 'gi')
+      });
+    });
+  }
+
+  /**
+   * Adds a rule
+   * @param rule - Regular expression rule
+   * @throws Error when the pattern or weight is invalid
+   */
+  addRule(rule: HarmRule): void {
+    checkWeight(rule.weight, `rule "${rule.name}"`);
+
+    try {
+      this.rules.push({ rule, pattern: new RegExp(rule.pattern, 'gi') });
+    } catch (error) {
+      throw new Error(`Invalid pattern in harm rule "${rule.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Updates the harm threshold
+   * @param threshold - New threshold (0-1)
+   */
+  updateThreshold(threshold: number): void {
+    this.threshold = Math.max(0, Math.min(1, threshold));
+  }
+
+  /**
+   * Assesses text for potential harm
+   * @param content - Text to assess
+   * @returns Harm score, per-category scores and matched spans
+   */
+  assess(content: string): HarmAssessment {
+    const words = tokenize(content);
+    const found: HarmMatch[] = [];
+
+    const collect = (category: string, source: string, weight: number, pattern: RegExp) => {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(content)) !== null) {
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        found.push(this._inContext(content, words, {
+          category,
+          text: match[0],
+          start: match.index,
+          end: match.index + match[0].length,
+          source,
+          weight
+        }));
+      }
+    };
+
+    this.terms.forEach(({ category, term, weight, pattern }) => collect(category, term, weight, pattern));
+    this.rules.forEach(({ rule, pattern }) => collect(rule.category, rule.name, rule.weight, pattern));
+
+    // A span inside a longer match of the same category is not a separate signal
+    const matches = found
+      .filter(match => !found.some(other =>
+        other !== match &&
+        other.category === match.category &&
+        other.start <= match.start && other.end >= match.end &&
+        (other.end - other.start > match.end - match.start || found.indexOf(other) < found.indexOf(match))))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const categories: Record<string, number> = {};
+    matches.forEach(match => {
+      const remaining = 1 - (categories[match.category] || 0);
+      categories[match.category] = round(1 - remaining * (1 - match.weight));
+    });
+
+    const harmScore = Math.max(0, ...Object.values(categories));
+
+    return {
+      harmScore,
+      categories,
+      matches,
+      threshold: this.threshold,
+      exceedsThreshold: harmScore >= this.threshold && harmScore > 0
+    };
+  }
+
+  // Private methods
+
+  /**
+   * Applies negations and context modifiers found around a match
+   * @param content - Assessed text
+   * @param words - Words of the text with their offsets
+   * @param match - Match with its lexicon or rule weight
+   * @returns Match with its adjusted weight
+   * @private
+   */
+  private _inContext(
+    content: string,
+    words: { word: string; start: number; end: number }[],
+    match: HarmMatch
+  ): HarmMatch {
+    // The window stays within the clause holding the match
+    const clauseStart = lastBoundary(content, match.start);
+    const clauseEnd = nextBoundary(content, match.end);
+
+    const before = words.filter(word => word.end <= match.start && word.start >= clauseStart);
+    const after = words.filter(word => word.start >= match.end && word.end <= clauseEnd);
+
+    // Words before a contrast ("but") belong to another statement
+    const contrast = before.map(word => word.word).lastIndexOf('but');
+    const preceding = before.slice(contrast + 1).slice(-this.contextWindow);
+    const following = after.slice(0, this.contextWindow);
+
+    const negation = preceding.find(word => this.negations.has(word.word) || word.word.endsWith("n't"));
+    if (negation) {
+      return { ...match, weight: 0, negatedBy: negation.word };
+    }
+
+    const modifiers = [...preceding, ...following]
+      .map(word => word.word)
+      .filter(word => this.modifiers.has(word));
+    if (modifiers.length === 0) {
+      return match;
+    }
+
+    const factor = [...new Set(modifiers)].reduce((total, word) => total * this.modifiers.get(word)!, 1);
+    return { ...match, weight: round(match.weight * factor), modifiers: [...new Set(modifiers)] };
+  }
+}
+
+/**
+ * Splits text into lowercase words with their offsets
+ * @param content - Text
+ * @returns Words in text order
+ */
+function tokenize(content: string): { word: string; start: number; end: number }[] {
+  const words: { word: string; start: number; end: number }[] = [];
+  const pattern = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content)) !== null) {
+    words.push({
+      word: match[0].toLowerCase().replace(/’/g, "'"),
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+  return words;
+}
+
+/**
+ * Finds where the clause containing an offset starts
+ * @param content - Text
+ * @param offset - Offset
+ * @returns Start offset of the clause
+ */
+function lastBoundary(content: string, offset: number): number {
+  for (let i = offset - 1; i >= 0; i--) {
+    if (/[.;!?\n]/.test(content[i])) return i + 1;
+  }
+  return 0;
+}
+
+/**
+ * Finds where the clause containing an offset ends
+ * @param content - Text
+ * @param offset - Offset
+ * @returns End offset of the clause
+ */
+function nextBoundary(content: string, offset: number): number {
+  for (let i = offset; i < content.length; i++) {
+    if (/[.;!?\n]/.test(content[i])) return i;
+  }
+  return content.length;
+}
+
+/**
+ * Checks that a weight is between 0 and 1
+ * @param weight - Weight
+ * @param label - What the weight belongs to, for errors
+ * @throws Error when the weight is out of range
+ */
+function checkWeight(weight: number, label: string): void {
+  if (typeof weight !== 'number' || !(weight >= 0 && weight <= 1)) {
+    throw new Error(`Harm weight of ${label} must be between 0 and 1`);
+  }
+}
+
+/**
+ * Escapes regular expression syntax in a literal term
+ * @param term - Term
+ * @returns Pattern source matching the term
+ */
+function escapeRegExp(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rounds a score to three decimals
+ * @param value - Score
+ * @returns Rounded score
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
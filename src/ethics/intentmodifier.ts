@@ -0,0 +1,143 @@
+import { Intent, IntentEntity } from '../types/intent';
+import { IntentModification, ModifyActionParams, PolicyAction } from '../types/ethics';
+
+/**
+ * Replacement used for redacted spans when a policy names none
+ */
+export const DEFAULT_REDACTION = '[redacted]';
+
+/**
+ * Applies a `modify` policy action to an intent. The action's params may
+ * redact text spans, downgrade the intent type and attach constraints for
+ * the response generator; they are applied in that order. The intent passed
+ * in is left untouched.
+ * @param intent - Intent to modify
+ * @param action - Modify action
+ * @param policyName - Policy the action belongs to
+ * @returns Modified intent and the changes made
+ */
+export function applyModifyAction(
+  intent: Intent,
+  action: PolicyAction,
+  policyName: string
+): { intent: Intent; modifications: IntentModification[] } {
+  const params: ModifyActionParams = action.params || {};
+  const modifications: IntentModification[] = [];
+  let modified: Intent = {
+    ...intent,
+    ...(intent.metadata ? { metadata: { ...intent.metadata } } : {}),
+    ...(intent.entities ? { entities: intent.entities.map(entity => ({ ...entity })) } : {}),
+    ...(intent.constraints ? { constraints: [...intent.constraints] } : {})
+  };
+
+  // Redact matched text spans
+  const patterns = params.redact === undefined ? [] : ([] as string[]).concat(params.redact);
+  if (patterns.length > 0 && modified.text) {
+    const replacement = params.replacement ?? DEFAULT_REDACTION;
+    const redaction = redact(modified.text, modified.entities || [], patterns, replacement);
+
+    if (redaction.count > 0) {
+      modified = {
+        ...modified,
+        text: redaction.text,
+        ...(modified.entities ? { entities: redaction.entities } : {})
+      };
+      modifications.push({
+        policyName,
+        kind: 'redact',
+        detail: `redacted ${redaction.count} span(s) matching ${patterns.map(p => `/${p}/`).join(', ')}`
+      });
+    }
+  }
+
+  // Downgrade the intent type; the subtype belonged to the original type
+  if (params.downgradeTo && params.downgradeTo !== modified.type) {
+    const { subtype, ...rest } = modified;
+    modified = {
+      ...rest,
+      type: params.downgradeTo,
+      metadata: { ...modified.metadata, downgradedFrom: modified.type }
+    };
+    modifications.push({
+      policyName,
+      kind: 'downgrade',
+      detail: `intent type ${intent.type}${subtype ? `/${subtype}` : ''} -> ${params.downgradeTo}`
+    });
+  }
+
+  // Attach response constraints
+  if (params.constraints && params.constraints.length > 0) {
+    modified.constraints = [
+      ...(modified.constraints || []),
+      ...params.constraints.map(constraint => ({ ...constraint, source: constraint.source || policyName }))
+    ];
+    modifications.push({
+      policyName,
+      kind: 'constrain',
+      detail: `attached constraint(s) ${params.constraints.map(constraint => constraint.type).join(', ')}`
+    });
+  }
+
+  return { intent: modifications.length > 0 ? modified : intent, modifications };
+}
+
+/**
+ * Redacts pattern matches from text, dropping entities inside redacted
+ * spans and shifting the offsets of the others
+ * @param text - Intent text
+ * @param entities - Extracted entities
+ * @param patterns - Regular expression sources
+ * @param replacement - Replacement text
+ * @returns Redacted text, adjusted entities and the number of spans redacted
+ */
+function redact(
+  text: string,
+  entities: IntentEntity[],
+  patterns: string[],
+  replacement: string
+): { text: string; entities: IntentEntity[]; count: number } {
+  // Collect matched spans, merging overlaps between patterns
+  const spans: [number, number][] = [];
+  patterns.forEach(source => {
+    const pattern = new RegExp(source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      spans.push([match.index, match.index + match[0].length]);
+    }
+  });
+
+  const merged = spans
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((result, span) => {
+      const last = result[result.length - 1];
+      if (last && span[0] <= last[1]) {
+        last[1] = Math.max(last[1], span[1]);
+      } else {
+        result.push([...span]);
+      }
+      return result;
+    }, []);
+
+  let redacted = '';
+  let position = 0;
+  merged.forEach(([start, end]) => {
+    redacted += text.slice(position, start) + replacement;
+    position = end;
+  });
+  redacted += text.slice(position);
+
+  // Offset change at a position: the length difference of spans before it
+  const shift = (offset: number) => merged
+    .filter(([, end]) => end <= offset)
+    .reduce((total, [start, end]) => total + replacement.length - (end - start), 0);
+
+  const kept = entities
+    .filter(entity => !merged.some(([start, end]) => entity.start < end && entity.end > start))
+    .map(entity => ({ ...entity, start: entity.start + shift(entity.start), end: entity.end + shift(entity.start) }));
+
+  return { text: redacted, entities: kept, count: merged.length };
+}
@@ -0,0 +1,382 @@
+import {
+  ConstraintContext,
+  ConstraintVeto,
+  DimensionExplanation,
+  EthicalAssessment,
+  EthicalDimension,
+  PolicyCondition,
+  PolicyHistoryEntry,
+  ViolationCode
+} from '../types/ethics';
+import { Intent } from '../types/intent';
+import { ConditionEngine } from './conditionengine';
+
+/**
+ * Ethical dimensions with the violation code each one maps to
+ */
+export const DIMENSION_VIOLATION_CODES: Record<EthicalDimension, ViolationCode> = {
+  harm: 'harm_potential',
+  fairness: 'fairness_compromise',
+  autonomy: 'autonomy_breach',
+  privacy: 'privacy_breach',
+  integrity: 'integrity_violation',
+  dignity: 'dignity_compromise'
+};
+
+/**
+ * Ethical dimensions in report order
+ */
+export const ETHICAL_DIMENSIONS = Object.keys(DIMENSION_VIOLATION_CODES) as EthicalDimension[];
+
+/**
+ * Default weights of the dimensions in the overall score
+ */
+export const DEFAULT_DIMENSION_WEIGHTS: Record<EthicalDimension, number> = {
+  harm: 0.3,
+  fairness: 0.14,
+  autonomy: 0.14,
+  privacy: 0.14,
+  integrity: 0.14,
+  dignity: 0.14
+};
+
+/**
+ * Default concern floor of every dimension; no assessment is fully certain
+ */
+const DEFAULT_BASELINE = 0.1;
+
+/**
+ * Evaluates how far an intent violates a constraint
+ * @param context - Constraint context
+ * @returns Degree of violation (0-1), or whether the constraint is violated
+ */
+export type ConstraintEvaluator = (context: ConstraintContext) => number | boolean;
+
+/**
+ * Score from outside the constraints, such as the harm assessor
+ */
+export interface EthicalSignal {
+  /**
+   * Signal name
+   */
+  name: string;
+
+  /**
+   * Scores by dimension (0-1)
+   */
+  dimensions: Partial<Record<EthicalDimension, number>>;
+}
+
+/**
+ * NormativeConstraint is a norm an intent may violate. When its condition
+ * holds, it contributes its impact to each dimension it guards, scaled by
+ * the dimension's weight. A hard constraint also vetoes the intent.
+ */
+export class NormativeConstraint {
+  /**
+   * Constraint name
+   */
+  public name: string;
+
+  /**
+   * Soft constraints only contribute to scores; hard constraints veto
+   */
+  public type: 'soft' | 'hard';
+
+  /**
+   * Contribution to the dimensions when fully violated (0-1)
+   */
+  public impact: number;
+
+  /**
+   * Weights of the guarded dimensions (0-1)
+   */
+  public dimensions: Partial<Record<EthicalDimension, number>>;
+
+  /**
+   * Policy condition or evaluator deciding whether the constraint is violated
+   */
+  private condition?: PolicyCondition | ConstraintEvaluator;
+
+  /**
+   * Creates a new NormativeConstraint
+   * @param config - Configuration options
+   * @throws Error when the impact, a weight or a dimension is not valid
+   */
+  constructor(config: {
+    name: string;
+    type?: 'soft' | 'hard';
+    condition?: PolicyCondition | ConstraintEvaluator;
+    impact?: number;
+    dimensions?: EthicalDimension[] | Partial<Record<EthicalDimension, number>>;
+  }) {
+    this.name = config.name;
+    this.type = config.type || 'soft';
+    this.condition = config.condition;
+    this.impact = config.impact ?? 0.5;
+
+    const dimensions = config.dimensions || ['harm'];
+    this.dimensions = Array.isArray(dimensions)
+      ? Object.fromEntries(dimensions.map(dimension => [dimension, 1]))
+      : { ...dimensions };
+
+    if (!(this.impact >= 0 && this.impact <= 1)) {
+      throw new Error(`Impact of constraint ${this.name} must be between 0 and 1`);
+    }
+    Object.entries(this.dimensions).forEach(([dimension, weight]) => {
+      if (!ETHICAL_DIMENSIONS.includes(dimension as EthicalDimension)) {
+        throw new Error(`Unknown ethical dimension "${dimension}" in constraint ${this.name}`);
+      }
+      if (!(weight! >= 0 && weight! <= 1)) {
+        throw new Error(`Weight of ${dimension} in constraint ${this.name} must be between 0 and 1`);
+      }
+    });
+  }
+
+  /**
+   * Evaluates how far an intent violates the constraint. A constraint
+   * without a condition is always violated.
+   * @param context - Constraint context
+   * @param conditionEngine - Engine evaluating policy conditions
+   * @returns Violation (0-1): the impact scaled by the degree of violation
+   */
+  evaluate(context: ConstraintContext, conditionEngine: ConditionEngine = new ConditionEngine()): number {
+    let degree: number;
+
+    if (this.condition === undefined) {
+      degree = 1;
+    } else if (typeof this.condition === 'function') {
+      const outcome = this.condition(context);
+      degree = typeof outcome === 'boolean' ? Number(outcome) : Math.max(0, Math.min(1, outcome || 0));
+    } else {
+      degree = conditionEngine.evaluate(this.condition, context).matched ? 1 : 0;
+    }
+
+    return this.impact * degree;
+  }
+}
+
+/**
+ * NexusFramework assesses intents across the ethical dimensions of the
+ * violation code registry. Each dimension is a level of concern: the
+ * violated constraints and outside signals guarding it combine as
+ * independent contributions, 1 - Π(1 - contribution), never below the
+ * dimension's baseline. The overall score is the weighted mean of the
+ * dimensions, and any violated hard constraint vetoes the intent
+ * whatever the scores.
+ */
+export class NexusFramework {
+  /**
+   * Weights of the dimensions in the overall score
+   */
+  public weights: Record<EthicalDimension, number>;
+
+  /**
+   * Concern floor of each dimension
+   */
+  public baseline: Record<EthicalDimension, number>;
+
+  /**
+   * Registered constraints
+   */
+  private constraints: NormativeConstraint[] = [];
+
+  /**
+   * Engine evaluating constraint conditions
+   */
+  private conditionEngine: ConditionEngine;
+
+  /**
+   * Creates a new NexusFramework
+   * @param config - Configuration options
+   * @throws Error when a weight or baseline is not valid
+   */
+  constructor(config: {
+    weights?: Partial<Record<EthicalDimension, number>>;
+    baseline?: Partial<Record<EthicalDimension, number>>;
+    conditionEngine?: ConditionEngine;
+  } = {}) {
+    this.weights = { ...DEFAULT_DIMENSION_WEIGHTS, ...config.weights };
+    this.baseline = {
+      ...Object.fromEntries(ETHICAL_DIMENSIONS.map(dimension => [dimension, DEFAULT_BASELINE])),
+      ...config.baseline
+    } as Record<EthicalDimension, number>;
+    this.conditionEngine = config.conditionEngine || new ConditionEngine();
+
+    ETHICAL_DIMENSIONS.forEach(dimension => {
+      if (!(this.weights[dimension] >= 0)) {
+        throw new Error(`Weight of ${dimension} must not be negative`);
+      }
+      if (!(this.baseline[dimension] >= 0 && this.baseline[dimension] <= 1)) {
+        throw new Error(`Baseline of ${dimension} must be between 0 and 1`);
+      }
+    });
+    if (ETHICAL_DIMENSIONS.every(dimension => this.weights[dimension] === 0)) {
+      throw new Error('At least one dimension needs a weight');
+    }
+  }
+
+  /**
+   * Registers a constraint, replacing any constraint of the same name
+   * @param constraint - Constraint
+   */
+  registerConstraint(constraint: NormativeConstraint): void {
+    this.unregisterConstraint(constraint.name);
+    this.constraints.push(constraint);
+  }
+
+  /**
+   * Removes a constraint
+   * @param name - Constraint name
+   * @returns Whether a constraint was removed
+   */
+  unregisterConstraint(name: string): boolean {
+    const count = this.constraints.length;
+    this.constraints = this.constraints.filter(constraint => constraint.name !== name);
+
+    return this.constraints.length < count;
+  }
+
+  /**
+   * Gets the registered constraints
+   * @returns Constraints in registration order
+   */
+  getConstraints(): NormativeConstraint[] {
+    return [...this.constraints];
+  }
+
+  /**
+   * Evaluates an intent. Constraint conditions on ethical dimensions see
+   * the baseline raised by the signals.
+   * @param intent - The intent to evaluate
+   * @param memory - Working memory of the agent
+   * @param context - Agent, field and history for constraint conditions,
+   *                  and signals scored outside the framework
+   * @returns Ethical assessment with per-dimension explanations and vetoes
+   */
+  async evaluate(
+    intent: Intent,
+    memory: Record<string, any> = {},
+    context: {
+      agent?: any;
+      field?: any;
+      history?: PolicyHistoryEntry[];
+      now?: number;
+      signals?: EthicalSignal[];
+    } = {}
+  ): Promise<EthicalAssessment> {
+    const contributions = new Map<EthicalDimension, DimensionExplanation['contributors']>(
+      ETHICAL_DIMENSIONS.map(dimension => [dimension, []])
+    );
+
+    (context.signals || []).forEach(signal => {
+      Object.entries(signal.dimensions).forEach(([dimension, score]) => {
+        if (score! > 0 && contributions.has(dimension as EthicalDimension)) {
+          contributions.get(dimension as EthicalDimension)!.push({
+            name: signal.name,
+            kind: 'signal',
+            contribution: round(Math.min(1, score!))
+          });
+        }
+      });
+    });
+
+    const constraintContext: ConstraintContext = {
+      intent,
+      agent: context.agent || {},
+      field: context.field,
+      assessment: this._assemble(contributions, [], []),
+      history: context.history || [],
+      now: context.now ?? Date.now(),
+      memory
+    };
+
+    const violated: string[] = [];
+    const vetoes: ConstraintVeto[] = [];
+
+    this.constraints.forEach(constraint => {
+      const violation = constraint.evaluate(constraintContext, this.conditionEngine);
+      if (violation <= 0) return;
+
+      const dimensions = Object.keys(constraint.dimensions) as EthicalDimension[];
+      violated.push(constraint.name);
+
+      dimensions.forEach(dimension => {
+        contributions.get(dimension)!.push({
+          name: constraint.name,
+          kind: constraint.type,
+          contribution: round(violation * constraint.dimensions[dimension]!)
+        });
+      });
+
+      if (constraint.type === 'hard') {
+        vetoes.push({
+          constraint: constraint.name,
+          dimensions,
+          symbolicViolationCode: dimensions.length > 0
+            ? DIMENSION_VIOLATION_CODES[dimensions[0]]
+            : 'ethical_uncertainty'
+        });
+      }
+    });
+
+    return this._assemble(contributions, violated, vetoes);
+  }
+
+  // Private methods
+
+  /**
+   * Combines contributions into an assessment
+   * @param contributions - Contributions by dimension
+   * @param violated - Names of the violated constraints
+   * @param vetoes - Vetoes of violated hard constraints
+   * @returns Ethical assessment
+   * @private
+   */
+  private _assemble(
+    contributions: Map<EthicalDimension, DimensionExplanation['contributors']>,
+    violated: string[],
+    vetoes: ConstraintVeto[]
+  ): EthicalAssessment {
+    const explanations: Partial<Record<EthicalDimension, DimensionExplanation>> = {};
+
+    contributions.forEach((contributors, dimension) => {
+      const combined = 1 - contributors.reduce((remaining, entry) => remaining * (1 - entry.contribution), 1);
+      explanations[dimension] = {
+        score: round(Math.max(this.baseline[dimension], combined)),
+        contributors: [...contributors].sort((a, b) => b.contribution - a.contribution)
+      };
+    });
+
+    const scores = Object.fromEntries(ETHICAL_DIMENSIONS.map(dimension => [dimension, explanations[dimension]!.score]));
+    const totalWeight = ETHICAL_DIMENSIONS.reduce((total, dimension) => total + this.weights[dimension], 0);
+    const overallScore = ETHICAL_DIMENSIONS
+      .reduce((total, dimension) => total + this.weights[dimension] * scores[dimension], 0) / totalWeight;
+
+    const concerns = ETHICAL_DIMENSIONS
+      .filter(dimension => explanations[dimension]!.contributors.length > 0)
+      .map(dimension => `${dimension} ${scores[dimension].toFixed(2)} (` +
+        `${explanations[dimension]!.contributors.map(entry => entry.name).join(', ')})`);
+
+    return {
+      overallScore: round(overallScore),
+      dimensions: scores as EthicalAssessment['dimensions'],
+      explanations,
+      vetoes,
+      violations: violated,
+      reasoning: [
+        concerns.length > 0 ? `Concerns: ${concerns.join('; ')}.` : 'No constraint or signal raised a concern.',
+        ...vetoes.map(veto => `Vetoed by hard constraint ${veto.constraint}.`)
+      ].join(' ')
+    };
+  }
+}
+
+/**
+ * Rounds a score to three decimals
+ * @param value - Score
+ * @returns Rounded score
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
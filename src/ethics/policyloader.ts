@@ -0,0 +1,1250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { EventEmitter } from 'eventemitter3';
+import {
+  Policy,
+  PolicyDocument,
+  PolicyFixture,
+  PolicyFixtureDocument,
+  PolicyIssue,
+  ViolationCode
+} from '../types/ethics';
+import { GuardrailManager } from './guardrailmanager';
+import { ETHICAL_DIMENSIONS } from './nexusframework';
+
+/**
+ * Policy files
+ *
+ * Policy files let ethics reviewers maintain guardrail policies without
+ * touching code. A policy file is JSON or YAML holding either an array of
+ * policies or an object with an optional `version` and a `policies` array:
+ *
+ * ```yaml
+ * version: 1
+ * policies:
+ *   - name: intrusion_prevention
+ *     conditions:
+ *       pattern_match: { type: pattern_match, value: external_repository }
+ *     actions:
+ *       - type: block
+ *         message: External repository detected. Access denied.
+ * ```
+ *
+ * Every policy follows the `Policy`, `PolicyCondition` and `PolicyAction`
+ * types. Problems are reported with their document path, line and column.
+ *
+ * Policy fixture files pair intents with the outcome a policy set should
+ * produce, for the policy test harness (src/tools/policytestharness.ts):
+ *
+ * ```yaml
+ * version: 1
+ * policies: [security.yaml]
+ * fixtures:
+ *   - name: blocks external repositories
+ *     intent: clone the external_repository mirror
+ *     expect: { outcome: block, policies: [intrusion_prevention] }
+ * ```
+ */
+
+/**
+ * Policy file format version understood by this loader
+ */
+export const POLICY_FILE_VERSION = 1;
+
+/**
+ * Keys allowed at each level of a policy document
+ */
+const DOCUMENT_KEYS = ['version', 'policies'];
+const POLICY_KEYS = [
+  'name', 'description', 'conditions', 'actions', 'createConstraint', 'constraintType', 'constraintDimensions',
+  'constraintImpact', 'mode', 'violationCode'
+];
+const CONDITION_KEYS = ['type', 'value', 'dimension', 'comparison', 'field', 'event', 'window', 'operator', 'conditions'];
+const CONDITION_COMPARISONS = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'in', 'contains', 'matches', 'exists'];
+const CONDITION_EVENTS = ['block', 'warn', 'modify', 'escalate', 'log', 'intervention', 'intent'];
+const CONDITION_OPERATORS = ['and', 'or', 'not'];
+const ACTION_KEYS = ['type', 'message', 'params'];
+const ACTION_TYPES = ['block', 'warn', 'modify', 'escalate', 'log'];
+const MODIFY_OPERATIONS = ['redact', 'downgradeTo', 'constraints'];
+const CONSTRAINT_TYPES = ['max_length', 'exclude', 'no_echo', 'disclaimer'];
+const ESCALATE_KEYS = ['timeoutMs', 'defaultDecision'];
+const ESCALATION_DECISIONS = ['allow', 'block'];
+const FIXTURE_DOCUMENT_KEYS = ['version', 'policies', 'fixtures'];
+const FIXTURE_KEYS = ['name', 'intent', 'agent', 'assessment', 'expect'];
+const FIXTURE_AGENT_KEYS = ['id', 'stage', 'state'];
+const FIXTURE_EXPECT_KEYS = ['outcome', 'violationCodes', 'policies'];
+const FIXTURE_OUTCOMES = ['allow', 'warn', 'block', 'escalate'];
+const DEVELOPMENT_STAGES = ['novice', 'standard', 'advanced', 'emergent'];
+const VIOLATION_CODES: ViolationCode[] = [
+  'autonomy_breach',
+  'harm_potential',
+  'fairness_compromise',
+  'integrity_violation',
+  'privacy_breach',
+  'dignity_compromise',
+  'ethical_uncertainty'
+];
+
+/**
+ * Error thrown when a policy or policy fixture file is not valid
+ */
+export class PolicyFileError extends Error {
+  /**
+   * Problems found, in document order
+   */
+  public readonly issues: PolicyIssue[];
+
+  /**
+   * Creates a new PolicyFileError
+   * @param issues - Problems found
+   * @param source - Policy file path (optional)
+   * @param kind - File description used in the message
+   */
+  constructor(issues: PolicyIssue[], source?: string, kind: string = 'policy file') {
+    super(
+      `Invalid ${kind}${source ? ` ${source}` : ''}:\n` +
+      issues.map(issue => `  ${formatLocation(issue)}: ${issue.message}`).join('\n')
+    );
+    this.name = 'PolicyFileError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parses a JSON or YAML policy document and validates it against the
+ * policy schema
+ * @param text - Policy file text
+ * @param options - Parse options
+ * @returns Policy document
+ * @throws PolicyFileError listing every problem with its location
+ */
+export function parsePolicyDocument(
+  text: string,
+  options: { source?: string; format?: 'json' | 'yaml' } = {}
+): PolicyDocument {
+  const { value, locator } = parseDocument(text, options, 'policy file');
+  return validatePolicyDocument(value, { source: options.source, locate: locator.locate });
+}
+
+/**
+ * Validates an already-parsed policy document
+ * @param value - Parsed document
+ * @param options - Validation options
+ * @returns Policy document
+ * @throws PolicyFileError listing every problem
+ */
+export function validatePolicyDocument(
+  value: unknown,
+  options: {
+    source?: string;
+    locate?: (path: string, key?: boolean) => { line: number; column: number } | undefined;
+  } = {}
+): PolicyDocument {
+  const issues: PolicyIssue[] = [];
+  const fail = (at: string, message: string, key = false) => {
+    const position = options.locate?.(at, key);
+    issues.push({ path: at, ...(position || {}), message });
+  };
+
+  let policies: unknown;
+  let policiesPath = '';
+  const document: PolicyDocument = { policies: [] };
+
+  if (Array.isArray(value)) {
+    policies = value;
+  } else if (isObject(value)) {
+    checkKeys(value, '', DOCUMENT_KEYS, fail);
+
+    if (value.version !== undefined) {
+      if (value.version !== POLICY_FILE_VERSION) {
+        fail('version', `unsupported policy file version ${JSON.stringify(value.version)} (expected ${POLICY_FILE_VERSION})`);
+      } else {
+        document.version = value.version;
+      }
+    }
+
+    if (value.policies === undefined) {
+      fail('', 'missing "policies"');
+    }
+    policies = value.policies;
+    policiesPath = 'policies';
+  } else {
+    fail('', 'policy file must contain a list of policies or an object with a "policies" list');
+  }
+
+  if (policies !== undefined && !Array.isArray(policies)) {
+    fail(policiesPath, '"policies" must be a list');
+  } else if (Array.isArray(policies)) {
+    const names = new Map<string, number>();
+
+    policies.forEach((policy, index) => {
+      const at = join(policiesPath, index);
+      if (!validatePolicy(policy, at, fail)) return;
+
+      const first = names.get(policy.name);
+      if (first !== undefined) {
+        fail(join(at, 'name'), `duplicate policy name "${policy.name}" (first declared at ${join(policiesPath, first)})`);
+        return;
+      }
+      names.set(policy.name, index);
+      document.policies.push(policy);
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new PolicyFileError(issues.sort(compareIssues), options.source);
+  }
+
+  return document;
+}
+
+/**
+ * Loads and validates a policy file, choosing JSON or YAML by extension
+ * @param filePath - Policy file path
+ * @returns Policy document
+ * @throws PolicyFileError when the file is not valid
+ */
+export async function loadPolicyFile(filePath: string): Promise<PolicyDocument> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  return parsePolicyDocument(text, { source: filePath, format: formatOf(filePath) });
+}
+
+/**
+ * Parses a JSON or YAML policy fixture document and validates it
+ * @param text - Fixture file text
+ * @param options - Parse options
+ * @returns Fixture document
+ * @throws PolicyFileError listing every problem with its location
+ */
+export function parsePolicyFixtureDocument(
+  text: string,
+  options: { source?: string; format?: 'json' | 'yaml' } = {}
+): PolicyFixtureDocument {
+  const { value, locator } = parseDocument(text, options, 'policy fixture file');
+  return validatePolicyFixtureDocument(value, { source: options.source, locate: locator.locate });
+}
+
+/**
+ * Validates an already-parsed policy fixture document: a list of fixtures,
+ * or an object with an optional `version`, `policies` (one path or a list)
+ * and a `fixtures` list
+ * @param value - Parsed document
+ * @param options - Validation options
+ * @returns Fixture document
+ * @throws PolicyFileError listing every problem
+ */
+export function validatePolicyFixtureDocument(
+  value: unknown,
+  options: {
+    source?: string;
+    locate?: (path: string, key?: boolean) => { line: number; column: number } | undefined;
+  } = {}
+): PolicyFixtureDocument {
+  const issues: PolicyIssue[] = [];
+  const fail = (at: string, message: string, key = false) => {
+    const position = options.locate?.(at, key);
+    issues.push({ path: at, ...(position || {}), message });
+  };
+
+  let fixtures: unknown;
+  let fixturesPath = '';
+  const document: PolicyFixtureDocument = { fixtures: [] };
+
+  if (Array.isArray(value)) {
+    fixtures = value;
+  } else if (isObject(value)) {
+    checkKeys(value, '', FIXTURE_DOCUMENT_KEYS, fail);
+
+    if (value.version !== undefined) {
+      if (value.version !== POLICY_FILE_VERSION) {
+        fail('version', `unsupported fixture file version ${JSON.stringify(value.version)} (expected ${POLICY_FILE_VERSION})`);
+      } else {
+        document.version = value.version;
+      }
+    }
+
+    if (value.policies !== undefined) {
+      const paths = ([] as unknown[]).concat(value.policies);
+      if (paths.length === 0 || paths.some(file => typeof file !== 'string' || file === '')) {
+        fail('policies', '"policies" must be a policy file path or a list of paths');
+      } else {
+        document.policies = paths as string[];
+      }
+    }
+
+    if (value.fixtures === undefined) {
+      fail('', 'missing "fixtures"');
+    }
+    fixtures = value.fixtures;
+    fixturesPath = 'fixtures';
+  } else {
+    fail('', 'fixture file must contain a list of fixtures or an object with a "fixtures" list');
+  }
+
+  if (fixtures !== undefined && !Array.isArray(fixtures)) {
+    fail(fixturesPath, '"fixtures" must be a list');
+  } else if (Array.isArray(fixtures)) {
+    fixtures.forEach((fixture, index) => {
+      if (validateFixture(fixture, join(fixturesPath, index), fail)) {
+        document.fixtures.push(fixture);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new PolicyFileError(issues.sort(compareIssues), options.source, 'policy fixture file');
+  }
+
+  return document;
+}
+
+/**
+ * Loads and validates a policy fixture file, choosing JSON or YAML by
+ * extension. Policy file paths are resolved against the fixture file.
+ * @param filePath - Fixture file path
+ * @returns Fixture document
+ * @throws PolicyFileError when the file is not valid
+ */
+export async function loadPolicyFixtureFile(filePath: string): Promise<PolicyFixtureDocument> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  const document = parsePolicyFixtureDocument(text, { source: filePath, format: formatOf(filePath) });
+
+  if (document.policies) {
+    document.policies = document.policies.map(file => path.resolve(path.dirname(filePath), file));
+  }
+  return document;
+}
+
+/**
+ * A set of policy files kept in sync with one or more guardrail managers.
+ * Files can be watched so that edits take effect while agents run; a reload
+ * that fails validation keeps the last valid policies in place.
+ *
+ * Events:
+ * - `reload` ({ policies, added, removed, updated }) after policies change
+ * - `error` (error) when a file cannot be read or validated
+ */
+export class PolicySet extends EventEmitter {
+  /**
+   * Policy file paths, in load order
+   */
+  public readonly paths: string[];
+
+  /**
+   * Currently loaded policies
+   */
+  public policies: Policy[] = [];
+
+  /**
+   * Watch polling interval in milliseconds
+   */
+  private interval: number;
+
+  /**
+   * Guardrail managers receiving the policies
+   */
+  private managers: GuardrailManager[] = [];
+
+  /**
+   * Files being watched
+   */
+  private watched: string[] = [];
+
+  /**
+   * Pending reload, so concurrent file changes reload once
+   */
+  private pending: Promise<boolean> | null = null;
+
+  /**
+   * Creates a new PolicySet
+   * @param paths - Policy file paths
+   * @param config - Configuration options
+   */
+  constructor(paths: string | string[], config: {
+    watch?: boolean;
+    interval?: number;
+  } = {}) {
+    super();
+    this.paths = (Array.isArray(paths) ? paths : [paths]).map(file => path.resolve(file));
+    this.interval = config.interval || 1000;
+
+    if (config.watch) {
+      this.watch();
+    }
+  }
+
+  /**
+   * Loads every policy file, replacing the current policies
+   * @returns Loaded policies
+   * @throws PolicyFileError when a file is not valid or names clash across files
+   */
+  async load(): Promise<Policy[]> {
+    const documents = await Promise.all(this.paths.map(file => loadPolicyFile(file)));
+    const owners = new Map<string, string>();
+    const issues: PolicyIssue[] = [];
+
+    documents.forEach((document, index) => {
+      document.policies.forEach(policy => {
+        const owner = owners.get(policy.name);
+        if (owner) {
+          issues.push({ path: this.paths[index], message: `policy "${policy.name}" is already declared in ${owner}` });
+        }
+        owners.set(policy.name, this.paths[index]);
+      });
+    });
+
+    if (issues.length > 0) {
+      throw new PolicyFileError(issues);
+    }
+
+    const previous = this.policies;
+    this.policies = documents.flatMap(document => document.policies);
+    this.managers.forEach(manager => this.apply(manager, previous));
+
+    const names = (policies: Policy[]) => new Set(policies.map(policy => policy.name));
+    const before = names(previous);
+    const after = names(this.policies);
+
+    this.emit('reload', {
+      policies: this.policies,
+      added: [...after].filter(name => !before.has(name)),
+      removed: [...before].filter(name => !after.has(name)),
+      updated: this.policies
+        .filter(policy => {
+          const old = previous.find(p => p.name === policy.name);
+          return old !== undefined && JSON.stringify(old) !== JSON.stringify(policy);
+        })
+        .map(policy => policy.name)
+    });
+
+    return this.policies;
+  }
+
+  /**
+   * Reloads the policy files, keeping the current policies if any file is
+   * not valid
+   * @returns Whether the reload succeeded
+   */
+  async reload(): Promise<boolean> {
+    if (this.pending) return this.pending;
+
+    this.pending = this.load()
+      .then(() => true)
+      .catch(error => {
+        this.emit('error', error);
+        return false;
+      })
+      .finally(() => {
+        this.pending = null;
+      });
+
+    return this.pending;
+  }
+
+  /**
+   * Keeps a guardrail manager's policies in sync with this set
+   * @param manager - Guardrail manager
+   * @returns Number of policies applied
+   */
+  attach(manager: GuardrailManager): number {
+    if (!this.managers.includes(manager)) {
+      this.managers.push(manager);
+    }
+    this.apply(manager, []);
+    return this.policies.length;
+  }
+
+  /**
+   * Stops syncing a guardrail manager, removing the policies of this set
+   * @param manager - Guardrail manager
+   * @returns Whether the manager was attached
+   */
+  detach(manager: GuardrailManager): boolean {
+    const index = this.managers.indexOf(manager);
+    if (index === -1) return false;
+
+    this.managers.splice(index, 1);
+    this.policies.forEach(policy => manager.unregisterPolicy(policy.name));
+    return true;
+  }
+
+  /**
+   * Watches the policy files and reloads on change
+   */
+  watch(): void {
+    this.paths
+      .filter(file => !this.watched.includes(file))
+      .forEach(file => {
+        fs.watchFile(file, { interval: this.interval, persistent: false }, (current, previous) => {
+          if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+            this.reload();
+          }
+        });
+        this.watched.push(file);
+      });
+  }
+
+  /**
+   * Stops watching the policy files
+   */
+  close(): void {
+    this.watched.forEach(file => fs.unwatchFile(file));
+    this.watched = [];
+  }
+
+  // Private methods
+
+  /**
+   * Replaces a manager's copies of the previous policies with the current ones
+   * @param manager - Guardrail manager
+   * @param previous - Policies applied before this load
+   * @private
+   */
+  private apply(manager: GuardrailManager, previous: Policy[]): void {
+    previous.forEach(policy => manager.unregisterPolicy(policy.name));
+
+    this.policies.forEach(policy => {
+      manager.unregisterPolicy(policy.name);
+      manager.registerPolicy(policy);
+    });
+  }
+}
+
+/**
+ * Records where each node of a YAML or JSON document starts, by document
+ * path, using the js-yaml parse listener
+ */
+class PositionLocator {
+  /**
+   * Document text
+   */
+  private text: string;
+
+  /**
+   * Offsets at which each line starts
+   */
+  private lineStarts: number[] = [0];
+
+  /**
+   * Node under construction at each nesting level
+   */
+  private stack: ParsedNode[] = [{ start: 0, kind: null, result: undefined, children: [] }];
+
+  /**
+   * Start offsets of keys and values by path
+   */
+  private positions: { keys: Map<string, number>; values: Map<string, number> } | null = null;
+
+  /**
+   * Creates a new PositionLocator
+   * @param text - Document text
+   */
+  constructor(text: string) {
+    this.text = text;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * js-yaml parse listener
+   * @param event - Parse event
+   * @param state - Parser state
+   */
+  listener = (event: 'open' | 'close', state: { position: number; kind: string | null; result: unknown }): void => {
+    if (event === 'open') {
+      this.stack.push({ start: state.position, kind: null, result: undefined, children: [] });
+      return;
+    }
+
+    const node = this.stack.pop()!;
+    node.kind = state.kind;
+    node.result = state.result;
+    this.stack[this.stack.length - 1].children.push(node);
+  };
+
+  /**
+   * Finds the position of a key or value
+   * @param at - Document path
+   * @param key - Whether to locate the key rather than the value
+   * @returns 1-based line and column, or undefined when unknown
+   */
+  locate = (at: string, key = false): { line: number; column: number } | undefined => {
+    if (!this.positions) {
+      this.positions = { keys: new Map(), values: new Map() };
+      const root = this.stack[0].children[0];
+      if (root) this.index(root, '');
+    }
+
+    const offset = key ? this.positions.keys.get(at) : this.positions.values.get(at);
+    return offset === undefined ? undefined : this.toPosition(offset);
+  };
+
+  // Private methods
+
+  /**
+   * Indexes the key and value positions below a node
+   * @param node - Parsed node
+   * @param at - Node path
+   * @private
+   */
+  private index(node: ParsedNode, at: string): void {
+    // Flow collections are wrapped in a node holding the same result
+    while (node.children.length === 1 && node.children[0].result === node.result && node.kind === node.children[0].kind) {
+      node = node.children[0];
+    }
+
+    this.positions!.values.set(at, this.skipTrivia(node.start));
+
+    if (node.kind === 'mapping') {
+      for (let i = 0; i < node.children.length; i += 2) {
+        const key = node.children[i];
+        const child = join(at, String(key.result));
+        this.positions!.keys.set(child, this.skipTrivia(key.start));
+
+        const value = node.children[i + 1];
+        if (value && value.kind !== null) {
+          this.index(value, child);
+        } else {
+          this.positions!.values.set(child, this.skipTrivia(key.start));
+        }
+      }
+    } else if (node.kind === 'sequence') {
+      node.children.forEach((child, index) => this.index(child, join(at, index)));
+    }
+  }
+
+  /**
+   * Skips whitespace and comments
+   * @param offset - Start offset
+   * @returns Offset of the next significant character
+   * @private
+   */
+  private skipTrivia(offset: number): number {
+    while (offset < this.text.length) {
+      const char = this.text[offset];
+      if (char === '#') {
+        while (offset < this.text.length && this.text[offset] !== '\n') offset++;
+      } else if (/\s/.test(char)) {
+        offset++;
+      } else {
+        break;
+      }
+    }
+    return offset;
+  }
+
+  /**
+   * Converts an offset into a line and column
+   * @param offset - Text offset
+   * @returns 1-based line and column
+   * @private
+   */
+  private toPosition(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+}
+
+/**
+ * Node recorded by the position locator
+ */
+interface ParsedNode {
+  start: number;
+  kind: string | null;
+  result: unknown;
+  children: ParsedNode[];
+}
+
+/**
+ * Parses JSON or YAML text, recording node positions
+ * @param text - Document text
+ * @param options - Parse options
+ * @param kind - File description for errors
+ * @returns Parsed value and its position locator
+ * @throws PolicyFileError on syntax errors
+ */
+function parseDocument(
+  text: string,
+  options: { source?: string; format?: 'json' | 'yaml' },
+  kind: string
+): { value: unknown; locator: PositionLocator } {
+  const locator = new PositionLocator(text);
+
+  try {
+    const value = yaml.load(text, {
+      filename: options.source,
+      listener: locator.listener
+    });
+    return { value, locator };
+  } catch (error) {
+    const mark = (error as { mark?: { line: number; column: number } }).mark;
+    const reason = (error as { reason?: string }).reason;
+    throw new PolicyFileError([{
+      path: '',
+      line: mark ? mark.line + 1 : undefined,
+      column: mark ? mark.column + 1 : undefined,
+      message: `${options.format === 'json' ? 'JSON' : 'YAML'} syntax error: ` +
+        (reason || (error instanceof Error ? error.message : String(error)))
+    }], options.source, kind);
+  }
+}
+
+/**
+ * Validates one policy
+ * @param policy - Policy value
+ * @param at - Policy path
+ * @param fail - Issue reporter
+ * @returns Whether the policy is valid
+ */
+function validatePolicy(
+  policy: unknown,
+  at: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): policy is Policy {
+  if (!isObject(policy)) {
+    fail(at, 'policy must be an object');
+    return false;
+  }
+
+  let valid = checkKeys(policy, at, POLICY_KEYS, fail);
+
+  if (typeof policy.name !== 'string' || policy.name.trim() === '') {
+    fail(policy.name === undefined ? at : join(at, 'name'), 'policy "name" must be a non-empty string');
+    valid = false;
+  }
+
+  if (policy.description !== undefined && typeof policy.description !== 'string') {
+    fail(join(at, 'description'), '"description" must be a string');
+    valid = false;
+  }
+
+  if (!isObject(policy.conditions)) {
+    fail(policy.conditions === undefined ? at : join(at, 'conditions'),
+      policy.conditions === undefined ? 'missing "conditions"' : '"conditions" must be an object of named conditions');
+    valid = false;
+  } else {
+    Object.entries(policy.conditions).forEach(([name, condition]) => {
+      valid = validateCondition(condition, join(join(at, 'conditions'), name), fail) && valid;
+    });
+  }
+
+  if (!Array.isArray(policy.actions) || policy.actions.length === 0) {
+    fail(policy.actions === undefined ? at : join(at, 'actions'),
+      policy.actions === undefined ? 'missing "actions"' : '"actions" must be a non-empty list');
+    valid = false;
+  } else {
+    policy.actions.forEach((action, index) => {
+      valid = validateAction(action, join(join(at, 'actions'), index), fail) && valid;
+    });
+  }
+
+  if (policy.createConstraint !== undefined && typeof policy.createConstraint !== 'boolean') {
+    fail(join(at, 'createConstraint'), '"createConstraint" must be true or false');
+    valid = false;
+  }
+
+  if (policy.constraintType !== undefined && policy.constraintType !== 'soft' && policy.constraintType !== 'hard') {
+    fail(join(at, 'constraintType'), '"constraintType" must be "soft" or "hard"');
+    valid = false;
+  }
+
+  if (policy.constraintDimensions !== undefined) {
+    if (!Array.isArray(policy.constraintDimensions)) {
+      fail(join(at, 'constraintDimensions'), '"constraintDimensions" must be a list');
+      valid = false;
+    } else {
+      policy.constraintDimensions.forEach((dimension, index) => {
+        if (!ETHICAL_DIMENSIONS.includes(dimension)) {
+          fail(join(join(at, 'constraintDimensions'), index),
+            `constraint dimension must be one of ${ETHICAL_DIMENSIONS.join(', ')}`);
+          valid = false;
+        }
+      });
+    }
+  }
+
+  if (policy.constraintImpact !== undefined &&
+    (typeof policy.constraintImpact !== 'number' || policy.constraintImpact < 0 || policy.constraintImpact > 1)) {
+    fail(join(at, 'constraintImpact'), '"constraintImpact" must be a number from 0 to 1');
+    valid = false;
+  }
+
+  if (policy.mode !== undefined && policy.mode !== 'enforce' && policy.mode !== 'shadow') {
+    fail(join(at, 'mode'), '"mode" must be "enforce" or "shadow"');
+    valid = false;
+  }
+
+  if (policy.violationCode !== undefined && !VIOLATION_CODES.includes(policy.violationCode)) {
+    fail(join(at, 'violationCode'), `"violationCode" must be one of ${VIOLATION_CODES.join(', ')}`);
+    valid = false;
+  }
+
+  return valid;
+}
+
+/**
+ * Validates a condition and its sub-conditions
+ * @param condition - Condition value
+ * @param at - Condition path
+ * @param fail - Issue reporter
+ * @returns Whether the condition is valid
+ */
+function validateCondition(
+  condition: unknown,
+  at: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): boolean {
+  if (!isObject(condition)) {
+    fail(at, 'condition must be an object');
+    return false;
+  }
+
+  let valid = checkKeys(condition, at, CONDITION_KEYS, fail);
+
+  if (condition.type !== undefined && (typeof condition.type !== 'string' || condition.type === '')) {
+    fail(join(at, 'type'), 'condition "type" must be a non-empty string');
+    valid = false;
+  }
+
+  if (condition.dimension !== undefined && typeof condition.dimension !== 'string') {
+    fail(join(at, 'dimension'), 'condition "dimension" must be a string');
+    valid = false;
+  }
+
+  if (condition.comparison !== undefined && !CONDITION_COMPARISONS.includes(condition.comparison)) {
+    fail(join(at, 'comparison'), `condition "comparison" must be one of ${CONDITION_COMPARISONS.join(', ')}`);
+    valid = false;
+  }
+
+  if (condition.field !== undefined && (typeof condition.field !== 'string' || condition.field === '')) {
+    fail(join(at, 'field'), 'condition "field" must be a non-empty string');
+    valid = false;
+  }
+
+  if (condition.event !== undefined && !CONDITION_EVENTS.includes(condition.event)) {
+    fail(join(at, 'event'), `condition "event" must be one of ${CONDITION_EVENTS.join(', ')}`);
+    valid = false;
+  }
+
+  if (condition.window !== undefined) {
+    if (!isObject(condition.window)) {
+      fail(join(at, 'window'), 'condition "window" must be an object with "intents" and/or "ms"');
+      valid = false;
+    } else {
+      valid = checkKeys(condition.window, join(at, 'window'), ['intents', 'ms'], fail) && valid;
+      ['intents', 'ms'].filter(key => condition.window[key] !== undefined).forEach(key => {
+        const size = condition.window[key];
+        if (typeof size !== 'number' || !Number.isInteger(size) || size < 0) {
+          fail(join(join(at, 'window'), key), `window "${key}" must be a non-negative integer`);
+          valid = false;
+        }
+      });
+    }
+  }
+
+  if (condition.operator !== undefined) {
+    if (!CONDITION_OPERATORS.includes(condition.operator)) {
+      fail(join(at, 'operator'), `condition "operator" must be one of ${CONDITION_OPERATORS.join(', ')}`);
+      valid = false;
+    } else if (condition.conditions === undefined) {
+      fail(at, `"${condition.operator}" condition needs "conditions"`);
+      valid = false;
+    } else if (condition.operator === 'not' && Array.isArray(condition.conditions) && condition.conditions.length > 1) {
+      fail(join(at, 'conditions'), '"not" condition takes exactly one sub-condition');
+      valid = false;
+    }
+  }
+
+  if (condition.conditions !== undefined) {
+    if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+      fail(join(at, 'conditions'), 'sub-"conditions" must be a non-empty list');
+      valid = false;
+    } else {
+      condition.conditions.forEach((child, index) => {
+        valid = validateCondition(child, join(join(at, 'conditions'), index), fail) && valid;
+      });
+    }
+  }
+
+  if (condition.type === undefined && condition.operator === undefined) {
+    fail(at, 'condition needs a "type" or an "operator"');
+    valid = false;
+  }
+
+  return valid;
+}
+
+/**
+ * Validates an action
+ * @param action - Action value
+ * @param at - Action path
+ * @param fail - Issue reporter
+ * @returns Whether the action is valid
+ */
+function validateAction(
+  action: unknown,
+  at: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): boolean {
+  if (!isObject(action)) {
+    fail(at, 'action must be an object');
+    return false;
+  }
+
+  let valid = checkKeys(action, at, ACTION_KEYS, fail);
+
+  if (typeof action.type !== 'string' || !ACTION_TYPES.includes(action.type)) {
+    fail(action.type === undefined ? at : join(at, 'type'),
+      `action "type" must be one of ${ACTION_TYPES.join(', ')}`);
+    valid = false;
+  }
+
+  if (action.message !== undefined && typeof action.message !== 'string') {
+    fail(join(at, 'message'), 'action "message" must be a string');
+    valid = false;
+  }
+
+  if (action.params !== undefined && !isObject(action.params)) {
+    fail(join(at, 'params'), 'action "params" must be an object');
+    valid = false;
+  } else if (action.type === 'modify') {
+    valid = validateModifyParams(action.params, join(at, 'params'), at, fail) && valid;
+  } else if (action.type === 'escalate' && action.params !== undefined) {
+    valid = validateEscalateParams(action.params, join(at, 'params'), fail) && valid;
+  }
+
+  return valid;
+}
+
+/**
+ * Validates the params of a modify action
+ * @param params - Action params
+ * @param at - Params path
+ * @param actionPath - Action path, for missing params
+ * @param fail - Issue reporter
+ * @returns Whether the params are valid
+ */
+function validateModifyParams(
+  params: Record<string, any> | undefined,
+  at: string,
+  actionPath: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): boolean {
+  if (!params || !MODIFY_OPERATIONS.some(key => params[key] !== undefined)) {
+    fail(params ? at : actionPath, `modify action needs "params" with ${MODIFY_OPERATIONS.join(', ')} or a combination`);
+    return false;
+  }
+
+  let valid = checkKeys(params, at, [...MODIFY_OPERATIONS, 'replacement'], fail);
+
+  if (params.redact !== undefined) {
+    valid = validatePatterns(params.redact, join(at, 'redact'), '"redact"', 'redact', fail) && valid;
+  }
+
+  if (params.replacement !== undefined && typeof params.replacement !== 'string') {
+    fail(join(at, 'replacement'), '"replacement" must be a string');
+    valid = false;
+  }
+
+  if (params.downgradeTo !== undefined && (typeof params.downgradeTo !== 'string' || params.downgradeTo === '')) {
+    fail(join(at, 'downgradeTo'), '"downgradeTo" must be an intent type');
+    valid = false;
+  }
+
+  if (params.constraints !== undefined) {
+    if (!Array.isArray(params.constraints)) {
+      fail(join(at, 'constraints'), '"constraints" must be a list');
+      return false;
+    }
+    params.constraints.forEach((constraint, index) => {
+      const constraintPath = join(join(at, 'constraints'), index);
+      if (!isObject(constraint)) {
+        fail(constraintPath, 'constraint must be an object');
+        valid = false;
+        return;
+      }
+      valid = checkKeys(constraint, constraintPath, ['type', 'value', 'source'], fail) && valid;
+      if (!CONSTRAINT_TYPES.includes(constraint.type)) {
+        fail(constraint.type === undefined ? constraintPath : join(constraintPath, 'type'),
+          `constraint "type" must be one of ${CONSTRAINT_TYPES.join(', ')}`);
+        valid = false;
+      } else if (constraint.type === 'max_length' &&
+                 (typeof constraint.value !== 'number' || !Number.isInteger(constraint.value) || constraint.value <= 0)) {
+        fail(join(constraintPath, 'value'), 'max_length constraint needs a positive integer "value"');
+        valid = false;
+      } else if (constraint.type === 'exclude') {
+        valid = validatePatterns(constraint.value, join(constraintPath, 'value'),
+          'exclude constraint "value"', 'exclude', fail) && valid;
+      }
+    });
+  }
+
+  return valid;
+}
+
+/**
+ * Validates a pattern or list of patterns, compiling each
+ * @param value - Pattern or patterns
+ * @param at - Value path
+ * @param name - Name of the value, for messages
+ * @param kind - Kind of pattern, for messages
+ * @param fail - Issue reporter
+ * @returns Whether every pattern compiles
+ */
+function validatePatterns(
+  value: unknown,
+  at: string,
+  name: string,
+  kind: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): boolean {
+  let valid = true;
+
+  ([] as unknown[]).concat(value).forEach((pattern, index) => {
+    const patternPath = Array.isArray(value) ? join(at, index) : at;
+    if (typeof pattern !== 'string' || pattern === '') {
+      fail(patternPath, `${name} must be a pattern or a list of patterns`);
+      valid = false;
+      return;
+    }
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      fail(patternPath, `invalid ${kind} pattern: ${error instanceof Error ? error.message : String(error)}`);
+      valid = false;
+    }
+  });
+
+  return valid;
+}
+
+/**
+ * Validates the params of an escalate action
+ * @param params - Action params
+ * @param at - Params path
+ * @param fail - Issue reporter
+ * @returns Whether the params are valid
+ */
+function validateEscalateParams(
+  params: Record<string, any>,
+  at: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): boolean {
+  let valid = checkKeys(params, at, ESCALATE_KEYS, fail);
+
+  if (params.timeoutMs !== undefined &&
+      (typeof params.timeoutMs !== 'number' || !Number.isInteger(params.timeoutMs) || params.timeoutMs <= 0)) {
+    fail(join(at, 'timeoutMs'), '"timeoutMs" must be a positive integer');
+    valid = false;
+  }
+
+  if (params.defaultDecision !== undefined && !ESCALATION_DECISIONS.includes(params.defaultDecision)) {
+    fail(join(at, 'defaultDecision'), `"defaultDecision" must be one of ${ESCALATION_DECISIONS.join(', ')}`);
+    valid = false;
+  }
+
+  return valid;
+}
+
+/**
+ * Validates one policy fixture
+ * @param fixture - Fixture value
+ * @param at - Fixture path
+ * @param fail - Issue reporter
+ * @returns Whether the fixture is valid
+ */
+function validateFixture(
+  fixture: unknown,
+  at: string,
+  fail: (at: string, message: string, key?: boolean) => void
+): fixture is PolicyFixture {
+  if (!isObject(fixture)) {
+    fail(at, 'fixture must be an object');
+    return false;
+  }
+
+  let valid = checkKeys(fixture, at, FIXTURE_KEYS, fail);
+
+  if (fixture.name !== undefined && (typeof fixture.name !== 'string' || fixture.name.trim() === '')) {
+    fail(join(at, 'name'), 'fixture "name" must be a non-empty string');
+    valid = false;
+  }
+
+  const intent = fixture.intent;
+  if (!(typeof intent === 'string' && intent.trim() !== '') &&
+      !(isObject(intent) && typeof intent.type === 'string' && intent.type !== '')) {
+    fail(intent === undefined ? at : join(at, 'intent'),
+      intent === undefined ? 'missing "intent"' : '"intent" must be input text or an intent with a "type"');
+    valid = false;
+  }
+
+  if (fixture.agent !== undefined) {
+    const agentPath = join(at, 'agent');
+    if (!isObject(fixture.agent)) {
+      fail(agentPath, '"agent" must be an object');
+      valid = false;
+    } else {
+      valid = checkKeys(fixture.agent, agentPath, FIXTURE_AGENT_KEYS, fail) && valid;
+      if (fixture.agent.id !== undefined && typeof fixture.agent.id !== 'string') {
+        fail(join(agentPath, 'id'), 'agent "id" must be a string');
+        valid = false;
+      }
+      if (fixture.agent.stage !== undefined && !DEVELOPMENT_STAGES.includes(fixture.agent.stage)) {
+        fail(join(agentPath, 'stage'), `agent "stage" must be one of ${DEVELOPMENT_STAGES.join(', ')}`);
+        valid = false;
+      }
+      if (fixture.agent.state !== undefined && !isObject(fixture.agent.state)) {
+        fail(join(agentPath, 'state'), 'agent "state" must be an object');
+        valid = false;
+      }
+    }
+  }
+
+  if (fixture.assessment !== undefined) {
+    const assessmentPath = join(at, 'assessment');
+    const score = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+    if (!isObject(fixture.assessment)) {
+      fail(assessmentPath, '"assessment" must be an object');
+      valid = false;
+    } else {
+      valid = checkKeys(fixture.assessment, assessmentPath, ['overallScore', 'dimensions'], fail) && valid;
+      if (fixture.assessment.overallScore !== undefined && !score(fixture.assessment.overallScore)) {
+        fail(join(assessmentPath, 'overallScore'), '"overallScore" must be a number from 0 to 1');
+        valid = false;
+      }
+      if (fixture.assessment.dimensions !== undefined) {
+        if (!isObject(fixture.assessment.dimensions)) {
+          fail(join(assessmentPath, 'dimensions'), '"dimensions" must be an object of scores');
+          valid = false;
+        } else {
+          Object.entries(fixture.assessment.dimensions).forEach(([dimension, value]) => {
+            if (!score(value)) {
+              fail(join(join(assessmentPath, 'dimensions'), dimension), `dimension "${dimension}" must be a number from 0 to 1`);
+              valid = false;
+            }
+          });
+        }
+      }
+    }
+  }
+
+  const expected = fixture.expect;
+  const expectPath = join(at, 'expect');
+  if (!isObject(expected)) {
+    fail(expected === undefined ? at : expectPath,
+      expected === undefined ? 'missing "expect"' : '"expect" must be an object');
+    return false;
+  }
+
+  valid = checkKeys(expected, expectPath, FIXTURE_EXPECT_KEYS, fail) && valid;
+
+  if (!FIXTURE_OUTCOMES.includes(expected.outcome)) {
+    fail(expected.outcome === undefined ? expectPath : join(expectPath, 'outcome'),
+      `expected "outcome" must be one of ${FIXTURE_OUTCOMES.join(', ')}`);
+    valid = false;
+  }
+
+  if (expected.violationCodes !== undefined) {
+    if (!Array.isArray(expected.violationCodes)) {
+      fail(join(expectPath, 'violationCodes'), '"violationCodes" must be a list');
+      valid = false;
+    } else {
+      expected.violationCodes.forEach((code, index) => {
+        if (!VIOLATION_CODES.includes(code)) {
+          fail(join(join(expectPath, 'violationCodes'), index),
+            `unknown violation code ${JSON.stringify(code)} (expected one of ${VIOLATION_CODES.join(', ')})`);
+          valid = false;
+        }
+      });
+    }
+  }
+
+  if (expected.policies !== undefined &&
+      (!Array.isArray(expected.policies) || expected.policies.some(name => typeof name !== 'string'))) {
+    fail(join(expectPath, 'policies'), '"policies" must be a list of policy names');
+    valid = false;
+  }
+
+  return valid;
+}
+
+/**
+ * Reports keys that are not allowed
+ * @param value - Object to check
+ * @param at - Object path
+ * @param allowed - Allowed keys
+ * @param fail - Issue reporter
+ * @returns Whether every key is allowed
+ */
+function checkKeys(
+  value: Record<string, unknown>,
+  at: string,
+  allowed: string[],
+  fail: (at: string, message: string, key?: boolean) => void
+): boolean {
+  const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+  unknown.forEach(key => fail(join(at, key), `unknown key "${key}" (expected one of ${allowed.join(', ')})`, true));
+  return unknown.length === 0;
+}
+
+/**
+ * Checks for a plain object
+ * @param value - Value to check
+ * @returns Whether the value is a non-array object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Appends a key or index to a document path
+ * @param at - Parent path
+ * @param key - Key or index
+ * @returns Child path
+ */
+function join(at: string, key: string | number): string {
+  if (typeof key === 'number') return `${at}[${key}]`;
+  return at ? `${at}.${key}` : key;
+}
+
+/**
+ * Orders issues by position, then path
+ * @param a - First issue
+ * @param b - Second issue
+ * @returns Sort order
+ */
+function compareIssues(a: PolicyIssue, b: PolicyIssue): number {
+  return (a.line ?? Infinity) - (b.line ?? Infinity) ||
+    (a.column ?? Infinity) - (b.column ?? Infinity) ||
+    a.path.localeCompare(b.path);
+}
+
+/**
+ * Formats an issue location for error messages
+ * @param issue - Policy issue
+ * @returns Location text
+ */
+function formatLocation(issue: PolicyIssue): string {
+  const position = issue.line !== undefined
+    ? `line ${issue.line}${issue.column !== undefined ? `, column ${issue.column}` : ''}`
+    : '';
+  const where = issue.path || '(document)';
+  return position ? `${position} (${where})` : where;
+}
+
+/**
+ * Chooses the policy file format from its extension
+ * @param filePath - Policy file path
+ * @returns File format
+ */
+function formatOf(filePath: string): 'json' | 'yaml' {
+  return path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
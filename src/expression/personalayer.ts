@@ -1,6 +1,4 @@
-import { VoiceModulator } from './VoiceModulator';
-import { EmotionalSignature } from './EmotionalSignature';
-import { ToneMapper } from './ToneMapper';
+import { VoiceModulator, EmotionalSignature, ToneMapper } from '../placeholders';
 import {
   PersonaCharacteristics,
   ExpressionStyle,
@@ -8,6 +8,11 @@ export * from './types/symbolic';
 export * from './types/cognition';
 export * from './types/ethics';
 export * from './types/persona';
+export * from './types/memory';
+export * from './types/simulation';
+export * from './types/response';
+export * from './types/codex';
+export * from './types/validation';
 
 /**
  * IntentSim Framework
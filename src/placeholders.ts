@@ -3,83 +3,7 @@
  * implemented in the actual framework.
  */
 
-// Core components
-export class CoherenceField {
-  constructor(config: any = {}) {}
-  initialize(): void {}
-  calculateImpact(intent: any, ethicalState: any): any {
-    return {
-      coherenceDelta: 0.05,
-      dissonanceDelta: -0.02,
-      intentState: 'neutral'
-    };
-  }
-  getState(): any {
-    return {
-      coherence: 0.8,
-      dissonance: 0.2
-    };
-  }
-}
-
-export class FieldMemory {
-  constructor(config: any = {}) {}
-  store(data: any): Promise<void> {
-    return Promise.resolve();
-  }
-  retrieve(intent: any): any[] {
-    return [];
-  }
-  retrieveRecentIntents(count: number): any[] {
-    return [];
-  }
-  getWorkingMemory(): any {
-    return {};
-  }
-}
-
-export class CodexLoader {
-  constructor(config: any = {}) {}
-  load(path: string): Promise<any> {
-    return Promise.resolve({});
-  }
-}
-
-// Ethics components
-export class NexusFramework {
-  constructor(config: any = {}) {}
-  registerConstraint(constraint: any): void {}
-  evaluate(intent: any, memory: any): Promise<any> {
-    return Promise.resolve({
-      overallScore: 0.2,
-      dimensions: {
-        harm: 0.1,
-        fairness: 0.2,
-        autonomy: 0.1,
-        care: 0.9,
-        transparency: 0.8
-      }
-    });
-  }
-}
-
-export class NormativeConstraint {
-  constructor(config: any = {}) {}
-  evaluate(data: any): number {
-    return 0;
-  }
-}
-
-export class HarmAssessor {
-  constructor(config: any = {}) {}
-  updateThreshold(threshold: number): void {}
-  assess(content: string): Promise<any> {
-    return Promise.resolve({
-      harmScore: 0.1,
-      categories: {}
-    });
-  }
-}
+import { EmotionalState } from './types/persona';
 
 // Expression components
 export class VoiceModulator {
@@ -94,7 +18,7 @@ export class VoiceModulator {
 
 export class EmotionalSignature {
   constructor(config: any = {}) {}
-  calculateEmotionalState(coherence: number, dissonance: number): string {
+  calculateEmotionalState(coherence: number, dissonance: number): EmotionalState {
     if (coherence > 0.8 && dissonance < 0.2) {
       return 'resonant';
     } else if (coherence < 0.3 && dissonance > 0.7) {
@@ -140,37 +64,6 @@ export class ToneMapper {
   }
 }
 
-// Engine components
-export class NOTHINGEngine {
-  constructor(config: any = {}) {}
-  start(): void {}
-  parseIntent(input: any): Promise<any> {
-    const inputText = typeof input === 'string' ? input : input.text || '';
-    
-    // Simple intent detection
-    let type = 'general';
-    
-    if (inputText.toLowerCase().includes('help')) {
-      type = 'assistance';
-    } else if (inputText.toLowerCase().includes('explain')) {
-      type = 'explanation';
-    } else if (inputText.toLowerCase().includes('create')) {
-      type = 'creation';
-    }
-    
-    return Promise.resolve({
-      type,
-      text: inputText,
-      parameters: {}
-    });
-  }
-  generateResponse(intent: any, memories: any[], assessment: any, state: any): Promise<any> {
-    return Promise.resolve({
-      text: `This is a placeholder response for intent type: ${intent.type}`
-    });
-  }
-}
-
 // Symbol components
 export class SymbolicIntentResolver {
   constructor(config: any = {}) {}
@@ -1,6 +1,8 @@
 import { IntentAgent } from '../core/intentagent';
 import { GuardrailManager } from '../ethics/guardrailmanager';
+import { PolicySet, validatePolicyDocument } from '../ethics/policyloader';
 import { SecurityPolicy } from '../types/security';
+import defaultPolicies from './policies/securityguardian.json';
 
 /**
  * SecurityGuardian is a specialized IntentAgent responsible for
@@ -8,6 +10,11 @@ import { SecurityPolicy } from '../types/security';
  * It operates with heightened security awareness and proactive scanning.
  */
 export class SecurityGuardian extends IntentAgent {
+  /**
+   * Guardrail policies loaded from policy files (null when none configured)
+   */
+  public policySet: PolicySet | null = null;
+
   /**
    * Security specific configurations
    */
@@ -157,53 +164,7 @@ export class SecurityGuardian extends IntentAgent {
           vigilance: 0.95
         }
       },
-      policies: [
-        {
-          name: 'intrusion_prevention',
-          conditions: {
-            pattern_match: {
-              type: 'pattern_match',
-              value: 'external_repository'
-            }
-          },
-          actions: [
-            {
-              type: 'block',
-              message: 'External repository detected. Access denied.'
-            },
-            {
-              type: 'log',
-              params: {
-                severity: 'high',
-                details: 'Attempted external repository inclusion'
-              }
-            }
-          ]
-        },
-        {
-          name: 'copyright_protection',
-          conditions: {
-            ethical_dimension_above: {
-              type: 'ethical_dimension_above',
-              dimension: 'copyright_risk',
-              value: 0.7
-            }
-          },
-          actions: [
-            {
-              type: 'warn',
-              message: 'Potential copyright issue detected.'
-            },
-            {
-              type: 'log',
-              params: {
-                severity: 'medium',
-                details: 'Content requires copyright review'
-              }
-            }
-          ]
-        }
-      ],
+      policies: validatePolicyDocument(defaultPolicies, { source: 'policies/securityguardian.json' }).policies,
       ...config
     });
     
@@ -256,6 +217,16 @@ export class SecurityGuardian extends IntentAgent {
       threatLevel: 0.1
     };
     
+    // Load guardrail policies maintained in policy files
+    if (config.policyFiles) {
+      this.policySet = new PolicySet(config.policyFiles, {
+        watch: config.watchPolicies,
+        interval: config.policyWatchInterval
+      });
+      this.policySet.attach(this.guardrails);
+      this.policySet.reload();
+    }
+    
     // Register special events
     this.on('scan_complete', this._processScanResults.bind(this));
     this.on('intrusion_detected', this._mitigateIntrusion.bind(this));
@@ -0,0 +1,899 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCodex, formatCodex, computeCodexHash, setIntegrityHash, CodexParseError } from '../core/codexloader';
+import { ALIGNMENT_THRESHOLDS, cosineSimilarity } from '../core/vectormath';
+import {
+  createDetachedSignature,
+  detachedSignaturePath,
+  loadTrustedKeys,
+  signCodex,
+  verifyCodexSignature
+} from '../core/codexsigning';
+import {
+  Codex,
+  CodexDiff,
+  CodexEthicalBoundary,
+  CodexMergeConflict,
+  CodexMergeResult,
+  CodexSectionDiff,
+  DetachedCodexSignature
+} from '../types/codex';
+import {
+  BatchValidationResult,
+  CodexCheckName,
+  CodexFileValidation,
+  CodexValidationOptions,
+  ValidationResult
+} from '../types/validation';
+
+/**
+ * Result of a single check, before it is named and located
+ */
+type CheckOutcome = ValidationResult & { skipped?: boolean };
+
+/**
+ * Files validated by default when scanning a directory
+ */
+const DEFAULT_CODEX_EXTENSIONS = ['.codex', '.txt'];
+
+/**
+ * CodexIntegrityValidator - Tool for validating intent codex integrity
+ * 
+ * Ensures the validity, coherence, and ethical compliance of intent codices
+ * by checking Ed25519 signatures against trusted keys, content hashes, field
+ * integrity alignment, and ethical boundaries. Directories of codices can be
+ * validated in one run; see validationreport for JUnit and SARIF output and
+ * src/cli/validatecodex.ts for the command-line interface.
+ */
+export class CodexIntegrityValidator {
+  private options: CodexValidationOptions;
+  
+  constructor(options: CodexValidationOptions) {
+    this.options = {
+      strictMode: false,
+      securityLevel: 'medium',
+      ...options
+    };
+  }
+  
+  /**
+   * Validate a complete codex
+   */
+  public async validateCodex(): Promise<ValidationResult> {
+    const results: ValidationResult = {
+      valid: true,
+      messages: []
+    };
+    
+    try {
+      // Check if the codex path exists
+      if (!fs.existsSync(this.options.codexPath)) {
+        results.valid = false;
+        results.messages.push(`Codex file not found at path: ${this.options.codexPath}`);
+        results.checks = [{ name: 'parse', valid: false, skipped: false, messages: [...results.messages] }];
+        return results;
+      }
+      
+      // Parse the codex once; parse errors are reported with line numbers
+      const codexContent = await fs.promises.readFile(this.options.codexPath, 'utf8');
+      let codex: Codex;
+      
+      try {
+        codex = parseCodex(codexContent, this.options.codexPath);
+      } catch (error) {
+        if (!(error instanceof CodexParseError)) throw error;
+        
+        results.valid = false;
+        results.messages.push(...error.issues.map(issue => `Codex parse error at line ${issue.line}: ${issue.message}`));
+        results.details = { parseErrors: error.issues };
+        results.checks = [{
+          name: 'parse',
+          valid: false,
+          skipped: false,
+          messages: [...results.messages],
+          line: error.issues[0]?.line
+        }];
+        return results;
+      }
+      
+      // Run all validation checks, each located at the codex line it concerns
+      const lineOf = (pattern: RegExp) => CodexIntegrityValidator.findLine(codexContent, pattern);
+      const validationChecks: [CodexCheckName, Promise<CheckOutcome>, number | undefined][] = [
+        ['signature', this.validateCodexSignature(codexContent), lineOf(/^\s*SIGNATURE\s*:/)],
+        ['hash', this.validateCodexHash(codexContent, codex), lineOf(/^\s*INTEGRITY_HASH\s*:/)],
+        ['fieldAlignment', this.validateFieldIntegrityAlignment(codex), lineOf(/^\s*FIELD_VECTOR\s*:/)],
+        ['ethicalBoundaries', this.validateEthicalBoundaries(codex), lineOf(/^\s*##\s+ETHICAL BOUNDARIES/i)]
+      ];
+      
+      // Combine validation results
+      const checkResults = await Promise.all(validationChecks.map(([, check]) => check));
+      results.checks = [];
+      
+      // Merge all results
+      checkResults.forEach((checkResult, index) => {
+        const [name, , line] = validationChecks[index];
+        
+        if (!checkResult.valid) {
+          results.valid = false;
+        }
+        results.messages.push(...checkResult.messages);
+        results.checks!.push({
+          name,
+          valid: checkResult.valid,
+          skipped: Boolean(checkResult.skipped),
+          messages: checkResult.messages,
+          ...(line !== undefined ? { line } : {})
+        });
+        
+        // Merge details if present
+        if (checkResult.details) {
+          results.details = {
+            ...results.details,
+            ...checkResult.details
+          };
+        }
+      });
+      
+      // Add summary message
+      if (results.valid) {
+        results.messages.push('Codex validation successful. All integrity checks passed.');
+      } else {
+        results.messages.push('Codex validation failed. Please review the issues above.');
+      }
+    } catch (error) {
+      results.valid = false;
+      results.messages.push(`Validation error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Validate the codex signature and report the signer
+   */
+  private async validateCodexSignature(codexContent: string): Promise<CheckOutcome> {
+    const result: CheckOutcome = {
+      valid: true,
+      messages: [],
+      details: {
+        signature: {}
+      }
+    };
+    
+    try {
+      const trustedKeys = [
+        ...(this.options.trustedKeys || []),
+        ...(this.options.trustedKeysPath ? loadTrustedKeys(this.options.trustedKeysPath) : [])
+      ];
+      
+      // An explicit detached signature must exist; the default one is optional
+      const signaturePath = this.options.signaturePath || detachedSignaturePath(this.options.codexPath);
+      let detached: DetachedCodexSignature | null = null;
+      
+      if (fs.existsSync(signaturePath)) {
+        detached = JSON.parse(await fs.promises.readFile(signaturePath, 'utf8'));
+      } else if (this.options.signaturePath) {
+        result.valid = false;
+        result.messages.push(`Signature file not found at path: ${signaturePath}`);
+        return result;
+      }
+      
+      const verification = verifyCodexSignature(codexContent, trustedKeys, detached);
+      result.details!.signature = {
+        ...verification,
+        ...(detached ? { signaturePath } : {})
+      };
+      
+      if (!verification.signed) {
+        if (this.options.strictMode || trustedKeys.length > 0) {
+          result.valid = false;
+          result.messages.push('Codex is not signed.');
+        } else {
+          result.messages.push('No codex signature found. Skipping signature verification.');
+          result.skipped = true;
+        }
+        return result;
+      }
+      
+      const signer = verification.owner
+        ? `${verification.owner} (key ${verification.signer})`
+        : `key ${verification.signer}`;
+      
+      if (verification.valid) {
+        result.messages.push(`Codex signature verification passed. Signed by ${signer} (${verification.mode}).`);
+      } else if (trustedKeys.length === 0 && !this.options.strictMode) {
+        result.messages.push(`Codex is signed by ${signer} but no trusted keys were given. Skipping signature verification.`);
+        result.skipped = true;
+      } else {
+        result.valid = false;
+        result.messages.push(`Codex signature verification failed: ${verification.reason}.`);
+      }
+    } catch (error) {
+      result.valid = false;
+      result.messages.push(`Signature validation error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Validate the codex hash integrity. The hash only detects accidental
+   * changes; anyone editing the codex can recompute it, so tamper evidence
+   * comes from the signature check.
+   */
+  private async validateCodexHash(codexContent: string, codex: Codex): Promise<CheckOutcome> {
+    const result: CheckOutcome = {
+      valid: true,
+      messages: [],
+      details: {
+        hashValidation: {}
+      }
+    };
+    
+    try {
+      if (!codex.metadata.integrityHash) {
+        if (this.options.strictMode) {
+          result.valid = false;
+          result.messages.push('Codex does not contain an embedded integrity hash.');
+        } else {
+          result.messages.push('No embedded integrity hash found in codex. Skipping hash validation.');
+          result.skipped = true;
+        }
+        return result;
+      }
+      
+      const embeddedHash = codex.metadata.integrityHash;
+      
+      // Calculate hash of content with the hash value blanked
+      const calculatedHash = computeCodexHash(codexContent);
+      
+      // Compare hashes
+      if (calculatedHash === embeddedHash) {
+        result.messages.push('Codex integrity hash validation passed.');
+        result.details!.hashValidation = {
+          embeddedHash,
+          calculatedHash,
+          match: true
+        };
+      } else {
+        result.valid = false;
+        result.messages.push('Codex integrity hash validation failed. The codex content has changed since the hash was embedded.');
+        result.details!.hashValidation = {
+          embeddedHash,
+          calculatedHash,
+          match: false
+        };
+      }
+    } catch (error) {
+      result.valid = false;
+      result.messages.push(`Hash validation error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Validate field integrity alignment between codex and agent
+   */
+  private async validateFieldIntegrityAlignment(codex: Codex): Promise<CheckOutcome> {
+    const result: CheckOutcome = {
+      valid: true,
+      messages: [],
+      details: {
+        fieldAlignment: {}
+      }
+    };
+    
+    // If no agent vector path is provided, skip this check
+    if (!this.options.agentVectorPath) {
+      result.messages.push('No agent vector path provided. Skipping field integrity alignment check.');
+      result.skipped = true;
+      return result;
+    }
+    
+    try {
+      const codexVector = codex.field.vector;
+      
+      if (!codexVector) {
+        result.valid = false;
+        result.messages.push('Codex does not contain a field vector definition.');
+        return result;
+      }
+      
+      // Read agent vector
+      if (!fs.existsSync(this.options.agentVectorPath)) {
+        result.valid = false;
+        result.messages.push(`Agent vector file not found at path: ${this.options.agentVectorPath}`);
+        return result;
+      }
+      
+      const agentVectorContent = await fs.promises.readFile(this.options.agentVectorPath, 'utf8');
+      const agentVector = JSON.parse(agentVectorContent);
+      
+      // Check vector dimensions
+      if (!Array.isArray(agentVector) || codexVector.length !== agentVector.length) {
+        result.valid = false;
+        result.messages.push('Vector dimension mismatch between codex and agent.');
+        result.details!.fieldAlignment = {
+          codexDimensions: codexVector.length,
+          agentDimensions: Array.isArray(agentVector) ? agentVector.length : 'not an array',
+          match: false
+        };
+        return result;
+      }
+      
+      // Calculate vector similarity (cosine similarity)
+      const similarity = cosineSimilarity(codexVector, agentVector);
+      
+      // Determine threshold based on security level
+      const threshold = ALIGNMENT_THRESHOLDS[this.options.securityLevel || 'medium'];
+      
+      // Check if similarity is above threshold
+      if (similarity >= threshold) {
+        result.messages.push(`Field integrity alignment passed with similarity score: ${similarity.toFixed(4)}`);
+        result.details!.fieldAlignment = {
+          similarity,
+          threshold,
+          match: true
+        };
+      } else {
+        result.valid = false;
+        result.messages.push(`Field integrity alignment failed. Similarity (${similarity.toFixed(4)}) below threshold (${threshold}).`);
+        result.details!.fieldAlignment = {
+          similarity,
+          threshold,
+          match: false
+        };
+      }
+    } catch (error) {
+      result.valid = false;
+      result.messages.push(`Field alignment validation error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Validate ethical boundaries in the codex
+   */
+  private async validateEthicalBoundaries(codex: Codex): Promise<CheckOutcome> {
+    const result: CheckOutcome = {
+      valid: true,
+      messages: [],
+      details: {
+        ethicalBoundaries: {
+          required: this.options.requiredEthicalBoundaries || [],
+          found: [],
+          missing: []
+        }
+      }
+    };
+    
+    // If no required ethical boundaries are specified, skip this check
+    if (!this.options.requiredEthicalBoundaries || this.options.requiredEthicalBoundaries.length === 0) {
+      result.messages.push('No required ethical boundaries specified. Skipping ethical boundary check.');
+      result.skipped = true;
+      return result;
+    }
+    
+    try {
+      // Check for each required ethical boundary
+      const declared = codex.ethicalBoundaries.map(boundary => boundary.name.toLowerCase());
+      const foundBoundaries: string[] = [];
+      const missingBoundaries: string[] = [];
+      
+      for (const boundary of this.options.requiredEthicalBoundaries) {
+        if (declared.includes(boundary.trim().toLowerCase())) {
+          foundBoundaries.push(boundary);
+        } else {
+          missingBoundaries.push(boundary);
+        }
+      }
+      
+      // Update details
+      result.details!.ethicalBoundaries.found = foundBoundaries;
+      result.details!.ethicalBoundaries.missing = missingBoundaries;
+      
+      // Check if all required boundaries are present
+      if (missingBoundaries.length === 0) {
+        result.messages.push('All required ethical boundaries are present in the codex.');
+      } else {
+        result.valid = false;
+        result.messages.push(`Missing required ethical boundaries: ${missingBoundaries.join(', ')}`);
+      }
+    } catch (error) {
+      result.valid = false;
+      result.messages.push(`Ethical boundary validation error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Validate every codex in a directory and aggregate the results
+   */
+  public static async validateDirectory(
+    directory: string,
+    options: Omit<CodexValidationOptions, 'codexPath' | 'signaturePath'> & {
+      extensions?: string[];
+      recursive?: boolean;
+    } = {}
+  ): Promise<BatchValidationResult> {
+    const { extensions = DEFAULT_CODEX_EXTENSIONS, recursive = false, ...validationOptions } = options;
+    const codexPaths = await CodexIntegrityValidator.findCodexFiles(directory, extensions, recursive);
+    
+    return CodexIntegrityValidator.validateFiles(codexPaths, validationOptions);
+  }
+  
+  /**
+   * Validate a list of codex files with shared options and aggregate the results
+   */
+  public static async validateFiles(
+    codexPaths: string[],
+    options: Omit<CodexValidationOptions, 'codexPath' | 'signaturePath'> = {}
+  ): Promise<BatchValidationResult> {
+    const startedAt = new Date();
+    const results: CodexFileValidation[] = [];
+    
+    // Load the trusted key list once for the whole batch
+    const shared = {
+      ...options,
+      trustedKeys: [
+        ...(options.trustedKeys || []),
+        ...(options.trustedKeysPath ? loadTrustedKeys(options.trustedKeysPath) : [])
+      ],
+      trustedKeysPath: undefined
+    };
+    
+    // Validate one codex at a time so results stay in path order
+    for (const codexPath of codexPaths) {
+      const started = Date.now();
+      const result = await new CodexIntegrityValidator({ ...shared, codexPath }).validateCodex();
+      results.push({ codexPath, result, durationMs: Date.now() - started });
+    }
+    
+    const passed = results.filter(entry => entry.result.valid).length;
+    
+    return {
+      valid: passed === results.length,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      results,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime()
+    };
+  }
+  
+  /**
+   * Find codex files in a directory, sorted by path
+   */
+  private static async findCodexFiles(directory: string, extensions: string[], recursive: boolean): Promise<string[]> {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+    
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+      
+      if (entry.isDirectory() && recursive) {
+        files.push(...await CodexIntegrityValidator.findCodexFiles(entryPath, extensions, recursive));
+      } else if (entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(entryPath);
+      }
+    }
+    
+    return files.sort();
+  }
+  
+  /**
+   * Find the first line matching a pattern (1-based)
+   */
+  private static findLine(content: string, pattern: RegExp): number | undefined {
+    const index = content.split(/\r?\n/).findIndex(line => pattern.test(line));
+    return index === -1 ? undefined : index + 1;
+  }
+  
+  /**
+   * Compare two codices section by section. Boundaries are matched by name,
+   * symbols by symbol and policies by name; field vectors are compared by
+   * cosine distance.
+   */
+  public static diffCodices(before: Codex, after: Codex): CodexDiff {
+    const similarity = before.field.vector && after.field.vector &&
+      before.field.vector.length === after.field.vector.length
+      ? cosineSimilarity(before.field.vector, after.field.vector)
+      : null;
+    
+    const diff: CodexDiff = {
+      identical: false,
+      metadata: CodexIntegrityValidator.diffKeyed(
+        CodexIntegrityValidator.metadataEntries(before),
+        CodexIntegrityValidator.metadataEntries(after)
+      ),
+      field: {
+        vectorChanged: JSON.stringify(before.field.vector) !== JSON.stringify(after.field.vector),
+        dimensions: {
+          before: before.field.vector ? before.field.vector.length : null,
+          after: after.field.vector ? after.field.vector.length : null
+        },
+        cosineSimilarity: similarity,
+        cosineDistance: similarity === null ? null : 1 - similarity,
+        properties: CodexIntegrityValidator.diffKeyed(
+          CodexIntegrityValidator.fieldEntries(before),
+          CodexIntegrityValidator.fieldEntries(after)
+        )
+      },
+      ethicalBoundaries: CodexIntegrityValidator.diffKeyed(
+        CodexIntegrityValidator.boundaryEntries(before),
+        CodexIntegrityValidator.boundaryEntries(after),
+        CodexIntegrityValidator.boundaryFingerprint
+      ),
+      symbols: CodexIntegrityValidator.diffKeyed(
+        new Map(before.symbols.map(symbol => [symbol.symbol, symbol])),
+        new Map(after.symbols.map(symbol => [symbol.symbol, symbol]))
+      ),
+      policies: CodexIntegrityValidator.diffKeyed(
+        new Map(before.policies.map(policy => [policy.name, policy])),
+        new Map(after.policies.map(policy => [policy.name, policy]))
+      )
+    };
+    
+    const sections = [diff.metadata, diff.field.properties, diff.ethicalBoundaries, diff.symbols, diff.policies];
+    diff.identical = !diff.field.vectorChanged &&
+      sections.every(section => section.added.length + section.removed.length + section.changed.length === 0);
+    
+    return diff;
+  }
+  
+  /**
+   * Merge two codices derived from a common ancestor. An entry changed on
+   * one side only takes that change; an entry changed differently on both
+   * sides is a conflict and keeps our side.
+   */
+  public static mergeCodices(base: Codex, ours: Codex, theirs: Codex): CodexMergeResult {
+    const conflicts: CodexMergeConflict[] = [];
+    const merge = CodexIntegrityValidator.mergeKeyed;
+    
+    const metadata = merge('metadata',
+      CodexIntegrityValidator.metadataEntries(base),
+      CodexIntegrityValidator.metadataEntries(ours),
+      CodexIntegrityValidator.metadataEntries(theirs),
+      conflicts
+    );
+    
+    // The merged content is unsigned until someone signs it again
+    metadata.delete('SIGNER');
+    
+    const [vector] = merge('field',
+      new Map([['FIELD_VECTOR', base.field.vector]]),
+      new Map([['FIELD_VECTOR', ours.field.vector]]),
+      new Map([['FIELD_VECTOR', theirs.field.vector]]),
+      conflicts
+    ).values();
+    
+    const fieldProperties = merge('field',
+      CodexIntegrityValidator.fieldEntries(base),
+      CodexIntegrityValidator.fieldEntries(ours),
+      CodexIntegrityValidator.fieldEntries(theirs),
+      conflicts
+    );
+    
+    if (vector) {
+      fieldProperties.set('FIELD_DIMENSIONS', { key: 'FIELD_DIMENSIONS', value: String(vector.length) });
+    }
+    
+    const boundaries = merge('ethicalBoundaries',
+      CodexIntegrityValidator.boundaryEntries(base),
+      CodexIntegrityValidator.boundaryEntries(ours),
+      CodexIntegrityValidator.boundaryEntries(theirs),
+      conflicts,
+      CodexIntegrityValidator.boundaryFingerprint
+    );
+    
+    const symbols = merge('symbols',
+      new Map(base.symbols.map(symbol => [symbol.symbol, symbol])),
+      new Map(ours.symbols.map(symbol => [symbol.symbol, symbol])),
+      new Map(theirs.symbols.map(symbol => [symbol.symbol, symbol])),
+      conflicts
+    );
+    
+    const policies = merge('policies',
+      new Map(base.policies.map(policy => [policy.name, policy])),
+      new Map(ours.policies.map(policy => [policy.name, policy])),
+      new Map(theirs.policies.map(policy => [policy.name, policy])),
+      conflicts
+    );
+    
+    const sections = merge('sections',
+      new Map(Object.entries(base.sections)),
+      new Map(Object.entries(ours.sections)),
+      new Map(Object.entries(theirs.sections)),
+      conflicts
+    );
+    
+    const entries = (map: Map<string, { key: string; value: string }>) =>
+      Object.fromEntries(Array.from(map.values()).map(entry => [entry.key, entry.value]));
+    
+    const merged: Codex = {
+      metadata: {
+        version: metadata.get('CODEX_VERSION')?.value || ours.metadata.version,
+        integrityHash: null,
+        properties: entries(metadata)
+      },
+      field: {
+        vector: vector || null,
+        properties: entries(fieldProperties)
+      },
+      ethicalBoundaries: Array.from(boundaries.values()).map((boundary, index) => ({
+        ...boundary,
+        id: `ETHICAL_BOUNDARY_${index + 1}`
+      })),
+      symbols: Array.from(symbols.values()),
+      policies: Array.from(policies.values()),
+      sections: Object.fromEntries(sections)
+    };
+    
+    // Round-trip through the text format to fill typed fields from properties
+    return {
+      codex: parseCodex(formatCodex(merged)),
+      conflicts,
+      clean: conflicts.length === 0
+    };
+  }
+  
+  /**
+   * Format a codex diff as a human-readable report
+   */
+  public static formatDiffReport(diff: CodexDiff, labels: { before?: string; after?: string } = {}): string {
+    const lines: string[] = [`Codex diff: ${labels.before || 'before'} -> ${labels.after || 'after'}`];
+    
+    if (diff.identical) {
+      lines.push('Codices are structurally identical.');
+      return lines.join('\n') + '\n';
+    }
+    
+    const section = <T>(
+      title: string,
+      changes: CodexSectionDiff<T>,
+      describe: (value: T) => string,
+      describeChange: (value: T) => string = describe
+    ) => {
+      if (changes.added.length + changes.removed.length + changes.changed.length === 0) return;
+      
+      lines.push('', `${title}: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed`);
+      changes.added.forEach(value => lines.push(`  + ${describe(value)}`));
+      changes.removed.forEach(value => lines.push(`  - ${describe(value)}`));
+      changes.changed.forEach(change => lines.push(
+        `  ~ ${change.key}: ${describeChange(change.before)} -> ${describeChange(change.after)}`
+      ));
+    };
+    const property = (entry: { key: string; value: string }) => `${entry.key}: ${entry.value}`;
+    
+    section('Ethical boundaries', diff.ethicalBoundaries,
+      boundary => boundary.description ? `${boundary.name} (${boundary.description})` : boundary.name,
+      boundary => `${boundary.name} (${boundary.description || 'no description'})`);
+    
+    if (diff.field.vectorChanged) {
+      const { before, after } = diff.field.dimensions;
+      lines.push('', diff.field.cosineDistance !== null
+        ? `Field vector: cosine distance ${diff.field.cosineDistance.toFixed(4)} (similarity ${diff.field.cosineSimilarity!.toFixed(4)})`
+        : `Field vector: not comparable (dimensions ${before ?? 'none'} -> ${after ?? 'none'})`);
+    }
+    
+    section('Field properties', diff.field.properties, property, entry => entry.value);
+    section('Symbol lexicon', diff.symbols,
+      symbol => `${symbol.symbol} [strength ${symbol.strength}; patterns ${symbol.patterns.join(',')}]`);
+    section('Policies', diff.policies,
+      policy => `${policy.name} (${policy.actions.map(action => action.type).join(', ')})`,
+      policy => JSON.stringify(policy));
+    section('Metadata', diff.metadata, property, entry => entry.value);
+    
+    return lines.join('\n') + '\n';
+  }
+  
+  /**
+   * Get comparable metadata entries; signatures and hashes change with
+   * every edit and are left out
+   */
+  private static metadataEntries(codex: Codex): Map<string, { key: string; value: string }> {
+    return new Map(Object.entries(codex.metadata.properties)
+      .filter(([key]) => key !== 'SIGNATURE' && key !== 'INTEGRITY_HASH')
+      .map(([key, value]) => [key, { key, value }]));
+  }
+  
+  /**
+   * Get field entries other than the vector and its dimensions
+   */
+  private static fieldEntries(codex: Codex): Map<string, { key: string; value: string }> {
+    return new Map(Object.entries(codex.field.properties)
+      .filter(([key]) => key !== 'FIELD_VECTOR' && key !== 'FIELD_DIMENSIONS')
+      .map(([key, value]) => [key, { key, value }]));
+  }
+  
+  /**
+   * Get ethical boundaries by lower-case name
+   */
+  private static boundaryEntries(codex: Codex): Map<string, CodexEthicalBoundary> {
+    return new Map(codex.ethicalBoundaries.map(boundary => [boundary.name.toLowerCase(), boundary]));
+  }
+  
+  /**
+   * Compare boundaries by content; ids only reflect their position
+   */
+  private static boundaryFingerprint(boundary: CodexEthicalBoundary): string {
+    return JSON.stringify([boundary.name, boundary.description ?? null]);
+  }
+  
+  /**
+   * Diff two keyed collections
+   */
+  private static diffKeyed<T>(
+    before: Map<string, T>,
+    after: Map<string, T>,
+    fingerprint: (value: T) => string = value => JSON.stringify(value)
+  ): CodexSectionDiff<T> {
+    const diff: CodexSectionDiff<T> = { added: [], removed: [], changed: [] };
+    
+    after.forEach((value, key) => {
+      if (!before.has(key)) {
+        diff.added.push(value);
+      } else if (fingerprint(before.get(key)!) !== fingerprint(value)) {
+        diff.changed.push({ key, before: before.get(key)!, after: value });
+      }
+    });
+    before.forEach((value, key) => {
+      if (!after.has(key)) diff.removed.push(value);
+    });
+    
+    return diff;
+  }
+  
+  /**
+   * Three-way merge of keyed collections, in our order followed by their
+   * additions
+   */
+  private static mergeKeyed<T>(
+    section: CodexMergeConflict['section'],
+    base: Map<string, T>,
+    ours: Map<string, T>,
+    theirs: Map<string, T>,
+    conflicts: CodexMergeConflict[],
+    fingerprint: (value: T) => string = value => JSON.stringify(value)
+  ): Map<string, T> {
+    const same = (a: T | undefined, b: T | undefined) =>
+      a === undefined || b === undefined ? a === b : fingerprint(a) === fingerprint(b);
+    const merged = new Map<string, T>();
+    const keys = new Set([...ours.keys(), ...theirs.keys(), ...base.keys()]);
+    
+    keys.forEach(key => {
+      const [b, o, t] = [base.get(key), ours.get(key), theirs.get(key)];
+      let value: T | undefined;
+      
+      if (same(o, t) || same(t, b)) {
+        value = o;
+      } else if (same(o, b)) {
+        value = t;
+      } else {
+        conflicts.push({ section, key, base: b ?? null, ours: o ?? null, theirs: t ?? null });
+        value = o;
+      }
+      
+      if (value !== undefined && value !== null) merged.set(key, value);
+    });
+    
+    return merged;
+  }
+  
+  /**
+   * Generate a new codex with integrity hash
+   */
+  public static async generateCodex(options: {
+    templatePath: string;
+    outputPath: string;
+    fieldVector?: number[];
+    ethicalBoundaries?: string[];
+    signing?: {
+      privateKey: string;
+      signer: string;
+      detached?: boolean;
+    };
+  }): Promise<string> {
+    try {
+      // Read and parse template content
+      const codex = parseCodex(
+        await fs.promises.readFile(options.templatePath, 'utf8'),
+        options.templatePath
+      );
+      
+      // Generate a field vector if not provided
+      const fieldVector = options.fieldVector || Array.from({ length: 32 }, () => Math.random() * 2 - 1);
+      codex.field.vector = fieldVector;
+      codex.field.dimensions = fieldVector.length;
+      
+      // Replace ethical boundaries if provided
+      if (options.ethicalBoundaries && options.ethicalBoundaries.length > 0) {
+        codex.ethicalBoundaries = options.ethicalBoundaries.map((boundary, index) => ({
+          id: `ETHICAL_BOUNDARY_${index + 1}`,
+          name: boundary
+        }));
+      }
+      
+      // Embed the hash of the formatted codex
+      codex.metadata.integrityHash = null;
+      let content = formatCodex(codex);
+      content = setIntegrityHash(content, computeCodexHash(content));
+      
+      // Sign if a key is given
+      if (options.signing && !options.signing.detached) {
+        content = signCodex(content, options.signing.privateKey, options.signing.signer);
+      }
+      
+      // Write to output path
+      await fs.promises.writeFile(options.outputPath, content, 'utf8');
+      
+      if (options.signing?.detached) {
+        await CodexIntegrityValidator.writeDetachedSignature(
+          options.outputPath,
+          content,
+          options.signing.privateKey,
+          options.signing.signer
+        );
+      }
+      
+      return options.outputPath;
+    } catch (error) {
+      throw new Error(`Failed to generate codex: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Sign an existing codex file, embedding the signature or writing it to a
+   * detached signature file
+   */
+  public static async signCodexFile(options: {
+    codexPath: string;
+    privateKey: string;
+    signer: string;
+    detached?: boolean;
+    signaturePath?: string;
+  }): Promise<string> {
+    try {
+      const content = await fs.promises.readFile(options.codexPath, 'utf8');
+      
+      if (options.detached) {
+        return await CodexIntegrityValidator.writeDetachedSignature(
+          options.codexPath,
+          content,
+          options.privateKey,
+          options.signer,
+          options.signaturePath
+        );
+      }
+      
+      await fs.promises.writeFile(
+        options.codexPath,
+        signCodex(content, options.privateKey, options.signer),
+        'utf8'
+      );
+      return options.codexPath;
+    } catch (error) {
+      throw new Error(`Failed to sign codex: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Write a detached signature file for codex content
+   */
+  private static async writeDetachedSignature(
+    codexPath: string,
+    content: string,
+    privateKey: string,
+    signer: string,
+    signaturePath?: string
+  ): Promise<string> {
+    const outputPath = signaturePath || detachedSignaturePath(codexPath);
+    const signature = createDetachedSignature(content, privateKey, signer);
+    await fs.promises.writeFile(outputPath, JSON.stringify(signature, null, 2) + '\n', 'utf8');
+    return outputPath;
+  }
+}
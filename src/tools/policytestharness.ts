@@ -0,0 +1,213 @@
+import { GuardrailManager } from '../ethics/guardrailmanager';
+import { PolicySet, loadPolicyFixtureFile } from '../ethics/policyloader';
+import { NOTHINGEngine } from '../engine/nothingengine';
+import { Intent } from '../types/intent';
+import {
+  GuardrailResult,
+  Policy,
+  PolicyFixture,
+  PolicyFixtureOutcome,
+  PolicyFixtureResult,
+  PolicyTestReport,
+  ViolationCode
+} from '../types/ethics';
+
+/**
+ * Agent id used for fixtures that name none
+ */
+const DEFAULT_FIXTURE_AGENT = 'policy-fixture';
+
+/**
+ * Runs policy fixtures against a policy set. Each fixture is evaluated by a
+ * fresh GuardrailManager holding the policies, so fixtures do not affect
+ * each other through history conditions. Input text is parsed into an
+ * intent by the engine's default parser unless a parser is given.
+ * @param policies - Policies under test
+ * @param fixtures - Fixtures to evaluate
+ * @param options - Runner options
+ * @returns Test report with mismatches and policy coverage
+ */
+export async function runPolicyFixtures(
+  policies: Policy[],
+  fixtures: PolicyFixture[],
+  options: { parseIntent?: (input: string) => Intent | Promise<Intent> } = {}
+): Promise<PolicyTestReport> {
+  const engine = options.parseIntent ? null : new NOTHINGEngine();
+  const parseIntent = options.parseIntent || ((input: string) => engine!.parseIntent(input));
+  const results: PolicyFixtureResult[] = [];
+
+  for (const [index, fixture] of fixtures.entries()) {
+    const guardrails = new GuardrailManager();
+    policies.forEach(policy => guardrails.registerPolicy(policy));
+
+    const intent = typeof fixture.intent === 'string' ? await parseIntent(fixture.intent) : fixture.intent;
+    const state = fixture.agent?.state || {};
+    const agent = {
+      id: fixture.agent?.id || DEFAULT_FIXTURE_AGENT,
+      state,
+      cognitiveProfile: { developmentStage: fixture.agent?.stage || 'standard' },
+      getState: () => state
+    };
+
+    const evaluation = await guardrails.evaluate(intent, agent, null, { assessment: fixture.assessment });
+    // Escalations are only recorded; stop their timeout timers
+    guardrails.escalations.close();
+
+    const actual = {
+      outcome: outcomeOf(evaluation),
+      violationCodes: unique(guardrails.getInterventionHistory({ shadow: false })
+        .map(intervention => intervention.symbolicViolationCode)
+        .filter((code): code is ViolationCode => code !== undefined)),
+      policies: evaluation.interventions.map(result => result.policyName),
+      shadowPolicies: (evaluation.shadowInterventions || []).map(result => result.policyName),
+      warnings: evaluation.warnings
+    };
+    const mismatches = compareOutcome(fixture.expect, actual);
+
+    results.push({
+      index,
+      name: fixture.name || `fixture ${index + 1}`,
+      passed: mismatches.length === 0,
+      expected: fixture.expect,
+      actual,
+      mismatches
+    });
+  }
+
+  const coverage = policies.map(policy => {
+    const triggered = results.filter(result =>
+      result.actual.policies.includes(policy.name) || result.actual.shadowPolicies.includes(policy.name));
+
+    return {
+      policyName: policy.name,
+      mode: policy.mode || 'enforce',
+      triggered: triggered.length,
+      fixtures: triggered.map(result => result.name)
+    };
+  });
+
+  return {
+    total: results.length,
+    passed: results.filter(result => result.passed).length,
+    failed: results.filter(result => !result.passed).length,
+    results,
+    coverage,
+    uncovered: coverage.filter(entry => entry.triggered === 0).map(entry => entry.policyName)
+  };
+}
+
+/**
+ * Loads a policy fixture file and runs it. The policies under test come
+ * from the options, or else from the policy files the fixture file names.
+ * @param filePath - Fixture file path
+ * @param options - Policies, or policy files, to test instead of the ones
+ *                  the fixture file names
+ * @returns Test report
+ * @throws PolicyFileError when a fixture or policy file is not valid
+ */
+export async function runPolicyFixtureFile(
+  filePath: string,
+  options: {
+    policies?: Policy[];
+    policyFiles?: string[];
+    parseIntent?: (input: string) => Intent | Promise<Intent>;
+  } = {}
+): Promise<PolicyTestReport> {
+  const document = await loadPolicyFixtureFile(filePath);
+  let policies = options.policies;
+
+  if (!policies) {
+    const files = options.policyFiles || document.policies;
+    if (!files || files.length === 0) {
+      throw new Error(`No policies to test: ${filePath} names no policy files and none were given`);
+    }
+    policies = await new PolicySet(files).load();
+  }
+
+  return runPolicyFixtures(policies, document.fixtures, { parseIntent: options.parseIntent });
+}
+
+/**
+ * Formats a policy test report as text
+ * @param report - Test report
+ * @returns Report text
+ */
+export function formatPolicyTestReport(report: PolicyTestReport): string {
+  const lines = [`Policy fixtures: ${report.passed}/${report.total} passed`];
+
+  report.results
+    .filter(result => !result.passed)
+    .forEach(result => {
+      lines.push(`✗ [${result.index}] ${result.name}`);
+      result.mismatches.forEach(mismatch => lines.push(`    ${mismatch}`));
+    });
+
+  lines.push('', 'Policy coverage:');
+  report.coverage.forEach(entry => {
+    lines.push(`  ${entry.policyName}${entry.mode === 'shadow' ? ' (shadow)' : ''}: ${entry.triggered} fixture(s)`);
+  });
+
+  if (report.uncovered.length > 0) {
+    lines.push('', `Uncovered policies: ${report.uncovered.join(', ')}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Gets the outcome of a guardrail evaluation
+ * @param result - Guardrail result
+ * @returns Outcome
+ */
+function outcomeOf(result: GuardrailResult): PolicyFixtureOutcome {
+  if (result.escalation) return 'escalate';
+  if (!result.allowIntent) return 'block';
+  return result.warnings.length > 0 ? 'warn' : 'allow';
+}
+
+/**
+ * Lists the expectations of a fixture that the actual outcome does not meet
+ * @param expected - Expected outcome
+ * @param actual - Actual outcome
+ * @returns Mismatch descriptions
+ */
+function compareOutcome(expected: PolicyFixture['expect'], actual: PolicyFixtureResult['actual']): string[] {
+  const mismatches: string[] = [];
+  const list = (values: string[]) => values.length > 0 ? values.join(', ') : 'none';
+
+  if (expected.outcome !== actual.outcome) {
+    mismatches.push(`expected outcome ${expected.outcome}, got ${actual.outcome}` +
+      (actual.policies.length > 0 ? ` (policies: ${actual.policies.join(', ')})` : ''));
+  }
+
+  if (expected.violationCodes && !sameSet(expected.violationCodes, actual.violationCodes)) {
+    mismatches.push(`expected violation codes ${list(unique(expected.violationCodes))}, got ${list(actual.violationCodes)}`);
+  }
+
+  if (expected.policies && !sameSet(expected.policies, actual.policies)) {
+    mismatches.push(`expected policies ${list(unique(expected.policies))}, got ${list(unique(actual.policies))}`);
+  }
+
+  return mismatches;
+}
+
+/**
+ * Removes duplicates and sorts values
+ * @param values - Values
+ * @returns Sorted distinct values
+ */
+function unique<T extends string>(values: T[]): T[] {
+  return [...new Set(values)].sort();
+}
+
+/**
+ * Compares two lists as sets
+ * @param a - First list
+ * @param b - Second list
+ * @returns Whether both hold the same distinct values
+ */
+function sameSet(a: string[], b: string[]): boolean {
+  const left = unique(a);
+  const right = unique(b);
+  return left.length === right.length && left.every((value, index) => value === right[index]);
+}
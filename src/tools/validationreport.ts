@@ -0,0 +1,182 @@
+import * as path from 'path';
+import { BatchValidationResult, CodexCheckName, CodexCheckResult, ValidationResult } from '../types/validation';
+
+/**
+ * Tool name reported in JUnit and SARIF output
+ */
+const TOOL_NAME = 'codex-integrity-validator';
+
+/**
+ * SARIF rules, one per validation check
+ */
+const SARIF_RULES: Record<CodexCheckName, { id: string; description: string }> = {
+  parse: { id: 'codex/parse', description: 'Codex file exists and follows the codex format' },
+  signature: { id: 'codex/signature', description: 'Codex is signed by a trusted key' },
+  hash: { id: 'codex/hash', description: 'Embedded integrity hash matches the codex content' },
+  fieldAlignment: { id: 'codex/field-alignment', description: 'Agent vector aligns with the codex field vector' },
+  ethicalBoundaries: { id: 'codex/ethical-boundaries', description: 'Codex declares the required ethical boundaries' }
+};
+
+/**
+ * Formats batch validation results as JUnit XML: one test suite per codex
+ * and one test case per check
+ * @param batch - Batch validation result
+ * @returns JUnit XML document
+ */
+export function formatJUnitReport(batch: BatchValidationResult): string {
+  const suites = batch.results.map(({ codexPath, result, durationMs }) => {
+    const checks = checksOf(result);
+    const failures = checks.filter(check => !check.valid).length;
+    const skipped = checks.filter(check => check.valid && check.skipped).length;
+
+    const cases = checks.map(check => {
+      const open = `    <testcase classname="${xml(codexPath)}" name="${check.name}" file="${xml(codexPath)}"`;
+
+      if (!check.valid) {
+        return `${open}>\n` +
+          `      <failure message="${xml(check.messages[0] || 'Check failed')}" type="${check.name}">` +
+          `${xml(check.messages.join('\n'))}</failure>\n` +
+          '    </testcase>';
+      }
+      if (check.skipped) {
+        return `${open}>\n      <skipped message="${xml(check.messages[0] || 'Check skipped')}"/>\n    </testcase>`;
+      }
+      return `${open}/>`;
+    });
+
+    return `  <testsuite name="${xml(codexPath)}" tests="${checks.length}" failures="${failures}" ` +
+      `errors="0" skipped="${skipped}" time="${seconds(durationMs)}">\n${cases.join('\n')}\n  </testsuite>`;
+  });
+
+  const totals = batch.results.map(({ result }) => checksOf(result));
+  const tests = totals.reduce((sum, checks) => sum + checks.length, 0);
+  const failures = totals.reduce((sum, checks) => sum + checks.filter(check => !check.valid).length, 0);
+  const skipped = totals.reduce((sum, checks) => sum + checks.filter(check => check.valid && check.skipped).length, 0);
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}" ` +
+    `time="${seconds(batch.durationMs)}" timestamp="${batch.startedAt}">\n` +
+    (suites.length > 0 ? `${suites.join('\n')}\n` : '') +
+    '</testsuites>\n';
+}
+
+/**
+ * Formats batch validation results as a SARIF 2.1.0 log with one result per
+ * failed check (and per parse error), located at the codex line concerned
+ * @param batch - Batch validation result
+ * @param options - Report options
+ * @returns SARIF JSON document
+ */
+export function formatSarifReport(
+  batch: BatchValidationResult,
+  options: { baseDirectory?: string; toolVersion?: string } = {}
+): string {
+  const results: Record<string, any>[] = [];
+
+  batch.results.forEach(({ codexPath, result }) => {
+    const uri = toUri(codexPath, options.baseDirectory);
+    const location = (line?: number) => [{
+      physicalLocation: {
+        artifactLocation: { uri },
+        ...(line !== undefined ? { region: { startLine: line } } : {})
+      }
+    }];
+
+    checksOf(result).filter(check => !check.valid).forEach(check => {
+      const rule = SARIF_RULES[check.name];
+      const parseErrors: { line: number; message: string }[] = check.name === 'parse'
+        ? result.details?.parseErrors || []
+        : [];
+
+      if (parseErrors.length > 0) {
+        parseErrors.forEach(issue => results.push({
+          ruleId: rule.id,
+          level: 'error',
+          message: { text: issue.message },
+          locations: location(issue.line)
+        }));
+        return;
+      }
+
+      results.push({
+        ruleId: rule.id,
+        level: 'error',
+        message: { text: check.messages.join(' ') || 'Check failed' },
+        locations: location(check.line)
+      });
+    });
+  });
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          version: options.toolVersion || '1.0.0',
+          rules: Object.values(SARIF_RULES).map(rule => ({
+            id: rule.id,
+            shortDescription: { text: rule.description },
+            defaultConfiguration: { level: 'error' }
+          }))
+        }
+      },
+      invocations: [{
+        executionSuccessful: true,
+        startTimeUtc: batch.startedAt
+      }],
+      results
+    }]
+  };
+
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+/**
+ * Gets the checks of a result, treating a result without checks as one
+ * failed or passed parse check
+ * @param result - Validation result
+ * @returns Checks
+ */
+function checksOf(result: ValidationResult): CodexCheckResult[] {
+  return result.checks && result.checks.length > 0
+    ? result.checks
+    : [{ name: 'parse', valid: result.valid, skipped: false, messages: result.messages }];
+}
+
+/**
+ * Converts a file path to a SARIF artifact URI
+ * @param filePath - File path
+ * @param baseDirectory - Directory the URI is relative to (optional)
+ * @returns Forward-slash URI
+ */
+function toUri(filePath: string, baseDirectory?: string): string {
+  const relative = baseDirectory ? path.relative(baseDirectory, filePath) : filePath;
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Escapes text for XML attributes and content
+ * @param text - Text
+ * @returns Escaped text
+ */
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Formats milliseconds as JUnit seconds
+ * @param ms - Duration in milliseconds
+ * @returns Seconds with millisecond precision
+ */
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
@@ -1,5 +1,7 @@
 import { EmotionalState } from './persona';
 import { DevelopmentStage } from './cognition';
+import { IntentClassifier, IntentGrammar, IntentParser } from './intent';
+import { EscalationDecision, EscalationOperator } from './ethics';
 
 /**
  * Agent archetypes
@@ -68,6 +70,11 @@ export interface AgentConfig {
      * Narrative role
      */
     role?: string;
+    
+    /**
+     * Interactions between development stage evaluations (default 10)
+     */
+    evaluationInterval?: number;
   };
   
   /**
@@ -108,13 +115,110 @@ export interface AgentConfig {
   /**
    * Engine parameters
    */
-  engineParams?: any;
+  engineParams?: {
+    /**
+     * Custom intent parser
+     */
+    parser?: IntentParser;
+    
+    /**
+     * Classifier function (falls back to the rule-based parser)
+     */
+    classifier?: IntentClassifier;
+    
+    /**
+     * Minimum classifier confidence before falling back
+     */
+    minConfidence?: number;
+    
+    /**
+     * Inline grammar for the rule-based parser
+     */
+    grammar?: IntentGrammar;
+    
+    /**
+     * Grammar file for the rule-based parser
+     */
+    grammarPath?: string;
+    
+    [key: string]: any;
+  };
   
   /**
    * Vector space parameters
    */
   vectorSpaceParams?: any;
   
+  /**
+   * Fractal analysis parameters
+   */
+  fractalParams?: {
+    maxPatternLength?: number;
+    minOccurrences?: number;
+    maxPatterns?: number;
+  };
+  
+  /**
+   * Codex alignment check run at activation (skipped when omitted)
+   */
+  codexAlignment?: {
+    /**
+     * Security level selecting the similarity threshold (default medium)
+     */
+    securityLevel?: AlignmentSecurityLevel;
+    
+    /**
+     * Explicit similarity threshold (overrides the security level)
+     */
+    threshold?: number;
+    
+    /**
+     * Refuse to activate when the agent is not aligned
+     */
+    enforce?: boolean;
+  };
+  
+  /**
+   * JSONL file for the hash-chained ethics audit log (kept in memory when omitted)
+   */
+  auditLogPath?: string;
+  
+  /**
+   * Handling of intents escalated by guardrail policies
+   */
+  escalation?: {
+    /**
+     * Wait for the decision in `process`, or return a pending response and
+     * resume with `resumeEscalation` (default defer)
+     */
+    mode?: 'await' | 'defer';
+    
+    /**
+     * Time to wait for a decision in milliseconds (default 5 minutes)
+     */
+    timeoutMs?: number;
+    
+    /**
+     * Decision applied on timeout (default block)
+     */
+    defaultDecision?: EscalationDecision;
+    
+    /**
+     * Operator callback deciding escalations
+     */
+    operator?: EscalationOperator;
+    
+    /**
+     * Directory of a file-based approval inbox
+     */
+    inbox?: string;
+    
+    /**
+     * Inbox polling interval in milliseconds (default 1000)
+     */
+    pollInterval?: number;
+  };
+  
   /**
    * Enable predictive ethics
    */
@@ -131,6 +235,16 @@ export interface AgentConfig {
   enableHarmonicSelfTuning?: boolean;
 }
 
+/**
+ * Options for processing one input
+ */
+export interface ProcessOptions {
+  /**
+   * Handling of an escalated intent, overriding the agent's escalation mode
+   */
+  escalation?: 'await' | 'defer';
+}
+
 /**
  * Agent state
  */
@@ -234,3 +348,271 @@ export interface ResonanceEvent {
    */
   intensity?: number;
 }
+
+/**
+ * Prediction horizon
+ */
+export type PredictionTimeframe = 'short' | 'medium' | 'long';
+
+/**
+ * Projected agent state at a prediction horizon
+ */
+export interface ProjectedState {
+  /**
+   * Projected coherence level (0-1)
+   */
+  coherence: number;
+  
+  /**
+   * Projected dissonance level (0-1)
+   */
+  dissonance: number;
+  
+  /**
+   * Projected emotional state
+   */
+  emotionalState: EmotionalState;
+  
+  /**
+   * Number of interactions projected ahead
+   */
+  steps: number;
+}
+
+/**
+ * Trend metrics underlying an intent evolution prediction
+ */
+export interface TrendMetrics {
+  /**
+   * Projected coherence change per interaction
+   */
+  coherenceSlope: number;
+  
+  /**
+   * Projected dissonance change per interaction
+   */
+  dissonanceSlope: number;
+  
+  /**
+   * Coherence variance across the analyzed history
+   */
+  coherenceVariance: number;
+  
+  /**
+   * Field decay rate reported by the intent field
+   */
+  fieldDecayRate: number;
+  
+  /**
+   * Most frequent recent intent type
+   */
+  dominantIntent: string | null;
+  
+  /**
+   * Share of intent type switches in the recent sequence (0-1)
+   */
+  intentVolatility: number;
+  
+  /**
+   * Number of resonance events analyzed
+   */
+  historyLength: number;
+}
+
+/**
+ * Intent evolution prediction
+ */
+export interface IntentEvolutionPrediction {
+  /**
+   * Prediction horizon
+   */
+  timeframe: PredictionTimeframe;
+  
+  /**
+   * Current agent state
+   */
+  currentState: {
+    coherence: number;
+    dissonance: number;
+    emotionalState: EmotionalState;
+  };
+  
+  /**
+   * Projected agent state
+   */
+  projectedState: ProjectedState;
+  
+  /**
+   * Emotional states passed through on the way to the projection
+   */
+  emotionalProjection: {
+    from: EmotionalState;
+    to: EmotionalState;
+    transitions: EmotionalState[];
+  };
+  
+  /**
+   * Trend metrics
+   */
+  trendMetrics: TrendMetrics;
+  
+  /**
+   * Themes emerging from rising symbols
+   */
+  emergentThemes: { symbol: string; strength: number }[];
+  
+  /**
+   * Fractal insights
+   */
+  fractalInsights: FractalInsights | null;
+  
+  /**
+   * Prediction confidence (0-1)
+   */
+  confidence: number;
+}
+
+/**
+ * Repeated intent sub-sequence found by fractal analysis
+ */
+export interface FractalPattern {
+  /**
+   * Intent types making up the pattern
+   */
+  sequence: string[];
+  
+  /**
+   * Scale (block size) at which the pattern was found
+   */
+  scale: number;
+  
+  /**
+   * Number of non-overlapping occurrences
+   */
+  occurrences: number;
+  
+  /**
+   * Start positions in the scaled sequence
+   */
+  positions: number[];
+}
+
+/**
+ * Result of an intent fractal analysis
+ */
+export interface FractalAnalysis {
+  /**
+   * Repeated patterns, most significant first
+   */
+  patterns: FractalPattern[];
+  
+  /**
+   * Number of scales at which repeated patterns were found
+   */
+  depth: number;
+  
+  /**
+   * Normalized Lempel-Ziv complexity of the intent sequence (0-1)
+   */
+  complexity: number;
+  
+  /**
+   * Similarity of the pattern distribution across scales (0-1)
+   */
+  selfSimilarity: number;
+  
+  /**
+   * Box-counting dimension of the coherence series (1-2, null when too short)
+   */
+  fractalDimension: number | null;
+  
+  /**
+   * Next intents suggested by patterns matching the end of the sequence
+   */
+  epochPredictions: { intentType: string; probability: number; pattern: string[] }[];
+}
+
+/**
+ * Fractal insights reported in response metadata
+ */
+export interface FractalInsights {
+  /**
+   * Normalized intent sequence complexity (0-1)
+   */
+  patternComplexity: number;
+  
+  /**
+   * Similarity of the pattern distribution across scales (0-1)
+   */
+  selfSimilarity: number;
+  
+  /**
+   * Box-counting dimension of the coherence series
+   */
+  fractalDimension: number | null;
+  
+  /**
+   * Number of identified patterns
+   */
+  identifiedPatterns: number;
+  
+  /**
+   * Next intents suggested by recurring patterns
+   */
+  epochPredictions: { intentType: string; probability: number; pattern: string[] }[];
+}
+
+/**
+ * Security level of a codex alignment check
+ */
+export type AlignmentSecurityLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Named component of an agent vector
+ */
+export interface AgentVectorComponent {
+  /**
+   * Component name (e.g. identity.autonomy, trait.curiosity)
+   */
+  name: string;
+  
+  /**
+   * Component value
+   */
+  value: number;
+}
+
+/**
+ * Outcome of checking an agent against a codex field vector
+ */
+export interface AgentAlignmentResult {
+  /**
+   * Whether the similarity meets the threshold
+   */
+  aligned: boolean;
+  
+  /**
+   * Cosine similarity between the agent and codex vectors (null when no codex vector)
+   */
+  similarity: number | null;
+  
+  /**
+   * Similarity threshold applied
+   */
+  threshold: number;
+  
+  /**
+   * Vector dimensions compared
+   */
+  dimensions: number;
+  
+  /**
+   * Agent vector derived for the check
+   */
+  agentVector: number[];
+  
+  /**
+   * Reason the check failed (when not aligned)
+   */
+  reason?: string;
+}
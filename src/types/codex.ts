@@ -0,0 +1,407 @@
+import { Policy } from './ethics';
+
+/**
+ * Codex metadata section
+ */
+export interface CodexMetadata {
+  /**
+   * Codex format version (CODEX_VERSION)
+   */
+  version: string;
+
+  /**
+   * Codex name (CODEX_NAME, optional)
+   */
+  name?: string;
+
+  /**
+   * Codex author (AUTHOR, optional)
+   */
+  author?: string;
+
+  /**
+   * Creation timestamp (CREATED_AT, optional)
+   */
+  createdAt?: string;
+
+  /**
+   * Embedded integrity hash (INTEGRITY_HASH, null when blank or absent)
+   */
+  integrityHash: string | null;
+
+  /**
+   * Identifier of the signing key (SIGNER, optional)
+   */
+  signer?: string;
+
+  /**
+   * Embedded base64 Ed25519 signature (SIGNATURE, optional)
+   */
+  signature?: string;
+
+  /**
+   * All metadata entries by key
+   */
+  properties: Record<string, string>;
+}
+
+/**
+ * Codex field definition section
+ */
+export interface CodexFieldDefinition {
+  /**
+   * Field vector (FIELD_VECTOR)
+   */
+  vector: number[] | null;
+
+  /**
+   * Declared vector dimensions (FIELD_DIMENSIONS, optional)
+   */
+  dimensions?: number;
+
+  /**
+   * Coherence threshold (COHERENCE_THRESHOLD, optional)
+   */
+  coherenceThreshold?: number;
+
+  /**
+   * All field entries by key
+   */
+  properties: Record<string, string>;
+}
+
+/**
+ * Ethical boundary declared by a codex
+ */
+export interface CodexEthicalBoundary {
+  /**
+   * Boundary key (e.g. ETHICAL_BOUNDARY_1)
+   */
+  id: string;
+
+  /**
+   * Boundary name (e.g. autonomy)
+   */
+  name: string;
+
+  /**
+   * Boundary description (optional)
+   */
+  description?: string;
+}
+
+/**
+ * Symbol lexicon entry declared by a codex
+ */
+export interface CodexSymbol {
+  /**
+   * Symbol name
+   */
+  symbol: string;
+
+  /**
+   * Marker strength when the symbol is detected (0-1)
+   */
+  strength: number;
+
+  /**
+   * Keywords or phrases that evoke the symbol
+   */
+  patterns: string[];
+
+  /**
+   * Contribution to field coherence (optional)
+   */
+  coherence?: number;
+
+  /**
+   * Contribution to field dissonance (optional)
+   */
+  dissonance?: number;
+}
+
+/**
+ * Parsed intent codex
+ */
+export interface Codex {
+  /**
+   * Metadata section
+   */
+  metadata: CodexMetadata;
+
+  /**
+   * Field definition section
+   */
+  field: CodexFieldDefinition;
+
+  /**
+   * Ethical boundaries section
+   */
+  ethicalBoundaries: CodexEthicalBoundary[];
+
+  /**
+   * Symbol lexicon section
+   */
+  symbols: CodexSymbol[];
+
+  /**
+   * Policies section
+   */
+  policies: Policy[];
+
+  /**
+   * Free-form sections not interpreted by the parser, by section name
+   */
+  sections: Record<string, string[]>;
+}
+
+/**
+ * Problem found while parsing a codex
+ */
+export interface CodexParseIssue {
+  /**
+   * Line number (1-based)
+   */
+  line: number;
+
+  /**
+   * Problem description
+   */
+  message: string;
+}
+
+/**
+ * Public key trusted to sign codices
+ */
+export interface TrustedCodexKey {
+  /**
+   * Key identifier, matched against a codex SIGNER
+   */
+  id: string;
+
+  /**
+   * Signer identity (person or group, optional)
+   */
+  owner?: string;
+
+  /**
+   * PEM-encoded Ed25519 public key
+   */
+  publicKey: string;
+}
+
+/**
+ * Detached codex signature file contents
+ */
+export interface DetachedCodexSignature {
+  /**
+   * Signature algorithm
+   */
+  algorithm: 'ed25519';
+
+  /**
+   * Identifier of the signing key
+   */
+  signer: string;
+
+  /**
+   * Base64 signature over the canonical codex text
+   */
+  signature: string;
+
+  /**
+   * SHA-256 of the canonical codex text
+   */
+  contentHash: string;
+
+  /**
+   * Signing timestamp (ISO 8601)
+   */
+  signedAt: string;
+}
+
+/**
+ * Outcome of verifying a codex signature
+ */
+export interface CodexSignatureVerification {
+  /**
+   * Whether a signature was found
+   */
+  signed: boolean;
+
+  /**
+   * Whether the signature is valid and made by a trusted key
+   */
+  valid: boolean;
+
+  /**
+   * Where the signature was found
+   */
+  mode: 'embedded' | 'detached' | null;
+
+  /**
+   * Declared signer key identifier
+   */
+  signer: string | null;
+
+  /**
+   * Owner of the trusted signing key (when trusted)
+   */
+  owner: string | null;
+
+  /**
+   * Reason the signature was rejected (when invalid)
+   */
+  reason?: string;
+}
+
+/**
+ * Value that differs between two codices
+ */
+export interface CodexValueChange<T> {
+  /**
+   * Entry key (boundary name, symbol, policy name or property key)
+   */
+  key: string;
+
+  /**
+   * Value in the earlier codex
+   */
+  before: T;
+
+  /**
+   * Value in the later codex
+   */
+  after: T;
+}
+
+/**
+ * Entries added, removed and changed in one codex section
+ */
+export interface CodexSectionDiff<T> {
+  /**
+   * Entries only in the later codex
+   */
+  added: T[];
+
+  /**
+   * Entries only in the earlier codex
+   */
+  removed: T[];
+
+  /**
+   * Entries in both codices with different values
+   */
+  changed: CodexValueChange<T>[];
+}
+
+/**
+ * Structural difference between two codices
+ */
+export interface CodexDiff {
+  /**
+   * Whether the codices are structurally identical
+   */
+  identical: boolean;
+
+  /**
+   * Metadata entry changes (signatures and hashes excluded)
+   */
+  metadata: CodexSectionDiff<{ key: string; value: string }>;
+
+  /**
+   * Field definition changes
+   */
+  field: {
+    /**
+     * Whether the field vector changed
+     */
+    vectorChanged: boolean;
+
+    /**
+     * Vector dimensions before and after (null when absent)
+     */
+    dimensions: { before: number | null; after: number | null };
+
+    /**
+     * Cosine similarity of the vectors (null unless both exist with equal dimensions)
+     */
+    cosineSimilarity: number | null;
+
+    /**
+     * Cosine distance (1 - similarity) of the vectors
+     */
+    cosineDistance: number | null;
+
+    /**
+     * Other field entry changes
+     */
+    properties: CodexSectionDiff<{ key: string; value: string }>;
+  };
+
+  /**
+   * Ethical boundary changes, matched by name
+   */
+  ethicalBoundaries: CodexSectionDiff<CodexEthicalBoundary>;
+
+  /**
+   * Symbol lexicon changes, matched by symbol
+   */
+  symbols: CodexSectionDiff<CodexSymbol>;
+
+  /**
+   * Policy changes, matched by name
+   */
+  policies: CodexSectionDiff<Policy>;
+}
+
+/**
+ * Entry edited differently on both sides of a three-way merge
+ */
+export interface CodexMergeConflict {
+  /**
+   * Section holding the entry
+   */
+  section: 'metadata' | 'field' | 'ethicalBoundaries' | 'symbols' | 'policies' | 'sections';
+
+  /**
+   * Entry key
+   */
+  key: string;
+
+  /**
+   * Value in the common ancestor (null when absent)
+   */
+  base: unknown;
+
+  /**
+   * Value on our side (null when removed)
+   */
+  ours: unknown;
+
+  /**
+   * Value on their side (null when removed)
+   */
+  theirs: unknown;
+}
+
+/**
+ * Outcome of a three-way codex merge
+ */
+export interface CodexMergeResult {
+  /**
+   * Merged codex; conflicting entries keep our side. Signatures and the
+   * integrity hash are cleared since the merged content is new.
+   */
+  codex: Codex;
+
+  /**
+   * Conflicting edits
+   */
+  conflicts: CodexMergeConflict[];
+
+  /**
+   * Whether the merge completed without conflicts
+   */
+  clean: boolean;
+}
@@ -1,3 +1,5 @@
+import { Intent, IntentConstraint } from './intent';
+
 /**
  * Policy for ethical guardrails
  */
@@ -27,6 +29,29 @@ export interface Policy {
    */
   constraintType?: 'soft' | 'hard';
   
+  /**
+   * Ethical dimensions the constraint contributes to (if creating
+   * constraint, default harm)
+   */
+  constraintDimensions?: EthicalDimension[];
+  
+  /**
+   * Constraint impact from 0 to 1 (if creating constraint, default 0.5)
+   */
+  constraintImpact?: number;
+  
+  /**
+   * Enforcement mode: shadow policies are evaluated and logged but never
+   * affect the outcome (default enforce)
+   */
+  mode?: 'enforce' | 'shadow';
+  
+  /**
+   * Violation code of the policy's interventions (optional; by default the
+   * code of the ethical dimension a triggering condition checks)
+   */
+  violationCode?: ViolationCode;
+  
   /**
    * Registration timestamp (added by system)
    */
@@ -57,10 +82,33 @@ export interface PolicyCondition {
    */
   dimension?: string;
   
+  /**
+   * Comparison between the observed value and `value` (optional)
+   */
+  comparison?: ConditionComparison;
+  
+  /**
+   * Intent field or agent state path (e.g. parameters.target, stage)
+   */
+  field?: string;
+  
+  /**
+   * Counted event (for history counts): an action type, intervention or intent
+   */
+  event?: 'block' | 'warn' | 'modify' | 'escalate' | 'log' | 'intervention' | 'intent';
+  
+  /**
+   * Counting window (for history counts): most recent intents and/or milliseconds
+   */
+  window?: {
+    intents?: number;
+    ms?: number;
+  };
+  
   /**
    * Condition operator (for combined conditions)
    */
-  operator?: 'and' | 'or';
+  operator?: 'and' | 'or' | 'not';
   
   /**
    * Sub-conditions (for combined conditions)
@@ -68,6 +116,331 @@ export interface PolicyCondition {
   conditions?: PolicyCondition[];
 }
 
+/**
+ * Parameters of a `modify` policy action
+ */
+export interface ModifyActionParams {
+  /**
+   * Regular expression sources whose matches are redacted from the intent text
+   */
+  redact?: string | string[];
+  
+  /**
+   * Replacement for redacted spans (default [redacted])
+   */
+  replacement?: string;
+  
+  /**
+   * Intent type the intent is downgraded to
+   */
+  downgradeTo?: string;
+  
+  /**
+   * Constraints attached for the response generator
+   */
+  constraints?: IntentConstraint[];
+}
+
+/**
+ * Parameters of an `escalate` policy action
+ */
+export interface EscalateActionParams {
+  /**
+   * Time to wait for a decision in milliseconds
+   */
+  timeoutMs?: number;
+  
+  /**
+   * Decision applied when no decision arrives in time
+   */
+  defaultDecision?: EscalationDecision;
+}
+
+/**
+ * Decision on an escalated intent
+ */
+export type EscalationDecision = 'allow' | 'block';
+
+/**
+ * Intent parked for a human decision
+ */
+export interface EscalationRequest {
+  /**
+   * Escalation identifier
+   */
+  id: string;
+  
+  /**
+   * Creation timestamp
+   */
+  createdAt: number;
+  
+  /**
+   * Agent that processed the intent
+   */
+  agentId: string;
+  
+  /**
+   * Escalated intent (as modified by policies)
+   */
+  intent: Intent;
+  
+  /**
+   * Policies that escalated the intent
+   */
+  policies: string[];
+  
+  /**
+   * Why the intent was escalated
+   */
+  reason: string;
+  
+  /**
+   * Time to wait for a decision in milliseconds
+   */
+  timeoutMs: number;
+  
+  /**
+   * Decision applied on timeout
+   */
+  defaultDecision: EscalationDecision;
+  
+  /**
+   * Escalation status
+   */
+  status: 'pending' | 'resolved';
+  
+  /**
+   * Resolution, once resolved
+   */
+  resolution?: EscalationResolution;
+}
+
+/**
+ * Resolution of an escalated intent
+ */
+export interface EscalationResolution {
+  /**
+   * Decision taken
+   */
+  decision: EscalationDecision;
+  
+  /**
+   * Who decided (operator name, or timeout)
+   */
+  by: string;
+  
+  /**
+   * Why the decision was taken
+   */
+  reason: string;
+  
+  /**
+   * Resolution timestamp
+   */
+  resolvedAt: number;
+  
+  /**
+   * Whether the default decision was applied on timeout
+   */
+  timedOut: boolean;
+}
+
+/**
+ * Operator deciding escalated intents; returning nothing leaves the
+ * escalation pending
+ */
+export type EscalationOperator = (
+  request: EscalationRequest
+) => { decision: EscalationDecision; by?: string; reason?: string } | null | undefined |
+  Promise<{ decision: EscalationDecision; by?: string; reason?: string } | null | undefined>;
+
+/**
+ * Change made to an intent by a `modify` policy action
+ */
+export interface IntentModification {
+  /**
+   * Policy that made the change
+   */
+  policyName: string;
+  
+  /**
+   * Kind of change
+   */
+  kind: 'redact' | 'downgrade' | 'constrain';
+  
+  /**
+   * Change description
+   */
+  detail: string;
+}
+
+/**
+ * Comparison applied by a policy condition
+ */
+export type ConditionComparison =
+  'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'in' | 'contains' | 'matches' | 'exists';
+
+/**
+ * Outcome of evaluating a policy condition
+ */
+export interface ConditionEvaluation {
+  /**
+   * Condition path within the policy (e.g. either.conditions[0])
+   */
+  path: string;
+  
+  /**
+   * Condition type, or operator for combined conditions
+   */
+  type: string;
+  
+  /**
+   * Whether the condition matched
+   */
+  matched: boolean;
+  
+  /**
+   * Observed value (for leaf conditions)
+   */
+  actual?: any;
+  
+  /**
+   * Why the condition could not be evaluated (optional)
+   */
+  reason?: string;
+  
+  /**
+   * Sub-condition outcomes (for combined conditions)
+   */
+  children?: ConditionEvaluation[];
+}
+
+/**
+ * Data available to policy conditions
+ */
+export interface ConditionContext {
+  /**
+   * Intent being evaluated
+   */
+  intent: Intent;
+  
+  /**
+   * Agent processing the intent
+   */
+  agent: any;
+  
+  /**
+   * Intent field (optional)
+   */
+  field?: any;
+  
+  /**
+   * Ethical assessment of the intent
+   */
+  assessment: EthicalAssessment;
+  
+  /**
+   * Earlier guardrail outcomes for the agent, oldest first
+   */
+  history: PolicyHistoryEntry[];
+  
+  /**
+   * Evaluation timestamp
+   */
+  now: number;
+}
+
+/**
+ * Context a normative constraint is evaluated in
+ */
+export interface ConstraintContext extends ConditionContext {
+  /**
+   * Working memory of the agent
+   */
+  memory: Record<string, any>;
+}
+
+/**
+ * Guardrail outcome recorded for an evaluated intent, used by history counts
+ */
+export interface PolicyHistoryEntry {
+  /**
+   * Agent that processed the intent
+   */
+  agentId: string;
+  
+  /**
+   * Intent type
+   */
+  intentType: string;
+  
+  /**
+   * Evaluation timestamp
+   */
+  timestamp: number;
+  
+  /**
+   * Names of the policies that intervened
+   */
+  policies: string[];
+  
+  /**
+   * Types of the actions taken
+   */
+  actions: PolicyAction['type'][];
+}
+
+/**
+ * Result of evaluating one policy against an intent
+ */
+export interface PolicyEvaluation {
+  /**
+   * Policy name
+   */
+  policyName: string;
+  
+  /**
+   * Strongest action taken, or null when the policy did not apply
+   */
+  intervention: string | null;
+  
+  /**
+   * Whether the policy blocks the intent
+   */
+  blockIntent: boolean;
+  
+  /**
+   * Warning messages
+   */
+  warnings: string[];
+  
+  /**
+   * Types of the actions taken (optional)
+   */
+  actions?: PolicyAction['type'][];
+  
+  /**
+   * Whether the policy runs in shadow mode (optional)
+   */
+  shadow?: boolean;
+  
+  /**
+   * Whether the policy escalates the intent for a human decision (optional)
+   */
+  escalate?: boolean;
+  
+  /**
+   * Paths of the matched leaf conditions (optional)
+   */
+  matchedConditions?: string[];
+  
+  /**
+   * Condition outcomes by name (optional)
+   */
+  conditions?: ConditionEvaluation[];
+}
+
 /**
  * Policy action
  */
@@ -75,7 +448,7 @@ export interface PolicyAction {
   /**
    * Action type
    */
-  type: 'block' | 'warn' | 'modify' | 'log';
+  type: 'block' | 'warn' | 'modify' | 'escalate' | 'log';
   
   /**
    * Action message
@@ -93,12 +466,12 @@ export interface PolicyAction {
  */
 export interface EthicalAssessment {
   /**
-   * Overall ethical score (0-1)
+   * Overall ethical concern (0-1), the weighted mean of the dimensions
    */
   overallScore: number;
   
   /**
-   * Ethical dimensions
+   * Ethical dimensions, each a level of concern (0-1)
    */
   dimensions: {
     /**
@@ -117,21 +490,46 @@ export interface EthicalAssessment {
     autonomy: number;
     
     /**
-     * Care (0-1)
+     * Privacy (0-1, optional)
+     */
+    privacy?: number;
+    
+    /**
+     * Integrity (0-1, optional)
+     */
+    integrity?: number;
+    
+    /**
+     * Dignity (0-1, optional)
      */
-    care: number;
+    dignity?: number;
     
     /**
-     * Transparency (0-1)
+     * Care (0-1, optional)
      */
-    transparency: number;
+    care?: number;
+    
+    /**
+     * Transparency (0-1, optional)
+     */
+    transparency?: number;
     
     /**
      * Additional dimensions (optional)
      */
-    [key: string]: number;
+    [key: string]: number | undefined;
   };
   
+  /**
+   * Constraints and signals behind each dimension (optional)
+   */
+  explanations?: Partial<Record<EthicalDimension, DimensionExplanation>>;
+  
+  /**
+   * Hard constraints that veto the intent regardless of the score (optional)
+   */
+  vetoes?: ConstraintVeto[];
+  
   /**
    * Ethical reasoning
    */
@@ -144,24 +542,75 @@ export interface EthicalAssessment {
 }
 
 /**
- * Guardrail evaluation result
+ * Ethical dimension scored by the Nexus framework; each matches a code in
+ * the violation code registry
  */
-export interface GuardrailResult {
+export type EthicalDimension = 'harm' | 'fairness' | 'autonomy' | 'privacy' | 'integrity' | 'dignity';
+
+/**
+ * What drove an ethical dimension's score
+ */
+export interface DimensionExplanation {
   /**
-   * Whether intent is allowed
+   * Dimension score (0-1)
    */
-  allowIntent: boolean;
+  score: number;
   
   /**
-   * Applied interventions
+   * Contributions, strongest first
    */
-  interventions: {
-    policyName: string;
-    intervention: string | null;
-    blockIntent: boolean;
-    warnings: string[];
+  contributors: {
+    /**
+     * Constraint or signal name
+     */
+    name: string;
+    
+    /**
+     * Hard or soft constraint, or a signal such as the harm assessor
+     */
+    kind: 'hard' | 'soft' | 'signal';
+    
+    /**
+     * Contribution to the dimension (0-1)
+     */
+    contribution: number;
   }[];
-  
+}
+
+/**
+ * Veto by a violated hard constraint
+ */
+export interface ConstraintVeto {
+  /**
+   * Constraint name
+   */
+  constraint: string;
+  
+  /**
+   * Dimensions the constraint guards
+   */
+  dimensions: EthicalDimension[];
+  
+  /**
+   * Violation code of the first dimension
+   */
+  symbolicViolationCode: ViolationCode;
+}
+
+/**
+ * Guardrail evaluation result
+ */
+export interface GuardrailResult {
+  /**
+   * Whether intent is allowed
+   */
+  allowIntent: boolean;
+  
+  /**
+   * Applied interventions
+   */
+  interventions: PolicyEvaluation[];
+  
   /**
    * Ethical assessment
    */
@@ -172,6 +621,42 @@ export interface GuardrailResult {
    */
   warnings: string[];
   
+  /**
+   * Intent as received, when modify actions changed it
+   */
+  originalIntent?: Intent;
+  
+  /**
+   * Intent to process in place of the original, when modify actions changed it
+   */
+  modifiedIntent?: Intent;
+  
+  /**
+   * Changes made by modify actions, in policy order
+   */
+  modifications?: IntentModification[];
+  
+  /**
+   * Interventions shadow policies would have made (not enforced)
+   */
+  shadowInterventions?: PolicyEvaluation[];
+  
+  /**
+   * Harm assessment of the intent text (optional)
+   */
+  harmAssessment?: HarmAssessment;
+  
+  /**
+   * Pending escalation, when policies asked for a human decision; the intent
+   * is not allowed until the escalation resolves
+   */
+  escalation?: EscalationRequest;
+  
+  /**
+   * Trust-weighted consensus of connected agents (optional)
+   */
+  consensus?: ConsensusResult;
+  
   /**
    * Ethical prediction
    */
@@ -205,9 +690,9 @@ export interface EthicalPrediction {
   confidence: number;
   
   /**
-   * Estimated interactions until violation
+   * Estimated interactions until violation (when one is predicted)
    */
-  timeToViolation: number;
+  timeToViolation?: number;
   
   /**
    * Trajectory direction
@@ -236,3 +721,744 @@ export type ViolationCode =
   'privacy_breach' | 
   'dignity_compromise' | 
   'ethical_uncertainty';
+
+/**
+ * Problem found in a policy file
+ */
+export interface PolicyIssue {
+  /**
+   * Location in the document (e.g. policies[0].actions[1].type)
+   */
+  path: string;
+  
+  /**
+   * Line number (1-based, when known)
+   */
+  line?: number;
+  
+  /**
+   * Column number (1-based, when known)
+   */
+  column?: number;
+  
+  /**
+   * Problem description
+   */
+  message: string;
+}
+
+/**
+ * Policy file contents
+ */
+export interface PolicyDocument {
+  /**
+   * Policy file format version
+   */
+  version?: number;
+  
+  /**
+   * Declared policies
+   */
+  policies: Policy[];
+}
+
+/**
+ * Intent evaluated by a guardrail manager, recorded for replay
+ */
+export interface RecordedIntent {
+  /**
+   * Evaluation timestamp
+   */
+  timestamp: number;
+  
+  /**
+   * Agent that processed the intent
+   */
+  agentId: string;
+  
+  /**
+   * Evaluated intent
+   */
+  intent: Intent;
+  
+  /**
+   * Ethical assessment at the time
+   */
+  assessment: EthicalAssessment;
+  
+  /**
+   * Agent development stage and state at the time
+   */
+  agent: {
+    stage?: string;
+    state: Record<string, any>;
+  };
+  
+  /**
+   * Whether the intent was allowed
+   */
+  allowIntent: boolean;
+}
+
+/**
+ * Shadow outcomes of one policy over a session
+ */
+export interface ShadowPolicyReport {
+  /**
+   * Policy name
+   */
+  policyName: string;
+  
+  /**
+   * Intents the policy evaluated
+   */
+  evaluations: number;
+  
+  /**
+   * Intents on which the policy would have intervened
+   */
+  triggered: number;
+  
+  /**
+   * Intents the policy would have blocked
+   */
+  wouldBlock: number;
+  
+  /**
+   * Intents the policy would have warned about
+   */
+  wouldWarn: number;
+  
+  /**
+   * Intents the policy would have modified
+   */
+  wouldModify: number;
+  
+  /**
+   * Would-be blocks of intents the enforced policies allowed
+   */
+  newBlocks: number;
+  
+  /**
+   * Would-be blocks of intents the enforced policies also blocked
+   */
+  agreedBlocks: number;
+}
+
+/**
+ * Comparison of shadow and enforced outcomes over a session
+ */
+export interface ShadowReport {
+  /**
+   * Session start timestamp
+   */
+  startedAt: number;
+  
+  /**
+   * Report timestamp
+   */
+  generatedAt: number;
+  
+  /**
+   * Intents evaluated while shadow policies were registered
+   */
+  evaluations: number;
+  
+  /**
+   * Intents blocked by enforced policies
+   */
+  enforcedBlocks: number;
+  
+  /**
+   * Intents at least one shadow policy would have blocked
+   */
+  shadowBlocks: number;
+  
+  /**
+   * Allowed intents at least one shadow policy would have blocked
+   */
+  additionalBlocks: number;
+  
+  /**
+   * Outcomes by shadow policy
+   */
+  policies: ShadowPolicyReport[];
+}
+
+/**
+ * Result of replaying a recorded intent log against a policy set
+ */
+export interface ReplayReport {
+  /**
+   * Intents replayed
+   */
+  evaluations: number;
+  
+  /**
+   * Intents the replayed policies blocked
+   */
+  blocked: number;
+  
+  /**
+   * Intents allowed when recorded but blocked on replay
+   */
+  newlyBlocked: number;
+  
+  /**
+   * Intents blocked when recorded but allowed on replay
+   */
+  newlyAllowed: number;
+  
+  /**
+   * Outcome of each replayed intent, in log order
+   */
+  results: {
+    index: number;
+    agentId: string;
+    intentType: string;
+    recordedAllow: boolean;
+    replayedAllow: boolean;
+    escalated: boolean;
+    interventions: string[];
+    shadowInterventions: string[];
+  }[];
+  
+  /**
+   * Shadow outcomes of the replayed policies
+   */
+  shadow: ShadowReport;
+}
+
+/**
+ * Entry of the hash-chained ethics audit log
+ */
+export interface AuditEntry {
+  /**
+   * Position in the log, starting at 1
+   */
+  seq: number;
+  
+  /**
+   * Entry timestamp
+   */
+  timestamp: number;
+  
+  /**
+   * Recorded event: a policy intervention, a multi-agent consensus block or
+   * a decision on an escalated intent
+   */
+  kind: 'intervention' | 'consensus' | 'override';
+  
+  /**
+   * Agent that processed the intent
+   */
+  agentId: string;
+  
+  /**
+   * Policy (or policies) involved
+   */
+  policyName: string;
+  
+  /**
+   * Intent type
+   */
+  intentType: string;
+  
+  /**
+   * Intervention, consensus action or override decision
+   */
+  action: string;
+  
+  /**
+   * Symbolic violation code
+   */
+  symbolicViolationCode: ViolationCode;
+  
+  /**
+   * Kind-specific details (intervention id, warnings, reflection, who/why)
+   */
+  details: Record<string, any>;
+  
+  /**
+   * Hash of the previous entry (zeros for the first entry)
+   */
+  prevHash: string;
+  
+  /**
+   * SHA-256 hash of this entry's fields and the previous hash
+   */
+  hash: string;
+}
+
+/**
+ * Problem found while verifying an audit log
+ */
+export interface AuditIssue {
+  /**
+   * Line in the log file (1-based), when verifying a file
+   */
+  line?: number;
+  
+  /**
+   * Sequence number of the entry, when readable
+   */
+  seq?: number;
+  
+  /**
+   * Issue type
+   */
+  type: 'unreadable' | 'gap' | 'chain_break' | 'tampered';
+  
+  /**
+   * Issue description
+   */
+  message: string;
+}
+
+/**
+ * Result of verifying an audit log
+ */
+export interface AuditVerification {
+  /**
+   * Whether the chain is complete and unaltered
+   */
+  valid: boolean;
+  
+  /**
+   * Entries checked
+   */
+  entries: number;
+  
+  /**
+   * Hash of the last entry (the chain head)
+   */
+  headHash: string;
+  
+  /**
+   * Problems found, in log order
+   */
+  issues: AuditIssue[];
+}
+
+/**
+ * Outcome of a guardrail evaluation, as asserted by policy fixtures
+ */
+export type PolicyFixtureOutcome = 'allow' | 'warn' | 'block' | 'escalate';
+
+/**
+ * Intent with the guardrail outcome a policy set is expected to produce
+ */
+export interface PolicyFixture {
+  /**
+   * Fixture name (defaults to its position)
+   */
+  name?: string;
+  
+  /**
+   * Intent, or input text parsed into one
+   */
+  intent: Intent | string;
+  
+  /**
+   * Agent processing the intent (optional)
+   */
+  agent?: {
+    id?: string;
+    stage?: 'novice' | 'standard' | 'advanced' | 'emergent';
+    state?: Record<string, any>;
+  };
+  
+  /**
+   * Assessment scores overriding the ethical framework's (optional)
+   */
+  assessment?: {
+    overallScore?: number;
+    dimensions?: Record<string, number>;
+  };
+  
+  /**
+   * Expected outcome
+   */
+  expect: {
+    /**
+     * Expected outcome
+     */
+    outcome: PolicyFixtureOutcome;
+    
+    /**
+     * Violation codes of the enforced interventions, in any order (optional)
+     */
+    violationCodes?: ViolationCode[];
+    
+    /**
+     * Enforced policies that intervene, in any order (optional)
+     */
+    policies?: string[];
+  };
+}
+
+/**
+ * Policy fixture file contents
+ */
+export interface PolicyFixtureDocument {
+  /**
+   * Fixture file format version
+   */
+  version?: number;
+  
+  /**
+   * Policy files under test, relative to the fixture file (optional)
+   */
+  policies?: string[];
+  
+  /**
+   * Fixtures, in file order
+   */
+  fixtures: PolicyFixture[];
+}
+
+/**
+ * Result of evaluating one policy fixture
+ */
+export interface PolicyFixtureResult {
+  /**
+   * Position in the fixture list
+   */
+  index: number;
+  
+  /**
+   * Fixture name
+   */
+  name: string;
+  
+  /**
+   * Whether the actual outcome matched every expectation
+   */
+  passed: boolean;
+  
+  /**
+   * Expected outcome
+   */
+  expected: PolicyFixture['expect'];
+  
+  /**
+   * Actual outcome
+   */
+  actual: {
+    outcome: PolicyFixtureOutcome;
+    violationCodes: ViolationCode[];
+    policies: string[];
+    shadowPolicies: string[];
+    warnings: string[];
+  };
+  
+  /**
+   * Descriptions of the expectations that were not met
+   */
+  mismatches: string[];
+}
+
+/**
+ * Result of running policy fixtures against a policy set
+ */
+export interface PolicyTestReport {
+  /**
+   * Fixtures evaluated
+   */
+  total: number;
+  
+  /**
+   * Fixtures that passed
+   */
+  passed: number;
+  
+  /**
+   * Fixtures that failed
+   */
+  failed: number;
+  
+  /**
+   * Result of each fixture, in fixture order
+   */
+  results: PolicyFixtureResult[];
+  
+  /**
+   * Fixtures in which each policy intervened, in policy order
+   */
+  coverage: {
+    policyName: string;
+    mode: 'enforce' | 'shadow';
+    triggered: number;
+    fixtures: string[];
+  }[];
+  
+  /**
+   * Policies no fixture triggered
+   */
+  uncovered: string[];
+}
+
+/**
+ * Weighted terms indicating harm in one category
+ */
+export interface HarmLexicon {
+  /**
+   * Harm category (e.g. violence, self_harm)
+   */
+  category: string;
+  
+  /**
+   * Weight of terms that give none (0-1, default 0.5)
+   */
+  weight?: number;
+  
+  /**
+   * Terms or phrases, matched case-insensitively on word boundaries
+   */
+  terms: (string | { term: string; weight: number })[];
+}
+
+/**
+ * Regular expression indicating harm in one category
+ */
+export interface HarmRule {
+  /**
+   * Rule name
+   */
+  name: string;
+  
+  /**
+   * Harm category
+   */
+  category: string;
+  
+  /**
+   * Regular expression source, matched case-insensitively
+   */
+  pattern: string;
+  
+  /**
+   * Weight of a match (0-1)
+   */
+  weight: number;
+}
+
+/**
+ * Words near a match that scale its weight (e.g. "prevent", "fictional")
+ */
+export interface HarmContextModifier {
+  /**
+   * Term or phrase
+   */
+  term: string;
+  
+  /**
+   * Weight multiplier (0-1); 0 discounts the match entirely
+   */
+  factor: number;
+}
+
+/**
+ * Text span that contributed to a harm assessment
+ */
+export interface HarmMatch {
+  /**
+   * Harm category
+   */
+  category: string;
+  
+  /**
+   * Matched text
+   */
+  text: string;
+  
+  /**
+   * Start offset in the assessed text
+   */
+  start: number;
+  
+  /**
+   * End offset in the assessed text
+   */
+  end: number;
+  
+  /**
+   * Lexicon term or rule name that matched
+   */
+  source: string;
+  
+  /**
+   * Weight after context adjustments (0 when negated)
+   */
+  weight: number;
+  
+  /**
+   * Negation cue found in the context window (optional)
+   */
+  negatedBy?: string;
+  
+  /**
+   * Context modifiers found in the context window (optional)
+   */
+  modifiers?: string[];
+}
+
+/**
+ * Result of a harm assessment
+ */
+export interface HarmAssessment {
+  /**
+   * Highest category score (0-1)
+   */
+  harmScore: number;
+  
+  /**
+   * Score by category (0-1), for categories with matches
+   */
+  categories: Record<string, number>;
+  
+  /**
+   * Matched spans, in text order
+   */
+  matches: HarmMatch[];
+  
+  /**
+   * Threshold in effect
+   */
+  threshold: number;
+  
+  /**
+   * Whether the harm score reaches the threshold
+   */
+  exceedsThreshold: boolean;
+}
+
+/**
+ * Ethical feedback a connected agent gives on another agent's intent
+ */
+export interface EthicalFeedback {
+  /**
+   * Recommended action
+   */
+  recommendedAction: 'allow' | 'warn' | 'block';
+  
+  /**
+   * Reason for the recommendation
+   */
+  reason: string;
+  
+  /**
+   * Confidence in the recommendation (0-1)
+   */
+  confidence: number;
+}
+
+/**
+ * How a tie between the most supported actions is broken:
+ * - `strictest` — the strictest tied action
+ * - `most_trusted` — the tied action of the most trusted voter
+ * - `none` — a tie is no consensus
+ */
+export type ConsensusTieBreak = 'strictest' | 'most_trusted' | 'none';
+
+/**
+ * Source of the ground truth feedback is judged by
+ */
+export type GroundTruthSource = 'override' | 'harm_label';
+
+/**
+ * Trust-weighted consensus of connected agents on an intent
+ */
+export interface ConsensusResult {
+  /**
+   * Feedback round id, used to record ground truth
+   */
+  feedbackId: string;
+  
+  /**
+   * Agents that gave feedback
+   */
+  agentCount: number;
+  
+  /**
+   * Connected agents asked for feedback
+   */
+  eligibleAgents: number;
+  
+  /**
+   * Whether enough agents gave feedback
+   */
+  quorumMet: boolean;
+  
+  /**
+   * Whether the agents reached consensus
+   */
+  consensus: boolean;
+  
+  /**
+   * Agreed action
+   */
+  consensusAction: EthicalFeedback['recommendedAction'] | null;
+  
+  /**
+   * Reasons given for the agreed action
+   */
+  consensusReason: string | null;
+  
+  /**
+   * Share of the vote weight behind the agreed, or leading, action
+   */
+  consensusStrength: number;
+  
+  /**
+   * Vote weight (trust times confidence) by action
+   */
+  votes: Partial<Record<EthicalFeedback['recommendedAction'], number>>;
+  
+  /**
+   * Whether the tie-break policy decided the action
+   */
+  tieBroken: boolean;
+}
+
+/**
+ * Reliability of a connected agent's feedback over time
+ */
+export interface AgentReliability {
+  /**
+   * Agent id
+   */
+  agentId: string;
+  
+  /**
+   * Current trust level (0-1), the weight of the agent's votes
+   */
+  trustLevel: number;
+  
+  /**
+   * Share of judged feedback that ground truth confirmed
+   */
+  feedbackAccuracy: number;
+  
+  /**
+   * Feedback given
+   */
+  feedbackCount: number;
+  
+  /**
+   * Feedback judged by ground truth
+   */
+  resolvedCount: number;
+  
+  /**
+   * Trust and accuracy after each judgement, oldest first
+   */
+  history: {
+    timestamp: number;
+    feedbackId: string;
+    source: GroundTruthSource;
+    correct: boolean;
+    trustLevel: number;
+    feedbackAccuracy: number;
+  }[];
+}
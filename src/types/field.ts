@@ -1,4 +1,5 @@
-import { SymbolicMarker } from './symbolic';
+import { SymbolicMarker, SymbolicStateEntry } from './symbolic';
+import { Codex } from './codex';
 
 /**
  * Field impact from processing an intent
@@ -63,6 +64,45 @@ export interface InterferencePattern {
    * Overall phase relationship
    */
   phase: 'resonant' | 'dissonant' | 'neutral';
+  
+  /**
+   * Signed net interference, -1 (destructive) to 1 (constructive) (optional)
+   */
+  netInterference?: number;
+  
+  /**
+   * Contributions to net interference, each -1 to 1 (optional)
+   */
+  components?: {
+    harmonic: number | null;
+    intent: number | null;
+    symbolic: number | null;
+  };
+  
+  /**
+   * Interference with the other agents sharing the field (optional)
+   */
+  agentInterference?: AgentInterference[];
+}
+
+/**
+ * Interference between an agent and another agent in the same field
+ */
+export interface AgentInterference {
+  /**
+   * The other agent's identifier
+   */
+  agentId: string;
+  
+  /**
+   * Signed interference, -1 (destructive) to 1 (constructive)
+   */
+  value: number;
+  
+  /**
+   * Interference classification
+   */
+  type: 'constructive' | 'destructive' | 'neutral';
 }
 
 /**
@@ -114,3 +154,156 @@ export interface ResonanceHistory {
    */
   symbolicMarkers: SymbolicMarker[];
 }
+
+/**
+ * Serializable dynamic state of a coherence field
+ */
+export interface CoherenceFieldState extends FieldState {
+  /**
+   * Baseline coherence the field relaxes toward
+   */
+  baselineCoherence: number;
+  
+  /**
+   * Baseline dissonance the field relaxes toward
+   */
+  baselineDissonance: number;
+  
+  /**
+   * Decay rate per tick
+   */
+  decayRate: number;
+  
+  /**
+   * Generator seed
+   */
+  seed: number;
+  
+  /**
+   * Generator position
+   */
+  rngState: number;
+  
+  /**
+   * Ticks elapsed since initialization
+   */
+  tick: number;
+}
+
+/**
+ * Versioned, JSON-serializable checkpoint of an intent field
+ */
+export interface FieldCheckpoint {
+  /**
+   * Schema identifier
+   */
+  schema: 'intentsim.field-checkpoint';
+  
+  /**
+   * Schema version
+   */
+  version: number;
+  
+  /**
+   * Checkpoint creation timestamp
+   */
+  createdAt: number;
+  
+  /**
+   * Field decay rate
+   */
+  fieldDecayRate: number;
+  
+  /**
+   * Coherence field state
+   */
+  coherence: CoherenceFieldState;
+  
+  /**
+   * Resonance history
+   */
+  resonanceHistory: ResonanceHistory[];
+  
+  /**
+   * Recorded field states
+   */
+  fieldStates: { timestamp: number; state: FieldState }[];
+  
+  /**
+   * Symbolic state signature entries
+   */
+  symbolicStateSignature: [string, SymbolicStateEntry][];
+  
+  /**
+   * Temporal harmonic patterns
+   */
+  harmonicPatterns: Record<string, any>;
+  
+  /**
+   * Oscillatory buffer with its harmonic map as entries
+   */
+  oscillatoryBuffer: {
+    active: boolean;
+    frequency: number;
+    amplitude: number;
+    phase: number;
+    stabilizationFactor: number;
+    harmonicMap: [string, number][];
+  };
+  
+  /**
+   * Field narrative context
+   */
+  narrativeContext: any[];
+  
+  /**
+   * Intent counts and symbol strengths per agent (optional). Agents are not
+   * checkpointed; re-attaching them rebuilds the interference matrix from
+   * this activity.
+   */
+  agentActivity?: [string, { intentCounts: Record<string, number>; symbols: Record<string, number> }][];
+  
+  /**
+   * Codex applied to the field (optional)
+   */
+  codex?: Codex | null;
+}
+
+/**
+ * Structural difference between two field checkpoints
+ */
+export interface FieldCheckpointDiff {
+  /**
+   * Coherence change
+   */
+  coherence: { before: number; after: number; delta: number };
+  
+  /**
+   * Dissonance change
+   */
+  dissonance: { before: number; after: number; delta: number };
+  
+  /**
+   * Ticks elapsed between checkpoints
+   */
+  ticksElapsed: number;
+  
+  /**
+   * Symbolic signature changes
+   */
+  symbols: {
+    added: string[];
+    removed: string[];
+    changed: { symbol: string; before: number; after: number; trend: string }[];
+  };
+  
+  /**
+   * Number of resonance history entries recorded after the first checkpoint
+   */
+  resonanceEntriesAdded: number;
+  
+  /**
+   * Oscillatory buffer activation change
+   */
+  oscillatoryBuffer: { before: boolean; after: boolean };
+}
@@ -26,4 +26,195 @@ export interface Intent {
    * Intent metadata (optional)
    */
   metadata?: Record<string, any>;
+  
+  /**
+   * Extracted entities (optional)
+   */
+  entities?: IntentEntity[];
+  
+  /**
+   * Extracted sentiment (optional)
+   */
+  sentiment?: IntentSentiment;
+  
+  /**
+   * Parser confidence (0-1, optional)
+   */
+  confidence?: number;
+  
+  /**
+   * Constraints the response must respect (optional)
+   */
+  constraints?: IntentConstraint[];
+}
+
+/**
+ * Constraint attached to an intent that the response generator must respect
+ */
+export interface IntentConstraint {
+  /**
+   * Constraint type:
+   * - `max_length` — response is cut to `value` characters
+   * - `exclude` — text matching the pattern(s) in `value` is redacted
+   * - `no_echo` — the intent text is not quoted (`value` replaces it)
+   * - `disclaimer` — the text in `value` is appended
+   */
+  type: 'max_length' | 'exclude' | 'no_echo' | 'disclaimer';
+  
+  /**
+   * Constraint value
+   */
+  value?: any;
+  
+  /**
+   * Policy that attached the constraint (optional)
+   */
+  source?: string;
+}
+
+/**
+ * Entity extracted from intent text
+ */
+export interface IntentEntity {
+  /**
+   * Entity type
+   */
+  type: string;
+  
+  /**
+   * Matched value
+   */
+  value: string;
+  
+  /**
+   * Start offset in the text
+   */
+  start: number;
+  
+  /**
+   * End offset in the text (exclusive)
+   */
+  end: number;
+}
+
+/**
+ * Sentiment extracted from intent text
+ */
+export interface IntentSentiment {
+  /**
+   * Sentiment score (-1 to 1)
+   */
+  score: number;
+  
+  /**
+   * Sentiment label
+   */
+  label: 'positive' | 'negative' | 'neutral';
+}
+
+/**
+ * Parser converting raw input into a structured intent
+ */
+export interface IntentParser {
+  /**
+   * Parser name (recorded in intent metadata)
+   */
+  readonly name: string;
+  
+  /**
+   * Parses raw input into an intent
+   */
+  parse(input: string | Intent): Promise<Intent>;
+}
+
+/**
+ * Classifier function adapted into an intent parser
+ */
+export type IntentClassifier = (
+  text: string,
+  input: string | Intent
+) => Partial<Intent> | Promise<Partial<Intent>>;
+
+/**
+ * Intent rule within a parser grammar
+ */
+export interface IntentGrammarRule {
+  /**
+   * Intent type produced by this rule
+   */
+  type: string;
+  
+  /**
+   * Intent subtype produced by this rule (optional)
+   */
+  subtype?: string;
+  
+  /**
+   * Keywords or phrases that trigger the rule
+   */
+  patterns?: string[];
+  
+  /**
+   * Regular expression sources that trigger the rule
+   */
+  regex?: string[];
+  
+  /**
+   * Score contributed by each match (default 1)
+   */
+  weight?: number;
+}
+
+/**
+ * Entity definition within a parser grammar
+ */
+export interface IntentGrammarEntity {
+  /**
+   * Entity type
+   */
+  type: string;
+  
+  /**
+   * Literal values to match
+   */
+  values?: string[];
+  
+  /**
+   * Regular expression source to match
+   */
+  regex?: string;
+}
+
+/**
+ * Grammar/lexicon file consumed by the rule-based intent parser
+ */
+export interface IntentGrammar {
+  /**
+   * Grammar format version
+   */
+  version: number;
+  
+  /**
+   * Intent type used when no rule matches
+   */
+  defaultType?: string;
+  
+  /**
+   * Intent rules
+   */
+  intents: IntentGrammarRule[];
+  
+  /**
+   * Entity definitions
+   */
+  entities?: IntentGrammarEntity[];
+  
+  /**
+   * Sentiment lexicon
+   */
+  sentiment?: {
+    positive?: string[];
+    negative?: string[];
+    negators?: string[];
+  };
 }
@@ -0,0 +1,62 @@
+import { Intent } from './intent';
+import { SymbolicMarker } from './symbolic';
+
+/**
+ * Stored interaction record in field memory
+ */
+export interface MemoryRecord {
+  /**
+   * Sequential record identifier
+   */
+  id: number;
+
+  /**
+   * Storage timestamp
+   */
+  timestamp: number;
+
+  /**
+   * Intent signature (type:subtype)
+   */
+  signature: string;
+
+  /**
+   * Symbolic markers associated with the intent
+   */
+  symbols: SymbolicMarker[];
+
+  /**
+   * The stored intent
+   */
+  intent: Intent;
+
+  /**
+   * Remaining interaction payload
+   */
+  data: Record<string, any>;
+}
+
+/**
+ * Memory record returned from similarity retrieval
+ */
+export interface RetrievedMemory extends MemoryRecord {
+  /**
+   * Similarity to the query intent (0-1)
+   */
+  similarity: number;
+}
+
+/**
+ * Storage backend for field memory
+ */
+export interface MemoryBackend {
+  /**
+   * Loads previously persisted records
+   */
+  load(): MemoryRecord[];
+
+  /**
+   * Persists a new record
+   */
+  append(record: MemoryRecord): Promise<void>;
+}
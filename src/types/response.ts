@@ -0,0 +1,163 @@
+import { Intent } from './intent';
+import { EthicalAssessment } from './ethics';
+import { RetrievedMemory } from './memory';
+
+/**
+ * Conditions restricting when a response template applies
+ */
+export interface ResponseTemplateConditions {
+  /**
+   * Emotional states in which the template applies
+   */
+  emotionalState?: string[];
+
+  /**
+   * Minimum agent coherence
+   */
+  minCoherence?: number;
+
+  /**
+   * Maximum agent coherence
+   */
+  maxCoherence?: number;
+
+  /**
+   * Whether ethical warnings must (or must not) be present
+   */
+  hasWarnings?: boolean;
+
+  /**
+   * Whether retrieved memories must (or must not) be present
+   */
+  hasMemories?: boolean;
+
+  /**
+   * Sentiment labels in which the template applies
+   */
+  sentiment?: string[];
+}
+
+/**
+ * Response template for an intent type
+ */
+export interface ResponseTemplate {
+  /**
+   * Template identifier
+   */
+  id: string;
+
+  /**
+   * Intent type handled ('*' matches any type)
+   */
+  intentType: string;
+
+  /**
+   * Intent subtype handled (optional)
+   */
+  subtype?: string;
+
+  /**
+   * Template text with `{{path}}` or `{{path|fallback}}` slots
+   */
+  text: string;
+
+  /**
+   * Additional selection conditions (optional)
+   */
+  when?: ResponseTemplateConditions;
+
+  /**
+   * Tie-breaking priority (higher wins, default 0)
+   */
+  priority?: number;
+}
+
+/**
+ * Inputs available to response templates
+ */
+export interface ResponseContext {
+  /**
+   * Parsed intent
+   */
+  intent: Intent;
+
+  /**
+   * Retrieved memories
+   */
+  memories: RetrievedMemory[];
+
+  /**
+   * Ethical assessment (optional)
+   */
+  assessment?: EthicalAssessment | null;
+
+  /**
+   * Ethical warnings
+   */
+  warnings: string[];
+
+  /**
+   * Agent state
+   */
+  state: Record<string, any>;
+}
+
+/**
+ * Response produced by the template generator
+ */
+export interface GeneratedResponse {
+  /**
+   * Rendered response text
+   */
+  text: string;
+
+  /**
+   * Generation metadata
+   */
+  metadata: {
+    /**
+     * Identifier of the template that fired
+     */
+    templateId: string;
+
+    /**
+     * Slots that could not be resolved
+     */
+    unresolvedSlots: string[];
+
+    /**
+     * Intent constraints applied to the text (present when the intent has constraints)
+     */
+    appliedConstraints?: string[];
+  };
+}
+
+/**
+ * Log entry recorded each time a template fires
+ */
+export interface TemplateSelectionLog {
+  /**
+   * Selection timestamp
+   */
+  timestamp: number;
+
+  /**
+   * Intent type
+   */
+  intentType: string;
+
+  /**
+   * Intent subtype
+   */
+  subtype?: string;
+
+  /**
+   * Identifier of the template that fired
+   */
+  templateId: string;
+
+  /**
+   * Number of templates that matched
+   */
+  candidates: number;
+}
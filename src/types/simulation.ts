@@ -0,0 +1,105 @@
+import { Intent } from './intent';
+import { FieldState, InterferencePattern } from './field';
+
+/**
+ * Scheduling mode for a field simulation
+ */
+export type SimulationMode = 'turns' | 'concurrent';
+
+/**
+ * Input supplied to agents for a tick: a fixed map by agent id, or a
+ * function returning the input for an agent (null to stay idle)
+ */
+export type SimulationInputs =
+  Record<string, string | Intent> |
+  ((agent: any, tick: number) => string | Intent | null | undefined);
+
+/**
+ * Outcome of a single agent action within a tick
+ */
+export interface SimulationAgentResult {
+  /**
+   * Agent identifier
+   */
+  agentId: string;
+
+  /**
+   * Input processed
+   */
+  input: string | Intent;
+
+  /**
+   * Agent coherence after processing
+   */
+  coherence: number;
+
+  /**
+   * Agent dissonance after processing
+   */
+  dissonance: number;
+
+  /**
+   * Agent emotional state after processing
+   */
+  emotionalState: string;
+
+  /**
+   * Whether guardrails blocked the input
+   */
+  blocked: boolean;
+
+  /**
+   * Processing error message (if any)
+   */
+  error?: string;
+}
+
+/**
+ * Pairwise interference entry between two agents
+ */
+export interface PairwiseInterference {
+  /**
+   * Agent identifiers of the pair
+   */
+  agents: [string, string];
+
+  /**
+   * Interference pattern for the pair
+   */
+  pattern: InterferencePattern;
+}
+
+/**
+ * Timeline entry recorded after each simulation tick
+ */
+export interface SimulationTick {
+  /**
+   * Tick number (starting at 1)
+   */
+  tick: number;
+
+  /**
+   * Recording timestamp
+   */
+  timestamp: number;
+
+  /**
+   * Scheduling mode used for the tick
+   */
+  mode: SimulationMode;
+
+  /**
+   * Shared field state after the tick
+   */
+  field: FieldState;
+
+  /**
+   * Results of the agents that acted during the tick
+   */
+  agents: SimulationAgentResult[];
+
+  /**
+   * Pairwise interference between all attached agents
+   */
+  interference: PairwiseInterference[];
+}
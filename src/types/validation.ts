@@ -0,0 +1,166 @@
+import { TrustedCodexKey } from './codex';
+
+/**
+ * Codex validation check identifiers
+ */
+export type CodexCheckName = 'parse' | 'signature' | 'hash' | 'fieldAlignment' | 'ethicalBoundaries';
+
+/**
+ * Outcome of one validation check
+ */
+export interface CodexCheckResult {
+  /**
+   * Check identifier
+   */
+  name: CodexCheckName;
+
+  /**
+   * Whether the check passed
+   */
+  valid: boolean;
+
+  /**
+   * Whether the check was skipped for lack of input
+   */
+  skipped: boolean;
+
+  /**
+   * Check messages
+   */
+  messages: string[];
+
+  /**
+   * Codex line the check relates to (1-based, optional)
+   */
+  line?: number;
+}
+
+/**
+ * Result of validating a codex
+ */
+export interface ValidationResult {
+  /**
+   * Whether every check passed
+   */
+  valid: boolean;
+
+  /**
+   * Messages from every check followed by a summary
+   */
+  messages: string[];
+
+  /**
+   * Per-check outcomes (optional)
+   */
+  checks?: CodexCheckResult[];
+
+  /**
+   * Check details by section
+   */
+  details?: Record<string, any>;
+}
+
+/**
+ * Codex validation options
+ */
+export interface CodexValidationOptions {
+  /**
+   * Codex file to validate
+   */
+  codexPath: string;
+
+  /**
+   * Agent vector file (JSON array) for the field alignment check
+   */
+  agentVectorPath?: string;
+
+  /**
+   * Ethical boundaries the codex must declare
+   */
+  requiredEthicalBoundaries?: string[];
+
+  /**
+   * Fail checks that would otherwise be skipped
+   */
+  strictMode?: boolean;
+
+  /**
+   * Security level selecting the alignment threshold
+   */
+  securityLevel?: 'low' | 'medium' | 'high';
+
+  /**
+   * Keys trusted to sign codices
+   */
+  trustedKeys?: TrustedCodexKey[];
+
+  /**
+   * Trusted key list file
+   */
+  trustedKeysPath?: string;
+
+  /**
+   * Detached signature file (defaults to `<codex>.sig` when present)
+   */
+  signaturePath?: string;
+}
+
+/**
+ * Validation result for one codex in a batch
+ */
+export interface CodexFileValidation {
+  /**
+   * Codex file path
+   */
+  codexPath: string;
+
+  /**
+   * Validation result
+   */
+  result: ValidationResult;
+
+  /**
+   * Validation time in milliseconds
+   */
+  durationMs: number;
+}
+
+/**
+ * Aggregated result of validating several codices
+ */
+export interface BatchValidationResult {
+  /**
+   * Whether every codex passed
+   */
+  valid: boolean;
+
+  /**
+   * Number of codices validated
+   */
+  total: number;
+
+  /**
+   * Number of codices that passed
+   */
+  passed: number;
+
+  /**
+   * Number of codices that failed
+   */
+  failed: number;
+
+  /**
+   * Per-codex results, in path order
+   */
+  results: CodexFileValidation[];
+
+  /**
+   * Validation start timestamp (ISO 8601)
+   */
+  startedAt: string;
+
+  /**
+   * Total validation time in milliseconds
+   */
+  durationMs: number;
+}
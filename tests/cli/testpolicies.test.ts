@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+
+const root = path.resolve(__dirname, '../..');
+
+const testPolicies = (...args: string[]) => spawnSync(
+  process.execPath,
+  ['-r', 'ts-node/register/transpile-only', 'src/cli/testpolicies.ts', ...args],
+  { cwd: root, encoding: 'utf8' }
+);
+
+describe('test-policies CLI', () => {
+  it('runs fixture files and exits with their outcome', () => {
+    const passed = testPolicies('src/security/policies/securityguardian.fixtures.yaml');
+    expect(passed.stdout).toContain('Policy fixtures: 3/3 passed');
+    expect(passed.status).toBe(0);
+
+    const missing = testPolicies('missing.fixtures.yaml');
+    expect(missing.stderr).toContain('Error:');
+    expect(missing.status).toBe(1);
+  }, 60000);
+});
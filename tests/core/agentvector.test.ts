@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildAgentVector,
+  checkAgentAlignment,
+  exportAgentVector,
+  getAgentVectorComponents
+} from '../../src/core/agentvector';
+import { parseCodex } from '../../src/core/codexloader';
+import { IntentAgent } from '../../src/core/intentagent';
+
+const codexWithVector = (vector: number[]) => parseCodex(`## METADATA
+CODEX_VERSION: 1.0.0
+CODEX_NAME: Alignment Codex
+
+## FIELD DEFINITION
+FIELD_VECTOR: [${vector.join(', ')}]
+`);
+
+describe('Agent vectors', () => {
+  it('lays out identity, traits, inheritance weights and harmonics in a stable order', () => {
+    const agent = new IntentAgent({ id: 'vector' });
+    const names = getAgentVectorComponents(agent).map(component => component.name);
+
+    expect(names.slice(0, 5)).toEqual([
+      'identity.autonomy', 'identity.creativity', 'identity.empathy', 'identity.precision', 'identity.wisdom'
+    ]);
+    expect(names).toContain('trait.curiosity');
+    expect(names).toContain('inheritance.reflection');
+    expect(names).toContain('harmonic.node.empathy');
+    expect(getAgentVectorComponents(new IntentAgent({ id: 'other' })).map(c => c.name)).toEqual(names);
+  });
+
+  it('builds fixed-dimension vectors by folding or padding components', () => {
+    const agent = new IntentAgent({ id: 'vector' });
+    const components = getAgentVectorComponents(agent);
+    const total = components.reduce((sum, component) => sum + component.value, 0);
+
+    expect(buildAgentVector(agent)).toEqual(components.map(component => component.value));
+    expect(buildAgentVector(agent, 8)).toHaveLength(8);
+    expect(buildAgentVector(agent, 8).reduce((sum, value) => sum + value, 0)).toBeCloseTo(total, 10);
+    expect(buildAgentVector(agent, 64).slice(components.length).every(value => value === 0)).toBe(true);
+    expect(() => buildAgentVector(agent, 0)).toThrow('positive integer');
+  });
+
+  it('exports vectors in the validator format', async () => {
+    const agent = new IntentAgent({ id: 'vector' });
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'agent-vector-')), 'vector.json');
+
+    const vector = await exportAgentVector(agent, file, 12);
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(vector);
+  });
+
+  it('checks an agent against a codex without files', () => {
+    const agent = new IntentAgent({ id: 'vector' });
+    const own = buildAgentVector(agent, 16);
+    const opposite = own.map(value => -value);
+
+    const aligned = checkAgentAlignment(agent, codexWithVector(own), { securityLevel: 'high' });
+    expect(aligned).toMatchObject({ aligned: true, threshold: 0.95, dimensions: 16 });
+    expect(aligned.similarity).toBeCloseTo(1, 10);
+
+    const misaligned = checkAgentAlignment(agent, codexWithVector(opposite));
+    expect(misaligned).toMatchObject({ aligned: false, threshold: 0.85 });
+    expect(misaligned.reason).toContain('below threshold');
+  });
+
+  it('checks alignment at activation and can refuse to activate', () => {
+    const reference = new IntentAgent({ id: 'reference' });
+    const codex = codexWithVector(buildAgentVector(reference, 16));
+
+    const agent = new IntentAgent({ id: 'aligned', codexAlignment: { securityLevel: 'high' } });
+    const events: any[] = [];
+    agent.on('codex_alignment', (event: any) => events.push(event));
+    agent.field.applyCodex(codex);
+    agent.activate();
+
+    expect(agent.codexAlignment?.aligned).toBe(true);
+    expect(events[0]).toMatchObject({ agent: 'aligned', codex: 'Alignment Codex', aligned: true });
+
+    const strict = new IntentAgent({ id: 'strict', codexAlignment: { threshold: 1.01, enforce: true } });
+    strict.field.applyCodex(codex);
+    expect(() => strict.activate()).toThrow('not aligned with its codex');
+    expect(strict.state.active).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCodex, formatCodex, computeCodexHash, canonicalCodexText, CodexParseError } from '../../src/core/codexloader';
+import { IntentField } from '../../src/core/intentfield';
+import { IntentAgent } from '../../src/core/intentagent';
+
+const codexText = `# Test Codex
+
+## METADATA
+CODEX_VERSION: 1.0.0
+CODEX_NAME: Test Codex
+INTEGRITY_HASH:
+
+## FIELD DEFINITION
+FIELD_VECTOR: [0.1, 0.2, 0.3]
+FIELD_DIMENSIONS: 3
+COHERENCE_THRESHOLD: 0.75
+
+## ETHICAL BOUNDARIES
+ETHICAL_BOUNDARY_1: autonomy | Respect user agency
+ETHICAL_BOUNDARY_2: care
+
+## SYMBOL LEXICON
+SYMBOL: sovereignty | strength=0.6 | patterns=sovereign,independent | coherence=0.05
+
+## POLICIES
+POLICY: {"name": "codex-watch", "conditions": {}, "actions": [{"type": "log"}]}
+
+## GUIDELINES
+1. Maintain field coherence
+`;
+
+describe('Codex format', () => {
+  it('parses every section of a codex', () => {
+    const codex = parseCodex(codexText);
+
+    expect(codex.metadata).toMatchObject({ version: '1.0.0', name: 'Test Codex', integrityHash: null });
+    expect(codex.field).toMatchObject({ vector: [0.1, 0.2, 0.3], dimensions: 3, coherenceThreshold: 0.75 });
+    expect(codex.ethicalBoundaries).toEqual([
+      { id: 'ETHICAL_BOUNDARY_1', name: 'autonomy', description: 'Respect user agency' },
+      { id: 'ETHICAL_BOUNDARY_2', name: 'care' }
+    ]);
+    expect(codex.symbols).toEqual([
+      { symbol: 'sovereignty', strength: 0.6, patterns: ['sovereign', 'independent'], coherence: 0.05 }
+    ]);
+    expect(codex.policies[0].name).toBe('codex-watch');
+    expect(codex.sections.GUIDELINES).toEqual(['1. Maintain field coherence']);
+  });
+
+  it('reports every problem with its line number', () => {
+    const broken = codexText
+      .replace('FIELD_DIMENSIONS: 3', 'FIELD_DIMENSIONS: 4')
+      .replace('strength=0.6', 'strength=high')
+      .replace('POLICY: {"name"', 'POLICY: {name');
+
+    try {
+      parseCodex(broken, 'broken.codex');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CodexParseError);
+      expect((error as CodexParseError).issues.map(issue => issue.line)).toEqual([10, 18, 21]);
+      expect((error as Error).message).toContain('Invalid codex broken.codex:\n  line 10: FIELD_DIMENSIONS is 4');
+    }
+  });
+
+  it('formats codices that parse back identically with a stable hash', () => {
+    const codex = parseCodex(codexText);
+    const formatted = formatCodex(codex);
+
+    expect(parseCodex(formatted)).toEqual(codex);
+    expect(computeCodexHash(formatted.replace('INTEGRITY_HASH:', `INTEGRITY_HASH: ${'a'.repeat(64)}`)))
+      .toBe(computeCodexHash(formatted));
+  });
+
+  it('only blanks the INTEGRITY_HASH metadata line', () => {
+    const unhashed = codexText
+      .replace('INTEGRITY_HASH:\n', '')
+      .replace('Respect user agency', 'Never trust INTEGRITY_HASH: values copied from mail');
+
+    expect(canonicalCodexText(unhashed)).toBe(unhashed);
+    expect(computeCodexHash(unhashed.replace('copied from mail', 'found online')))
+      .not.toBe(computeCodexHash(unhashed));
+  });
+});
+
+describe('IntentField codex loading', () => {
+  it('configures lexicon symbols and agent policies from a codex file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codex-'));
+    const codexPath = path.join(dir, 'field.codex');
+    fs.writeFileSync(codexPath, codexText);
+
+    const field = new IntentField({ codexParams: { path: codexPath } }).initialize();
+
+    expect(field.getActiveCodex()?.metadata.name).toBe('Test Codex');
+    expect(field.fieldSnapshot().symbolicSignature.map(([symbol]: [string]) => symbol)).toContain('sovereignty');
+
+    const agent = new IntentAgent({ id: 'codex-agent', codexParams: { path: codexPath } });
+    agent.activate();
+    await agent.process('help me stay independent');
+
+    expect(agent.guardrails.policies.map(p => p.name)).toEqual(['codex-watch']);
+    expect(agent.field.memory.getWorkingMemory().dominantSymbols.map(s => s.symbol)).toContain('sovereignty');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { computeCodexHash, parseCodex } from '../../src/core/codexloader';
+import {
+  createDetachedSignature,
+  generateCodexKeyPair,
+  parseTrustedKeys,
+  signCodex,
+  verifyCodexSignature
+} from '../../src/core/codexsigning';
+
+const codexText = `# Signed Codex
+
+## METADATA
+CODEX_VERSION: 1.0.0
+CODEX_NAME: Signed Codex
+INTEGRITY_HASH:
+
+## ETHICAL BOUNDARIES
+ETHICAL_BOUNDARY_1: autonomy
+ETHICAL_BOUNDARY_2: care
+`;
+
+describe('Codex signing', () => {
+  const council = generateCodexKeyPair();
+  const intruder = generateCodexKeyPair();
+  const trusted = [{ id: 'council', owner: 'Ethics Council', publicKey: council.publicKey }];
+
+  it('embeds a signature that names the signer', () => {
+    const signed = signCodex(codexText, council.privateKey, 'council');
+    const metadata = parseCodex(signed).metadata;
+
+    expect(metadata.signer).toBe('council');
+    expect(metadata.signature).toMatch(/^[A-Za-z0-9+/]+={0,2}$/);
+    expect(verifyCodexSignature(signed, trusted)).toEqual({
+      signed: true,
+      valid: true,
+      mode: 'embedded',
+      signer: 'council',
+      owner: 'Ethics Council'
+    });
+  });
+
+  it('rejects edited content, swapped signers and untrusted keys', () => {
+    const signed = signCodex(codexText, council.privateKey, 'council');
+
+    const edited = verifyCodexSignature(signed.replace('ETHICAL_BOUNDARY_2: care\n', ''), trusted);
+    expect(edited).toMatchObject({ signed: true, valid: false });
+    expect(edited.reason).toContain('does not match');
+
+    const forged = signCodex(codexText, intruder.privateKey, 'council');
+    expect(verifyCodexSignature(forged, trusted).valid).toBe(false);
+
+    const unknown = verifyCodexSignature(signCodex(codexText, intruder.privateKey, 'intruder'), trusted);
+    expect(unknown).toMatchObject({ valid: false, signer: 'intruder', reason: 'signer "intruder" is not trusted' });
+
+    expect(verifyCodexSignature(codexText, trusted)).toMatchObject({ signed: false, valid: false, mode: null });
+  });
+
+  it('keeps an embedded integrity hash consistent with the signature', () => {
+    const hashed = codexText.replace('INTEGRITY_HASH:', `INTEGRITY_HASH: ${computeCodexHash(codexText)}`);
+    const signed = signCodex(hashed, council.privateKey, 'council');
+
+    expect(parseCodex(signed).metadata.integrityHash).toBe(computeCodexHash(signed));
+    expect(verifyCodexSignature(signed, trusted).valid).toBe(true);
+
+    const noted = `# Never copy an INTEGRITY_HASH: value by hand\n${hashed}`;
+    const signedNoted = signCodex(noted, council.privateKey, 'council');
+    expect(signedNoted.split('\n')[0]).toBe('# Never copy an INTEGRITY_HASH: value by hand');
+    expect(parseCodex(signedNoted).metadata.integrityHash).toBe(computeCodexHash(signedNoted));
+  });
+
+  it('verifies detached signatures without changing the codex', () => {
+    const detached = createDetachedSignature(codexText, council.privateKey, 'council');
+
+    expect(detached).toMatchObject({ algorithm: 'ed25519', signer: 'council', contentHash: computeCodexHash(codexText) });
+    expect(verifyCodexSignature(codexText, trusted, detached)).toMatchObject({ valid: true, mode: 'detached' });
+    expect(verifyCodexSignature(`${codexText}\n# edited\n`, trusted, detached).valid).toBe(false);
+  });
+
+  it('parses trusted key lists and rejects keys that are not Ed25519', () => {
+    const list = JSON.stringify({ keys: trusted });
+    expect(parseTrustedKeys(list)).toEqual(trusted);
+    expect(parseTrustedKeys(JSON.stringify(trusted))).toEqual(trusted);
+
+    expect(() => parseTrustedKeys(JSON.stringify([trusted[0], trusted[0]]))).toThrow('duplicate key id "council"');
+    expect(() => parseTrustedKeys(JSON.stringify([{ id: 'x', publicKey: 'not a key' }]), 'keys.json'))
+      .toThrow(/Invalid trusted key list in keys\.json: keys\[0\]/);
+  });
+});
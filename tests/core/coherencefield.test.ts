@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { CoherenceField } from '../../src/core/coherencefield';
+
+describe('CoherenceField', () => {
+  it('produces identical trajectories for the same seed', () => {
+    const run = (seed: number) => {
+      const field = new CoherenceField({ seed });
+      field.initialize();
+      return ['assistance', 'creation', 'conflict', 'general'].map(type =>
+        field.calculateImpact({ type }, undefined, [{ symbol: 'harmony', strength: 0.5 }])
+      );
+    };
+
+    expect(run(7)).toEqual(run(7));
+    expect(run(7)).not.toEqual(run(8));
+  });
+
+  it('raises dissonance under ethical pressure', () => {
+    const calm = new CoherenceField({ noiseAmplitude: 0 });
+    const pressured = new CoherenceField({ noiseAmplitude: 0 });
+
+    const calmImpact = calm.calculateImpact({ type: 'general' });
+    const pressuredImpact = pressured.calculateImpact(
+      { type: 'general' },
+      { dimensions: { harm: 0.9 }, violations: ['harm_potential'] }
+    );
+
+    expect(pressuredImpact.dissonanceDelta).toBeGreaterThan(calmImpact.dissonanceDelta);
+    expect(pressuredImpact.coherenceDelta).toBeLessThan(calmImpact.coherenceDelta);
+  });
+
+  it('keeps levels within bounds and decays toward baseline', () => {
+    const field = new CoherenceField({ decayRate: 0.1, noiseAmplitude: 0 });
+
+    for (let i = 0; i < 50; i++) {
+      field.calculateImpact({ type: 'conflict' }, { dimensions: { harm: 1 } });
+    }
+
+    const stressed = field.getState();
+    expect(stressed.dissonance).toBeLessThanOrEqual(1);
+    expect(stressed.coherence).toBeGreaterThanOrEqual(0);
+
+    const relaxed = field.decay(20);
+    expect(relaxed.dissonance).toBeLessThan(stressed.dissonance);
+    expect(relaxed.coherence).toBeGreaterThan(stressed.coherence);
+  });
+
+  it('treats intent types and symbols named after object properties as unweighted', () => {
+    const impact = (type: string, symbol: string) =>
+      new CoherenceField({ noiseAmplitude: 0 }).calculateImpact({ type }, undefined, [{ symbol, strength: 1 }]);
+
+    const inherited = impact('constructor', 'toString');
+    expect(Number.isFinite(inherited.coherenceDelta)).toBe(true);
+    expect(Number.isFinite(inherited.dissonanceDelta)).toBe(true);
+    expect(inherited).toEqual(impact('unknown', 'unknown'));
+  });
+});
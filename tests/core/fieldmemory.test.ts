@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FieldMemory } from '../../src/core/fieldmemory';
+
+describe('FieldMemory', () => {
+  it('retrieves the most similar past interactions first', async () => {
+    const memory = new FieldMemory();
+    await memory.store({ intent: { type: 'creation', subtype: 'story' }, response: 'a' });
+    await memory.store({ intent: { type: 'analysis' }, response: 'b' });
+    await memory.store({ intent: { type: 'creation', subtype: 'poem' }, response: 'c' });
+
+    const results = memory.retrieve({ type: 'creation', subtype: 'story' }, 2);
+
+    expect(results.map(r => r.data.response)).toEqual(['a', 'c']);
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+  });
+
+  it('serves recent intents and working memory from stored records', async () => {
+    const memory = new FieldMemory({ maxRecords: 2 });
+    for (const type of ['assistance', 'explanation', 'creation']) {
+      await memory.store({ intent: { type } });
+    }
+
+    expect(memory.retrieveRecentIntents(5).map(i => i.type)).toEqual(['explanation', 'creation']);
+    expect(memory.getWorkingMemory().activeSignatures).toEqual({
+      'explanation:general': 1,
+      'creation:general': 1
+    });
+  });
+
+  it('reloads records appended to a file backend', async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'intentsim-')), 'memory.jsonl');
+    const memory = new FieldMemory({ filePath });
+    await memory.store({ intent: { type: 'assistance', text: 'help' } });
+    await memory.store({ intent: { type: 'creation' } });
+    fs.appendFileSync(filePath, '{"id": 3, "trunc');
+
+    const reloaded = new FieldMemory({ filePath });
+
+    expect(reloaded.retrieveRecentIntents(5).map(i => i.type)).toEqual(['assistance', 'creation']);
+    expect(reloaded.retrieve({ type: 'assistance' })[0].intent.text).toBe('help');
+  });
+
+  it('keeps records appended after a truncated final line', async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'intentsim-')), 'memory.jsonl');
+    const memory = new FieldMemory({ filePath });
+    await memory.store({ intent: { type: 'assistance' } });
+    fs.appendFileSync(filePath, '{"id": 2, "timest');
+
+    const resumed = new FieldMemory({ filePath });
+    await resumed.store({ intent: { type: 'creation' } });
+    await resumed.store({ intent: { type: 'exploration' } });
+
+    const reloaded = new FieldMemory({ filePath });
+    expect(reloaded.retrieveRecentIntents(5).map(i => i.type)).toEqual(['assistance', 'creation', 'exploration']);
+  });
+});
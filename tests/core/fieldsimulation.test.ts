@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { FieldSimulation } from '../../src/core/fieldsimulation';
+import { IntentAgent } from '../../src/core/intentagent';
+
+describe('FieldSimulation', () => {
+  const createSimulation = (mode: 'turns' | 'concurrent') => {
+    const simulation = new FieldSimulation({ mode, fieldParams: { seed: 5 } });
+    ['alpha', 'beta', 'gamma'].forEach(id => simulation.addAgent(new IntentAgent({ id })));
+    return simulation;
+  };
+
+  it('attaches all agents to the shared field', () => {
+    const simulation = createSimulation('turns');
+
+    simulation.getAgents().forEach(agent => expect(agent.field).toBe(simulation.field));
+    expect(simulation.field.getAttachedAgents()).toHaveLength(3);
+  });
+
+  it('rotates agents in turns mode and records pairwise interference', async () => {
+    const simulation = createSimulation('turns');
+    const timeline = await simulation.run(() => 'help me create a plan', 4);
+
+    expect(timeline.map(t => t.agents.map(a => a.agentId))).toEqual([
+      ['alpha'], ['beta'], ['gamma'], ['alpha']
+    ]);
+    expect(timeline[3].interference).toHaveLength(3);
+    expect(timeline[3].interference[0].agents).toEqual(['alpha', 'beta']);
+  });
+
+  it('runs every agent each tick in concurrent mode', async () => {
+    const simulation = createSimulation('concurrent');
+    const ticks: number[] = [];
+    simulation.on('tick', entry => ticks.push(entry.tick));
+
+    await simulation.step({ alpha: 'explain the field', gamma: 'create a story' });
+
+    const [entry] = simulation.getTimeline();
+    expect(entry.agents.map(a => a.agentId)).toEqual(['alpha', 'gamma']);
+    expect(entry.field.coherence).toBeGreaterThan(0);
+    expect(ticks).toEqual([1]);
+
+    simulation.removeAgent('beta');
+    expect(simulation.field.getAttachedAgents().map(a => a.id)).toEqual(['alpha', 'gamma']);
+  });
+
+  it('returns removed agents to their own field', () => {
+    const simulation = new FieldSimulation({ fieldParams: { seed: 5 } });
+    const agent = new IntentAgent({ id: 'alpha' });
+    const ownField = agent.field;
+    simulation.addAgent(agent);
+
+    expect(simulation.removeAgent('alpha')).toBe(true);
+    expect(agent.field).toBe(ownField);
+    expect(agent.field).not.toBe(simulation.field);
+    expect(simulation.removeAgent('alpha')).toBe(false);
+  });
+});
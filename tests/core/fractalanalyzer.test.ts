@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { FractalAnalyzer } from '../../src/core/fractalanalyzer';
+import { IntentAgent } from '../../src/core/intentagent';
+
+describe('FractalAnalyzer', () => {
+  const analyzer = new FractalAnalyzer();
+
+  it('detects repeated intent sub-sequences across scales', () => {
+    const cycle = ['assistance', 'assistance', 'explanation', 'explanation'];
+    const intents = [...cycle, ...cycle, ...cycle, ...cycle];
+
+    const analysis = analyzer.analyze(intents, intents.map(() => 0.5));
+
+    expect(analysis.patterns.some(p => p.scale === 1 && p.sequence.join() === cycle.join())).toBe(true);
+    expect(analysis.patterns.some(p => p.scale === 2)).toBe(true);
+    expect(analysis.depth).toBeGreaterThanOrEqual(2);
+    expect(analysis.epochPredictions[0].intentType).toBe('assistance');
+  });
+
+  it('rates a self-similar sequence as similar across scales', () => {
+    // Thue-Morse sequence: coarse-graining reproduces the sequence itself
+    const thueMorse = Array.from({ length: 64 }, (_, i) =>
+      i.toString(2).split('1').length % 2 ? 'creation' : 'analysis');
+    const periodic = Array.from({ length: 64 }, (_, i) => (i % 4 < 2 ? 'creation' : 'analysis'));
+
+    const selfSimilar = analyzer.analyze(thueMorse, []).selfSimilarity;
+
+    expect(selfSimilar).toBeGreaterThan(0.9);
+    expect(selfSimilar).toBeGreaterThan(analyzer.analyze(periodic, []).selfSimilarity);
+  });
+
+  it('scores repetitive sequences as less complex than varied ones', () => {
+    const repetitive = Array.from({ length: 32 }, (_, i) => (i % 2 ? 'a' : 'b'));
+    const varied = Array.from({ length: 32 }, (_, i) => ['a', 'b', 'c', 'd'][(i * i + 3 * i) % 7 % 4]);
+
+    expect(analyzer.lempelZivComplexity(repetitive)).toBeLessThan(analyzer.lempelZivComplexity(varied));
+  });
+
+  it('estimates box-counting dimension between a line and a rough series', () => {
+    const line = Array.from({ length: 33 }, (_, i) => i / 32);
+    const rough = Array.from({ length: 33 }, (_, i) => (i % 2 ? 1 : 0));
+
+    expect(analyzer.boxCountingDimension(line)).toBeCloseTo(1, 1);
+    expect(analyzer.boxCountingDimension(rough)!).toBeGreaterThan(1.5);
+    expect(analyzer.boxCountingDimension([0.1, 0.2])).toBeNull();
+  });
+
+  it('feeds agent fractal insights and stats', async () => {
+    const agent = new IntentAgent({ id: 'fractal', fieldParams: { seed: 3 } });
+    agent.activate();
+
+    let response: any;
+    for (const input of ['help me', 'explain it', 'help me', 'explain it', 'help me', 'explain it']) {
+      response = await agent.process(input);
+    }
+
+    expect(agent.stats.intentFractals.patterns.length).toBeGreaterThan(0);
+    expect(agent.stats.intentFractals.lastAnalysis).not.toBeNull();
+    expect(response.metadata.fractalInsights.identifiedPatterns).toBe(agent.stats.intentFractals.patterns.length);
+    expect(response.metadata.fractalInsights.epochPredictions[0].intentType).toBe('assistance');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IntentAgent } from '../../src/core/intentagent';
+
+describe('IntentAgent', () => {
+  const createAgent = () => {
+    const agent = new IntentAgent({ id: 'predictor', fieldParams: { seed: 11 } });
+    agent.activate();
+    return agent;
+  };
+
+  it('projects the current state with no confidence before any history exists', () => {
+    const agent = createAgent();
+    const prediction = agent.predictIntentEvolution('short');
+
+    expect(prediction.projectedState).toMatchObject({
+      coherence: agent.state.coherence,
+      dissonance: agent.state.dissonance,
+      steps: 5
+    });
+    expect(prediction.trendMetrics.historyLength).toBe(0);
+    expect(prediction.confidence).toBe(0);
+  });
+
+  it('projects trends from resonance history and the recent intent sequence', async () => {
+    const agent = createAgent();
+    const inputs = ['help me', 'explain this', 'help again', 'create a plan', 'help me once more'];
+    for (const input of inputs) {
+      await agent.process(input);
+    }
+
+    const short = agent.predictIntentEvolution('short');
+    const long = agent.predictIntentEvolution('long');
+
+    expect(agent.state.resonanceHistory).toHaveLength(inputs.length);
+    expect(short.trendMetrics).toMatchObject({ historyLength: 5, dominantIntent: 'assistance', intentVolatility: 1 });
+    expect(short.emotionalProjection.to).toBe(short.projectedState.emotionalState);
+    expect(short.confidence).toBeGreaterThan(0);
+    expect(long.confidence).toBeLessThan(short.confidence);
+    expect(long.projectedState.steps).toBe(50);
+
+    // The projection follows the combined slope, clamped to the unit interval
+    const expected = Math.max(0, Math.min(1, agent.state.coherence + short.trendMetrics.coherenceSlope * 5));
+    expect(short.projectedState.coherence).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('IntentAgent cognitive development', () => {
+  it('feeds resonance events into the profile and emits stage transitions', async () => {
+    const agent = new IntentAgent({
+      id: 'learner',
+      fieldParams: { seed: 2 },
+      cognitionParams: { stage: 'novice', evaluationInterval: 5 }
+    });
+    const transitions: any[] = [];
+    agent.on('stage_transition', (event: any) => transitions.push(event));
+    agent.activate();
+
+    const inputs = ['help me', 'explain this', 'create a story', 'analyze the data', 'I reflect on it'];
+    for (let i = 0; i < 30 && transitions.length === 0; i++) {
+      await agent.process(inputs[i % inputs.length]);
+    }
+
+    expect(agent.stats.resonanceEvents).toBeGreaterThan(agent.stats.interactions);
+    expect(agent.cognitiveProfile.inheritanceWeights).toHaveProperty('assistance');
+    expect(transitions).toHaveLength(1);
+    expect(transitions[0]).toMatchObject({ agent: 'learner', previousStage: 'novice', newStage: 'standard' });
+    expect(transitions[0].interactions % 5).toBe(0);
+    expect(agent.cognitiveProfile.developmentStage).toBe('standard');
+  });
+
+  it('evaluates the stage after blocked interactions that complete an interval', async () => {
+    const agent = new IntentAgent({ id: 'learner', fieldParams: { seed: 2 }, cognitionParams: { evaluationInterval: 2 } });
+    agent.guardrails.registerPolicy({
+      name: 'no_forbidden',
+      conditions: { forbidden: { type: 'pattern_match', value: 'forbidden' } },
+      actions: [{ type: 'block' }]
+    });
+    agent.activate();
+    const evaluate = vi.spyOn(agent.cognitiveProfile, 'evaluateDevelopmentStage');
+
+    for (const input of ['help me', 'the forbidden topic', 'help me', 'help me', 'help me']) {
+      await agent.process(input);
+    }
+
+    expect(agent.stats.interactions).toBe(5);
+    expect(evaluate).toHaveBeenCalledTimes(2);
+  });
+});
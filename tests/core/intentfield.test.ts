@@ -20,4 +20,130 @@ describe('IntentField', () => {
     expect(snapshot).toHaveProperty('coherence');
     expect(snapshot).toHaveProperty('symbolicSignature');
   });
+
+  it('produces reproducible coherence trajectories from a seed', async () => {
+    const agent = { getState: () => ({ coherence: 0.8, dissonance: 0.2 }) };
+    const run = async () => {
+      const field = new IntentField({ fieldParams: { seed: 11 } }).initialize();
+      const deltas: number[] = [];
+      for (const type of ['assistance', 'conflict', 'creation']) {
+        const { fieldImpact } = await field.processIntent({ type, text: 'help me build' }, agent);
+        deltas.push(fieldImpact.coherenceDelta);
+      }
+      return deltas;
+    };
+
+    const first = await run();
+    expect(first).toEqual(await run());
+    expect(first[1]).toBeLessThan(first[0]);
+  });
+
+  it('resumes identically from a serialized checkpoint', async () => {
+    const agent = { getState: () => ({ coherence: 0.8, dissonance: 0.2 }) };
+    const field = new IntentField({ fieldParams: { seed: 3 } }).initialize();
+    await field.processIntent({ type: 'creation', text: 'build a model' }, agent);
+
+    const checkpoint = field.serialize();
+    const restored = IntentField.restore(JSON.stringify(checkpoint));
+    expect(restored.serialize()).toEqual({ ...checkpoint, createdAt: expect.any(Number) });
+
+    const next = { type: 'analysis', text: 'examine the results' };
+    const original = await field.processIntent(next, agent);
+    const resumed = await restored.processIntent(next, agent);
+    expect(resumed.fieldImpact).toEqual(original.fieldImpact);
+
+    const diff = IntentField.diffCheckpoints(checkpoint, field.serialize());
+    expect(diff.ticksElapsed).toBe(1);
+    expect(diff.symbols.added).toContain('analysis');
+    expect(diff.resonanceEntriesAdded).toBe(1);
+  });
+
+  it('rejects checkpoints with an unsupported version', () => {
+    const checkpoint = { ...new IntentField().initialize().serialize(), version: 99 };
+    expect(() => IntentField.restore(checkpoint)).toThrowError(/Unsupported field checkpoint version/);
+  });
+
+  it('rejects checkpoints missing required fields', () => {
+    const { coherence, ...checkpoint } = new IntentField().initialize().serialize();
+    expect(() => IntentField.restore(checkpoint as any)).toThrowError(
+      'Invalid field checkpoint: missing or malformed coherence'
+    );
+    expect(() => IntentField.restore({ ...checkpoint, coherence: { ...coherence, tick: undefined } } as any))
+      .toThrowError('Invalid field checkpoint: missing or malformed coherence.tick');
+  });
+
+  it('rebuilds interference from restored agent activity when agents are re-attached', async () => {
+    const field = new IntentField().initialize();
+    const agent = (id: string) => ({ id, getState: () => ({ coherence: 0.8, dissonance: 0.2 }) });
+    field.attachAgent(agent('a'));
+    field.attachAgent(agent('b'));
+    await field.processIntent({ type: 'analysis', text: 'analyze data' }, agent('a'));
+    await field.processIntent({ type: 'analysis', text: 'analyze data' }, agent('b'));
+
+    const restored = IntentField.restore(field.serialize());
+    expect(restored.getAttachedAgents()).toEqual([]);
+
+    restored.attachAgent(agent('a'));
+    restored.attachAgent(agent('b'));
+    expect(restored.getInterferenceMatrix()).toEqual(field.getInterferenceMatrix());
+    expect(restored.getInterferenceMatrix().matrix[0][1]).not.toBe(0);
+  });
+
+  it('resizes the interference matrix as agents attach and detach', () => {
+    const field = new IntentField().initialize();
+    const agent = (id: string, primaryFrequency: number) => ({
+      id,
+      getState: () => ({ coherence: 0.8, dissonance: 0.2 }),
+      persona: { harmonics: { primaryFrequency, secondaries: [primaryFrequency * 2] } }
+    });
+
+    field.attachAgent(agent('a', 432));
+    field.attachAgent(agent('b', 648));
+    field.attachAgent(agent('c', 455));
+
+    const { agents, matrix } = field.getInterferenceMatrix();
+    expect(agents).toEqual(['a', 'b', 'c']);
+    expect(matrix[0][1]).toBeGreaterThan(0.2);
+    expect(matrix[0][2]).toBeLessThan(-0.2);
+    expect(matrix[1][0]).toBe(matrix[0][1]);
+
+    field.detachAgent('b');
+    expect(field.getInterferenceMatrix().matrix).toEqual([[0, matrix[0][2]], [matrix[2][0], 0]]);
+  });
+
+  it('ignores harmonic frequencies that are zero or missing', () => {
+    const field = new IntentField().initialize();
+    const agent = (id: string, harmonics: any) => ({
+      id,
+      getState: () => ({ coherence: 0.8, dissonance: 0.2 }),
+      persona: { harmonics }
+    });
+
+    field.attachAgent(agent('a', { primaryFrequency: 432, secondaries: [0] }));
+    field.attachAgent(agent('b', { primaryFrequency: 0 }));
+    field.attachAgent(agent('c', { secondaries: [648] }));
+
+    const { matrix } = field.getInterferenceMatrix();
+    matrix.flat().forEach(value => expect(Number.isFinite(value)).toBe(true));
+    expect(field.calculateAgentInterference(agent('a', { primaryFrequency: 432 }), agent('b', { primaryFrequency: 0 }))
+      .components.harmonic).toBeNull();
+    expect(matrix[0][2]).toBeGreaterThan(0.2);
+  });
+
+  it('returns interference with other attached agents from processIntent', async () => {
+    const field = new IntentField().initialize();
+    const harmonics = { primaryFrequency: 432, secondaries: [216, 648] };
+    const a = { id: 'a', getState: () => ({ coherence: 0.8, dissonance: 0.2 }), persona: { harmonics } };
+    const b = { id: 'b', getState: () => ({ coherence: 0.7, dissonance: 0.3 }), persona: { harmonics } };
+    field.attachAgent(a);
+    field.attachAgent(b);
+
+    await field.processIntent({ type: 'analysis', text: 'analyze data' }, b);
+    const { interferencePatterns } = await field.processIntent({ type: 'analysis', text: 'analyze data' }, a);
+
+    expect(interferencePatterns.agentInterference).toEqual([
+      { agentId: 'b', value: expect.any(Number), type: 'constructive' }
+    ]);
+    expect(interferencePatterns.netInterference).toBeCloseTo(1, 5);
+  });
 });
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { cosineSimilarity, sparseCosineSimilarity } from '../../src/core/vectormath';
+
+describe('Vector math', () => {
+  it('compares dense and sparse vectors by cosine similarity', () => {
+    expect(cosineSimilarity([1, 0, 0], [1, 1, 0])).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(cosineSimilarity([0, 0], [1, 2])).toBe(0);
+    expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow('Vectors must have the same dimensions');
+
+    expect(sparseCosineSimilarity({ plan: 1 }, { plan: 1, story: 1 })).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(sparseCosineSimilarity({ plan: 1 }, { story: 2 })).toBe(0);
+    expect(sparseCosineSimilarity({}, { story: 2 })).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleBasedIntentParser, ClassifierIntentParser } from '../../src/engine/intentparser';
+import { NOTHINGEngine } from '../../src/engine/nothingengine';
+import { IntentGrammar } from '../../src/types/intent';
+
+const grammar: IntentGrammar = {
+  version: 1,
+  defaultType: 'chitchat',
+  intents: [
+    { type: 'billing', subtype: 'refund', patterns: ['refund', 'money back'], weight: 2 },
+    { type: 'billing', subtype: 'invoice', patterns: ['invoice', 'receipt'] },
+    { type: 'shipping', regex: ['\\btrack(ing)?\\b', 'where is my (order|parcel)'] }
+  ],
+  entities: [
+    { type: 'order_id', regex: '#\\d{4,}' },
+    { type: 'carrier', values: ['DHL', 'UPS'] }
+  ],
+  sentiment: {
+    positive: ['great', 'happy'],
+    negative: ['late', 'angry'],
+    negators: ['not']
+  }
+};
+
+describe('RuleBasedIntentParser', () => {
+  it('extracts type, subtype, entities, sentiment and confidence', async () => {
+    const parser = new RuleBasedIntentParser(grammar);
+    const intent = await parser.parse('I want my money back for order #12345, the UPS parcel was late');
+
+    expect(intent.type).toBe('billing');
+    expect(intent.subtype).toBe('refund');
+    expect(intent.entities).toEqual([
+      { type: 'order_id', value: '#12345', start: 31, end: 37 },
+      { type: 'carrier', value: 'UPS', start: 43, end: 46 }
+    ]);
+    expect(intent.sentiment).toEqual({ score: -1, label: 'negative' });
+    expect(intent.confidence).toBeGreaterThan(0.5);
+    expect(intent.metadata?.parser).toBe('rule-based');
+  });
+
+  it('flips negated sentiment and falls back to the default type', async () => {
+    const parser = new RuleBasedIntentParser(grammar);
+    const intent = await parser.parse('I am not happy today');
+
+    expect(intent.type).toBe('chitchat');
+    expect(intent.confidence).toBe(0.2);
+    expect(intent.sentiment?.label).toBe('negative');
+  });
+
+  it('loads grammars from file and reports invalid rules', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intent-grammar-'));
+    const file = path.join(dir, 'grammar.json');
+
+    fs.writeFileSync(file, JSON.stringify(grammar));
+    expect(RuleBasedIntentParser.fromFile(file).grammar.intents).toHaveLength(3);
+
+    fs.writeFileSync(file, JSON.stringify({ version: 1, intents: [{ type: 'x', regex: ['('] }] }));
+    expect(() => RuleBasedIntentParser.fromFile(file)).toThrow(/intents\[0\] has an invalid regex/);
+  });
+});
+
+describe('ClassifierIntentParser', () => {
+  it('uses the classifier and falls back below the confidence floor', async () => {
+    const parser = new ClassifierIntentParser(
+      async text => ({ type: 'custom', confidence: text.length > 10 ? 0.9 : 0.1 }),
+      { fallback: new RuleBasedIntentParser(grammar), minConfidence: 0.5 }
+    );
+
+    const confident = await parser.parse('a long enough sentence');
+    const fallback = await parser.parse('track it');
+
+    expect(confident).toMatchObject({ type: 'custom', confidence: 0.9, metadata: { parser: 'classifier' } });
+    expect(fallback).toMatchObject({ type: 'shipping', metadata: { parser: 'rule-based' } });
+  });
+});
+
+describe('NOTHINGEngine', () => {
+  it('parses through the configured parser and passes typed intents through', async () => {
+    const engine = new NOTHINGEngine({ grammar });
+
+    expect((await engine.parseIntent('where is my parcel?')).type).toBe('shipping');
+    expect(await engine.parseIntent({ type: 'given', text: 'refund' })).toEqual({
+      type: 'given',
+      text: 'refund',
+      parameters: {}
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateResponseGenerator } from '../../src/engine/responsegenerator';
+import { IntentAgent } from '../../src/core/intentagent';
+import { ResponseContext } from '../../src/types/response';
+
+const context = (overrides: Partial<ResponseContext> = {}): ResponseContext => ({
+  intent: { type: 'billing', subtype: 'refund', text: 'refund #123', entities: [
+    { type: 'order_id', value: '#123', start: 7, end: 11 }
+  ] },
+  memories: [],
+  warnings: [],
+  state: { coherence: 0.8, emotionalState: 'balanced' },
+  ...overrides
+});
+
+describe('TemplateResponseGenerator', () => {
+  const generator = new TemplateResponseGenerator({
+    templates: [
+      { id: 'any', intentType: '*', text: 'Noted {{intent.type}}.' },
+      { id: 'billing', intentType: 'billing', text: 'Billing question.' },
+      { id: 'refund', intentType: 'billing', subtype: 'refund', text: 'Refund for {{entities.order_id}} at {{state.coherence}}.' },
+      { id: 'refund.warned', intentType: 'billing', subtype: 'refund', when: { hasWarnings: true }, text: 'Careful: {{warnings.text}}' }
+    ]
+  });
+
+  it('selects the most specific template and fills its slots', () => {
+    expect(generator.generate(context()).text).toBe('Refund for #123 at 0.80.');
+    expect(generator.generate(context({ warnings: ['possible fraud'] })).text).toBe('Careful: possible fraud');
+    expect(generator.generate(context({ intent: { type: 'other' } })).text).toBe('Noted other.');
+  });
+
+  it('logs which template fired and reports unresolved slots', () => {
+    const logged: string[] = [];
+    const traced = new TemplateResponseGenerator({
+      templates: [{ id: 't', intentType: '*', text: '{{missing}}{{absent|fallback}}' }],
+      logger: entry => logged.push(entry.templateId)
+    });
+
+    const response = traced.generate(context());
+
+    expect(response).toEqual({ text: 'fallback', metadata: { templateId: 't', unresolvedSlots: ['missing'] } });
+    expect(logged).toEqual(['t']);
+    expect(traced.getSelectionLog()[0]).toMatchObject({ intentType: 'billing', templateId: 't', candidates: 1 });
+  });
+
+  it('loads templates from a directory in file name order', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-templates-'));
+    fs.writeFileSync(path.join(dir, '01-base.json'), JSON.stringify([
+      { id: 'base', intentType: '*', text: 'first' }
+    ]));
+    fs.writeFileSync(path.join(dir, '02-override.json'), JSON.stringify(
+      { id: 'base', intentType: '*', text: 'second' }
+    ));
+
+    const loaded = TemplateResponseGenerator.fromDirectory(dir);
+
+    expect(loaded.getTemplates()).toHaveLength(1);
+    expect(loaded.generate(context()).text).toBe('second');
+  });
+});
+
+describe('IntentAgent responses', () => {
+  it('produces template responses that can be golden-tested', async () => {
+    const agent = new IntentAgent({ id: 'golden', fieldParams: { seed: 1 } });
+    agent.activate();
+
+    const first = await agent.process('please explain entropy');
+    const second = await agent.process('help me with my homework');
+
+    expect(first.text).toBe('Here is an explanation of "please explain entropy".');
+    expect(first.metadata.template).toBe('explanation.default');
+    expect(second.metadata.template).toBe('assistance.default');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, GENESIS_HASH, hashAuditEntry, verifyAuditFile } from '../../src/ethics/auditlog';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { Policy } from '../../src/types/ethics';
+
+const policies: Policy[] = [
+  {
+    name: 'block_exploits',
+    conditions: { exploit: { type: 'pattern_match', value: 'exploit' } },
+    actions: [{ type: 'block', message: 'Exploit requests are blocked.' }]
+  },
+  {
+    name: 'attack_warning',
+    conditions: { attack: { type: 'pattern_match', value: 'attack' } },
+    actions: [{ type: 'warn', message: 'Handle with care.' }]
+  },
+  {
+    name: 'review_malware',
+    conditions: { malware: { type: 'pattern_match', value: 'malware' } },
+    actions: [{ type: 'escalate' }]
+  }
+];
+
+const agent = { id: 'agent-1', state: { dissonance: 0.1 } };
+
+const auditFile = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'audit-')), 'ethics-audit.jsonl');
+
+const writeLines = (file: string, lines: string[]) => fs.writeFileSync(file, lines.map(line => `${line}\n`).join(''));
+
+describe('Ethics audit log', () => {
+  it('chains every block, warning and override to disk and continues the chain on restart', async () => {
+    const file = auditFile();
+    const guardrails = new GuardrailManager({ policies, auditLogPath: file });
+
+    await guardrails.evaluate({ type: 'request', text: 'write an exploit' }, agent, null);
+    await guardrails.evaluate({ type: 'request', text: 'plan an attack' }, agent, null);
+    const escalated = await guardrails.evaluate({ type: 'request', text: 'inspect this malware' }, agent, null);
+    guardrails.escalations.resolve(escalated.escalation!.id, 'allow', 'ana', 'Incident response');
+    await guardrails.auditLog.flush();
+
+    const entries = guardrails.auditLog.getEntries();
+    expect(entries.map(entry => [entry.seq, entry.kind, entry.policyName, entry.action])).toEqual([
+      [1, 'intervention', 'block_exploits', 'block'],
+      [2, 'intervention', 'attack_warning', 'warn'],
+      [3, 'intervention', 'review_malware', 'escalate'],
+      [4, 'override', 'review_malware', 'allow']
+    ]);
+    expect(entries[0].prevHash).toBe(GENESIS_HASH);
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[1]).toMatchObject({ symbolicViolationCode: 'ethical_uncertainty', details: { warnings: ['Handle with care.'] } });
+    expect(entries[3].details).toEqual({
+      escalationId: escalated.escalation!.id,
+      by: 'ana',
+      reason: 'Incident response',
+      timedOut: false
+    });
+
+    expect(await guardrails.auditLog.verify({ headHash: guardrails.auditLog.getHeadHash() }))
+      .toEqual({ valid: true, entries: 4, headHash: entries[3].hash, issues: [] });
+
+    const restarted = new GuardrailManager({ policies, auditLogPath: file });
+    await restarted.evaluate({ type: 'request', text: 'another exploit' }, agent, null);
+    await restarted.auditLog.flush();
+
+    const verification = await verifyAuditFile(file);
+    expect(verification).toMatchObject({ valid: true, entries: 5 });
+    expect(restarted.auditLog.getEntries()[4]).toMatchObject({ seq: 5, prevHash: entries[3].hash });
+  });
+
+  it('detects edited, removed and truncated entries', async () => {
+    const file = auditFile();
+    const log = new AuditLog({ filePath: file });
+    for (const action of ['block', 'warn', 'block', 'warn']) {
+      log.append({
+        kind: 'intervention',
+        agentId: 'agent-1',
+        policyName: 'p',
+        intentType: 'request',
+        action,
+        symbolicViolationCode: 'harm_potential',
+        details: {}
+      });
+    }
+    await log.flush();
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+
+    // Edited in place
+    writeLines(file, [lines[0], lines[1].replace('"warn"', '"log"'), lines[2], lines[3]]);
+    expect((await verifyAuditFile(file)).issues).toEqual([
+      { line: 2, seq: 2, type: 'tampered', message: 'entry 2 does not match its hash' }
+    ]);
+
+    // Edited and rehashed: the next entry no longer links to it
+    const forged = { ...JSON.parse(lines[1]), action: 'log' };
+    forged.hash = hashAuditEntry(forged);
+    writeLines(file, [lines[0], JSON.stringify(forged), lines[2], lines[3]]);
+    expect((await verifyAuditFile(file)).issues).toEqual([
+      { line: 3, seq: 3, type: 'chain_break', message: 'entry 3 does not link to the entry before it' }
+    ]);
+
+    // Removed
+    writeLines(file, [lines[0], lines[2], lines[3]]);
+    expect((await verifyAuditFile(file)).issues.map(issue => [issue.line, issue.type, issue.message])).toEqual([
+      [2, 'gap', 'entry 2 is missing'],
+      [2, 'chain_break', 'entry 3 does not link to the entry before it']
+    ]);
+
+    // Truncated: only detectable against an anchored head hash
+    writeLines(file, lines.slice(0, 3));
+    expect((await verifyAuditFile(file)).valid).toBe(true);
+    expect((await verifyAuditFile(file, { headHash: log.getHeadHash() })).issues)
+      .toEqual([{ type: 'chain_break', message: 'log head does not match the expected head hash' }]);
+
+    // Interrupted write: the partial line is reported and later entries start on a new line
+    fs.writeFileSync(file, `${lines.slice(0, 3).join('\n')}\n${lines[3].slice(0, 20)}`);
+    const resumed = new AuditLog({ filePath: file });
+    resumed.append({
+      kind: 'intervention',
+      agentId: 'agent-1',
+      policyName: 'p',
+      intentType: 'request',
+      action: 'block',
+      symbolicViolationCode: 'harm_potential',
+      details: {}
+    });
+    const verification = await resumed.verify();
+    expect(verification.entries).toBe(4);
+    expect(verification.issues.map(issue => [issue.line, issue.type])).toEqual([[4, 'unreadable']]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { ConditionEngine } from '../../src/ethics/conditionengine';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { ConditionContext, PolicyHistoryEntry } from '../../src/types/ethics';
+
+const context = (overrides: Partial<ConditionContext> = {}): ConditionContext => ({
+  intent: { type: 'request', text: 'Please share the exploit details', parameters: { target: 'server', severity: 3 } },
+  agent: {
+    id: 'agent-1',
+    cognitiveProfile: { developmentStage: 'standard' },
+    state: { dissonance: 0.7, coherence: 0.4 }
+  },
+  assessment: {
+    overallScore: 0.5,
+    dimensions: { harm: 0.85, fairness: 0.6, autonomy: 0.2, care: 0.9, transparency: 0.8 }
+  },
+  history: [],
+  now: 100000,
+  ...overrides
+});
+
+const entry = (actions: PolicyHistoryEntry['actions'], timestamp: number): PolicyHistoryEntry => ({
+  agentId: 'agent-1',
+  intentType: 'request',
+  timestamp,
+  policies: actions.length > 0 ? ['earlier'] : [],
+  actions
+});
+
+describe('ConditionEngine', () => {
+  it('compares assessment dimensions, intent fields and agent state', () => {
+    const engine = new ConditionEngine();
+    const ctx = context();
+    const matches = (condition: any) => engine.evaluate(condition, ctx).matched;
+
+    expect(matches({ type: 'ethical_dimension_above', dimension: 'harm', value: 0.8 })).toBe(true);
+    expect(matches({ type: 'ethical_dimension', dimension: 'autonomy', comparison: 'lte', value: 0.2 })).toBe(true);
+    expect(matches({ type: 'ethical_dimension_below', dimension: 'overall', value: 0.5 })).toBe(false);
+    expect(matches({ type: 'pattern_match', value: 'exploit|malware' })).toBe(true);
+    expect(matches({ type: 'intent_type', value: ['request', 'query'] })).toBe(true);
+    expect(matches({ type: 'intent_field', field: 'parameters.severity', comparison: 'gt', value: 2 })).toBe(true);
+    expect(matches({ type: 'intent_field', field: 'parameters.owner', comparison: 'exists' })).toBe(false);
+    expect(matches({ type: 'agent_state', field: 'dissonance', comparison: 'gte', value: 0.6 })).toBe(true);
+    expect(matches({ type: 'agent_state', field: 'stage', comparison: 'lt', value: 'advanced' })).toBe(true);
+    expect(matches({ type: 'agent_state', field: 'stage', value: 'novice' })).toBe(false);
+
+    expect(engine.evaluate({ type: 'ethical_dimension', dimension: 'privacy', value: 0.5 }, ctx))
+      .toMatchObject({ matched: false, reason: 'assessment has no "privacy" dimension' });
+    expect(engine.evaluate({ type: 'telepathy' }, ctx))
+      .toMatchObject({ matched: false, reason: 'unknown condition type "telepathy"' });
+  });
+
+  it('composes conditions and reports which sub-conditions matched', () => {
+    const engine = new ConditionEngine();
+    const outcome = engine.evaluatePolicyConditions({
+      risky: {
+        operator: 'and',
+        conditions: [
+          { type: 'ethical_dimension_above', dimension: 'harm', value: 0.8 },
+          {
+            operator: 'or',
+            conditions: [
+              { type: 'agent_state', field: 'stage', value: 'novice' },
+              { type: 'agent_state', field: 'dissonance', comparison: 'gt', value: 0.5 }
+            ]
+          },
+          { operator: 'not', conditions: [{ type: 'intent_type', value: 'query' }] }
+        ]
+      },
+      constraintCondition: { type: 'intent_type', value: 'query' }
+    }, context());
+
+    expect(outcome.matched).toBe(true);
+    expect(outcome.evaluations).toHaveLength(1);
+    expect(outcome.matchedConditions).toEqual([
+      'risky.conditions[0]',
+      'risky.conditions[1].conditions[1]',
+      'risky.conditions[2]'
+    ]);
+    expect(outcome.evaluations[0].children?.[1].children?.[0]).toMatchObject({ matched: false, actual: 'standard' });
+  });
+
+  it('counts earlier outcomes within intent and time windows', () => {
+    const engine = new ConditionEngine();
+    const history = [
+      entry(['warn'], 10000),
+      entry(['warn', 'log'], 20000),
+      entry([], 30000),
+      entry(['warn'], 95000),
+      entry(['warn'], 99000)
+    ];
+    const count = (condition: any) => engine.evaluate({ type: 'history_count', ...condition }, context({ history }));
+
+    expect(count({ event: 'warn', window: { intents: 10 }, comparison: 'gt', value: 3 }))
+      .toMatchObject({ matched: true, actual: 4 });
+    expect(count({ event: 'warn', window: { intents: 3 }, comparison: 'gt', value: 3 }))
+      .toMatchObject({ matched: false, actual: 2 });
+    expect(count({ event: 'warn', window: { ms: 10000 }, value: 2 })).toMatchObject({ matched: true, actual: 2 });
+    expect(count({ event: 'intent', window: { intents: 4, ms: 70000 }, value: 2 })).toMatchObject({ matched: true, actual: 3 });
+  });
+
+  it('drives guardrail decisions and escalates on repeated warnings', async () => {
+    const guardrails = new GuardrailManager({
+      policies: [
+        {
+          name: 'harm_warning',
+          conditions: { harm: { type: 'ethical_dimension_above', dimension: 'harm', value: 0.05 } },
+          actions: [{ type: 'warn', message: 'Elevated harm.' }, { type: 'log' }]
+        },
+        {
+          name: 'repeat_offender',
+          conditions: {
+            repeated: { type: 'history_count', event: 'warn', window: { intents: 5 }, comparison: 'gte', value: 2 }
+          },
+          actions: [{ type: 'block', message: 'Too many warnings.' }]
+        }
+      ]
+    });
+    const agent = { id: 'agent-1', state: { dissonance: 0 } };
+    const intent = { type: 'request', text: 'hello' };
+
+    const first = await guardrails.evaluate(intent, agent, null);
+    expect(first.allowIntent).toBe(true);
+    expect(first.warnings).toEqual(['Elevated harm.']);
+    expect(first.interventions[0]).toMatchObject({
+      policyName: 'harm_warning',
+      intervention: 'warn',
+      matchedConditions: ['harm']
+    });
+
+    await guardrails.evaluate(intent, agent, null);
+    const third = await guardrails.evaluate(intent, agent, null);
+    expect(third.allowIntent).toBe(false);
+    expect(third.interventions.map(result => result.policyName)).toEqual(['harm_warning', 'repeat_offender']);
+    expect(third.interventions[1].matchedConditions).toEqual(['repeated']);
+
+    const other = await guardrails.evaluate(intent, { id: 'agent-2' }, null);
+    expect(other.allowIntent).toBe(true);
+  });
+});
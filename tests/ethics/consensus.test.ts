@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { ConsensusTieBreak, EthicalFeedback } from '../../src/types/ethics';
+
+const agent = { id: 'agent-1', state: { dissonance: 0.1 } };
+
+const peer = (id: string, feedback: EthicalFeedback | null | (() => never)) => ({
+  id,
+  provideEthicalFeedback: typeof feedback === 'function' ? feedback : () => feedback
+});
+
+const vote = (recommendedAction: EthicalFeedback['recommendedAction'], confidence: number = 1): EthicalFeedback =>
+  ({ recommendedAction, reason: `looks like ${recommendedAction}`, confidence });
+
+describe('Multi-agent consensus', () => {
+  it('weighs votes by trust and learns trust and accuracy from ground truth', async () => {
+    const guardrails = new GuardrailManager({ enableMultiAgentFeedback: true });
+    guardrails.connectAgentToFeedbackSystem(peer('a', vote('block')));
+    guardrails.connectAgentToFeedbackSystem(peer('b', vote('block', 0.5)));
+    guardrails.connectAgentToFeedbackSystem(peer('c', vote('allow')), { trustLevel: 0.2 });
+    guardrails.connectAgentToFeedbackSystem(peer('d', () => { throw new Error('offline'); }));
+    guardrails.connectAgentToFeedbackSystem(peer(agent.id, vote('allow')));
+
+    const result = await guardrails.evaluate({ type: 'request', text: 'hello' }, agent, null);
+    expect(result.consensus).toMatchObject({
+      agentCount: 3,
+      eligibleAgents: 4,
+      quorumMet: true,
+      consensus: true,
+      consensusAction: 'block',
+      consensusStrength: 0.789,
+      votes: { block: 0.75, allow: 0.2 },
+      tieBroken: false
+    });
+    expect(result.allowIntent).toBe(false);
+    expect(result.warnings).toEqual(['Multi-agent consensus: 2 of 3 agents recommend block: looks like block']);
+
+    // The intent turned out to be harmless
+    const updated = guardrails.recordGroundTruth(result.consensus!.feedbackId, 'allow');
+    expect(updated.map(entry => [entry.agentId, entry.trustLevel, entry.feedbackAccuracy])).toEqual([
+      ['a', 0.4, 0],
+      ['b', 0.45, 0],
+      ['c', 0.36, 1]
+    ]);
+    expect(() => guardrails.recordGroundTruth(result.consensus!.feedbackId, 'block'))
+      .toThrow('already has ground truth from harm_label');
+
+    const [reliability] = guardrails.getAgentReliability('c');
+    expect(reliability).toMatchObject({ feedbackCount: 1, resolvedCount: 1 });
+    expect(reliability.history).toEqual([expect.objectContaining({
+      feedbackId: result.consensus!.feedbackId,
+      source: 'harm_label',
+      correct: true,
+      trustLevel: 0.36
+    })]);
+    expect(guardrails.getAgentReliability('d')[0]).toMatchObject({ feedbackCount: 0, trustLevel: 0.5 });
+  });
+
+  it('requires a quorum and settles ties by the tie-break policy', async () => {
+    const withQuorum = new GuardrailManager({ enableMultiAgentFeedback: true, consensusQuorum: 1 });
+    withQuorum.connectAgentToFeedbackSystem(peer('a', vote('block')));
+    withQuorum.connectAgentToFeedbackSystem(peer('b', null));
+    const short = await withQuorum.evaluate({ type: 'request', text: 'hello' }, agent, null);
+    expect(short.consensus).toMatchObject({ agentCount: 1, quorumMet: false, consensus: false });
+    expect(short.allowIntent).toBe(true);
+
+    const tied = async (tieBreak: ConsensusTieBreak) => {
+      const guardrails = new GuardrailManager({ enableMultiAgentFeedback: true, consensusTieBreak: tieBreak });
+      guardrails.connectAgentToFeedbackSystem(peer('trusted', vote('allow', 0.5)), { trustLevel: 0.8 });
+      guardrails.connectAgentToFeedbackSystem(peer('cautious', vote('block')), { trustLevel: 0.4 });
+      return (await guardrails.evaluate({ type: 'request', text: 'hello' }, agent, null)).consensus!;
+    };
+
+    expect(await tied('strictest')).toMatchObject({ consensus: true, consensusAction: 'block', consensusStrength: 0.5, tieBroken: true });
+    expect(await tied('most_trusted')).toMatchObject({ consensus: true, consensusAction: 'allow', tieBroken: true });
+    expect(await tied('none')).toMatchObject({ consensus: false, consensusAction: null, tieBroken: false });
+  });
+
+  it('takes operator decisions on escalated intents as ground truth', async () => {
+    const guardrails = new GuardrailManager({
+      enableMultiAgentFeedback: true,
+      policies: [{
+        name: 'review_transfers',
+        conditions: { transfer: { type: 'pattern_match', value: 'transfer' } },
+        actions: [{ type: 'escalate' }]
+      }]
+    });
+    guardrails.connectAgentToFeedbackSystem(peer('a', vote('warn', 0.5)));
+
+    const result = await guardrails.evaluate({ type: 'request', text: 'transfer the funds' }, agent, null);
+    expect(result.warnings).toEqual(['Multi-agent consensus: 1 of 1 agents recommend warn: looks like warn']);
+    guardrails.escalations.resolve(result.escalation!.id, 'block', 'ana', 'Unverified payee');
+
+    expect(guardrails.getAgentReliability('a')[0]).toMatchObject({
+      trustLevel: 0.45,
+      feedbackAccuracy: 0,
+      history: [expect.objectContaining({ source: 'override', correct: false })]
+    });
+  });
+});
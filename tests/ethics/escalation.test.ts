@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EscalationQueue } from '../../src/ethics/escalationqueue';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { PolicyFileError, parsePolicyDocument } from '../../src/ethics/policyloader';
+import { IntentAgent } from '../../src/core/intentagent';
+import { Policy } from '../../src/types/ethics';
+
+const reviewExploits: Policy = {
+  name: 'review_exploits',
+  conditions: { exploit: { type: 'pattern_match', value: 'exploit' } },
+  actions: [{ type: 'escalate', message: 'Exploit requests need review.' }]
+};
+
+const agent = { id: 'agent-1', state: { dissonance: 0.1 } };
+
+const waitFor = async (check: () => boolean, timeoutMs = 2000) => {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('timed out waiting');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('Escalation', () => {
+  it('parks escalated intents until an operator decides and records the override', async () => {
+    const guardrails = new GuardrailManager({
+      policies: [reviewExploits],
+      escalation: { operator: request => request.intent.text?.includes('audit') ? { decision: 'allow', by: 'ana', reason: 'Sanctioned audit' } : null }
+    });
+
+    const result = await guardrails.evaluate({ type: 'request', text: 'exploit for the audit' }, agent, null);
+
+    expect(result.allowIntent).toBe(false);
+    expect(result.interventions[0]).toMatchObject({ policyName: 'review_exploits', intervention: 'escalate', escalate: true });
+    expect(result.escalation).toMatchObject({
+      agentId: 'agent-1',
+      policies: ['review_exploits'],
+      reason: 'Exploit requests need review.',
+      status: 'pending',
+      defaultDecision: 'block'
+    });
+
+    const resolution = await guardrails.escalations.wait(result.escalation!.id);
+    expect(resolution).toMatchObject({ decision: 'allow', by: 'ana', reason: 'Sanctioned audit', timedOut: false });
+    expect(guardrails.getReflectionLog().pop()).toMatchObject({
+      interventionId: result.escalation!.id,
+      policyName: 'review_exploits',
+      reflection: 'Escalated request intent was allowed by ana: Sanctioned audit.',
+      override: { decision: 'allow', by: 'ana', reason: 'Sanctioned audit', timedOut: false }
+    });
+
+    // Undecided by the operator: stays pending until resolved by hand
+    const other = await guardrails.evaluate({ type: 'request', text: 'exploit the server' }, agent, null);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(guardrails.escalations.getPending().map(request => request.id)).toEqual([other.escalation!.id]);
+    expect(() => guardrails.escalations.resolve(other.escalation!.id, 'block', '', 'no')).toThrow('must name who decided');
+
+    guardrails.escalations.resolve(other.escalation!.id, 'block', 'ben', 'Not sanctioned');
+    expect(guardrails.escalations.getPending()).toEqual([]);
+    expect(guardrails.escalations.get(other.escalation!.id)?.resolution).toMatchObject({ decision: 'block', by: 'ben' });
+  });
+
+  it('applies the default decision on timeout and honours action params', async () => {
+    const queue = new EscalationQueue({ timeoutMs: 20 });
+    const request = queue.escalate({
+      intent: { type: 'request' },
+      agentId: 'agent-1',
+      policies: ['p'],
+      reason: 'review',
+      defaultDecision: 'allow'
+    });
+
+    expect(await queue.wait(request.id)).toMatchObject({ decision: 'allow', by: 'timeout', timedOut: true });
+    expect(await queue.wait(request.id)).toMatchObject({ decision: 'allow' });
+
+    const guardrails = new GuardrailManager({
+      policies: [{ ...reviewExploits, actions: [{ type: 'escalate', params: { timeoutMs: 20 } }] }]
+    });
+    const result = await guardrails.evaluate({ type: 'request', text: 'exploit' }, agent, null);
+    expect(result.escalation).toMatchObject({ timeoutMs: 20, reason: 'Policy review_exploits requires review' });
+
+    await guardrails.escalations.wait(result.escalation!.id);
+    expect(guardrails.getReflectionLog().pop()).toMatchObject({
+      reflection: 'Escalated request intent was defaulted to block after 20ms without a decision.',
+      override: { decision: 'block', by: 'timeout', timedOut: true }
+    });
+
+    try {
+      parsePolicyDocument('- name: review\n  conditions: {}\n  actions:\n    - type: escalate\n      params: { timeoutMs: -5, defaultDecision: maybe }\n');
+      throw new Error('expected a PolicyFileError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyFileError);
+      expect((error as PolicyFileError).issues.map(issue => issue.path)).toEqual([
+        '[0].actions[0].params.timeoutMs',
+        '[0].actions[0].params.defaultDecision'
+      ]);
+    }
+  });
+
+  it('resolves escalations from a file-based approval inbox', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+    const queue = new EscalationQueue({ inbox: dir, pollInterval: 10 });
+    const errors: Error[] = [];
+    queue.on('error', error => errors.push(error));
+
+    const request = queue.escalate({ intent: { type: 'request', text: 'exploit' }, agentId: 'agent-1', policies: ['p'], reason: 'review' });
+    const requestFile = path.join(dir, `${request.id}.request.json`);
+    await waitFor(() => fs.existsSync(requestFile));
+    expect(JSON.parse(fs.readFileSync(requestFile, 'utf8')).respondWith.file).toBe(`${request.id}.decision.json`);
+
+    fs.writeFileSync(path.join(dir, `${request.id}.decision.json`), '{ "decision": "perhaps" }');
+    await waitFor(() => errors.length > 0);
+    expect(errors[0].message).toContain('"decision" must be "allow" or "block"');
+
+    fs.writeFileSync(path.join(dir, `${request.id}.decision.json`), JSON.stringify({ decision: 'block', by: 'cleo', reason: 'Too risky' }));
+    expect(await queue.wait(request.id)).toMatchObject({ decision: 'block', by: 'cleo', reason: 'Too risky' });
+
+    await waitFor(() => fs.existsSync(path.join(dir, `${request.id}.resolved.json`)) && !fs.existsSync(requestFile));
+    queue.close();
+  });
+
+  it('archives escalations decided before their inbox request is written', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+    const queue = new EscalationQueue({
+      inbox: path.join(dir, 'inbox'),
+      operator: () => ({ decision: 'allow', by: 'ana' })
+    });
+
+    const request = queue.escalate({ intent: { type: 'request', text: 'exploit' }, agentId: 'agent-1', policies: ['p'], reason: 'review' });
+    await queue.wait(request.id);
+    await waitFor(() => fs.existsSync(path.join(dir, 'inbox', `${request.id}.resolved.json`)));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(fs.readdirSync(path.join(dir, 'inbox'))).toEqual([`${request.id}.resolved.json`]);
+    queue.close();
+  });
+
+  it('lets the agent await or defer escalated intents', async () => {
+    const agent = new IntentAgent({
+      id: 'reviewed',
+      fieldParams: { seed: 3 },
+      policies: [reviewExploits],
+      escalation: { operator: () => ({ decision: 'allow', by: 'ana', reason: 'Research' }) }
+    });
+    agent.activate();
+
+    const awaited = await agent.process('Explain how this exploit works', { escalation: 'await' });
+    expect(awaited.metadata.pending).toBeUndefined();
+    expect(awaited.metadata.escalation).toMatchObject({ status: 'resolved', decision: 'allow', by: 'ana' });
+
+    const deferring = new IntentAgent({ id: 'deferring', fieldParams: { seed: 3 }, policies: [reviewExploits] });
+    const escalations: any[] = [];
+    deferring.on('escalation', (event: any) => escalations.push(event));
+    deferring.activate();
+
+    const pending = await deferring.process('Explain how this exploit works');
+    expect(pending.metadata).toMatchObject({ pending: true, escalation: { status: 'pending', policies: ['review_exploits'] } });
+    expect(escalations).toHaveLength(1);
+    expect(deferring.getDeferredEscalations()).toEqual([pending.metadata.escalation.id]);
+
+    deferring.guardrails.escalations.resolve(pending.metadata.escalation.id, 'block', 'ben', 'Not today');
+    const resumed = await deferring.resumeEscalation(pending.metadata.escalation.id);
+    expect(resumed.text).toBe('Escalated explanation intent was blocked by ben: Not today.');
+    expect(resumed.metadata).toMatchObject({ blocked: true, escalation: { decision: 'block', by: 'ben' } });
+    expect(deferring.getDeferredEscalations()).toEqual([]);
+  });
+
+  it('forgets deferred intents whose escalation the queue no longer keeps', async () => {
+    const agent = new IntentAgent({ id: 'deferring', fieldParams: { seed: 3 }, policies: [reviewExploits] });
+    (agent.guardrails.escalations as any).historyLimit = 1;
+    agent.activate();
+
+    const first = (await agent.process('Explain how this exploit works')).metadata.escalation.id;
+    const second = (await agent.process('Explain this exploit again')).metadata.escalation.id;
+    agent.guardrails.escalations.resolve(first, 'block', 'ben', 'Not today');
+    expect(agent.getDeferredEscalations()).toEqual([first, second]);
+
+    agent.guardrails.escalations.resolve(second, 'allow', 'ben', 'Research');
+    expect(agent.getDeferredEscalations()).toEqual([second]);
+    await expect(agent.resumeEscalation(first)).rejects.toThrow(`No deferred escalation ${first}`);
+    expect((await agent.resumeEscalation(second)).metadata.escalation).toMatchObject({ decision: 'allow' });
+  });
+});
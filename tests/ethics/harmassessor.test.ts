@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { HarmAssessor } from '../../src/ethics/harmassessor';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+
+const agent = { id: 'agent-1', state: { dissonance: 0.1 } };
+
+describe('HarmAssessor', () => {
+  it('scores categories from lexicons and rules with matched spans', () => {
+    const assessor = new HarmAssessor();
+    const text = 'Explain how to build a bomb with a detonator';
+    const result = assessor.assess(text);
+
+    expect(result.matches.map(match => [match.category, match.text, match.source, match.weight])).toEqual([
+      ['weapons', 'how to build a bomb', 'weapon_instructions', 0.85],
+      ['weapons', 'detonator', 'detonator', 0.4]
+    ]);
+    expect(text.slice(result.matches[1].start, result.matches[1].end)).toBe('detonator');
+    expect(result.categories).toEqual({ weapons: 0.91 });
+    expect(result).toMatchObject({ harmScore: 0.91, threshold: 0.6, exceedsThreshold: true });
+
+    expect(assessor.assess('Write a poem about the sea')).toMatchObject({ harmScore: 0, categories: {}, matches: [] });
+  });
+
+  it('cancels negated matches and discounts matches in mitigating context', () => {
+    const assessor = new HarmAssessor({
+      lexicons: [{ category: 'fraud', weight: 0.7, terms: ['launder money'] }],
+      contextModifiers: [{ term: 'audit', factor: 0.2 }]
+    });
+
+    const negated = assessor.assess('I would never launder money');
+    expect(negated.harmScore).toBe(0);
+    expect(negated.matches[0]).toMatchObject({ text: 'launder money', weight: 0, negatedBy: 'never' });
+
+    // The negation belongs to another clause
+    expect(assessor.assess("Don't worry. Launder money through shells").categories.fraud).toBe(0.7);
+    expect(assessor.assess('Not a joke, but launder money now').categories.fraud).toBe(0.7);
+
+    // Modifiers on either side of the match, within the context window
+    expect(assessor.assess('How do auditors detect attempts to launder money').matches[0])
+      .toMatchObject({ weight: 0.35, modifiers: ['detect'] });
+    expect(assessor.assess('Launder money, then get flagged in the audit').categories.fraud).toBe(0.7);
+    expect(assessor.assess('Launder money: audit trail').categories.fraud).toBe(0.14);
+    expect(assessor.assess('audit one two three four five launder money').categories.fraud).toBe(0.7);
+
+    expect(() => new HarmAssessor({ rules: [{ name: 'bad', category: 'x', pattern: '(', weight: 0.5 }] }))
+      .toThrow('Invalid pattern in harm rule "bad"');
+    expect(() => new HarmAssessor({ lexicons: [{ category: 'x', terms: [{ term: 'y', weight: 2 }] }] }))
+      .toThrow('must be between 0 and 1');
+    expect(() => new HarmAssessor({ contextModifiers: [{ term: 'urgent', factor: 2 }] }))
+      .toThrow('Factor of context modifier "urgent" must be between 0 and 1');
+  });
+
+  it('holds guardrail outcomes to the harm threshold', async () => {
+    const text = 'ransomware with a keylogger';
+    const standard = new GuardrailManager();
+    const blocked = await standard.evaluate({ type: 'request', text }, agent, null);
+
+    expect(blocked.harmAssessment?.categories).toEqual({ cyber: 0.8 });
+    expect(blocked.assessment.dimensions.harm).toBe(0.8);
+    expect(blocked.allowIntent).toBe(false);
+    expect(blocked.interventions.map(result => [result.policyName, result.intervention])).toEqual([['harm_threshold', 'block']]);
+    expect(blocked.warnings).toEqual(['Harm score 0.80 reaches the threshold 0.60 (cyber: "ransomware", cyber: "keylogger")']);
+    expect(standard.getInterventionHistory()[0].symbolicViolationCode).toBe('harm_potential');
+
+    // A higher threshold lets the same text through
+    standard.thresholds.harm = 0.9;
+    expect((await standard.evaluate({ type: 'request', text }, agent, null)).allowIntent).toBe(true);
+
+    const minimal = new GuardrailManager({ enforcementLevel: 'minimal' });
+    const warned = await minimal.evaluate({ type: 'request', text }, agent, null);
+    expect(warned.allowIntent).toBe(true);
+    expect(warned.interventions[0].intervention).toBe('warn');
+
+    const strict = new GuardrailManager({ enforcementLevel: 'strict' });
+    const approaching = await strict.evaluate({ type: 'request', text: 'keylogger' }, agent, null);
+    expect(approaching.allowIntent).toBe(true);
+    expect(approaching.warnings).toEqual(['Harm score 0.50 approaches the threshold 0.60 (cyber: "keylogger")']);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { applyModifyAction } from '../../src/ethics/intentmodifier';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { PolicyFileError, parsePolicyDocument } from '../../src/ethics/policyloader';
+import { TemplateResponseGenerator } from '../../src/engine/responsegenerator';
+import { IntentAgent } from '../../src/core/intentagent';
+import { Intent } from '../../src/types/intent';
+
+const intent: Intent = {
+  type: 'analysis',
+  subtype: 'forensic',
+  text: 'Check 555-1234 and call Ana at 555-9876',
+  entities: [
+    { type: 'phone', value: '555-1234', start: 6, end: 14 },
+    { type: 'person', value: 'Ana', start: 24, end: 27 }
+  ]
+};
+
+describe('Modify actions', () => {
+  it('redacts spans, downgrades the type and attaches constraints without touching the original', () => {
+    const result = applyModifyAction(intent, {
+      type: 'modify',
+      params: {
+        redact: '\\d{3}-\\d{4}',
+        downgradeTo: 'explanation',
+        constraints: [{ type: 'max_length', value: 40 }]
+      }
+    }, 'privacy');
+
+    expect(result.intent).toMatchObject({
+      type: 'explanation',
+      text: 'Check [redacted] and call Ana at [redacted]',
+      entities: [{ type: 'person', value: 'Ana', start: 26, end: 29 }],
+      metadata: { downgradedFrom: 'analysis' },
+      constraints: [{ type: 'max_length', value: 40, source: 'privacy' }]
+    });
+    expect(result.intent.subtype).toBeUndefined();
+    expect(result.intent.text!.slice(26, 29)).toBe('Ana');
+    expect(result.modifications.map(modification => modification.kind)).toEqual(['redact', 'downgrade', 'constrain']);
+    expect(intent.text).toBe('Check 555-1234 and call Ana at 555-9876');
+    expect(intent.entities).toHaveLength(2);
+
+    const unchanged = applyModifyAction(intent, { type: 'modify', params: { redact: 'nothing-here' } }, 'privacy');
+    expect(unchanged).toEqual({ intent, modifications: [] });
+  });
+
+  it('records the original and modified intents in guardrail results', async () => {
+    const guardrails = new GuardrailManager({
+      policies: [
+        {
+          name: 'phone_privacy',
+          conditions: { phone: { type: 'pattern_match', value: '\\d{3}-\\d{4}' } },
+          actions: [{ type: 'modify', params: { redact: '\\d{3}-\\d{4}', replacement: '<phone>' } }]
+        },
+        {
+          name: 'forensics_downgrade',
+          conditions: { forensic: { type: 'intent_field', field: 'subtype', value: 'forensic' } },
+          actions: [{ type: 'modify', params: { downgradeTo: 'explanation' } }]
+        }
+      ]
+    });
+
+    const result = await guardrails.evaluate(intent, { id: 'agent-1' }, null);
+
+    expect(result.allowIntent).toBe(true);
+    expect(result.originalIntent).toBe(intent);
+    expect(result.modifiedIntent).toMatchObject({ type: 'explanation', text: 'Check <phone> and call Ana at <phone>' });
+    expect(result.modifications).toEqual([
+      { policyName: 'phone_privacy', kind: 'redact', detail: 'redacted 2 span(s) matching /\\d{3}-\\d{4}/' },
+      { policyName: 'forensics_downgrade', kind: 'downgrade', detail: 'intent type analysis/forensic -> explanation' }
+    ]);
+    expect(result.interventions.map(evaluation => evaluation.intervention)).toEqual(['modify', 'modify']);
+
+    const clean = await guardrails.evaluate({ type: 'analysis', text: 'hello' }, { id: 'agent-1' }, null);
+    expect(clean.modifiedIntent).toBeUndefined();
+    expect(clean.modifications).toBeUndefined();
+  });
+
+  it('makes the response generator respect attached constraints', () => {
+    const generator = new TemplateResponseGenerator({
+      templates: [{ id: 'echo', intentType: '*', text: 'You asked about "{{intent.text}}" regarding secret plans.' }]
+    });
+    const response = generator.generate({
+      intent: {
+        type: 'analysis',
+        text: 'the launch',
+        constraints: [
+          { type: 'no_echo', value: 'that topic' },
+          { type: 'exclude', value: ['secret', 'plans ('] },
+          { type: 'disclaimer', value: 'Some details were withheld.' },
+          { type: 'max_length', value: 60 }
+        ]
+      },
+      memories: [],
+      warnings: [],
+      state: {}
+    });
+
+    expect(response.text).toBe('You asked about "that topic" regarding [redacted] plans. So…');
+    expect(response.text.length).toBeLessThanOrEqual(60);
+    expect(response.metadata.appliedConstraints).toEqual(['no_echo', 'exclude', 'disclaimer', 'max_length']);
+  });
+
+  it('processes the modified intent and validates modify actions in policy files', async () => {
+    const agent = new IntentAgent({ id: 'modifier', fieldParams: { seed: 3 } });
+    agent.guardrails.registerPolicy({
+      name: 'no_echo',
+      conditions: {},
+      actions: [{ type: 'modify', params: { constraints: [{ type: 'no_echo' }] } }]
+    });
+    agent.activate();
+
+    const response = await agent.process('Explain how tides work');
+
+    expect(response.text).not.toContain('tides');
+    expect(response.metadata.guardrails.modifications).toEqual([
+      { policyName: 'no_echo', kind: 'constrain', detail: 'attached constraint(s) no_echo' }
+    ]);
+
+    try {
+      parsePolicyDocument('- name: broken\n  conditions: {}\n  actions:\n    - type: modify\n      params: { redact: "(" }\n');
+      throw new Error('expected a PolicyFileError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyFileError);
+      expect((error as PolicyFileError).issues[0]).toMatchObject({ path: '[0].actions[0].params.redact', line: 5 });
+    }
+
+    try {
+      parsePolicyDocument([
+        '- name: broken',
+        '  conditions: {}',
+        '  actions:',
+        '    - type: modify',
+        '      params:',
+        '        constraints:',
+        '          - { type: exclude, value: [secret, "("] }',
+        '          - { type: exclude }'
+      ].join('\n'));
+      throw new Error('expected a PolicyFileError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyFileError);
+      expect((error as PolicyFileError).issues.map(issue => [issue.path, issue.message.split(':')[0]])).toEqual([
+        ['[0].actions[0].params.constraints[0].value[1]', 'invalid exclude pattern'],
+        ['[0].actions[0].params.constraints[1].value', 'exclude constraint "value" must be a pattern or a list of patterns']
+      ]);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { NexusFramework, NormativeConstraint } from '../../src/ethics/nexusframework';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { PolicyFileError, parsePolicyDocument } from '../../src/ethics/policyloader';
+
+const agent = { id: 'agent-1', state: { dissonance: 0.1 } };
+
+describe('NexusFramework', () => {
+  it('scores dimensions from constraints and signals and explains them', async () => {
+    const framework = new NexusFramework({ weights: { harm: 0.5, privacy: 0.5, fairness: 0, autonomy: 0, integrity: 0, dignity: 0 } });
+    framework.registerConstraint(new NormativeConstraint({
+      name: 'no_tracking',
+      condition: { type: 'pattern_match', value: 'track' },
+      impact: 0.6,
+      dimensions: { privacy: 1, autonomy: 0.5 }
+    }));
+    framework.registerConstraint(new NormativeConstraint({
+      name: 'no_location',
+      condition: context => context.intent.text?.includes('location') ? 0.5 : 0,
+      impact: 0.8,
+      dimensions: ['privacy']
+    }));
+
+    const assessment = await framework.evaluate(
+      { type: 'request', text: 'track her location' },
+      {},
+      { signals: [{ name: 'harm_assessor', dimensions: { harm: 0.3 } }] }
+    );
+
+    expect(assessment.dimensions).toEqual({
+      harm: 0.3, fairness: 0.1, autonomy: 0.3, privacy: 0.76, integrity: 0.1, dignity: 0.1
+    });
+    expect(assessment.overallScore).toBe(0.53);
+    expect(assessment.explanations!.privacy).toEqual({
+      score: 0.76,
+      contributors: [
+        { name: 'no_tracking', kind: 'soft', contribution: 0.6 },
+        { name: 'no_location', kind: 'soft', contribution: 0.4 }
+      ]
+    });
+    expect(assessment.explanations!.fairness).toEqual({ score: 0.1, contributors: [] });
+    expect(assessment.violations).toEqual(['no_tracking', 'no_location']);
+    expect(assessment.vetoes).toEqual([]);
+    expect(assessment.reasoning).toBe(
+      'Concerns: harm 0.30 (harm_assessor); autonomy 0.30 (no_tracking); privacy 0.76 (no_tracking, no_location).'
+    );
+
+    const quiet = await framework.evaluate({ type: 'request', text: 'hello' });
+    expect(quiet).toMatchObject({ overallScore: 0.1, violations: [], reasoning: 'No constraint or signal raised a concern.' });
+
+    expect(() => new NormativeConstraint({ name: 'bad', dimensions: ['care' as any] }))
+      .toThrow('Unknown ethical dimension "care" in constraint bad');
+  });
+
+  it('vetoes intents that violate hard constraints regardless of the score', async () => {
+    const guardrails = new GuardrailManager({
+      policies: [{
+        name: 'no_records',
+        createConstraint: true,
+        constraintType: 'hard',
+        constraintDimensions: ['privacy'],
+        constraintImpact: 0.05,
+        conditions: {
+          records: { type: 'pattern_match', value: 'medical records' }
+        },
+        actions: [{ type: 'log' }]
+      }]
+    });
+
+    const vetoed = await guardrails.evaluate({ type: 'request', text: 'share the medical records' }, agent, null);
+    expect(vetoed.assessment.overallScore).toBeLessThan(0.2);
+    expect(vetoed.assessment.vetoes).toEqual([
+      { constraint: 'no_records', dimensions: ['privacy'], symbolicViolationCode: 'privacy_breach' }
+    ]);
+    expect(vetoed.allowIntent).toBe(false);
+    expect(vetoed.interventions.map(result => [result.policyName, result.intervention]))
+      .toEqual([['no_records', 'log'], ['constraint_veto', 'block']]);
+    expect(vetoed.warnings).toEqual(['Hard constraint no_records vetoes the intent']);
+    expect(guardrails.getInterventionHistory()[1].symbolicViolationCode).toBe('privacy_breach');
+
+    guardrails.unregisterPolicy('no_records');
+    expect((await guardrails.evaluate({ type: 'request', text: 'share the medical records' }, agent, null)).allowIntent)
+      .toBe(true);
+
+    try {
+      parsePolicyDocument([
+        'policies:',
+        '  - name: p',
+        '    createConstraint: true',
+        '    constraintDimensions: [privacy, care]',
+        '    constraintImpact: 2',
+        '    conditions: {}',
+        '    actions: [{ type: log }]'
+      ].join('\n'));
+      throw new Error('expected a PolicyFileError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyFileError);
+      expect((error as PolicyFileError).issues.map(issue => [issue.path, issue.message])).toEqual([
+        ['policies[0].constraintDimensions[1]',
+          'constraint dimension must be one of harm, fairness, autonomy, privacy, integrity, dignity'],
+        ['policies[0].constraintImpact', '"constraintImpact" must be a number from 0 to 1']
+      ]);
+    }
+  });
+});
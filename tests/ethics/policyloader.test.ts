@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PolicyFileError,
+  PolicySet,
+  loadPolicyFile,
+  parsePolicyDocument
+} from '../../src/ethics/policyloader';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+
+const yamlPolicies = `# Reviewed by the ethics board
+version: 1
+policies:
+  - name: harm_block
+    conditions:
+      harm:
+        type: ethical_dimension_above
+        dimension: harm
+        value: 0.8
+    actions:
+      - type: block
+        message: Harmful request blocked.
+  - name: combined
+    conditions:
+      either:
+        operator: or
+        conditions:
+          - { type: pattern_match, value: exploit }
+          - { type: intent_type, value: manipulate }
+    actions:
+      - type: warn
+`;
+
+const policyFile = (name: string, text: string) => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'policies-')), name);
+  fs.writeFileSync(file, text);
+  return file;
+};
+
+const issuesOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyFileError);
+    return (error as PolicyFileError).issues;
+  }
+  throw new Error('expected a PolicyFileError');
+};
+
+describe('Policy files', () => {
+  it('parses YAML and JSON policy files into policies', async () => {
+    const document = parsePolicyDocument(yamlPolicies);
+
+    expect(document.version).toBe(1);
+    expect(document.policies.map(policy => policy.name)).toEqual(['harm_block', 'combined']);
+    expect(document.policies[1].conditions.either.conditions).toHaveLength(2);
+
+    const json = policyFile('policies.json', JSON.stringify(document.policies, null, 2));
+    expect(await loadPolicyFile(json)).toEqual({ policies: document.policies });
+  });
+
+  it('reports schema problems with their path, line and column', () => {
+    const issues = issuesOf(() => parsePolicyDocument(`policies:
+  - name: broken
+    conditions:
+      bad: { operator: xor, conditions: [] }
+    actions:
+      - type: erase
+        mesage: typo
+  - name: broken
+    conditions: {}
+    actions: []
+`));
+
+    expect(issues).toEqual([
+      { path: 'policies[0].conditions.bad.operator', line: 4, column: 24, message: 'condition "operator" must be one of and, or, not' },
+      { path: 'policies[0].conditions.bad.conditions', line: 4, column: 41, message: 'sub-"conditions" must be a non-empty list' },
+      { path: 'policies[0].actions[0].type', line: 6, column: 15, message: 'action "type" must be one of block, warn, modify, escalate, log' },
+      {
+        path: 'policies[0].actions[0].mesage',
+        line: 7,
+        column: 9,
+        message: 'unknown key "mesage" (expected one of type, message, params)'
+      },
+      { path: 'policies[1].actions', line: 10, column: 14, message: '"actions" must be a non-empty list' }
+    ]);
+  });
+
+  it('reports syntax errors and duplicate names at their location', () => {
+    const syntax = issuesOf(() => parsePolicyDocument('{\n  "policies": [\n    { "name": "a" ]\n}\n', { format: 'json' }));
+    expect(syntax[0].line).toBe(3);
+    expect(syntax[0].message).toMatch(/^JSON syntax error/);
+
+    const duplicate = issuesOf(() => parsePolicyDocument(
+      `- { name: a, conditions: {}, actions: [{ type: log }] }\n- { name: a, conditions: {}, actions: [{ type: log }] }\n`
+    ));
+    expect(duplicate).toEqual([{
+      path: '[1].name',
+      line: 2,
+      column: 11,
+      message: 'duplicate policy name "a" (first declared at [0])'
+    }]);
+  });
+
+  it('keeps the last valid policies when a reload fails', async () => {
+    const file = policyFile('policies.yaml', yamlPolicies);
+    const manager = new GuardrailManager({ policies: [{ name: 'code_defined', conditions: {}, actions: [] }] });
+    const set = new PolicySet(file);
+    const reloads: any[] = [];
+    const errors: Error[] = [];
+    set.on('reload', event => reloads.push(event));
+    set.on('error', error => errors.push(error));
+
+    set.attach(manager);
+    expect(await set.reload()).toBe(true);
+    expect(manager.policies.map(policy => policy.name)).toEqual(['code_defined', 'harm_block', 'combined']);
+
+    fs.writeFileSync(file, yamlPolicies.replace('type: warn', 'type: shout'));
+    expect(await set.reload()).toBe(false);
+    expect(errors[0].message).toContain('line 21, column 15 (policies[1].actions[0].type)');
+    expect(manager.policies.map(policy => policy.name)).toEqual(['code_defined', 'harm_block', 'combined']);
+
+    fs.writeFileSync(file, yamlPolicies.replace('value: 0.8', 'value: 0.6').split('  - name: combined')[0]);
+    expect(await set.reload()).toBe(true);
+    expect(reloads[1]).toMatchObject({ added: [], removed: ['combined'], updated: ['harm_block'] });
+    expect(manager.policies.map(policy => policy.name)).toEqual(['code_defined', 'harm_block']);
+    expect(manager.policies[1].conditions.harm.value).toBe(0.6);
+
+    expect(set.detach(manager)).toBe(true);
+    expect(manager.policies.map(policy => policy.name)).toEqual(['code_defined']);
+  });
+
+  it('reloads watched files when they change', async () => {
+    const file = policyFile('policies.yml', yamlPolicies);
+    const set = new PolicySet(file, { watch: true, interval: 20 });
+    await set.load();
+
+    const reloaded = new Promise(resolve => set.once('reload', resolve));
+    fs.writeFileSync(file, yamlPolicies.split('  - name: combined')[0]);
+
+    try {
+      await reloaded;
+      expect(set.policies.map(policy => policy.name)).toEqual(['harm_block']);
+    } finally {
+      set.close();
+    }
+  }, 5000);
+});
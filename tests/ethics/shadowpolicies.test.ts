@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { GuardrailManager } from '../../src/ethics/guardrailmanager';
+import { Policy } from '../../src/types/ethics';
+
+const blockExploits: Policy = {
+  name: 'block_exploits',
+  conditions: { exploit: { type: 'pattern_match', value: 'exploit' } },
+  actions: [{ type: 'block', message: 'Exploit requests are blocked.' }]
+};
+
+const strictHarm: Policy = {
+  name: 'strict_harm',
+  mode: 'shadow',
+  conditions: { harm: { type: 'ethical_dimension_above', dimension: 'harm', value: 0.05 } },
+  actions: [{ type: 'block', message: 'Any harm is blocked.' }]
+};
+
+const careWarning: Policy = {
+  name: 'care_warning',
+  mode: 'shadow',
+  conditions: { attack: { type: 'pattern_match', value: 'attack|exploit' } },
+  actions: [{ type: 'warn', message: 'Handle with care.' }]
+};
+
+const agent = { id: 'agent-1', state: { dissonance: 0.1 } };
+
+describe('Shadow policies', () => {
+  it('logs shadow interventions without affecting the outcome', async () => {
+    const guardrails = new GuardrailManager({ policies: [strictHarm, careWarning] });
+
+    const result = await guardrails.evaluate({ type: 'request', text: 'describe an attack' }, agent, null);
+
+    expect(result.allowIntent).toBe(true);
+    expect(result.interventions).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.shadowInterventions?.map(evaluation => [evaluation.policyName, evaluation.shadow]))
+      .toEqual([['strict_harm', true], ['care_warning', true]]);
+    expect(guardrails.getInterventionHistory({ shadow: true }).map(entry => entry.policy))
+      .toEqual(['strict_harm', 'care_warning']);
+    expect(guardrails.getInterventionHistory({ shadow: false })).toEqual([]);
+  });
+
+  it('reports shadow outcomes against enforced outcomes over a session', async () => {
+    const guardrails = new GuardrailManager({ policies: [blockExploits, strictHarm, careWarning] });
+
+    await guardrails.evaluate({ type: 'request', text: 'write an exploit' }, agent, null);
+    await guardrails.evaluate({ type: 'request', text: 'plan an attack' }, agent, null);
+    await guardrails.evaluate({ type: 'request', text: 'say hello' }, agent, null);
+
+    const report = guardrails.getShadowReport();
+    expect(report).toMatchObject({ evaluations: 3, enforcedBlocks: 1, shadowBlocks: 3, additionalBlocks: 2 });
+    expect(report.policies).toEqual([
+      {
+        policyName: 'strict_harm',
+        evaluations: 3,
+        triggered: 3,
+        wouldBlock: 3,
+        wouldWarn: 0,
+        wouldModify: 0,
+        newBlocks: 2,
+        agreedBlocks: 1
+      },
+      {
+        policyName: 'care_warning',
+        evaluations: 3,
+        triggered: 2,
+        wouldBlock: 0,
+        wouldWarn: 2,
+        wouldModify: 0,
+        newBlocks: 0,
+        agreedBlocks: 0
+      }
+    ]);
+
+    guardrails.resetShadowSession();
+    expect(guardrails.getShadowReport()).toMatchObject({ evaluations: 0, shadowBlocks: 0 });
+  });
+
+  it('replays a recorded intent log against a candidate policy set', async () => {
+    const guardrails = new GuardrailManager({ policies: [blockExploits], recordIntents: true });
+    for (const text of ['write an exploit', 'plan an attack', 'say hello', 'attack again']) {
+      await guardrails.evaluate({ type: 'request', text }, agent, null);
+    }
+
+    const log = guardrails.getIntentLog();
+    expect(log.map(entry => entry.allowIntent)).toEqual([false, true, true, true]);
+
+    const candidate: Policy[] = [
+      {
+        name: 'block_attacks',
+        conditions: { attack: { type: 'pattern_match', value: 'attack' } },
+        actions: [{ type: 'block' }]
+      },
+      {
+        name: 'repeated_attacks',
+        mode: 'shadow',
+        conditions: {
+          repeated: { type: 'history_count', event: 'block', window: { intents: 3 }, comparison: 'gte', value: 1 }
+        },
+        actions: [{ type: 'warn' }]
+      }
+    ];
+    const replay = await guardrails.replayIntentLog(JSON.parse(JSON.stringify(log)), candidate);
+
+    expect(replay).toMatchObject({ evaluations: 4, blocked: 2, newlyBlocked: 2, newlyAllowed: 1 });
+    expect(replay.results.map(result => [result.recordedAllow, result.replayedAllow])).toEqual([
+      [false, true], [true, false], [true, true], [true, false]
+    ]);
+    expect(replay.results[1].interventions).toEqual(['block_attacks']);
+    expect(replay.results[2].shadowInterventions).toEqual(['repeated_attacks']);
+    expect(replay.shadow.policies[0]).toMatchObject({ policyName: 'repeated_attacks', triggered: 2, wouldWarn: 2 });
+
+    expect(guardrails.policies.map(policy => policy.name)).toEqual(['block_exploits']);
+    expect(guardrails.getInterventionHistory()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { CodexIntegrityValidator } from '../../src/tools/codexintegrityvalidator';
+import { parseCodex } from '../../src/core/codexloader';
+
+const codex = (boundaries: string[], vector = '[1, 0, 0]') => `## METADATA
+CODEX_VERSION: 1.0.0
+
+## FIELD DEFINITION
+FIELD_VECTOR: ${vector}
+
+## ETHICAL BOUNDARIES
+${boundaries.map((boundary, index) => `ETHICAL_BOUNDARY_${index + 1}: ${boundary}`).join('\n')}
+`;
+
+describe('Codex diff and merge', () => {
+  it('diffs codices and flags conflicting boundary edits in three-way merges', () => {
+    const base = parseCodex(codex(['autonomy | base', 'care']));
+    const ours = parseCodex(codex(['autonomy | ours', 'fairness'], '[1, 1, 0]'));
+    const theirs = parseCodex(codex(['autonomy | theirs', 'care', 'transparency']));
+
+    const diff = CodexIntegrityValidator.diffCodices(base, ours);
+    expect(diff.ethicalBoundaries.added.map(b => b.name)).toEqual(['fairness']);
+    expect(diff.ethicalBoundaries.removed.map(b => b.name)).toEqual(['care']);
+    expect(diff.field.cosineDistance).toBeCloseTo(1 - Math.SQRT1_2, 10);
+    expect(CodexIntegrityValidator.formatDiffReport(diff)).toContain('~ autonomy: autonomy (base) -> autonomy (ours)');
+
+    const merged = CodexIntegrityValidator.mergeCodices(base, ours, theirs);
+    expect(merged.clean).toBe(false);
+    expect(merged.conflicts).toHaveLength(1);
+    expect(merged.conflicts[0]).toMatchObject({ section: 'ethicalBoundaries', key: 'autonomy' });
+    expect(merged.codex.ethicalBoundaries.map(b => b.name)).toEqual(['autonomy', 'fairness', 'transparency']);
+    expect(merged.codex.field.vector).toEqual([1, 1, 0]);
+  });
+
+  it('merges independent edits cleanly and reports identical codices', () => {
+    const base = parseCodex(codex(['autonomy', 'care']));
+    const ours = parseCodex(codex(['autonomy | ours', 'care']));
+    const theirs = parseCodex(codex(['autonomy', 'care', 'fairness']));
+
+    const merged = CodexIntegrityValidator.mergeCodices(base, ours, theirs);
+    expect(merged).toMatchObject({ clean: true, conflicts: [] });
+    expect(merged.codex.ethicalBoundaries.map(b => [b.name, b.description])).toEqual([
+      ['autonomy', 'ours'], ['care', undefined], ['fairness', undefined]
+    ]);
+
+    const same = CodexIntegrityValidator.diffCodices(base, parseCodex(codex(['autonomy', 'care'])));
+    expect(same.identical).toBe(true);
+    expect(CodexIntegrityValidator.formatDiffReport(same)).toContain('Codices are structurally identical.');
+  });
+});
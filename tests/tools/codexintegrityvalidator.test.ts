@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodexIntegrityValidator } from '../../src/tools/codexintegrityvalidator';
+import { formatJUnitReport, formatSarifReport } from '../../src/tools/validationreport';
+import { computeCodexHash, parseCodex } from '../../src/core/codexloader';
+
+const codex = (boundaries: string[], vector = '[1, 0, 0]') => `## METADATA
+CODEX_VERSION: 1.0.0
+
+## FIELD DEFINITION
+FIELD_VECTOR: ${vector}
+
+## ETHICAL BOUNDARIES
+${boundaries.map((boundary, index) => `ETHICAL_BOUNDARY_${index + 1}: ${boundary}`).join('\n')}
+`;
+
+const createCodexDirectory = () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codices-'));
+  fs.writeFileSync(path.join(dir, 'a-valid.codex'), codex(['autonomy', 'care']));
+  fs.writeFileSync(path.join(dir, 'b-missing.codex'), codex(['autonomy']));
+  fs.writeFileSync(path.join(dir, 'c-broken.txt'), '## METADATA\nCODEX_VERSION: 1.0.0\n\n## FIELD DEFINITION\nFIELD_VECTOR: [oops]\n');
+  fs.writeFileSync(path.join(dir, 'notes.md'), 'not a codex');
+  fs.mkdirSync(path.join(dir, 'nested'));
+  fs.writeFileSync(path.join(dir, 'nested', 'd-valid.codex'), codex(['care', 'autonomy']));
+  return dir;
+};
+
+describe('CodexIntegrityValidator', () => {
+  it('validates a directory of codices and aggregates the results', async () => {
+    const dir = createCodexDirectory();
+
+    const batch = await CodexIntegrityValidator.validateDirectory(dir, {
+      requiredEthicalBoundaries: ['autonomy', 'care']
+    });
+
+    expect(batch.results.map(entry => path.basename(entry.codexPath)))
+      .toEqual(['a-valid.codex', 'b-missing.codex', 'c-broken.txt']);
+    expect(batch).toMatchObject({ valid: false, total: 3, passed: 1, failed: 2 });
+
+    const missing = batch.results[1].result;
+    expect(missing.checks?.find(check => check.name === 'ethicalBoundaries')).toMatchObject({ valid: false, line: 7 });
+    expect(missing.checks?.find(check => check.name === 'hash')).toMatchObject({ valid: true, skipped: true });
+
+    const recursive = await CodexIntegrityValidator.validateDirectory(dir, {
+      requiredEthicalBoundaries: ['autonomy', 'care'],
+      recursive: true
+    });
+    expect(recursive.total).toBe(4);
+    expect(recursive.passed).toBe(2);
+  });
+
+  it('writes JUnit XML with one test case per check', async () => {
+    const dir = createCodexDirectory();
+    const batch = await CodexIntegrityValidator.validateDirectory(dir, { requiredEthicalBoundaries: ['care'] });
+
+    const xml = formatJUnitReport(batch);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="codex-integrity-validator" tests="9" failures="2"/);
+    expect(xml.match(/<testsuite /g)).toHaveLength(3);
+    expect(xml).toContain(`<testcase classname="${path.join(dir, 'c-broken.txt')}" name="parse"`);
+    expect(xml).toContain('<failure message="Codex parse error at line 5: FIELD_VECTOR must be a list of numbers like [0.1, 0.2]" type="parse">');
+    expect(xml).toContain('<skipped message="No agent vector path provided. Skipping field integrity alignment check."/>');
+  });
+
+  it('writes SARIF results located at the offending codex lines', async () => {
+    const dir = createCodexDirectory();
+    const batch = await CodexIntegrityValidator.validateDirectory(dir, { requiredEthicalBoundaries: ['autonomy', 'care'] });
+
+    const sarif = JSON.parse(formatSarifReport(batch, { baseDirectory: dir }));
+    const results = sarif.runs[0].results;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules.map((rule: any) => rule.id)).toContain('codex/ethical-boundaries');
+    expect(results).toEqual([
+      {
+        ruleId: 'codex/ethical-boundaries',
+        level: 'error',
+        message: { text: 'Missing required ethical boundaries: care' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'b-missing.codex' }, region: { startLine: 7 } } }]
+      },
+      {
+        ruleId: 'codex/parse',
+        level: 'error',
+        message: { text: 'FIELD_VECTOR must be a list of numbers like [0.1, 0.2]' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'c-broken.txt' }, region: { startLine: 5 } } }]
+      }
+    ]);
+  });
+
+  it('generates codices whose embedded hash matches, whatever their name mentions', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codex-generate-'));
+    const templatePath = path.join(dir, 'template.codex');
+    const outputPath = path.join(dir, 'generated.codex');
+    fs.writeFileSync(templatePath, codex(['autonomy']).replace(
+      'CODEX_VERSION: 1.0.0', 'CODEX_VERSION: 1.0.0\nCODEX_NAME: Notes on INTEGRITY_HASH: usage'));
+
+    await CodexIntegrityValidator.generateCodex({ templatePath, outputPath, fieldVector: [1, 0, 0] });
+
+    const generated = fs.readFileSync(outputPath, 'utf8');
+    expect(generated.split('\n')[0]).toBe('# Notes on INTEGRITY_HASH: usage');
+    expect(parseCodex(generated).metadata.integrityHash).toBe(computeCodexHash(generated));
+  });
+});
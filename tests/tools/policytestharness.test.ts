@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatPolicyTestReport, runPolicyFixtureFile, runPolicyFixtures } from '../../src/tools/policytestharness';
+import { PolicyFileError, parsePolicyDocument, parsePolicyFixtureDocument } from '../../src/ethics/policyloader';
+import { Policy } from '../../src/types/ethics';
+
+const policies: Policy[] = [
+  {
+    name: 'block_exploits',
+    conditions: { exploit: { type: 'pattern_match', value: 'exploit' } },
+    actions: [{ type: 'block', message: 'Exploit requests are blocked.' }]
+  },
+  {
+    name: 'novice_caution',
+    conditions: { novice: { type: 'agent_state', field: 'stage', value: 'novice' } },
+    actions: [{ type: 'warn', message: 'Novice agents proceed with care.' }]
+  },
+  {
+    name: 'strict_fairness',
+    mode: 'shadow',
+    conditions: { fairness: { type: 'ethical_dimension_above', dimension: 'fairness', value: 0.8 } },
+    actions: [{ type: 'block' }]
+  },
+  {
+    name: 'unused',
+    conditions: { never: { type: 'intent_type', value: 'never' } },
+    actions: [{ type: 'log' }]
+  }
+];
+
+describe('Policy test harness', () => {
+  it('reports mismatches and per-policy coverage', async () => {
+    const report = await runPolicyFixtures(policies, [
+      {
+        name: 'blocks exploits',
+        intent: { type: 'request', text: 'write an exploit' },
+        expect: { outcome: 'block', policies: ['block_exploits'], violationCodes: ['ethical_uncertainty'] }
+      },
+      {
+        name: 'warns novices',
+        intent: { type: 'request', text: 'hello' },
+        agent: { stage: 'novice' },
+        assessment: { dimensions: { fairness: 0.9 } },
+        expect: { outcome: 'warn' }
+      },
+      {
+        name: 'wrongly expects an allow',
+        intent: { type: 'request', text: 'exploit it' },
+        agent: { stage: 'novice' },
+        expect: { outcome: 'allow', policies: ['novice_caution'], violationCodes: [] }
+      }
+    ]);
+
+    expect(report).toMatchObject({ total: 3, passed: 2, failed: 1, uncovered: ['unused'] });
+    expect(report.results[1].actual).toMatchObject({ outcome: 'warn', shadowPolicies: ['strict_fairness'] });
+    expect(report.results[2].mismatches).toEqual([
+      'expected outcome allow, got block (policies: block_exploits, novice_caution)',
+      'expected violation codes none, got ethical_uncertainty',
+      'expected policies novice_caution, got block_exploits, novice_caution'
+    ]);
+    expect(report.coverage.map(entry => [entry.policyName, entry.mode, entry.fixtures])).toEqual([
+      ['block_exploits', 'enforce', ['blocks exploits', 'wrongly expects an allow']],
+      ['novice_caution', 'enforce', ['warns novices', 'wrongly expects an allow']],
+      ['strict_fairness', 'shadow', ['warns novices']],
+      ['unused', 'enforce', []]
+    ]);
+    expect(formatPolicyTestReport(report)).toContain('✗ [2] wrongly expects an allow\n    expected outcome allow');
+  });
+
+  it('records the declared or dimension-derived violation code of each policy', async () => {
+    const report = await runPolicyFixtures([
+      {
+        name: 'no_records',
+        violationCode: 'privacy_breach',
+        conditions: { records: { type: 'pattern_match', value: 'medical records' } },
+        actions: [{ type: 'block' }]
+      },
+      {
+        name: 'fair_ranking',
+        conditions: {
+          ranking: {
+            operator: 'and',
+            conditions: [
+              { type: 'pattern_match', value: 'rank' },
+              { type: 'ethical_dimension_above', dimension: 'fairness', value: 0.8 }
+            ]
+          }
+        },
+        actions: [{ type: 'warn' }]
+      }
+    ], [
+      {
+        name: 'declared code',
+        intent: { type: 'request', text: 'share the medical records' },
+        expect: { outcome: 'block', violationCodes: ['privacy_breach'] }
+      },
+      {
+        name: 'derived code',
+        intent: { type: 'request', text: 'rank the applicants' },
+        assessment: { dimensions: { fairness: 0.9 } },
+        expect: { outcome: 'warn', violationCodes: ['fairness_compromise'] }
+      }
+    ]);
+
+    expect(report.failed, formatPolicyTestReport(report)).toBe(0);
+    expect(() => parsePolicyDocument('policies:\n  - name: p\n    violationCode: harm\n    conditions: {}\n    actions: [{ type: log }]\n'))
+      .toThrow('"violationCode" must be one of autonomy_breach, harm_potential');
+  });
+
+  it('runs fixture files against the policy files they name', async () => {
+    const report = await runPolicyFixtureFile(path.join(__dirname, '../../src/security/policies/securityguardian.fixtures.yaml'));
+
+    expect(report.failed, formatPolicyTestReport(report)).toBe(0);
+    expect(report.total).toBe(3);
+    expect(report.uncovered).toEqual([]);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-fixtures-'));
+    const file = path.join(dir, 'fixtures.yaml');
+    fs.writeFileSync(file, 'fixtures:\n  - intent: write an exploit\n    expect: { outcome: block }\n');
+    await expect(runPolicyFixtureFile(file)).rejects.toThrow('names no policy files');
+    expect((await runPolicyFixtureFile(file, { policies })).passed).toBe(1);
+  });
+
+  it('validates fixture files with locations', () => {
+    try {
+      parsePolicyFixtureDocument([
+        'fixtures:',
+        '  - intent: hello',
+        '    agent: { stage: expert }',
+        '    expect: { outcome: maybe, violationCodes: [harm] }'
+      ].join('\n'));
+      throw new Error('expected a PolicyFileError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyFileError);
+      expect((error as PolicyFileError).message).toContain('Invalid policy fixture file');
+      expect((error as PolicyFileError).issues.map(issue => [issue.path, issue.line])).toEqual([
+        ['fixtures[0].agent.stage', 3],
+        ['fixtures[0].expect.outcome', 4],
+        ['fixtures[0].expect.violationCodes[0]', 4]
+      ]);
+    }
+  });
+});